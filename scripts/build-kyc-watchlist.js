@@ -0,0 +1,67 @@
+#!/usr/bin/env node
+
+/**
+ * KYC Watchlist Builder
+ *
+ * Builds a screening watchlist from OFAC SDN files (CSV or XML) and mapped CSV
+ * lists named in a manifest, reporting every row that could not be imported.
+ * Exits with 1 when a row had an error; the rows that imported are still written.
+ *
+ * Usage:
+ *   node scripts/build-kyc-watchlist.js --manifest src/test/fixtures/watchlists/manifest.json [--out watchlist.json]
+ *
+ * File paths in the manifest are relative to the manifest. Without --out the
+ * watchlist JSON is printed. The TypeScript sources are loaded through Vite's
+ * SSR module loader so the script imports exactly like the upload screen.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { join, dirname, resolve } from 'path';
+import { parseArgs, createSsrServer } from './lib/ssr.js';
+
+const icons = { error: '❌', warning: '⚠️ ' };
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.manifest) {
+    throw new Error('Usage: node scripts/build-kyc-watchlist.js --manifest <manifest.json> [--out <watchlist.json>]');
+  }
+  const manifestPath = resolve(args.manifest);
+  const manifest = JSON.parse(readFileSync(manifestPath, 'utf8'));
+
+  const server = await createSsrServer();
+
+  let build;
+  try {
+    const { buildKycWatchlistFromManifest } = await server.ssrLoadModule('/src/logic/kycWatchlistImport.ts');
+    build = buildKycWatchlistFromManifest(manifest, (path) => readFileSync(join(dirname(manifestPath), path), 'utf8'));
+  } finally {
+    await server.close();
+  }
+
+  const { watchlist, issues } = build;
+  // Progress goes to stderr so the printed watchlist can be piped
+  console.error(`📋 ${watchlist.version}: ${watchlist.entries.length} entries, ${issues.length} issue(s)`);
+  for (const issue of issues) {
+    const row = issue.row === null ? '' : `:${issue.row}`;
+    console.error(`  ${icons[issue.severity]} ${issue.file}${row} ${issue.message}`);
+  }
+
+  const json = `${JSON.stringify(watchlist, null, 2)}\n`;
+  if (args.out) {
+    writeFileSync(resolve(args.out), json);
+    console.error(`💾 Written to ${args.out}`);
+  } else {
+    process.stdout.write(json);
+  }
+
+  if (issues.some((issue) => issue.severity === 'error')) {
+    console.error('Some rows could not be imported');
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
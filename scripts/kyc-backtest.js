@@ -0,0 +1,73 @@
+#!/usr/bin/env node
+
+/**
+ * KYC Population Backtest
+ *
+ * Runs every customer through each registered KYC version and prints the matrix of
+ * decision transitions between two versions (default: first -> last version).
+ *
+ * Usage:
+ *   node scripts/kyc-backtest.js [--from v1] [--to v2] [--csv changed.csv]
+ *
+ * The TypeScript sources are loaded through Vite's SSR module loader so the
+ * script evaluates exactly the same versions as the app.
+ */
+
+import { writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { parseArgs, createSsrServer } from './lib/ssr.js';
+
+function formatMatrix(matrix, decisions, from, to) {
+  const width = 15;
+  const pad = (value) => String(value).padEnd(width);
+  let output = pad(`${from} \\ ${to}`) + decisions.map(pad).join('') + '\n';
+  for (const fromDecision of decisions) {
+    output += pad(fromDecision) + decisions.map((toDecision) => pad(matrix[fromDecision][toDecision])).join('') + '\n';
+  }
+  return output;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  const server = await createSsrServer();
+
+  try {
+    const { seedCustomers } = await server.ssrLoadModule('/src/legacy/customerSeed.ts');
+    const { kycVersionRegistry } = await server.ssrLoadModule('/src/logic/kycVersions.ts');
+    const backtest = await server.ssrLoadModule('/src/logic/kycBacktest.ts');
+
+    const versions = kycVersionRegistry.ids;
+    const from = args.from ?? versions[0];
+    const to = args.to ?? versions[versions.length - 1];
+    for (const version of [from, to]) {
+      if (!versions.includes(version)) {
+        throw new Error(`Unknown KYC version "${version}". Available: ${versions.join(', ')}`);
+      }
+    }
+
+    const rows = backtest.runKycBacktest(seedCustomers, kycVersionRegistry.versions);
+    const matrix = backtest.buildTransitionMatrix(rows, from, to);
+    const changed = backtest.changedDecisions(rows, from, to);
+
+    console.log(`🧪 KYC backtest over ${rows.length} customers (${from} -> ${to})\n`);
+    console.log(formatMatrix(matrix, backtest.kycDecisions, from, to));
+    console.log(`${changed.length} customer(s) change decision:`);
+    for (const { customer, results } of changed) {
+      console.log(`  - ${customer.id} ${customer.name}: ${results[from].decision} -> ${results[to].decision}`);
+    }
+
+    if (args.csv) {
+      const csvPath = resolve(process.cwd(), args.csv);
+      writeFileSync(csvPath, backtest.changedDecisionsToCsv(rows, from, to) + '\n');
+      console.log(`\n📄 Changed decisions written to: ${csvPath}`);
+    }
+  } finally {
+    await server.close();
+  }
+}
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
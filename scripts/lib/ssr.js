@@ -0,0 +1,41 @@
+/**
+ * Shared bootstrap for the KYC scripts
+ *
+ * The TypeScript sources are loaded through Vite's SSR module loader so the
+ * scripts run exactly the same code as the app.
+ */
+
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { createServer } from 'vite';
+
+const projectRoot = join(dirname(fileURLToPath(import.meta.url)), '..', '..');
+
+/**
+ * Reads `--name value` pairs into an object
+ */
+export function parseArgs(argv) {
+  const args = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      args[argv[i].slice(2)] = argv[i + 1];
+      i++;
+    }
+  }
+  return args;
+}
+
+/**
+ * Starts a Vite server that only loads modules; close it when done
+ */
+export function createSsrServer() {
+  return createServer({
+    root: projectRoot,
+    configFile: false,
+    logLevel: 'error',
+    appType: 'custom',
+    server: { middlewareMode: true, hmr: false },
+    // Nothing is served to a browser; skip the dependency scan the quick exit would interrupt
+    optimizeDeps: { noDiscovery: true },
+  });
+}
@@ -0,0 +1,63 @@
+#!/usr/bin/env node
+
+/**
+ * KYC Ruleset Linter
+ *
+ * Statically checks every ruleset-backed KYC version for rules that can never fire,
+ * risk scores no rule covers, and overlapping rules with different outcomes.
+ * Exits with 1 when a live (not retired) version has a dead rule.
+ *
+ * Usage:
+ *   node scripts/lint-kyc-rulesets.js [--version v3]
+ *
+ * The TypeScript sources are loaded through Vite's SSR module loader so the
+ * script lints exactly the same rulesets as the app.
+ */
+
+import { parseArgs, createSsrServer } from './lib/ssr.js';
+
+const icons = { error: '❌', warning: '⚠️ ' };
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  const server = await createSsrServer();
+
+  let failed = false;
+  try {
+    const { kycVersionRegistry } = await server.ssrLoadModule('/src/logic/kycVersions.ts');
+    const { lintKycRuleset } = await server.ssrLoadModule('/src/logic/kycRulesetLint.ts');
+
+    if (args.version && !kycVersionRegistry.ids.includes(args.version)) {
+      throw new Error(`Unknown KYC version "${args.version}". Available: ${kycVersionRegistry.ids.join(', ')}`);
+    }
+    const today = new Date().toISOString().slice(0, 10);
+    const versions = kycVersionRegistry.versions.filter(
+      (version) => version.ruleset && (!args.version || version.id === args.version)
+    );
+
+    for (const version of versions) {
+      const retired = Boolean(version.effectiveTo && version.effectiveTo <= today);
+      const findings = lintKycRuleset(version.ruleset);
+      const status = retired ? ` (retired ${version.effectiveTo})` : '';
+      console.log(`🔎 ${version.id}${status}: ${findings.length} finding(s)`);
+      for (const finding of findings) {
+        console.log(`  ${icons[finding.severity]} [${finding.kind}] ${finding.message}`);
+      }
+      console.log('');
+      if (!retired && findings.some((finding) => finding.severity === 'error')) failed = true;
+    }
+  } finally {
+    await server.close();
+  }
+
+  if (failed) {
+    console.error('Live KYC rulesets have dead rules');
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
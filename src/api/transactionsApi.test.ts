@@ -2,11 +2,31 @@ import { describe, it, expect, vi, beforeEach, afterEach, beforeAll, afterAll }
 import {
   fetchTransactions,
   approveKycDecision,
+  revertKycApproval,
   requestKycDocuments,
+  updateKycDocumentStatus,
+  uploadKycDocumentFile,
+  fetchKycDocumentFileContent,
   holdKycDecision,
+  releaseKycHold,
+  submitKycApproval,
+  confirmKycApproval,
+  rejectKycApproval,
+  type KycDecisionRecord,
   type TransactionFilters,
 } from './transactionsApi';
-import { server, happyPathHandlers } from '../test/test-utils';
+import { kycDocumentChecksum } from '../logic/kycDocumentFiles';
+import { http, HttpResponse } from 'msw';
+import {
+  server,
+  happyPathHandlers,
+  clearMockKycApprovals,
+  clearMockKycDocumentRequests,
+  clearMockKycDocumentFiles,
+  clearMockKycHolds,
+  confirmKycApprovalFailure,
+  revertKycApprovalFailure,
+} from '../test/test-utils';
 
 describe('transactionsApi', () => {
   beforeAll(() => {
@@ -176,6 +196,31 @@ describe('transactionsApi', () => {
       consoleSpy.mockRestore();
     });
 
+    it('should send the decision record with the approval', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      const record: KycDecisionRecord = {
+        decision: 'approve',
+        kycVersion: 'v3',
+        riskScore: 42,
+        riskScoreSource: 'computed',
+        effectiveDate: '2025-11-02',
+        evaluatedAt: '2025-11-02T10:00:00.000Z',
+      };
+      let received: unknown = null;
+      server.use(
+        http.post('*/api/kyc/approve/:customerId', async ({ request }) => {
+          received = await request.json();
+          return HttpResponse.json({ success: true });
+        })
+      );
+
+      const promise = approveKycDecision('C-001', record);
+      vi.advanceTimersByTime(1000);
+      await promise;
+
+      expect(received).toEqual(record);
+    });
+
     it('should simulate API delay', async () => {
       const startTime = Date.now();
       const approvePromise = approveKycDecision('C-001');
@@ -188,22 +233,86 @@ describe('transactionsApi', () => {
     });
   });
 
+  describe('revertKycApproval', () => {
+    it('should revert an approval for a customer', async () => {
+      const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      const promise = revertKycApproval('C-001', 'R-ALEX');
+      vi.advanceTimersByTime(1000);
+      await promise;
+
+      expect(consoleSpy).toHaveBeenCalledWith('KYC approval reverted for customer C-001');
+    });
+
+    it('should throw when the API fails', async () => {
+      server.use(revertKycApprovalFailure);
+
+      const promise = revertKycApproval('C-001', 'R-ALEX');
+      vi.advanceTimersByTime(1000);
+
+      await expect(promise).rejects.toThrow('Failed to revert KYC approval');
+    });
+  });
+
   describe('requestKycDocuments', () => {
+    const request: Parameters<typeof requestKycDocuments>[1] = {
+      documentTypes: ['passport', 'proof_of_address'],
+      dueDate: '2025-11-17',
+      requestedBy: 'R-ALEX',
+    };
+
+    beforeEach(() => {
+      clearMockKycDocumentRequests();
+    });
+
     it('should request documents for a customer', async () => {
       const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
       const customerId = 'C-002';
       
-      const promise = requestKycDocuments(customerId);
+      const promise = requestKycDocuments(customerId, request);
       vi.advanceTimersByTime(1000);
-      await promise;
+      const documentRequest = await promise;
       
       expect(consoleSpy).toHaveBeenCalledWith(`Documents requested for customer ${customerId}`);
+      expect(documentRequest).toMatchObject({ customerId, dueDate: '2025-11-17', requestedBy: 'R-ALEX' });
+      expect(documentRequest.documents.map(({ type, status }) => [type, status])).toEqual([
+        ['passport', 'requested'],
+        ['proof_of_address', 'requested'],
+      ]);
       consoleSpy.mockRestore();
     });
 
+    it('should track the status of each document on its own', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      const requestPromise = requestKycDocuments('C-002', request);
+      vi.advanceTimersByTime(1000);
+      const { id } = await requestPromise;
+
+      const receivedPromise = updateKycDocumentStatus(id, 'passport', 'received', 'R-SAM');
+      vi.advanceTimersByTime(1000);
+      const received = await receivedPromise;
+
+      expect(received.documents).toEqual([
+        expect.objectContaining({ type: 'passport', status: 'received', updatedBy: 'R-SAM' }),
+        expect.objectContaining({ type: 'proof_of_address', status: 'requested', updatedBy: 'R-ALEX' }),
+      ]);
+    });
+
+    it('should refuse to verify a document that has not arrived', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      const requestPromise = requestKycDocuments('C-002', request);
+      vi.advanceTimersByTime(1000);
+      const { id } = await requestPromise;
+
+      const verifyPromise = updateKycDocumentStatus(id, 'passport', 'verified', 'R-SAM');
+      vi.advanceTimersByTime(1000);
+
+      await expect(verifyPromise).rejects.toThrow('Document passport is requested and cannot be marked verified');
+    });
+
     it('should simulate API delay', async () => {
       const startTime = Date.now();
-      const requestPromise = requestKycDocuments('C-002');
+      const requestPromise = requestKycDocuments('C-002', request);
       
       vi.advanceTimersByTime(1000);
       await requestPromise;
@@ -213,22 +322,122 @@ describe('transactionsApi', () => {
     });
   });
 
+  describe('document files', () => {
+    const content = new TextEncoder().encode('%PDF-1.4 << /Type /Page >> << /Type /Page >>').buffer as ArrayBuffer;
+    const upload = {
+      customerId: 'C-002',
+      requestId: 'DR-1',
+      documentType: 'bank_statement' as const,
+      fileName: 'statement.pdf',
+      mimeType: 'application/pdf',
+      checksum: '',
+      uploadedBy: 'R-ALEX',
+    };
+
+    beforeEach(async () => {
+      clearMockKycDocumentFiles();
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      upload.checksum = await kycDocumentChecksum(content);
+    });
+
+    it('should upload a file linked to its document request and return it unchanged', async () => {
+      const promise = uploadKycDocumentFile(upload, content);
+      vi.advanceTimersByTime(1000);
+      const file = await promise;
+
+      expect(file).toMatchObject({ ...upload, size: content.byteLength, pageCount: 2 });
+      expect(await kycDocumentChecksum(await fetchKycDocumentFileContent(file.id))).toBe(upload.checksum);
+    });
+
+    it('should refuse content that does not match its checksum', async () => {
+      const promise = uploadKycDocumentFile({ ...upload, checksum: '0'.repeat(64) }, content);
+      vi.advanceTimersByTime(1000);
+
+      await expect(promise).rejects.toThrow('Checksum mismatch: the file was altered in transit');
+    });
+
+    it('should fail to fetch an unknown file', async () => {
+      await expect(fetchKycDocumentFileContent('F-404')).rejects.toThrow('Failed to fetch document F-404');
+    });
+  });
+
   describe('holdKycDecision', () => {
+    const hold: Parameters<typeof holdKycDecision>[1] = {
+      reason: 'suspicious_activity',
+      expiresAt: '2025-11-10T00:00:00.000Z',
+      placedBy: 'R-ALEX',
+    };
+
+    // Statuses of a customer's transactions as the API reports them
+    const fetchStatuses = async (customerId: string) => {
+      const promise = fetchTransactions({ customerId });
+      vi.advanceTimersByTime(500);
+      return (await promise).transactions.map(({ id, status }) => [id, status]);
+    };
+
+    const placeHold = async (customerId = 'C-002') => {
+      const promise = holdKycDecision(customerId, hold);
+      vi.advanceTimersByTime(1000);
+      return promise;
+    };
+
+    beforeEach(() => {
+      vi.setSystemTime(new Date('2025-11-03T09:00:00.000Z'));
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      clearMockKycHolds();
+    });
+
     it('should hold KYC decision for a customer', async () => {
-      const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
-      const customerId = 'C-003';
-      
-      const promise = holdKycDecision(customerId);
+      const placed = await placeHold();
+
+      expect(console.log).toHaveBeenCalledWith('KYC decision held for customer C-002');
+      expect(placed).toMatchObject({
+        customerId: 'C-002',
+        reason: 'suspicious_activity',
+        placedBy: 'R-ALEX',
+        expiresAt: '2025-11-10T00:00:00.000Z',
+      });
+    });
+
+    it('should put pending transactions on hold until the hold is released', async () => {
+      const { id } = await placeHold();
+      expect(await fetchStatuses('C-002')).toEqual([
+        ['T-001', 'completed'],
+        ['T-002', 'on_hold'],
+      ]);
+
+      const releasePromise = releaseKycHold(id, 'R-SAM');
       vi.advanceTimersByTime(1000);
-      await promise;
-      
-      expect(consoleSpy).toHaveBeenCalledWith(`KYC decision held for customer ${customerId}`);
-      consoleSpy.mockRestore();
+      const released = await releasePromise;
+
+      expect(released).toMatchObject({ id, releasedBy: 'R-SAM' });
+      expect(released.releasedAt).toEqual(expect.any(String));
+      expect(await fetchStatuses('C-002')).toEqual([
+        ['T-001', 'completed'],
+        ['T-002', 'pending'],
+      ]);
+    });
+
+    it('should lift the hold once it expires', async () => {
+      const { id } = await placeHold();
+      vi.setSystemTime(new Date(hold.expiresAt));
+
+      expect(await fetchStatuses('C-002')).toContainEqual(['T-002', 'pending']);
+
+      const releasePromise = releaseKycHold(id, 'R-SAM');
+      vi.advanceTimersByTime(1000);
+      await expect(releasePromise).rejects.toThrow(`Hold ${id} is already expired`);
+    });
+
+    it('should refuse a second hold while one is active', async () => {
+      await placeHold();
+
+      await expect(placeHold()).rejects.toThrow('Customer C-002 is already on hold');
     });
 
     it('should simulate API delay', async () => {
       const startTime = Date.now();
-      const holdPromise = holdKycDecision('C-003');
+      const holdPromise = holdKycDecision('C-003', hold);
       
       vi.advanceTimersByTime(1000);
       await holdPromise;
@@ -237,5 +446,70 @@ describe('transactionsApi', () => {
       expect(endTime - startTime).toBeGreaterThanOrEqual(0);
     });
   });
-});
 
+  describe('four-eyes approvals', () => {
+    const record: KycDecisionRecord = {
+      decision: 'deny',
+      kycVersion: 'v3',
+      riskScore: 91,
+      riskScoreSource: 'supplied',
+      effectiveDate: '2025-11-02',
+      evaluatedAt: '2025-11-02T10:00:00.000Z',
+    };
+
+    // Advances past the simulated delay of an approval call
+    const settle = async <T>(promise: Promise<T>) => {
+      vi.advanceTimersByTime(1000);
+      return promise;
+    };
+
+    beforeEach(() => {
+      clearMockKycApprovals();
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    it('should submit a pending approval with the maker and the overridden decision', async () => {
+      const approval = await settle(submitKycApproval('C-003', 'R-ALEX', record));
+
+      expect(approval).toMatchObject({ customerId: 'C-003', status: 'pending', makerId: 'R-ALEX', record });
+      expect(Date.parse(approval.submittedAt)).not.toBeNaN();
+    });
+
+    it('should refuse a second pending approval for the same customer', async () => {
+      await settle(submitKycApproval('C-003', 'R-ALEX', record));
+
+      await expect(settle(submitKycApproval('C-003', 'R-SAM', record))).rejects.toThrow(
+        'An approval is already pending for customer C-003'
+      );
+    });
+
+    it('should record the checker when a different reviewer confirms or rejects', async () => {
+      const first = await settle(submitKycApproval('C-003', 'R-ALEX', record));
+      const confirmed = await settle(confirmKycApproval(first.id, 'R-SAM'));
+      const second = await settle(submitKycApproval('C-003', 'R-ALEX', record));
+      const rejected = await settle(rejectKycApproval(second.id, 'R-JORDAN'));
+
+      expect(confirmed).toMatchObject({ status: 'confirmed', makerId: 'R-ALEX', checkerId: 'R-SAM' });
+      expect(Date.parse(confirmed.decidedAt ?? '')).not.toBeNaN();
+      expect(rejected).toMatchObject({ status: 'rejected', checkerId: 'R-JORDAN' });
+    });
+
+    it('should not let the maker check their own approval or decide it twice', async () => {
+      const approval = await settle(submitKycApproval('C-003', 'R-ALEX', record));
+
+      await expect(settle(confirmKycApproval(approval.id, 'R-ALEX'))).rejects.toThrow(
+        'An approval must be confirmed or rejected by a different reviewer'
+      );
+      await settle(rejectKycApproval(approval.id, 'R-SAM'));
+      await expect(settle(confirmKycApproval(approval.id, 'R-JORDAN'))).rejects.toThrow(
+        `Approval ${approval.id} is already rejected`
+      );
+    });
+
+    it('should throw when the API fails', async () => {
+      server.use(confirmKycApprovalFailure);
+
+      await expect(settle(confirmKycApproval('A-1', 'R-SAM'))).rejects.toThrow('Failed to confirm KYC approval');
+    });
+  });
+});
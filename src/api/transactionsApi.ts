@@ -1,3 +1,13 @@
+import type { KycDecision } from '../logic/kycRules.v1';
+import type { KycRiskScoreSource } from '../logic/kycRiskScore';
+import type { KycJustification } from '../logic/kycJustification';
+import type {
+  KycDocumentRequestInput,
+  KycDocumentType,
+  KycRequestedDocumentStatus,
+} from '../logic/kycDocumentRequests';
+import type { KycHoldReason } from '../logic/kycHolds';
+
 export interface Transaction {
   id: string;
   customerId: string;
@@ -5,7 +15,7 @@ export interface Transaction {
   amount: number;
   currency: string;
   type: 'payment' | 'refund' | 'chargeback';
-  status: 'completed' | 'pending' | 'failed';
+  status: 'completed' | 'pending' | 'failed' | 'on_hold'; // on_hold: pending, but blocked by a KYC hold
   date: string;
   description?: string;
 }
@@ -20,6 +30,78 @@ export interface TransactionFilters {
   pageSize?: number;
 }
 
+// KYC evaluation a reviewer acted on, stored alongside the action
+export interface KycDecisionRecord {
+  decision: KycDecision;
+  kycVersion: string; // Version whose decision was shown
+  riskScore: number; // Score the version was evaluated with
+  riskScoreSource: KycRiskScoreSource;
+  effectiveDate: string; // UTC date (YYYY-MM-DD) the version was picked for
+  evaluatedAt: string; // ISO timestamp of the evaluation
+  justification?: KycJustification; // Reviewer's rationale when the action goes against the decision
+}
+
+export type KycApprovalStatus = 'pending' | 'confirmed' | 'rejected';
+
+// Approval against the engine's recommendation, confirmed or rejected by a second reviewer
+export interface KycApproval {
+  id: string;
+  customerId: string;
+  status: KycApprovalStatus;
+  record?: KycDecisionRecord; // Decision the approval overrides
+  makerId: string; // Reviewer who submitted the approval
+  submittedAt: string; // ISO timestamp
+  checkerId?: string; // Reviewer who confirmed or rejected it
+  decidedAt?: string; // ISO timestamp
+}
+
+export interface KycRequestedDocument {
+  type: KycDocumentType;
+  status: KycRequestedDocumentStatus;
+  updatedBy: string; // Reviewer who last changed the status (the requester at first)
+  updatedAt: string; // ISO timestamp
+}
+
+// Documents asked of a customer in one Request Docs action, each tracked on its own
+export interface KycDocumentRequest {
+  id: string;
+  customerId: string;
+  documents: KycRequestedDocument[];
+  dueDate: string; // YYYY-MM-DD
+  requestedBy: string; // Reviewer who made the request
+  requestedAt: string; // ISO timestamp
+  record?: KycDecisionRecord; // Decision the request was made on
+}
+
+// File uploaded as evidence for a requested document
+export interface KycDocumentFile {
+  id: string;
+  customerId: string;
+  requestId: string; // Document request the file answers
+  documentType: KycDocumentType;
+  fileName: string;
+  mimeType: string;
+  size: number; // Bytes
+  pageCount: number;
+  checksum: string; // SHA-256 of the content (hex), checked again whenever the file is viewed
+  uploadedBy: string;
+  uploadedAt: string; // ISO timestamp
+}
+
+// Hold placed on a customer, blocking their pending transactions until it is released or expires
+export interface KycHold {
+  id: string;
+  customerId: string;
+  reason: KycHoldReason;
+  note?: string;
+  placedBy: string; // Reviewer who placed the hold
+  placedAt: string; // ISO timestamp
+  expiresAt: string; // ISO timestamp the hold lifts itself at
+  releasedBy?: string; // Reviewer who released it before it expired
+  releasedAt?: string; // ISO timestamp
+  record?: KycDecisionRecord; // Decision the hold was placed on
+}
+
 export interface TransactionsResponse {
   transactions: Transaction[];
   total: number;
@@ -56,66 +138,224 @@ export async function fetchTransactions(
   return response.json();
 }
 
-/**
- * Approve a KYC decision
- * Uses MSW for mocking in tests
- */
-export async function approveKycDecision(customerId: string): Promise<void> {
+// POST options for a KYC action, with the decision record as JSON body when given
+function kycActionInit(record?: KycDecisionRecord): RequestInit {
+  if (!record) return { method: 'POST' };
+  return {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(record),
+  };
+}
+
+// POSTs a JSON body to a KYC endpoint and returns what it answers with
+async function postKycJson<T>(url: string, body: unknown, failureMessage: string): Promise<T> {
   // Simulate API delay
   await new Promise(resolve => setTimeout(resolve, 1000));
 
-  const response = await fetch(`/api/kyc/approve/${customerId}`, {
+  const response = await fetch(url, {
     method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
   });
 
   if (!response.ok) {
     const error = await response.json().catch(() => ({ error: response.statusText }));
-    throw new Error(error.error || `Failed to approve KYC: ${response.statusText}`);
+    throw new Error(error.error || `${failureMessage}: ${response.statusText}`);
   }
 
-  await response.json();
-  console.log(`KYC approved for customer ${customerId}`);
+  return response.json();
 }
 
 /**
- * Request KYC documents
+ * Approve a KYC decision
  * Uses MSW for mocking in tests
  */
-export async function requestKycDocuments(customerId: string): Promise<void> {
+export async function approveKycDecision(
+  customerId: string,
+  record?: KycDecisionRecord
+): Promise<void> {
   // Simulate API delay
   await new Promise(resolve => setTimeout(resolve, 1000));
 
-  const response = await fetch(`/api/kyc/request-documents/${customerId}`, {
-    method: 'POST',
-  });
+  const response = await fetch(`/api/kyc/approve/${customerId}`, kycActionInit(record));
 
   if (!response.ok) {
     const error = await response.json().catch(() => ({ error: response.statusText }));
-    throw new Error(error.error || `Failed to request documents: ${response.statusText}`);
+    throw new Error(error.error || `Failed to approve KYC: ${response.statusText}`);
   }
 
   await response.json();
+  console.log(`KYC approved for customer ${customerId}`);
+}
+
+/**
+ * Revert an approval that was undone after it had been sent, putting the customer back under review
+ * Uses MSW for mocking in tests
+ */
+export async function revertKycApproval(customerId: string, reviewerId: string): Promise<void> {
+  await postKycJson<unknown>(`/api/kyc/approve/${customerId}/revert`, { reviewerId }, 'Failed to revert KYC approval');
+  console.log(`KYC approval reverted for customer ${customerId}`);
+}
+
+/**
+ * Request KYC documents of the given types from a customer
+ * Uses MSW for mocking in tests
+ */
+export async function requestKycDocuments(
+  customerId: string,
+  request: KycDocumentRequestInput & { requestedBy: string },
+  record?: KycDecisionRecord
+): Promise<KycDocumentRequest> {
+  const documentRequest = await postKycJson<KycDocumentRequest>(
+    `/api/kyc/request-documents/${customerId}`,
+    { ...request, record },
+    'Failed to request documents'
+  );
   console.log(`Documents requested for customer ${customerId}`);
+  return documentRequest;
 }
 
 /**
- * Hold a KYC decision
+ * Mark a requested document as received, verified or rejected
  * Uses MSW for mocking in tests
  */
-export async function holdKycDecision(customerId: string): Promise<void> {
+export async function updateKycDocumentStatus(
+  requestId: string,
+  documentType: KycDocumentType,
+  status: KycRequestedDocumentStatus,
+  reviewerId: string
+): Promise<KycDocumentRequest> {
+  const documentRequest = await postKycJson<KycDocumentRequest>(
+    `/api/kyc/document-requests/${requestId}/documents/${documentType}`,
+    { status, reviewerId },
+    'Failed to update document status'
+  );
+  console.log(`Document ${documentType} of request ${requestId} marked ${status}`);
+  return documentRequest;
+}
+
+/**
+ * Upload a file as evidence for a requested document
+ * The content is sent as is with its SHA-256; the API refuses content that does not match it
+ * Uses MSW for mocking in tests
+ */
+export async function uploadKycDocumentFile(
+  upload: Omit<KycDocumentFile, 'id' | 'size' | 'pageCount' | 'uploadedAt'>,
+  content: ArrayBuffer
+): Promise<KycDocumentFile> {
+  const params = new URLSearchParams({
+    customerId: upload.customerId,
+    requestId: upload.requestId,
+    documentType: upload.documentType,
+    fileName: upload.fileName,
+    uploadedBy: upload.uploadedBy,
+  });
+
   // Simulate API delay
   await new Promise(resolve => setTimeout(resolve, 1000));
 
-  const response = await fetch(`/api/kyc/hold/${customerId}`, {
+  const response = await fetch(`/api/kyc/documents?${params.toString()}`, {
     method: 'POST',
+    headers: { 'Content-Type': upload.mimeType, 'X-Content-SHA256': upload.checksum },
+    body: content,
   });
 
   if (!response.ok) {
     const error = await response.json().catch(() => ({ error: response.statusText }));
-    throw new Error(error.error || `Failed to hold KYC: ${response.statusText}`);
+    throw new Error(error.error || `Failed to upload document: ${response.statusText}`);
   }
 
-  await response.json();
+  const file: KycDocumentFile = await response.json();
+  console.log(`Document ${file.fileName} uploaded for customer ${file.customerId}`);
+  return file;
+}
+
+/**
+ * Fetch the content of an uploaded file
+ * Uses MSW for mocking in tests
+ */
+export async function fetchKycDocumentFileContent(fileId: string): Promise<ArrayBuffer> {
+  const response = await fetch(`/api/kyc/documents/${fileId}/content`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch document ${fileId}: ${response.statusText}`);
+  }
+
+  return response.arrayBuffer();
+}
+
+/**
+ * Hold a customer: their pending transactions are put on hold until the hold is released or expires
+ * Uses MSW for mocking in tests
+ */
+export async function holdKycDecision(
+  customerId: string,
+  hold: Pick<KycHold, 'reason' | 'note' | 'expiresAt' | 'placedBy'>,
+  record?: KycDecisionRecord
+): Promise<KycHold> {
+  const placed = await postKycJson<KycHold>(`/api/kyc/hold/${customerId}`, { ...hold, record }, 'Failed to hold KYC');
   console.log(`KYC decision held for customer ${customerId}`);
+  return placed;
+}
+
+/**
+ * Release a hold before it expires, putting the held transactions back to pending
+ * Uses MSW for mocking in tests
+ */
+export async function releaseKycHold(holdId: string, reviewerId: string): Promise<KycHold> {
+  const released = await postKycJson<KycHold>(
+    `/api/kyc/holds/${holdId}/release`,
+    { reviewerId },
+    'Failed to release KYC hold'
+  );
+  console.log(`KYC hold ${holdId} released`);
+  return released;
+}
+
+/**
+ * Submit an approval against the engine's recommendation
+ * It only takes effect once a different reviewer confirms it
+ * Uses MSW for mocking in tests
+ */
+export async function submitKycApproval(
+  customerId: string,
+  makerId: string,
+  record?: KycDecisionRecord
+): Promise<KycApproval> {
+  const approval = await postKycJson<KycApproval>(
+    '/api/kyc/approvals',
+    { customerId, makerId, record },
+    'Failed to submit KYC approval'
+  );
+  console.log(`KYC approval submitted for customer ${customerId}`);
+  return approval;
 }
 
+/**
+ * Confirm a pending approval as the second reviewer, approving the customer
+ * Uses MSW for mocking in tests
+ */
+export async function confirmKycApproval(approvalId: string, checkerId: string): Promise<KycApproval> {
+  const approval = await postKycJson<KycApproval>(
+    `/api/kyc/approvals/${approvalId}/confirm`,
+    { checkerId },
+    'Failed to confirm KYC approval'
+  );
+  console.log(`KYC approval ${approvalId} confirmed`);
+  return approval;
+}
+
+/**
+ * Reject a pending approval as the second reviewer
+ * Uses MSW for mocking in tests
+ */
+export async function rejectKycApproval(approvalId: string, checkerId: string): Promise<KycApproval> {
+  const approval = await postKycJson<KycApproval>(
+    `/api/kyc/approvals/${approvalId}/reject`,
+    { checkerId },
+    'Failed to reject KYC approval'
+  );
+  console.log(`KYC approval ${approvalId} rejected`);
+  return approval;
+}
@@ -0,0 +1,40 @@
+interface ExportButtonProps {
+  filename: string;
+  getContent: () => string;
+  mimeType?: string;
+  disabled?: boolean;
+  children: React.ReactNode;
+}
+
+/**
+ * Export Button - Downloads generated text content (CSV, JSON) as a file
+ * Content is produced lazily on click so large exports aren't built on every render
+ */
+export function ExportButton({
+  filename,
+  getContent,
+  mimeType = 'text/csv',
+  disabled = false,
+  children,
+}: ExportButtonProps) {
+  const handleClick = () => {
+    const blob = new Blob([getContent()], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      disabled={disabled}
+      className="px-3 py-1.5 bg-gray-800 text-white rounded-md text-xs font-semibold hover:bg-gray-900 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+    >
+      {children}
+    </button>
+  );
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import { render, screen, renderHook } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { FeatureFlagsPanel } from './FeatureFlagsPanel';
+import { useFeatureFlags } from '../state/featureFlags';
+import { useKycEngine } from '../logic/useKycEngine';
+import { customerToKycInput } from '../logic/customerKycInput';
+import { emptyKycRollout } from '../logic/kycRollout';
+
+const germanCustomer = { id: 'C-900', name: 'Lena Vogel', riskScore: 30, country: 'DE' };
+
+describe('FeatureFlagsPanel', () => {
+  beforeAll(() => {
+    // jsdom has no modal dialog support
+    HTMLDialogElement.prototype.showModal = function showModal() {
+      this.open = true;
+    };
+    HTMLDialogElement.prototype.close = function close() {
+      this.open = false;
+    };
+  });
+
+  beforeEach(() => {
+    localStorage.removeItem('feature-flags-storage');
+    useFeatureFlags.setState({
+      kycVersion: 'v1',
+      kycShadowVersions: [],
+      kycRollout: { ...emptyKycRollout, enabled: true },
+    });
+  });
+
+  const enterCountryOverrides = async (text: string) => {
+    const user = userEvent.setup();
+    render(<FeatureFlagsPanel isOpen onClose={() => {}} />);
+    const input = screen.getByPlaceholderText('DE=v3');
+    await user.type(input, text);
+    await user.tab();
+  };
+
+  it('should evaluate customers of an allowed country with the version entered for it', async () => {
+    await enterCountryOverrides('de=v3');
+
+    expect(useFeatureFlags.getState().kycRollout.allowCountries).toEqual([{ id: 'DE', version: 'v3' }]);
+    const { result } = renderHook(() => useKycEngine());
+    const evaluation = result.current.evaluate(customerToKycInput(germanCustomer, null));
+    expect(evaluation.version).toBe('v3');
+    expect(evaluation.assignment?.rule).toBe('country_allow');
+  });
+
+  it('should refuse overrides naming an unknown version', async () => {
+    await enterCountryOverrides('DE=v3, FR=v9');
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Unknown version v9');
+    expect(useFeatureFlags.getState().kycRollout.allowCountries).toEqual([]);
+  });
+});
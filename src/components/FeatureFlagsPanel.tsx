@@ -1,11 +1,30 @@
-import { useEffect, useRef } from 'react';
-import { useFeatureFlags } from '../state/featureFlags';
+import { useEffect, useRef, useState } from 'react';
+import { MAX_KYC_UNDO_SECONDS, useFeatureFlags } from '../state/featureFlags';
+import { useKycDivergenceLog, divergenceLogToCsv } from '../state/kycDivergenceLog';
+import { kycVersionRegistry } from '../logic/kycVersions';
+import {
+  formatKycRolloutOverrides,
+  parseKycRolloutIds,
+  parseKycRolloutOverrides,
+  resolveKycRolloutOverrides,
+  type KycRollout,
+  type KycRolloutOverride,
+} from '../logic/kycRollout';
+import type { KycRiskScoreSource } from '../logic/kycRiskScore';
+import { ExportButton } from './ExportButton';
+import { KycVersionBadge } from './KycVersionBadge';
+import { getKycVersionStyles } from './kycVersionStyles';
 
 interface FeatureFlagsPanelProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
+const riskScoreSources: Array<{ source: KycRiskScoreSource; label: string; description: string }> = [
+  { source: 'supplied', label: 'Supplied', description: "Use the customer record's risk score" },
+  { source: 'computed', label: 'Computed', description: 'Compute the score from weighted risk factors' },
+];
+
 /**
  * Feature Flags Panel - Panel content for managing feature flags
  * Uses HTML dialog element with backdrop for click-outside-to-close functionality
@@ -15,9 +34,98 @@ export function FeatureFlagsPanel({ isOpen, onClose }: FeatureFlagsPanelProps) {
   const {
     kycVersion,
     setKycVersion,
+    kycShadowVersions,
+    setKycShadowVersions,
+    kycRollout,
+    setKycRollout,
+    kycRiskScoreSource,
+    setKycRiskScoreSource,
+    kycUndoSeconds,
+    setKycUndoSeconds,
     showComponentOutlines,
     setShowComponentOutlines,
   } = useFeatureFlags();
+  const { entries: divergenceEntries, clear: clearDivergenceLog } = useKycDivergenceLog();
+
+  const candidateVersions = kycVersionRegistry.versions.filter((version) => version.id !== kycVersion);
+
+  const toggleShadowVersion = (version: string, enabled: boolean) => {
+    setKycShadowVersions(
+      enabled
+        ? [...kycShadowVersions.filter((v) => v !== version), version]
+        : kycShadowVersions.filter((v) => v !== version)
+    );
+  };
+
+  const updateRollout = (changes: Partial<KycRollout>) => setKycRollout({ ...kycRollout, ...changes });
+
+  const rolloutPercent = (version: string) =>
+    kycRollout.split.find((entry) => entry.version === version)?.percent ?? 0;
+
+  const setRolloutPercent = (version: string, percent: number) => {
+    const clamped = Math.min(100, Math.max(0, Math.round(percent) || 0));
+    // Entries keep their position so other versions' customers are not reshuffled
+    const split = kycRollout.split.some((entry) => entry.version === version)
+      ? kycRollout.split.map((entry) => (entry.version === version ? { version, percent: clamped } : entry))
+      : [...kycRollout.split, { version, percent: clamped }];
+    updateRollout({ split });
+  };
+
+  // Override lists naming an unknown version are not saved; the reason is shown under the input
+  const [rolloutListErrors, setRolloutListErrors] = useState<Record<string, string>>({});
+
+  const commitRolloutOverrides = (
+    label: string,
+    text: string,
+    save: (overrides: KycRolloutOverride[]) => void,
+    normalizeId: (id: string) => string = (id) => id
+  ) => {
+    const parsed = parseKycRolloutOverrides(text).map(({ id, version }) => ({ id: normalizeId(id), version }));
+    const { overrides, unknownVersions } = resolveKycRolloutOverrides(parsed, kycVersionRegistry.ids);
+    const error = unknownVersions.length
+      ? `Unknown version ${unknownVersions.join(', ')}; use ${kycVersionRegistry.ids.join(', ')}`
+      : '';
+    setRolloutListErrors((errors) => ({ ...errors, [label]: error }));
+    if (!error) save(overrides);
+  };
+
+  const rolloutTotal = kycRollout.split.reduce((total, entry) => total + entry.percent, 0);
+
+  // List inputs are committed on blur so partially typed entries are not dropped
+  const rolloutListInputs = [
+    {
+      label: 'Allow customers',
+      placeholder: 'C-001=v3, C-002=v2',
+      value: formatKycRolloutOverrides(kycRollout.allowCustomers),
+      commit: (text: string) =>
+        commitRolloutOverrides('Allow customers', text, (allowCustomers) => updateRollout({ allowCustomers })),
+    },
+    {
+      label: 'Allow countries',
+      placeholder: 'DE=v3',
+      value: formatKycRolloutOverrides(kycRollout.allowCountries),
+      // Country codes are upper-cased; versions are matched to registered ids
+      commit: (text: string) =>
+        commitRolloutOverrides(
+          'Allow countries',
+          text,
+          (allowCountries) => updateRollout({ allowCountries }),
+          (id) => id.toUpperCase()
+        ),
+    },
+    {
+      label: 'Deny customers',
+      placeholder: 'C-003, C-004',
+      value: kycRollout.denyCustomers.join(', '),
+      commit: (text: string) => updateRollout({ denyCustomers: parseKycRolloutIds(text) }),
+    },
+    {
+      label: 'Deny countries',
+      placeholder: 'GB, FR',
+      value: kycRollout.denyCountries.join(', '),
+      commit: (text: string) => updateRollout({ denyCountries: parseKycRolloutIds(text.toUpperCase()) }),
+    },
+  ];
 
   useEffect(() => {
     const dialog = dialogRef.current;
@@ -76,37 +184,171 @@ export function FeatureFlagsPanel({ isOpen, onClose }: FeatureFlagsPanelProps) {
       <div className="flex items-center gap-4 p-4 bg-white rounded-lg border-2 border-gray-200">
         <span className="text-sm font-semibold text-gray-700">KYC Engine Version:</span>
         <div className="flex gap-2">
-          <button
-            onClick={() => setKycVersion('v1')}
-            className={`px-6 py-2 rounded-md text-sm font-bold transition-all ${
-              kycVersion === 'v1'
-                ? 'bg-blue-600 text-white shadow-lg scale-105 ring-2 ring-blue-300'
-                : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
-            }`}
+          {kycVersionRegistry.versions.map((version) => (
+            <button
+              key={version.id}
+              onClick={() => setKycVersion(version.id)}
+              title={version.description}
+              className={`px-6 py-2 rounded-md text-sm font-bold transition-all ${
+                kycVersion === version.id
+                  ? getKycVersionStyles(version.id).button
+                  : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+              }`}
+            >
+              {version.label}
+            </button>
+          ))}
+        </div>
+        <KycVersionBadge version={kycVersion} variant="soft" prefix="Active: " />
+        <span className="text-xs text-gray-600 ml-auto">
+          (Toggle to see how logic changes affect decision)
+        </span>
+      </div>
+
+      {/* KYC Risk Score Source */}
+      <div className="flex items-center gap-4 p-4 bg-white rounded-lg border-2 border-gray-200">
+        <span className="text-sm font-semibold text-gray-700">Risk Score:</span>
+        <div className="flex gap-2" role="group" aria-label="Risk score source">
+          {riskScoreSources.map(({ source, label, description }) => (
+            <button
+              key={source}
+              type="button"
+              onClick={() => setKycRiskScoreSource(source)}
+              title={description}
+              aria-pressed={kycRiskScoreSource === source}
+              className={`px-4 py-2 rounded-md text-sm font-semibold transition-all ${
+                kycRiskScoreSource === source ? 'bg-gray-800 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <span className="text-xs text-gray-600 ml-auto">
+          (Computed scores are broken down by factor in the KYC Decision panel)
+        </span>
+      </div>
+
+      {/* KYC Undo Window */}
+      <div className="flex items-center gap-4 p-4 bg-white rounded-lg border-2 border-gray-200">
+        <label htmlFor="kyc-undo-seconds" className="text-sm font-semibold text-gray-700">
+          Undo Window:
+        </label>
+        <input
+          id="kyc-undo-seconds"
+          type="number"
+          min={0}
+          max={MAX_KYC_UNDO_SECONDS}
+          value={kycUndoSeconds}
+          onChange={(e) => setKycUndoSeconds(e.target.valueAsNumber)}
+          className="w-16 px-2 py-1 border border-gray-300 rounded-md text-sm"
+        />
+        <span className="text-sm text-gray-700">seconds</span>
+        <span className="text-xs text-gray-600 ml-auto">
+          (Approve and Hold wait this long before they are sent; 0 sends them right away)
+        </span>
+      </div>
+
+      {/* KYC Shadow Evaluation */}
+      <div className="flex items-center gap-4 p-4 bg-white rounded-lg border-2 border-gray-200">
+        <span className="text-sm font-semibold text-gray-700">Shadow Evaluation:</span>
+        <div className="flex gap-3">
+          {candidateVersions.map((version) => (
+            <label key={version.id} className="flex items-center gap-1 text-sm text-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={kycShadowVersions.includes(version.id)}
+                onChange={(e) => toggleShadowVersion(version.id, e.target.checked)}
+                aria-label={`Shadow evaluate with ${version.label}`}
+              />
+              {version.label}
+            </label>
+          ))}
+        </div>
+        <span className="text-xs text-gray-600">
+          {divergenceEntries.length} divergence{divergenceEntries.length === 1 ? '' : 's'} logged
+        </span>
+        <div className="flex gap-2 ml-auto">
+          <ExportButton
+            filename="kyc-divergences.csv"
+            getContent={() => divergenceLogToCsv(divergenceEntries)}
+            disabled={divergenceEntries.length === 0}
           >
-            v1
-          </button>
+            Export CSV
+          </ExportButton>
           <button
-            onClick={() => setKycVersion('v2')}
-            className={`px-6 py-2 rounded-md text-sm font-bold transition-all ${
-              kycVersion === 'v2'
-                ? 'bg-purple-600 text-white shadow-lg scale-105 ring-2 ring-purple-300'
-                : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
-            }`}
+            type="button"
+            onClick={clearDivergenceLog}
+            disabled={divergenceEntries.length === 0}
+            className="px-3 py-1.5 bg-gray-200 text-gray-700 rounded-md text-xs font-semibold hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
           >
-            v2
+            Clear
           </button>
         </div>
-        <div className={`px-3 py-1 rounded-full text-xs font-bold ${
-          kycVersion === 'v1' 
-            ? 'bg-blue-100 text-blue-800 border border-blue-300' 
-            : 'bg-purple-100 text-purple-800 border border-purple-300'
-        }`}>
-          Active: {kycVersion.toUpperCase()}
+      </div>
+
+      {/* Staged KYC Rollout */}
+      <div className="p-4 bg-white rounded-lg border-2 border-gray-200 space-y-3">
+        <div className="flex items-center gap-4">
+          <label className="flex items-center gap-2 text-sm font-semibold text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={kycRollout.enabled}
+              onChange={(e) => updateRollout({ enabled: e.target.checked })}
+              aria-label="Enable staged KYC rollout"
+            />
+            Staged Rollout
+          </label>
+          <span className="text-xs text-gray-600">
+            Customers are bucketed by id; {100 - Math.min(100, rolloutTotal)}% stay on{' '}
+            {kycVersionRegistry.resolve(kycVersion).label}
+          </span>
+        </div>
+        <div className="flex gap-4">
+          {candidateVersions.map((version) => (
+            <label key={version.id} className="flex items-center gap-1 text-sm text-gray-700">
+              {version.label}
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={rolloutPercent(version.id)}
+                onChange={(e) => setRolloutPercent(version.id, e.target.valueAsNumber)}
+                disabled={!kycRollout.enabled}
+                className="w-16 px-2 py-1 border border-gray-300 rounded-md text-sm disabled:opacity-50"
+                aria-label={`Rollout percentage for ${version.label}`}
+              />
+              %
+            </label>
+          ))}
+        </div>
+        {rolloutTotal > 100 && (
+          <p className="text-xs text-red-700" role="alert">
+            Rollout percentages add up to {rolloutTotal}%; versions listed last get fewer customers
+          </p>
+        )}
+        <div className="grid grid-cols-2 gap-2">
+          {rolloutListInputs.map(({ label, placeholder, value, commit }) => (
+            <label key={label} className="text-xs text-gray-700">
+              {label}
+              <input
+                key={value}
+                type="text"
+                defaultValue={value}
+                placeholder={placeholder}
+                onBlur={(e) => commit(e.target.value)}
+                disabled={!kycRollout.enabled}
+                className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md text-sm disabled:opacity-50"
+                aria-invalid={rolloutListErrors[label] ? 'true' : 'false'}
+              />
+              {rolloutListErrors[label] && (
+                <span className="block mt-1 text-red-700" role="alert">
+                  {rolloutListErrors[label]}
+                </span>
+              )}
+            </label>
+          ))}
         </div>
-        <span className="text-xs text-gray-600 ml-auto">
-          (Toggle to see how logic changes affect decision)
-        </span>
       </div>
 
       {/* Component Outlines Toggle */}
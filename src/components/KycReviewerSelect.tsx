@@ -0,0 +1,25 @@
+import { kycReviewers } from '../logic/kycReviewers';
+import { useKycReviewer } from '../state/kycReviewer';
+
+/**
+ * UI Component: Picks the reviewer claims and actions are recorded for
+ */
+export function KycReviewerSelect() {
+  const { reviewerId, setReviewer } = useKycReviewer();
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <label htmlFor="kyc-reviewer" className="font-semibold text-gray-700">Reviewer</label>
+      <select
+        id="kyc-reviewer"
+        value={reviewerId}
+        onChange={(e) => setReviewer(e.target.value)}
+        className="px-3 py-2 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        {kycReviewers.map((reviewer) => (
+          <option key={reviewer.id} value={reviewer.id}>{reviewer.name}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
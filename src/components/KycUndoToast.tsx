@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react';
+import type { KycStagedAction } from '../logic/useKycUndoWindow';
+
+interface KycUndoToastProps {
+  action: KycStagedAction | null;
+  onUndo: () => void;
+}
+
+/**
+ * UI Component: Toast with an Undo button for the KYC action being held back
+ * Counts down to when the action is sent; Undo stays available while it is being sent and for a while after
+ */
+export function KycUndoToast({ action, onUndo }: KycUndoToastProps) {
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    if (action?.status !== 'staged') return;
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [action]);
+
+  if (!action) return null;
+
+  const secondsLeft = Math.max(0, Math.ceil((action.commitsAt - now) / 1000));
+  const statusText = {
+    staged: `Sending in ${secondsLeft}s`,
+    committing: 'Sending…',
+    committed: 'Sent',
+    undoing: 'Undoing…',
+  }[action.status];
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-30 flex items-center gap-4 px-4 py-3 rounded-lg shadow-lg bg-gray-900 text-white text-sm"
+    >
+      <span>
+        {action.label} <span className="text-gray-400">· {statusText}</span>
+      </span>
+      <button
+        type="button"
+        onClick={onUndo}
+        disabled={action.status === 'undoing'}
+        className="px-3 py-1 rounded-md font-semibold text-yellow-300 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+      >
+        Undo
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import { kycVersionRegistry } from '../logic/kycVersions';
+import { getKycVersionStyles } from './kycVersionStyles';
+
+interface KycVersionBadgeProps {
+  version: string;
+  variant?: 'solid' | 'soft';
+  prefix?: string;
+}
+
+/**
+ * UI Component: Pill showing a KYC version label in its registry color
+ * Pure presentation component
+ */
+export function KycVersionBadge({ version, variant = 'solid', prefix }: KycVersionBadgeProps) {
+  const styles = getKycVersionStyles(version);
+  const label = kycVersionRegistry.get(version)?.label ?? version;
+
+  return (
+    <div className={`px-3 py-1 rounded-full text-xs font-bold ${variant === 'solid' ? styles.badge : styles.softBadge}`}>
+      {prefix}
+      {label.toUpperCase()}
+    </div>
+  );
+}
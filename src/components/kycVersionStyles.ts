@@ -0,0 +1,50 @@
+import type { KycVersionColor } from '../logic/kycVersionRegistry';
+import { kycVersionRegistry } from '../logic/kycVersions';
+
+export interface KycVersionStyles {
+  button: string; // Selected toggle button
+  badge: string; // Solid pill
+  softBadge: string; // Light pill with border
+  panel: string; // Panel background and border
+}
+
+// Full class names so Tailwind can find them at build time
+const colorStyles: Record<KycVersionColor, KycVersionStyles> = {
+  blue: {
+    button: 'bg-blue-600 text-white shadow-lg scale-105 ring-2 ring-blue-300',
+    badge: 'bg-blue-600 text-white',
+    softBadge: 'bg-blue-100 text-blue-800 border border-blue-300',
+    panel: 'bg-blue-50 border-blue-300',
+  },
+  purple: {
+    button: 'bg-purple-600 text-white shadow-lg scale-105 ring-2 ring-purple-300',
+    badge: 'bg-purple-600 text-white',
+    softBadge: 'bg-purple-100 text-purple-800 border border-purple-300',
+    panel: 'bg-purple-50 border-purple-300',
+  },
+  teal: {
+    button: 'bg-teal-600 text-white shadow-lg scale-105 ring-2 ring-teal-300',
+    badge: 'bg-teal-600 text-white',
+    softBadge: 'bg-teal-100 text-teal-800 border border-teal-300',
+    panel: 'bg-teal-50 border-teal-300',
+  },
+  amber: {
+    button: 'bg-amber-600 text-white shadow-lg scale-105 ring-2 ring-amber-300',
+    badge: 'bg-amber-600 text-white',
+    softBadge: 'bg-amber-100 text-amber-800 border border-amber-300',
+    panel: 'bg-amber-50 border-amber-300',
+  },
+  rose: {
+    button: 'bg-rose-600 text-white shadow-lg scale-105 ring-2 ring-rose-300',
+    badge: 'bg-rose-600 text-white',
+    softBadge: 'bg-rose-100 text-rose-800 border border-rose-300',
+    panel: 'bg-rose-50 border-rose-300',
+  },
+};
+
+/**
+ * Styles for a registered KYC version, based on its registry color
+ */
+export function getKycVersionStyles(versionId: string): KycVersionStyles {
+  return colorStyles[kycVersionRegistry.resolve(versionId).color];
+}
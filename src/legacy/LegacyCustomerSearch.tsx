@@ -1,4 +1,7 @@
 import { useEffect, useRef, useState } from 'react';
+import { seedCustomers } from './customerSeed';
+import type { KycDocumentStatus } from '../logic/kycDocumentStatus';
+import type { KycOccupation, KycProductType } from '../logic/kycRiskScore';
 
 export interface Customer {
   id: string;
@@ -7,11 +10,20 @@ export interface Customer {
   country: string;
   isPep?: boolean;
   sanctionsList?: boolean;
+  nationality?: string; // ISO alpha-2; compared with country of residence
+  documentStatus?: KycDocumentStatus;
+  accountOpenedAt?: string; // ISO date
+  adverseMediaHits?: number;
+  sourceOfFundsDeclared?: boolean;
+  occupation?: KycOccupation;
+  productType?: KycProductType;
 }
 
 /**
  * Legacy Customer Search Component
- * This component dispatches custom events instead of using direct callbacks.
+ * This component dispatches custom events instead of using direct callbacks:
+ * `customer:select` for the customer clicked and `customers:check` with every
+ * customer whose checkbox is ticked (for bulk actions).
  * This matches how legacy web components or micro-frontends typically work.
  * 
  * In a real scenario:
@@ -26,65 +38,10 @@ export interface Customer {
 export function LegacyCustomerSearch() {
   const containerRef = useRef<HTMLDivElement>(null);
   const [searchTerm, setSearchTerm] = useState('');
-  const [customers] = useState<Customer[]>([
-    { id: 'C-001', name: 'Jacob White', riskScore: 35, country: 'US', isPep: false },
-    { id: 'C-002', name: 'Emily Chen', riskScore: 62, country: 'CN', isPep: false },
-    { id: 'C-003', name: 'Samir Khan', riskScore: 78, country: 'PK', isPep: true },
-    { id: 'C-004', name: 'Michael Rodriguez', riskScore: 42, country: 'MX', isPep: false },
-    { id: 'C-005', name: 'Sarah Johnson', riskScore: 28, country: 'CA', isPep: false },
-    { id: 'C-006', name: 'Ahmed Hassan', riskScore: 71, country: 'EG', isPep: true },
-    { id: 'C-007', name: 'Priya Patel', riskScore: 55, country: 'IN', isPep: false },
-    { id: 'C-008', name: 'David Kim', riskScore: 39, country: 'KR', isPep: false },
-    { id: 'C-009', name: 'Maria Garcia', riskScore: 45, country: 'ES', isPep: false },
-    { id: 'C-010', name: 'James Wilson', riskScore: 33, country: 'GB', isPep: false },
-    { id: 'C-011', name: 'Yuki Tanaka', riskScore: 41, country: 'JP', isPep: false },
-    { id: 'C-012', name: 'Hans Mueller', riskScore: 38, country: 'DE', isPep: false },
-    { id: 'C-013', name: 'Sophie Martin', riskScore: 49, country: 'FR', isPep: false },
-    { id: 'C-014', name: 'Luigi Rossi', riskScore: 44, country: 'IT', isPep: false },
-    { id: 'C-015', name: 'Anna Kowalski', riskScore: 52, country: 'PL', isPep: false },
-    { id: 'C-016', name: 'Carlos Silva', riskScore: 58, country: 'BR', isPep: false },
-    { id: 'C-017', name: 'Lisa Anderson', riskScore: 31, country: 'AU', isPep: false },
-    { id: 'C-018', name: 'Mohammed Al-Rashid', riskScore: 68, country: 'SA', isPep: true },
-    { id: 'C-019', name: 'Jennifer Brown', riskScore: 36, country: 'US', isPep: false },
-    { id: 'C-020', name: 'Wei Zhang', riskScore: 64, country: 'CN', isPep: false },
-    { id: 'C-021', name: 'Rajesh Kumar', riskScore: 59, country: 'IN', isPep: false },
-    { id: 'C-022', name: 'Emma Thompson', riskScore: 43, country: 'GB', isPep: false },
-    { id: 'C-023', name: 'Ivan Petrov', riskScore: 66, country: 'RU', isPep: true },
-    { id: 'C-024', name: 'Amara Okafor', riskScore: 57, country: 'NG', isPep: false },
-    { id: 'C-025', name: 'Tomáš Novák', riskScore: 47, country: 'CZ', isPep: false },
-    { id: 'C-026', name: 'Olga Kowalczyk', riskScore: 54, country: 'PL', isPep: false },
-    { id: 'C-027', name: 'Fernando Santos', riskScore: 61, country: 'PT', isPep: false },
-    { id: 'C-028', name: 'Nina Bergström', riskScore: 40, country: 'SE', isPep: false },
-    { id: 'C-029', name: 'Marcus Johansson', riskScore: 46, country: 'SE', isPep: false },
-    { id: 'C-030', name: 'Fatima Al-Zahra', riskScore: 73, country: 'AE', isPep: true },
-    { id: 'C-031', name: 'Robert Taylor', riskScore: 34, country: 'US', isPep: false },
-    { id: 'C-032', name: 'Mei Lin', riskScore: 56, country: 'TW', isPep: false },
-    { id: 'C-033', name: 'Diego Martinez', riskScore: 50, country: 'AR', isPep: false },
-    { id: 'C-034', name: 'Chloe Dubois', riskScore: 48, country: 'FR', isPep: false },
-    { id: 'C-035', name: 'Oliver Schmidt', riskScore: 37, country: 'DE', isPep: false },
-    { id: 'C-036', name: 'Isabella Rossi', riskScore: 51, country: 'IT', isPep: false },
-    { id: 'C-037', name: 'Hiroshi Yamamoto', riskScore: 63, country: 'JP', isPep: false },
-    { id: 'C-038', name: 'Amanda Lee', riskScore: 29, country: 'SG', isPep: false },
-    { id: 'C-039', name: 'Ricardo Fernandez', riskScore: 60, country: 'CO', isPep: false },
-    { id: 'C-040', name: 'Katarina Novak', riskScore: 53, country: 'RS', isPep: false },
-    { id: 'C-041', name: 'Viktor Ivanov', riskScore: 69, country: 'BG', isPep: true },
-    { id: 'C-042', name: 'Aisha Mohammed', riskScore: 72, country: 'KE', isPep: true },
-    { id: 'C-043', name: 'Lucas Andersen', riskScore: 32, country: 'DK', isPep: false },
-    { id: 'C-044', name: 'Zara Khan', riskScore: 65, country: 'BD', isPep: false },
-    { id: 'C-045', name: 'Sebastian Larsson', riskScore: 41, country: 'SE', isPep: false },
-    { id: 'C-046', name: 'Anastasia Volkov', riskScore: 67, country: 'UA', isPep: true },
-    { id: 'C-047', name: 'Daniel Torres', riskScore: 39, country: 'CL', isPep: false },
-    { id: 'C-048', name: 'Sofia Hernandez', riskScore: 44, country: 'VE', isPep: false },
-    { id: 'C-049', name: 'Chen Wei', riskScore: 58, country: 'HK', isPep: false },
-    { id: 'C-050', name: 'Alexander Volkov', riskScore: 75, country: 'RU', isPep: true },
-    { id: 'C-051', name: 'Mia Johansson', riskScore: 30, country: 'NO', isPep: false },
-    { id: 'C-052', name: 'Ethan Martinez', riskScore: 35, country: 'PH', isPep: false },
-    { id: 'C-053', name: 'Leila Abbas', riskScore: 70, country: 'IQ', isPep: true },
-    { id: 'C-054', name: 'Nathan Brown', riskScore: 27, country: 'NZ', isPep: false },
-    { id: 'C-055', name: 'Grace O\'Connor', riskScore: 46, country: 'IE', isPep: false },
-  ]);
+  const [customers] = useState<Customer[]>(seedCustomers);
   const [filteredCustomers, setFilteredCustomers] = useState<Customer[]>(customers);
   const [selectedCustomerId, setSelectedCustomerId] = useState<string | null>(null);
+  const [checkedCustomerIds, setCheckedCustomerIds] = useState<string[]>([]);
 
   useEffect(() => {
     if (searchTerm.trim() === '') {
@@ -118,6 +75,30 @@ export function LegacyCustomerSearch() {
     }
   };
 
+  const dispatchChecked = (customerIds: string[]) => {
+    setCheckedCustomerIds(customerIds);
+    const event = new CustomEvent('customers:check', {
+      detail: customers.filter((customer) => customerIds.includes(customer.id)),
+      bubbles: true,
+    });
+    containerRef.current?.dispatchEvent(event);
+  };
+
+  const handleCheck = (customerId: string, checked: boolean) => {
+    dispatchChecked(
+      checked ? [...checkedCustomerIds, customerId] : checkedCustomerIds.filter((id) => id !== customerId)
+    );
+  };
+
+  // Ticks or clears every customer currently listed, keeping those hidden by the search
+  const allListedChecked =
+    filteredCustomers.length > 0 && filteredCustomers.every((customer) => checkedCustomerIds.includes(customer.id));
+  const handleCheckAll = (checked: boolean) => {
+    const listedIds = filteredCustomers.map((customer) => customer.id);
+    const others = checkedCustomerIds.filter((id) => !listedIds.includes(id));
+    dispatchChecked(checked ? [...others, ...listedIds] : others);
+  };
+
   // In a real implementation, this would embed the actual legacy web component
   // and listen for its custom events. For demo purposes, we create a React UI
   // that simulates the legacy component's behavior.
@@ -156,6 +137,15 @@ export function LegacyCustomerSearch() {
       >
         [ Search ]
       </button>
+      <label className="flex items-center gap-2 mb-1 text-xs font-bold text-gray-800">
+        <input
+          type="checkbox"
+          checked={allListedChecked}
+          onChange={(e) => handleCheckAll(e.target.checked)}
+          aria-label="Check all listed customers"
+        />
+        Check all ({checkedCustomerIds.length} checked)
+      </label>
       {/* 90's style list box with scrollbar */}
       <div className="legacy-scrollable bg-white border-2 border-t-gray-400 border-l-gray-400 border-r-white border-b-white p-1 shadow-[inset_2px_2px_0_#000000] max-h-64 overflow-y-auto">
         <div className="space-y-1">
@@ -166,15 +156,25 @@ export function LegacyCustomerSearch() {
               <div
                 key={customer.id}
                 onClick={() => handleCustomerClick(customer)}
-                className={`px-2 py-1.5 cursor-pointer text-xs font-mono border border-dashed ${
+                className={`flex items-start gap-2 px-2 py-1.5 cursor-pointer text-xs font-mono border border-dashed ${
                   selectedCustomerId === customer.id
                     ? 'bg-[#000080] text-white border-blue-300'
                     : 'bg-white text-black border-gray-300 hover:bg-[#E8E8E8]'
                 }`}
               >
-                <div className="font-bold">{customer.name}</div>
-                <div className={selectedCustomerId === customer.id ? 'text-blue-200' : 'text-gray-600'}>
-                  ID: {customer.id}
+                <input
+                  type="checkbox"
+                  checked={checkedCustomerIds.includes(customer.id)}
+                  onClick={(e) => e.stopPropagation()}
+                  onChange={(e) => handleCheck(customer.id, e.target.checked)}
+                  aria-label={`Check ${customer.name}`}
+                  className="mt-0.5"
+                />
+                <div>
+                  <div className="font-bold">{customer.name}</div>
+                  <div className={selectedCustomerId === customer.id ? 'text-blue-200' : 'text-gray-600'}>
+                    ID: {customer.id}
+                  </div>
                 </div>
               </div>
             ))
@@ -0,0 +1,66 @@
+import type { Customer } from './LegacyCustomerSearch';
+
+// Account opening dates are relative so tenure-based KYC rules stay meaningful
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+/**
+ * Customers seeded into the legacy customer search
+ * Shared with population-level tooling (KYC backtest) until customers come from an API
+ */
+export const seedCustomers: Customer[] = [
+  { id: 'C-001', name: 'Jacob White', riskScore: 35, country: 'US', isPep: false, documentStatus: 'verified', accountOpenedAt: daysAgo(2100), sourceOfFundsDeclared: true, occupation: 'salaried', productType: 'current_account' },
+  { id: 'C-002', name: 'Emily Chen', riskScore: 62, country: 'CN', isPep: false, documentStatus: 'pending', nationality: 'CN', occupation: 'self_employed', productType: 'international_transfers' },
+  { id: 'C-003', name: 'Samir Khan', riskScore: 78, country: 'PK', isPep: true, occupation: 'public_official', productType: 'international_transfers' },
+  { id: 'C-004', name: 'Michael Rodriguez', riskScore: 42, country: 'MX', isPep: false, documentStatus: 'expired', nationality: 'US' },
+  { id: 'C-005', name: 'Sarah Johnson', riskScore: 28, country: 'CA', isPep: false },
+  { id: 'C-006', name: 'Ahmed Hassan', riskScore: 71, country: 'EG', isPep: true },
+  { id: 'C-007', name: 'Priya Patel', riskScore: 55, country: 'IN', isPep: false, accountOpenedAt: daysAgo(12), occupation: 'student', productType: 'card' },
+  { id: 'C-008', name: 'David Kim', riskScore: 39, country: 'KR', isPep: false },
+  { id: 'C-009', name: 'Maria Garcia', riskScore: 45, country: 'ES', isPep: false },
+  { id: 'C-010', name: 'James Wilson', riskScore: 33, country: 'GB', isPep: false },
+  { id: 'C-011', name: 'Yuki Tanaka', riskScore: 41, country: 'JP', isPep: false },
+  { id: 'C-012', name: 'Hans Mueller', riskScore: 38, country: 'DE', isPep: false, adverseMediaHits: 1, occupation: 'cash_intensive_business', productType: 'current_account' },
+  { id: 'C-013', name: 'Sophie Martin', riskScore: 49, country: 'FR', isPep: false },
+  { id: 'C-014', name: 'Luigi Rossi', riskScore: 44, country: 'IT', isPep: false },
+  { id: 'C-015', name: 'Anna Kowalski', riskScore: 52, country: 'PL', isPep: false },
+  { id: 'C-016', name: 'Carlos Silva', riskScore: 58, country: 'BR', isPep: false, nationality: 'PT' },
+  { id: 'C-017', name: 'Lisa Anderson', riskScore: 31, country: 'AU', isPep: false },
+  { id: 'C-018', name: 'Mohammed Al-Rashid', riskScore: 68, country: 'SA', isPep: true },
+  { id: 'C-019', name: 'Jennifer Brown', riskScore: 36, country: 'US', isPep: false },
+  { id: 'C-020', name: 'Wei Zhang', riskScore: 64, country: 'CN', isPep: false },
+  { id: 'C-021', name: 'Rajesh Kumar', riskScore: 59, country: 'IN', isPep: false },
+  { id: 'C-022', name: 'Emma Thompson', riskScore: 43, country: 'GB', isPep: false },
+  { id: 'C-023', name: 'Ivan Petrov', riskScore: 66, country: 'RU', isPep: true, adverseMediaHits: 4, occupation: 'money_services', productType: 'crypto' },
+  { id: 'C-024', name: 'Amara Okafor', riskScore: 57, country: 'NG', isPep: false, documentStatus: 'rejected' },
+  { id: 'C-025', name: 'Tomáš Novák', riskScore: 47, country: 'CZ', isPep: false },
+  { id: 'C-026', name: 'Olga Kowalczyk', riskScore: 54, country: 'PL', isPep: false },
+  { id: 'C-027', name: 'Fernando Santos', riskScore: 61, country: 'PT', isPep: false },
+  { id: 'C-028', name: 'Nina Bergström', riskScore: 40, country: 'SE', isPep: false },
+  { id: 'C-029', name: 'Marcus Johansson', riskScore: 46, country: 'SE', isPep: false },
+  { id: 'C-030', name: 'Fatima Al-Zahra', riskScore: 73, country: 'AE', isPep: true },
+  { id: 'C-031', name: 'Robert Taylor', riskScore: 34, country: 'US', isPep: false, documentStatus: 'verified', accountOpenedAt: daysAgo(900), sourceOfFundsDeclared: true, occupation: 'retired', productType: 'savings' },
+  { id: 'C-032', name: 'Mei Lin', riskScore: 56, country: 'TW', isPep: false },
+  { id: 'C-033', name: 'Diego Martinez', riskScore: 50, country: 'AR', isPep: false },
+  { id: 'C-034', name: 'Chloe Dubois', riskScore: 48, country: 'FR', isPep: false },
+  { id: 'C-035', name: 'Oliver Schmidt', riskScore: 37, country: 'DE', isPep: false },
+  { id: 'C-036', name: 'Isabella Rossi', riskScore: 51, country: 'IT', isPep: false },
+  { id: 'C-037', name: 'Hiroshi Yamamoto', riskScore: 63, country: 'JP', isPep: false },
+  { id: 'C-038', name: 'Amanda Lee', riskScore: 29, country: 'SG', isPep: false, documentStatus: 'missing', accountOpenedAt: daysAgo(5), occupation: 'self_employed', productType: 'crypto' },
+  { id: 'C-039', name: 'Ricardo Fernandez', riskScore: 60, country: 'CO', isPep: false },
+  { id: 'C-040', name: 'Katarina Novak', riskScore: 53, country: 'RS', isPep: false },
+  { id: 'C-041', name: 'Viktor Ivanov', riskScore: 69, country: 'BG', isPep: true },
+  { id: 'C-042', name: 'Aisha Mohammed', riskScore: 72, country: 'KE', isPep: true },
+  { id: 'C-043', name: 'Lucas Andersen', riskScore: 32, country: 'DK', isPep: false },
+  { id: 'C-044', name: 'Zara Khan', riskScore: 65, country: 'BD', isPep: false, nationality: 'PK', sourceOfFundsDeclared: false, occupation: 'cash_intensive_business', productType: 'international_transfers' },
+  { id: 'C-045', name: 'Sebastian Larsson', riskScore: 41, country: 'SE', isPep: false },
+  { id: 'C-046', name: 'Anastasia Volkov', riskScore: 67, country: 'UA', isPep: true },
+  { id: 'C-047', name: 'Daniel Torres', riskScore: 39, country: 'CL', isPep: false },
+  { id: 'C-048', name: 'Sofia Hernandez', riskScore: 44, country: 'VE', isPep: false },
+  { id: 'C-049', name: 'Chen Wei', riskScore: 58, country: 'HK', isPep: false },
+  { id: 'C-050', name: 'Alexander Volkov', riskScore: 75, country: 'RU', isPep: true },
+  { id: 'C-051', name: 'Mia Johansson', riskScore: 30, country: 'NO', isPep: false },
+  { id: 'C-052', name: 'Ethan Martinez', riskScore: 35, country: 'PH', isPep: false },
+  { id: 'C-053', name: 'Leila Abbas', riskScore: 70, country: 'IQ', isPep: true },
+  { id: 'C-054', name: 'Nathan Brown', riskScore: 27, country: 'NZ', isPep: false },
+  { id: 'C-055', name: 'Grace O\'Connor', riskScore: 46, country: 'IE', isPep: false },
+];
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { parseCsv, toCsv } from './csv';
+
+describe('toCsv', () => {
+  it('should write a header line followed by one line per row', () => {
+    const csv = toCsv(['id', 'decision'], [
+      { id: 'C-001', decision: 'approve' },
+      { id: 'C-002', decision: 'deny' },
+    ]);
+
+    expect(csv).toBe('id,decision\nC-001,approve\nC-002,deny');
+  });
+
+  it('should quote values containing commas, quotes and line breaks', () => {
+    const csv = toCsv(['name'], [{ name: 'O\'Connor, "Grace"' }, { name: 'two\nlines' }]);
+
+    expect(csv).toBe('name\n"O\'Connor, ""Grace"""\n"two\nlines"');
+  });
+
+  it('should render missing values as empty cells', () => {
+    const csv = toCsv<{ id: string; amount?: number }>(['id', 'amount'], [{ id: 'C-001' }]);
+
+    expect(csv).toBe('id,amount\nC-001,');
+  });
+});
+
+describe('parseCsv', () => {
+  it('should split rows and cells', () => {
+    expect(parseCsv('id,decision\nC-001,approve\r\nC-002,deny\n')).toEqual([
+      ['id', 'decision'],
+      ['C-001', 'approve'],
+      ['C-002', 'deny'],
+    ]);
+  });
+
+  it('should unquote cells with commas, doubled quotes and line breaks', () => {
+    expect(parseCsv('name,note\n"O\'Connor, ""Grace""","two\nlines"')).toEqual([
+      ['name', 'note'],
+      ['O\'Connor, "Grace"', 'two\nlines'],
+    ]);
+  });
+
+  it('should keep empty cells and blank lines', () => {
+    expect(parseCsv('a,,c\n\nd,e,')).toEqual([['a', '', 'c'], [''], ['d', 'e', '']]);
+  });
+
+  it('should read back what toCsv writes', () => {
+    const rows = [{ name: 'O\'Connor, "Grace"', note: 'two\nlines' }];
+
+    expect(parseCsv(toCsv(['name', 'note'], rows))).toEqual([['name', 'note'], ['O\'Connor, "Grace"', 'two\nlines']]);
+  });
+});
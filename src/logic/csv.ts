@@ -0,0 +1,64 @@
+export type CsvValue = string | number | boolean | null | undefined;
+
+const escapeCsvValue = (value: CsvValue): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  // Quote values containing separators, quotes or line breaks (RFC 4180)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serializes rows into CSV text with a header line
+ * Column order follows `columns`; missing values become empty cells
+ */
+export function toCsv<T extends Record<string, CsvValue>>(columns: Array<keyof T & string>, rows: T[]): string {
+  const lines = [
+    columns.map(escapeCsvValue).join(','),
+    ...rows.map((row) => columns.map((column) => escapeCsvValue(row[column])).join(',')),
+  ];
+  return lines.join('\n');
+}
+
+/**
+ * Parses CSV text into rows of cells (RFC 4180)
+ * Quoted cells may contain separators, doubled quotes and line breaks; CRLF and LF both end a row.
+ * A trailing line break does not add an empty row; blank lines are kept as [''] so row numbers match the file.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
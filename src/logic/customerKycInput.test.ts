@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { customerToKycInput } from './customerKycInput';
+import type { Customer } from '../legacy/LegacyCustomerSearch';
+
+const now = new Date('2024-06-15T00:00:00Z').getTime();
+
+const customer: Customer = { id: 'C-001', name: 'Jacob White', riskScore: 35, country: 'US', isPep: false };
+
+describe('customerToKycInput', () => {
+  it('should use zero amount and velocity without transaction signals', () => {
+    const input = customerToKycInput(customer, null, now);
+
+    expect(input).toMatchObject({ riskScore: 35, country: 'US', amount: 0, velocity: 0 });
+  });
+
+  it('should derive account age in whole days', () => {
+    const input = customerToKycInput({ ...customer, accountOpenedAt: '2024-06-01' }, null, now);
+
+    expect(input.accountAgeDays).toBe(14);
+  });
+
+  it('should flag a nationality that differs from the country of residence', () => {
+    expect(customerToKycInput({ ...customer, nationality: 'MX' }, null, now).nationalityMismatch).toBe(true);
+    expect(customerToKycInput({ ...customer, nationality: 'US' }, null, now).nationalityMismatch).toBe(false);
+    expect(customerToKycInput(customer, null, now).nationalityMismatch).toBeUndefined();
+  });
+
+  it('should pass document, adverse media and source-of-funds fields through', () => {
+    const input = customerToKycInput(
+      { ...customer, documentStatus: 'pending', adverseMediaHits: 2, sourceOfFundsDeclared: true },
+      null,
+      now
+    );
+
+    expect(input).toMatchObject({ documentStatus: 'pending', adverseMediaHits: 2, sourceOfFundsDeclared: true });
+  });
+
+  it('should pass the supplied risk score and the risk factors through', () => {
+    const input = customerToKycInput({ ...customer, occupation: 'student', productType: 'card' }, null, now);
+
+    expect(input).toMatchObject({ riskScore: 35, occupation: 'student', productType: 'card' });
+  });
+});
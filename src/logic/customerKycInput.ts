@@ -0,0 +1,37 @@
+import type { Customer } from '../legacy/LegacyCustomerSearch';
+import type { KycInputWithoutVersion } from './useKycEngine';
+import type { KycTransactionSignals } from './kycTransactionSignals';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Builds the KYC engine input for a customer
+ * Amount and velocity come from the customer's transaction signals; without
+ * them (e.g. backtests over customer records only) both are 0.
+ * Account age is measured up to `now`.
+ * The customer's own risk score is passed as the supplied score.
+ */
+export function customerToKycInput(
+  customer: Customer,
+  signals?: KycTransactionSignals | null,
+  now: number = Date.now()
+): KycInputWithoutVersion & { riskScore: number } {
+  return {
+    customerId: customer.id,
+    riskScore: customer.riskScore,
+    country: customer.country,
+    isPep: customer.isPep,
+    sanctionsList: customer.sanctionsList,
+    amount: signals?.largestPendingAmount ?? 0,
+    velocity: signals?.velocity ?? 0,
+    documentStatus: customer.documentStatus,
+    accountAgeDays: customer.accountOpenedAt
+      ? Math.max(0, Math.floor((now - new Date(customer.accountOpenedAt).getTime()) / DAY_MS))
+      : undefined,
+    adverseMediaHits: customer.adverseMediaHits,
+    nationalityMismatch: customer.nationality ? customer.nationality !== customer.country : undefined,
+    sourceOfFundsDeclared: customer.sourceOfFundsDeclared,
+    occupation: customer.occupation,
+    productType: customer.productType,
+  };
+}
@@ -0,0 +1,101 @@
+// ISO 3166-1 alpha-2 codes of every officially assigned country
+export const isoCountryCodes: readonly string[] = [
+  'AD', 'AE', 'AF', 'AG', 'AI', 'AL', 'AM', 'AO', 'AQ', 'AR', 'AS', 'AT', 'AU', 'AW', 'AX', 'AZ',
+  'BA', 'BB', 'BD', 'BE', 'BF', 'BG', 'BH', 'BI', 'BJ', 'BL', 'BM', 'BN', 'BO', 'BQ', 'BR', 'BS', 'BT', 'BV', 'BW', 'BY', 'BZ',
+  'CA', 'CC', 'CD', 'CF', 'CG', 'CH', 'CI', 'CK', 'CL', 'CM', 'CN', 'CO', 'CR', 'CU', 'CV', 'CW', 'CX', 'CY', 'CZ',
+  'DE', 'DJ', 'DK', 'DM', 'DO', 'DZ',
+  'EC', 'EE', 'EG', 'EH', 'ER', 'ES', 'ET',
+  'FI', 'FJ', 'FK', 'FM', 'FO', 'FR',
+  'GA', 'GB', 'GD', 'GE', 'GF', 'GG', 'GH', 'GI', 'GL', 'GM', 'GN', 'GP', 'GQ', 'GR', 'GS', 'GT', 'GU', 'GW', 'GY',
+  'HK', 'HM', 'HN', 'HR', 'HT', 'HU',
+  'ID', 'IE', 'IL', 'IM', 'IN', 'IO', 'IQ', 'IR', 'IS', 'IT',
+  'JE', 'JM', 'JO', 'JP',
+  'KE', 'KG', 'KH', 'KI', 'KM', 'KN', 'KP', 'KR', 'KW', 'KY', 'KZ',
+  'LA', 'LB', 'LC', 'LI', 'LK', 'LR', 'LS', 'LT', 'LU', 'LV', 'LY',
+  'MA', 'MC', 'MD', 'ME', 'MF', 'MG', 'MH', 'MK', 'ML', 'MM', 'MN', 'MO', 'MP', 'MQ', 'MR', 'MS', 'MT', 'MU', 'MV', 'MW', 'MX', 'MY', 'MZ',
+  'NA', 'NC', 'NE', 'NF', 'NG', 'NI', 'NL', 'NO', 'NP', 'NR', 'NU', 'NZ',
+  'OM',
+  'PA', 'PE', 'PF', 'PG', 'PH', 'PK', 'PL', 'PM', 'PN', 'PR', 'PS', 'PT', 'PW', 'PY',
+  'QA',
+  'RE', 'RO', 'RS', 'RU', 'RW',
+  'SA', 'SB', 'SC', 'SD', 'SE', 'SG', 'SH', 'SI', 'SJ', 'SK', 'SL', 'SM', 'SN', 'SO', 'SR', 'SS', 'ST', 'SV', 'SX', 'SY', 'SZ',
+  'TC', 'TD', 'TF', 'TG', 'TH', 'TJ', 'TK', 'TL', 'TM', 'TN', 'TO', 'TR', 'TT', 'TV', 'TW', 'TZ',
+  'UA', 'UG', 'UM', 'US', 'UY', 'UZ',
+  'VA', 'VC', 'VE', 'VG', 'VI', 'VN', 'VU',
+  'WF', 'WS',
+  'YE', 'YT',
+  'ZA', 'ZM', 'ZW',
+];
+
+// Placeholder codes used by the demo rulesets and test data for restricted countries
+export const placeholderCountryCodes: readonly string[] = ['XX', 'YY', 'ZZ'];
+
+const knownCountryCodes = new Set([...isoCountryCodes, ...placeholderCountryCodes]);
+
+export function isKnownCountryCode(code: string): boolean {
+  return knownCountryCodes.has(code);
+}
+
+const regionNames = new Intl.DisplayNames(['en'], { type: 'region', fallback: 'code' });
+
+/**
+ * English display name of a country code, e.g. "DE" -> "Germany"
+ */
+export function countryName(code: string): string {
+  if (placeholderCountryCodes.includes(code)) return `Placeholder (${code})`;
+  return regionNames.of(code) ?? code;
+}
+
+const normalizeCountryName = (name: string) =>
+  name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+// Spellings used by sanctions lists (OFAC among them) that differ from the display names
+const countryNameAliases: Record<string, string> = {
+  'korea north': 'KP',
+  'korea democratic people s republic of': 'KP',
+  'korea south': 'KR',
+  'korea republic of': 'KR',
+  'congo democratic republic of the': 'CD',
+  'congo republic of the': 'CG',
+  'ivory coast': 'CI',
+  burma: 'MM',
+  myanmar: 'MM',
+  turkey: 'TR',
+  'czech republic': 'CZ',
+  'hong kong': 'HK',
+  macau: 'MO',
+  macao: 'MO',
+  'west bank': 'PS',
+  gaza: 'PS',
+  palestinian: 'PS',
+  swaziland: 'SZ',
+  macedonia: 'MK',
+  'the former yugoslav republic of macedonia': 'MK',
+  'cabo verde': 'CV',
+  'holy see': 'VA',
+  'east timor': 'TL',
+  'russian federation': 'RU',
+  'iran islamic republic of': 'IR',
+  'syrian arab republic': 'SY',
+};
+
+const countryCodesByName = new Map<string, string>([
+  ...isoCountryCodes.map((code): [string, string] => [normalizeCountryName(countryName(code)), code]),
+  ...Object.entries(countryNameAliases),
+]);
+
+/**
+ * Country code for an alpha-2 code (any case) or an English country name
+ * Matches display names ("Germany"), common list spellings ("Korea, North", "Burma")
+ * and ignores case, accents and punctuation; undefined when unknown.
+ */
+export function countryCodeFromName(name: string): string | undefined {
+  const trimmed = name.trim();
+  if (/^[a-z]{2}$/i.test(trimmed) && isKnownCountryCode(trimmed.toUpperCase())) return trimmed.toUpperCase();
+  return countryCodesByName.get(normalizeCountryName(trimmed));
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getEffectiveJurisdictionPolicy,
+  jurisdictionPolicy,
+  parseJurisdictionPolicy,
+} from './jurisdictionPolicy';
+
+const basePolicy = {
+  version: 'test',
+  restrictedCountries: ['XX'],
+  enhancedDueDiligenceCountries: ['IR'],
+  regions: [
+    { id: 'corridor', label: 'Corridor', countries: ['NG', 'PK'], thresholds: { amountHigh: 25000, velocityHigh: 5 } },
+    { id: 'west-africa', label: 'West Africa', countries: ['NG'], thresholds: { velocityHigh: 3 } },
+  ],
+  countries: [{ country: 'NG', thresholds: { amountHigh: 10000 } }],
+};
+
+describe('parseJurisdictionPolicy', () => {
+  it('should parse the bundled policy document', () => {
+    expect(jurisdictionPolicy.restrictedCountries).toEqual(['XX', 'YY', 'ZZ']);
+  });
+
+  it('should apply defaults for optional sections', () => {
+    const policy = parseJurisdictionPolicy({ version: 'test', restrictedCountries: [] });
+
+    expect(policy.enhancedDueDiligenceCountries).toEqual([]);
+    expect(policy.regions).toEqual([]);
+    expect(policy.countries).toEqual([]);
+  });
+
+  it('should reject codes that are not ISO 3166 alpha-2', () => {
+    expect(() => parseJurisdictionPolicy({ ...basePolicy, restrictedCountries: ['UK'] })).toThrow(
+      /Unknown ISO 3166 alpha-2 country code: UK/
+    );
+  });
+
+  it('should reject unknown threshold names', () => {
+    const invalid = { ...basePolicy, countries: [{ country: 'NG', thresholds: { amountMax: 1 } }] };
+
+    expect(() => parseJurisdictionPolicy(invalid)).toThrow();
+  });
+
+  it('should reject duplicate region ids and country overrides', () => {
+    const invalid = {
+      ...basePolicy,
+      regions: [basePolicy.regions[0], basePolicy.regions[0]],
+      countries: [basePolicy.countries[0], basePolicy.countries[0]],
+    };
+
+    expect(() => parseJurisdictionPolicy(invalid)).toThrow(/Duplicate region id: corridor/);
+    expect(() => parseJurisdictionPolicy(invalid)).toThrow(/Duplicate country override: NG/);
+  });
+});
+
+describe('getEffectiveJurisdictionPolicy', () => {
+  const policy = parseJurisdictionPolicy(basePolicy);
+
+  it('should return no overrides for a country without policy entries', () => {
+    expect(getEffectiveJurisdictionPolicy(policy, 'DE')).toEqual({
+      country: 'DE',
+      restricted: false,
+      enhancedDueDiligence: false,
+      regions: [],
+      thresholds: {},
+      lists: { restricted: ['XX'], enhancedDueDiligence: ['IR'] },
+    });
+  });
+
+  it('should apply region overrides to member countries', () => {
+    const effective = getEffectiveJurisdictionPolicy(policy, 'PK');
+
+    expect(effective.regions).toEqual([{ id: 'corridor', label: 'Corridor' }]);
+    expect(effective.thresholds).toEqual({
+      amountHigh: { value: 25000, source: 'region:corridor' },
+      velocityHigh: { value: 5, source: 'region:corridor' },
+    });
+  });
+
+  it('should let later regions and then country overrides win', () => {
+    const effective = getEffectiveJurisdictionPolicy(policy, 'NG');
+
+    expect(effective.thresholds).toEqual({
+      amountHigh: { value: 10000, source: 'country:NG' },
+      velocityHigh: { value: 3, source: 'region:west-africa' },
+    });
+  });
+
+  it('should flag restricted and enhanced due diligence countries', () => {
+    expect(getEffectiveJurisdictionPolicy(policy, 'XX').restricted).toBe(true);
+    expect(getEffectiveJurisdictionPolicy(policy, 'IR').enhancedDueDiligence).toBe(true);
+  });
+});
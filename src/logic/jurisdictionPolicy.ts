@@ -0,0 +1,131 @@
+import { z } from 'zod';
+import { isKnownCountryCode } from './isoCountries';
+import policyDocument from './policies/jurisdictions.json';
+
+// Named thresholds that rule conditions can opt into with `param`
+export const kycThresholdParamSchema = z.enum(['riskScoreHigh', 'riskScoreMedium', 'amountHigh', 'velocityHigh']);
+
+// Country lists that rule conditions can reference with `list`
+export const kycCountryListSchema = z.enum(['restricted', 'enhancedDueDiligence']);
+
+export const countryCodeSchema = z.string().refine(isKnownCountryCode, {
+  error: (issue) => `Unknown ISO 3166 alpha-2 country code: ${String(issue.input)}`,
+});
+
+const thresholdOverridesSchema = z.partialRecord(kycThresholdParamSchema, z.number());
+
+export const jurisdictionPolicySchema = z
+  .object({
+    version: z.string().min(1),
+    description: z.string().optional(),
+    restrictedCountries: z.array(countryCodeSchema),
+    enhancedDueDiligenceCountries: z.array(countryCodeSchema).default([]),
+    // Overrides shared by a group of countries, applied in document order
+    regions: z
+      .array(
+        z.object({
+          id: z.string().min(1),
+          label: z.string().min(1),
+          countries: z.array(countryCodeSchema).min(1),
+          thresholds: thresholdOverridesSchema.default({}),
+        })
+      )
+      .default([]),
+    // Single-country overrides, applied after every region
+    countries: z
+      .array(
+        z.object({
+          country: countryCodeSchema,
+          thresholds: thresholdOverridesSchema,
+        })
+      )
+      .default([]),
+  })
+  .superRefine((policy, ctx) => {
+    const regionIds = new Set<string>();
+    policy.regions.forEach((region, index) => {
+      if (regionIds.has(region.id)) {
+        ctx.addIssue({
+          code: 'custom',
+          message: `Duplicate region id: ${region.id}`,
+          path: ['regions', index, 'id'],
+        });
+      }
+      regionIds.add(region.id);
+    });
+    const countries = new Set<string>();
+    policy.countries.forEach((entry, index) => {
+      if (countries.has(entry.country)) {
+        ctx.addIssue({
+          code: 'custom',
+          message: `Duplicate country override: ${entry.country}`,
+          path: ['countries', index, 'country'],
+        });
+      }
+      countries.add(entry.country);
+    });
+  });
+
+export type KycThresholdParam = z.infer<typeof kycThresholdParamSchema>;
+export type KycCountryList = z.infer<typeof kycCountryListSchema>;
+export type JurisdictionPolicy = z.infer<typeof jurisdictionPolicySchema>;
+
+export interface KycThresholdOverride {
+  value: number;
+  source: string; // "region:<id>" or "country:<code>"
+}
+
+export interface EffectiveJurisdictionPolicy {
+  country: string;
+  restricted: boolean;
+  enhancedDueDiligence: boolean;
+  regions: Array<{ id: string; label: string }>;
+  thresholds: Partial<Record<KycThresholdParam, KycThresholdOverride>>;
+  lists: Record<KycCountryList, string[]>;
+}
+
+/**
+ * Validates a jurisdiction policy document (typically imported JSON)
+ * Throws a ZodError describing every problem if the document is invalid
+ */
+export function parseJurisdictionPolicy(document: unknown): JurisdictionPolicy {
+  return jurisdictionPolicySchema.parse(document);
+}
+
+// Policy consulted by every KYC version unless another one is passed in
+export const jurisdictionPolicy = parseJurisdictionPolicy(policyDocument);
+
+/**
+ * Resolves the policy that applies to one country
+ * Country overrides win over region overrides; later regions win over earlier ones
+ */
+export function getEffectiveJurisdictionPolicy(
+  policy: JurisdictionPolicy,
+  country: string
+): EffectiveJurisdictionPolicy {
+  const thresholds: EffectiveJurisdictionPolicy['thresholds'] = {};
+  const applyOverrides = (overrides: Partial<Record<KycThresholdParam, number>>, source: string) => {
+    for (const param of kycThresholdParamSchema.options) {
+      const value = overrides[param];
+      if (value !== undefined) thresholds[param] = { value, source };
+    }
+  };
+
+  const regions = policy.regions.filter((region) => region.countries.includes(country));
+  regions.forEach((region) => applyOverrides(region.thresholds, `region:${region.id}`));
+  policy.countries
+    .filter((entry) => entry.country === country)
+    .forEach((entry) => applyOverrides(entry.thresholds, `country:${entry.country}`));
+
+  return {
+    country,
+    restricted: policy.restrictedCountries.includes(country),
+    enhancedDueDiligence: policy.enhancedDueDiligenceCountries.includes(country),
+    regions: regions.map(({ id, label }) => ({ id, label })),
+    thresholds,
+    lists: {
+      restricted: policy.restrictedCountries,
+      enhancedDueDiligence: policy.enhancedDueDiligenceCountries,
+    },
+  };
+}
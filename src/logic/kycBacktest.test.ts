@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+  runKycBacktest,
+  buildTransitionMatrix,
+  changedDecisions,
+  changedDecisionsToCsv,
+} from './kycBacktest';
+import { kycVersionRegistry } from './kycVersions';
+import { seedCustomers } from '../legacy/customerSeed';
+import type { Customer } from '../legacy/LegacyCustomerSearch';
+
+const customers: Customer[] = [
+  { id: 'C-001', name: 'Low Risk', riskScore: 30, country: 'US', isPep: false },
+  { id: 'C-002', name: 'Pep', riskScore: 30, country: 'US', isPep: true },
+  { id: 'C-003', name: 'Band Gap', riskScore: 77, country: 'US', isPep: false },
+  { id: 'C-004', name: 'Restricted', riskScore: 20, country: 'XX', isPep: false },
+];
+
+describe('runKycBacktest', () => {
+  it('should evaluate every customer with every registered version', () => {
+    const rows = runKycBacktest(customers, kycVersionRegistry.versions);
+
+    expect(rows).toHaveLength(4);
+    expect(Object.keys(rows[0].results)).toEqual(kycVersionRegistry.ids);
+    expect(rows[1].results.v1.decision).toBe('approve');
+    expect(rows[1].results.v2.decision).toBe('manual_review');
+  });
+
+  it('should cover the whole seeded population', () => {
+    const rows = runKycBacktest(seedCustomers, kycVersionRegistry.versions);
+
+    expect(rows).toHaveLength(seedCustomers.length);
+  });
+});
+
+describe('buildTransitionMatrix', () => {
+  it('should count decision transitions between two versions', () => {
+    const rows = runKycBacktest(customers, kycVersionRegistry.versions);
+
+    const matrix = buildTransitionMatrix(rows, 'v1', 'v2');
+
+    expect(matrix.approve.approve).toBe(1);
+    expect(matrix.approve.manual_review).toBe(1);
+    expect(matrix.manual_review.deny).toBe(1);
+    expect(matrix.deny.deny).toBe(1);
+    expect(matrix.deny.approve).toBe(0);
+  });
+
+  it('should add up to the population size', () => {
+    const rows = runKycBacktest(seedCustomers, kycVersionRegistry.versions);
+
+    const matrix = buildTransitionMatrix(rows, 'v1', 'v2');
+    const total = Object.values(matrix).flatMap((row) => Object.values(row)).reduce((a, b) => a + b, 0);
+
+    expect(total).toBe(seedCustomers.length);
+  });
+});
+
+describe('changedDecisions', () => {
+  it('should only return customers whose decision changed', () => {
+    const rows = runKycBacktest(customers, kycVersionRegistry.versions);
+
+    expect(changedDecisions(rows, 'v1', 'v2').map((row) => row.customer.id)).toEqual(['C-002', 'C-003']);
+  });
+
+  it('should export changed decisions as CSV', () => {
+    const rows = runKycBacktest(customers, kycVersionRegistry.versions);
+
+    const lines = changedDecisionsToCsv(rows, 'v1', 'v2').split('\n');
+
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toBe(
+      'customerId,name,country,riskScore,fromVersion,fromDecision,fromReasons,toVersion,toDecision,toReasons'
+    );
+    expect(lines[1]).toBe('C-002,Pep,US,30,v1,approve,Low risk score,v2,manual_review,PEP (Politically Exposed Person)');
+  });
+});
@@ -0,0 +1,72 @@
+import type { Customer } from '../legacy/LegacyCustomerSearch';
+import type { KycDecision, KycResult } from './kycRules.v1';
+import type { KycVersionDefinition } from './kycVersionRegistry';
+import { customerToKycInput } from './customerKycInput';
+import { formatKycReason } from './kycReasons';
+import { toCsv } from './csv';
+
+export const kycDecisions: KycDecision[] = ['approve', 'manual_review', 'deny'];
+
+export interface KycBacktestRow {
+  customer: Customer;
+  results: Record<string, KycResult>; // Keyed by version id
+}
+
+// transitions[from][to] = number of customers moving from one decision to another
+export type KycTransitionMatrix = Record<KycDecision, Record<KycDecision, number>>;
+
+/**
+ * Evaluates every customer with every KYC version
+ */
+export function runKycBacktest(customers: Customer[], versions: KycVersionDefinition[]): KycBacktestRow[] {
+  return customers.map((customer) => {
+    const input = customerToKycInput(customer);
+    const results = Object.fromEntries(versions.map((version) => [version.id, version.evaluate(input)]));
+    return { customer, results };
+  });
+}
+
+/**
+ * Counts decision transitions between two versions across the population
+ */
+export function buildTransitionMatrix(rows: KycBacktestRow[], from: string, to: string): KycTransitionMatrix {
+  const matrix = Object.fromEntries(
+    kycDecisions.map((decision) => [
+      decision,
+      Object.fromEntries(kycDecisions.map((target) => [target, 0])),
+    ])
+  ) as KycTransitionMatrix;
+
+  for (const row of rows) {
+    matrix[row.results[from].decision][row.results[to].decision] += 1;
+  }
+  return matrix;
+}
+
+/**
+ * Customers whose decision differs between two versions
+ */
+export function changedDecisions(rows: KycBacktestRow[], from: string, to: string): KycBacktestRow[] {
+  return rows.filter((row) => row.results[from].decision !== row.results[to].decision);
+}
+
+/**
+ * Serializes the customers whose decision changed between two versions as CSV
+ */
+export function changedDecisionsToCsv(rows: KycBacktestRow[], from: string, to: string): string {
+  return toCsv(
+    ['customerId', 'name', 'country', 'riskScore', 'fromVersion', 'fromDecision', 'fromReasons', 'toVersion', 'toDecision', 'toReasons'],
+    changedDecisions(rows, from, to).map(({ customer, results }) => ({
+      customerId: customer.id,
+      name: customer.name,
+      country: customer.country,
+      riskScore: customer.riskScore,
+      fromVersion: from,
+      fromDecision: results[from].decision,
+      fromReasons: results[from].reasons.map(formatKycReason).join('; '),
+      toVersion: to,
+      toDecision: results[to].decision,
+      toReasons: results[to].reasons.map(formatKycReason).join('; '),
+    }))
+  );
+}
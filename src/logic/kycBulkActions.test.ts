@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import {
+  countKycBulkItems,
+  countKycBulkJustifications,
+  kycBulkRefusal,
+  mapWithConcurrency,
+  type KycBulkItem,
+} from './kycBulkActions';
+
+describe('kycBulkActions', () => {
+  it('should refuse to bulk approve a deny decision unless overridden', () => {
+    expect(kycBulkRefusal('approve', 'deny', false)).toMatch(/deny/);
+    expect(kycBulkRefusal('approve', 'deny', true)).toBeNull();
+    expect(kycBulkRefusal('approve', 'manual_review', false)).toBeNull();
+    expect(kycBulkRefusal('hold', 'deny', false)).toBeNull();
+  });
+
+  it('should count the customers an action goes against the decision of, leaving refused ones out', () => {
+    const decisions = ['approve', 'manual_review', 'deny', undefined] as const;
+
+    expect(countKycBulkJustifications('approve', [...decisions], false)).toBe(1);
+    expect(countKycBulkJustifications('approve', [...decisions], true)).toBe(2);
+    expect(countKycBulkJustifications('hold', [...decisions], false)).toBe(2);
+  });
+
+  it('should count the customers of a run by status', () => {
+    const items: KycBulkItem[] = [
+      { customerId: 'C-001', customerName: 'Jacob White', status: 'succeeded' },
+      { customerId: 'C-002', customerName: 'Emily Chen', status: 'failed', error: 'Server error' },
+      { customerId: 'C-003', customerName: 'Mark Davis', status: 'failed', error: 'Server error' },
+    ];
+
+    expect(countKycBulkItems(items)).toEqual({ queued: 0, running: 0, succeeded: 1, failed: 2, refused: 0 });
+  });
+
+  it('should never run more tasks at once than the limit', async () => {
+    let running = 0;
+    let mostRunning = 0;
+    const task = async (item: number) => {
+      running += 1;
+      mostRunning = Math.max(mostRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, item));
+      running -= 1;
+      return item * 2;
+    };
+
+    const results = await mapWithConcurrency([5, 1, 3, 2, 4], 2, task);
+
+    expect(mostRunning).toBe(2);
+    expect(results.map((result) => result.status === 'fulfilled' && result.value)).toEqual([10, 2, 6, 4, 8]);
+  });
+
+  it('should keep going after a task fails and report the failure in place', async () => {
+    const results = await mapWithConcurrency(['a', 'b', 'c'], 1, async (item) => {
+      if (item === 'b') throw new Error('Server error');
+      return item;
+    });
+
+    expect(results.map((result) => result.status)).toEqual(['fulfilled', 'rejected', 'fulfilled']);
+    expect(results[1]).toMatchObject({ reason: new Error('Server error') });
+  });
+});
@@ -0,0 +1,86 @@
+import type { KycDecision } from './kycRules.v1';
+import { requiresKycJustification, type KycReviewerAction } from './kycJustification';
+
+// Customers acted on at the same time, so a large selection does not flood the API
+export const KYC_BULK_CONCURRENCY = 3;
+
+// queued: waiting for a free slot, refused: not sent (see kycBulkRefusal)
+export type KycBulkItemStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'refused';
+
+export interface KycBulkItem {
+  customerId: string;
+  customerName: string;
+  status: KycBulkItemStatus;
+  error?: string; // Why the action failed or was refused
+}
+
+export interface KycBulkRun {
+  action: KycReviewerAction;
+  items: KycBulkItem[]; // In selection order
+}
+
+/**
+ * Why a bulk action is not sent for a customer, or null when it may go ahead
+ * Bulk approve refuses deny decisions unless the reviewer explicitly overrides them.
+ */
+export function kycBulkRefusal(
+  action: KycReviewerAction,
+  decision: KycDecision | undefined,
+  overrideDeny: boolean
+): string | null {
+  if (action === 'approve' && decision === 'deny' && !overrideDeny) {
+    return 'The engine decided deny; override to approve';
+  }
+  return null;
+}
+
+/**
+ * Number of customers a bulk action goes against the decision of (and so needs a justification for)
+ * Refused customers are not acted on and do not count.
+ */
+export function countKycBulkJustifications(
+  action: KycReviewerAction,
+  decisions: (KycDecision | undefined)[],
+  overrideDeny: boolean
+): number {
+  return decisions.filter(
+    (decision) => !kycBulkRefusal(action, decision, overrideDeny) && requiresKycJustification(action, decision)
+  ).length;
+}
+
+/**
+ * Counts the customers of a bulk run by status
+ */
+export function countKycBulkItems(items: KycBulkItem[]): Record<KycBulkItemStatus, number> {
+  const counts: Record<KycBulkItemStatus, number> = { queued: 0, running: 0, succeeded: 0, failed: 0, refused: 0 };
+  for (const { status } of items) counts[status] += 1;
+  return counts;
+}
+
+/**
+ * Runs `task` for every item with at most `limit` tasks in flight
+ * Items start in order; results are settled and returned in the same order,
+ * so one failing task does not stop the others.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await task(items[index]) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  return results;
+}
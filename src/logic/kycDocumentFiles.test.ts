@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import {
+  countKycDocumentPages,
+  kycDocumentChecksum,
+  kycDocumentFileError,
+  KYC_DOCUMENT_FILE_MAX_BYTES,
+} from './kycDocumentFiles';
+
+const bytes = (text: string) => new TextEncoder().encode(text).buffer as ArrayBuffer;
+
+describe('kycDocumentFiles', () => {
+  it('should accept images and PDFs up to the size limit', () => {
+    expect(kycDocumentFileError({ type: 'image/jpeg', size: 2048 })).toBeNull();
+    expect(kycDocumentFileError({ type: 'application/pdf', size: KYC_DOCUMENT_FILE_MAX_BYTES })).toBeNull();
+    expect(kycDocumentFileError({ type: 'application/zip', size: 2048 })).toBe(
+      'Only images (PNG, JPEG, WebP, GIF) and PDFs can be uploaded'
+    );
+    expect(kycDocumentFileError({ type: 'image/png', size: KYC_DOCUMENT_FILE_MAX_BYTES + 1 })).toBe(
+      'Files must be 10 MB or smaller'
+    );
+    expect(kycDocumentFileError({ type: 'image/png', size: 0 })).toBe('The file is empty');
+  });
+
+  it('should hash content with SHA-256', async () => {
+    expect(await kycDocumentChecksum(bytes('abc'))).toBe(
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+    );
+  });
+
+  it('should count the pages of a PDF and one page for an image', () => {
+    const pdf = bytes('%PDF-1.4 << /Type /Pages /Count 2 >> << /Type /Page >> << /Type/Page >>');
+    expect(countKycDocumentPages(pdf, 'application/pdf')).toBe(2);
+    expect(countKycDocumentPages(bytes('%PDF-1.4'), 'application/pdf')).toBe(1);
+    expect(countKycDocumentPages(pdf, 'image/png')).toBe(1);
+  });
+});
@@ -0,0 +1,37 @@
+// File types reviewers can upload as evidence
+export const KYC_DOCUMENT_FILE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif', 'application/pdf'];
+
+// Largest file accepted, in bytes
+export const KYC_DOCUMENT_FILE_MAX_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Why a file cannot be uploaded as evidence, or null when it can
+ */
+export function kycDocumentFileError({ type, size }: { type: string; size: number }): string | null {
+  if (!KYC_DOCUMENT_FILE_TYPES.includes(type)) return 'Only images (PNG, JPEG, WebP, GIF) and PDFs can be uploaded';
+  if (size > KYC_DOCUMENT_FILE_MAX_BYTES) return 'Files must be 10 MB or smaller';
+  if (size === 0) return 'The file is empty';
+  return null;
+}
+
+export function isKycDocumentImage(mimeType: string): boolean {
+  return mimeType.startsWith('image/');
+}
+
+/**
+ * SHA-256 of a file's content as lowercase hex, stored at upload to detect tampering later
+ */
+export async function kycDocumentChecksum(content: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new Uint8Array(content));
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Pages in a file: the page objects of a PDF (at least one), one for an image
+ * Counts `/Type /Page` entries, which is enough for the page navigation of the viewer.
+ */
+export function countKycDocumentPages(content: ArrayBuffer, mimeType: string): number {
+  if (mimeType !== 'application/pdf') return 1;
+  const text = new TextDecoder('latin1').decode(content);
+  return Math.max(1, text.match(/\/Type\s*\/Page(?!s)/g)?.length ?? 0);
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import {
+  canMoveKycDocumentStatus,
+  defaultKycDocumentDueDate,
+  isKycDocumentOverdue,
+  kycDocumentRequestSchema,
+  nextKycDocumentStatuses,
+} from './kycDocumentRequests';
+
+const now = Date.parse('2025-11-03T09:00:00.000Z');
+
+describe('kycDocumentRequests', () => {
+  it('should only check a document once it has arrived', () => {
+    expect(nextKycDocumentStatuses('requested')).toEqual(['received']);
+    expect(nextKycDocumentStatuses('received')).toEqual(['verified', 'rejected']);
+    expect(nextKycDocumentStatuses('verified')).toEqual([]);
+    expect(canMoveKycDocumentStatus('requested', 'verified')).toBe(false);
+    expect(canMoveKycDocumentStatus('rejected', 'received')).toBe(false);
+  });
+
+  it('should give the customer two weeks by default', () => {
+    expect(defaultKycDocumentDueDate(now)).toBe('2025-11-17');
+  });
+
+  it('should only flag documents still missing after the due date as overdue', () => {
+    expect(isKycDocumentOverdue('requested', '2025-11-02', now)).toBe(true);
+    expect(isKycDocumentOverdue('requested', '2025-11-03', now)).toBe(false);
+    expect(isKycDocumentOverdue('received', '2025-11-02', now)).toBe(false);
+  });
+
+  it('should require at least one document and a due date that is not in the past', () => {
+    const dueDate = defaultKycDocumentDueDate();
+    expect(kycDocumentRequestSchema.safeParse({ documentTypes: ['passport'], dueDate }).success).toBe(true);
+
+    const empty = kycDocumentRequestSchema.safeParse({ documentTypes: [], dueDate });
+    expect(empty.error?.issues[0].message).toBe('Pick at least one document');
+
+    const past = kycDocumentRequestSchema.safeParse({ documentTypes: ['passport'], dueDate: '2020-01-01' });
+    expect(past.error?.issues[0].message).toBe('The due date cannot be in the past');
+
+    expect(kycDocumentRequestSchema.safeParse({ documentTypes: ['selfie'], dueDate }).success).toBe(false);
+  });
+});
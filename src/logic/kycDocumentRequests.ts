@@ -0,0 +1,85 @@
+import { z } from 'zod';
+import { toKycEffectiveDate } from './kycVersionRegistry';
+
+export const kycDocumentTypeSchema = z.enum([
+  'passport',
+  'national_id',
+  'drivers_license',
+  'proof_of_address',
+  'source_of_funds',
+  'bank_statement',
+]);
+
+export type KycDocumentType = z.infer<typeof kycDocumentTypeSchema>;
+
+export const kycDocumentTypeLabels: Record<KycDocumentType, string> = {
+  passport: 'Passport',
+  national_id: 'National ID',
+  drivers_license: "Driver's license",
+  proof_of_address: 'Proof of address',
+  source_of_funds: 'Source of funds',
+  bank_statement: 'Bank statement',
+};
+
+// Where a requested document is: asked for, arrived, then checked by a reviewer
+export const kycRequestedDocumentStatusSchema = z.enum(['requested', 'received', 'verified', 'rejected']);
+
+export type KycRequestedDocumentStatus = z.infer<typeof kycRequestedDocumentStatusSchema>;
+
+export const kycRequestedDocumentStatusLabels: Record<KycRequestedDocumentStatus, string> = {
+  requested: 'Requested',
+  received: 'Received',
+  verified: 'Verified',
+  rejected: 'Rejected',
+};
+
+// A document is only checked once it has arrived; verified and rejected are final
+// (a rejected document is asked for again with a new request)
+const kycDocumentStatusTransitions: Record<KycRequestedDocumentStatus, KycRequestedDocumentStatus[]> = {
+  requested: ['received'],
+  received: ['verified', 'rejected'],
+  verified: [],
+  rejected: [],
+};
+
+// Days the customer is given to send the documents unless the reviewer picks another due date
+export const KYC_DOCUMENT_DUE_DAYS = 14;
+
+// What a reviewer asks for when clicking Request Docs
+export const kycDocumentRequestSchema = z.object({
+  documentTypes: z.array(kycDocumentTypeSchema).min(1, 'Pick at least one document'),
+  dueDate: z.iso
+    .date('Pick a due date')
+    .refine((date) => date >= toKycEffectiveDate(Date.now()), 'The due date cannot be in the past'),
+});
+
+export type KycDocumentRequestInput = z.infer<typeof kycDocumentRequestSchema>;
+
+/**
+ * Statuses a requested document can be marked with next
+ */
+export function nextKycDocumentStatuses(status: KycRequestedDocumentStatus): KycRequestedDocumentStatus[] {
+  return kycDocumentStatusTransitions[status];
+}
+
+export function canMoveKycDocumentStatus(from: KycRequestedDocumentStatus, to: KycRequestedDocumentStatus): boolean {
+  return kycDocumentStatusTransitions[from].includes(to);
+}
+
+/**
+ * Default due date (YYYY-MM-DD, UTC) for a request made at `now`
+ */
+export function defaultKycDocumentDueDate(now: number = Date.now()): string {
+  return toKycEffectiveDate(now + KYC_DOCUMENT_DUE_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Whether a document still hasn't arrived after its due date
+ */
+export function isKycDocumentOverdue(
+  status: KycRequestedDocumentStatus,
+  dueDate: string,
+  now: number = Date.now()
+): boolean {
+  return status === 'requested' && dueDate < toKycEffectiveDate(now);
+}
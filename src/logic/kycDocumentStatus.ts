@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+// Verification status of a customer's identity document
+export const kycDocumentStatusSchema = z.enum(['verified', 'pending', 'expired', 'rejected', 'missing']);
+
+export type KycDocumentStatus = z.infer<typeof kycDocumentStatusSchema>;
+
+export const kycDocumentStatusLabels: Record<KycDocumentStatus, string> = {
+  verified: 'Verified',
+  pending: 'Pending review',
+  expired: 'Expired',
+  rejected: 'Rejected',
+  missing: 'Missing',
+};
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { canCheckKycApproval, pendingKycApproval, requiresKycFourEyes } from './kycFourEyes';
+import type { KycApproval } from '../api/transactionsApi';
+
+const approval = (id: string, status: KycApproval['status']): KycApproval => ({
+  id,
+  customerId: 'C-003',
+  status,
+  makerId: 'R-ALEX',
+  submittedAt: '2025-11-03T09:00:00.000Z',
+});
+
+describe('kycFourEyes', () => {
+  it('should require a second reviewer only when approving against the decision', () => {
+    expect(requiresKycFourEyes('deny')).toBe(true);
+    expect(requiresKycFourEyes('manual_review')).toBe(true);
+    expect(requiresKycFourEyes('approve')).toBe(false);
+    expect(requiresKycFourEyes(undefined)).toBe(false);
+  });
+
+  it('should find the pending approval among decided ones', () => {
+    expect(pendingKycApproval([approval('A-1', 'rejected'), approval('A-2', 'pending')])?.id).toBe('A-2');
+    expect(pendingKycApproval([approval('A-1', 'confirmed')])).toBeNull();
+  });
+
+  it('should only let a different reviewer check a pending approval', () => {
+    expect(canCheckKycApproval(approval('A-1', 'pending'), 'R-SAM')).toBe(true);
+    expect(canCheckKycApproval(approval('A-1', 'pending'), 'R-ALEX')).toBe(false);
+    expect(canCheckKycApproval(approval('A-1', 'confirmed'), 'R-SAM')).toBe(false);
+  });
+});
@@ -0,0 +1,26 @@
+import type { KycDecision } from './kycRules.v1';
+import type { KycApproval } from '../api/transactionsApi';
+
+/**
+ * Whether approving needs a second reviewer (maker-checker)
+ * Approving against a manual_review or deny recommendation does; without a
+ * decision yet there is no recommendation to go against.
+ */
+export function requiresKycFourEyes(decision: KycDecision | undefined): boolean {
+  return decision !== undefined && decision !== 'approve';
+}
+
+/**
+ * The approval still waiting for its second reviewer, if any
+ */
+export function pendingKycApproval(approvals: KycApproval[]): KycApproval | null {
+  return approvals.find((approval) => approval.status === 'pending') ?? null;
+}
+
+/**
+ * Whether a reviewer may confirm or reject an approval: it must be pending and
+ * submitted by someone else
+ */
+export function canCheckKycApproval(approval: KycApproval, reviewerId: string): boolean {
+  return approval.status === 'pending' && approval.makerId !== reviewerId;
+}
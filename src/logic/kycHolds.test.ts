@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import {
+  activeKycHold,
+  defaultKycHoldExpiry,
+  kycHoldExpiresAt,
+  kycHoldRequestSchema,
+  kycHoldStatus,
+} from './kycHolds';
+import type { KycHold } from '../api/transactionsApi';
+
+const now = Date.parse('2025-11-03T09:00:00.000Z');
+
+const hold: KycHold = {
+  id: 'H-1',
+  customerId: 'C-002',
+  reason: 'suspicious_activity',
+  placedBy: 'R-ALEX',
+  placedAt: '2025-11-03T08:00:00.000Z',
+  expiresAt: '2025-11-10T00:00:00.000Z',
+};
+
+describe('kycHolds', () => {
+  it('should hold for a week by default', () => {
+    expect(defaultKycHoldExpiry(now)).toBe('2025-11-10');
+  });
+
+  it('should lift a hold at the end of its expiry date', () => {
+    expect(kycHoldExpiresAt('2025-11-09')).toBe('2025-11-10T00:00:00.000Z');
+  });
+
+  it('should tell active, released and expired holds apart', () => {
+    expect(kycHoldStatus(hold, now)).toBe('active');
+    expect(kycHoldStatus(hold, Date.parse(hold.expiresAt))).toBe('expired');
+    expect(kycHoldStatus({ ...hold, releasedBy: 'R-SAM', releasedAt: '2025-11-04T09:00:00.000Z' }, now)).toBe(
+      'released'
+    );
+  });
+
+  it('should find the hold still blocking a customer', () => {
+    const released: KycHold = { ...hold, id: 'H-0', releasedBy: 'R-SAM', releasedAt: '2025-11-02T09:00:00.000Z' };
+    expect(activeKycHold([released, hold], now)?.id).toBe('H-1');
+    expect(activeKycHold([released, hold], Date.parse('2025-11-11T00:00:00.000Z'))).toBeNull();
+    expect(activeKycHold([], now)).toBeNull();
+  });
+
+  it('should require a reason and an expiry date that is not in the past', () => {
+    const expiresOn = defaultKycHoldExpiry();
+    expect(kycHoldRequestSchema.safeParse({ reason: 'sanctions_review', expiresOn }).success).toBe(true);
+
+    const past = kycHoldRequestSchema.safeParse({ reason: 'sanctions_review', expiresOn: '2020-01-01' });
+    expect(past.error?.issues[0].message).toBe('The hold cannot expire in the past');
+
+    expect(kycHoldRequestSchema.safeParse({ reason: 'gut_feeling', expiresOn }).success).toBe(false);
+    expect(kycHoldRequestSchema.safeParse({ reason: 'other', note: 'x'.repeat(501), expiresOn }).success).toBe(false);
+  });
+});
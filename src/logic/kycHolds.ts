@@ -0,0 +1,68 @@
+import { z } from 'zod';
+import type { KycHold } from '../api/transactionsApi';
+import { toKycEffectiveDate } from './kycVersionRegistry';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const kycHoldReasonSchema = z.enum([
+  'awaiting_documents',
+  'sanctions_review',
+  'suspicious_activity',
+  'fraud_investigation',
+  'customer_request',
+  'other',
+]);
+
+export type KycHoldReason = z.infer<typeof kycHoldReasonSchema>;
+
+export const kycHoldReasonLabels: Record<KycHoldReason, string> = {
+  awaiting_documents: 'Awaiting documents',
+  sanctions_review: 'Sanctions review',
+  suspicious_activity: 'Suspicious activity',
+  fraud_investigation: 'Fraud investigation',
+  customer_request: 'Customer request',
+  other: 'Other',
+};
+
+// Released by a reviewer, or lifted automatically once the expiry passes
+export type KycHoldStatus = 'active' | 'released' | 'expired';
+
+// Days a hold lasts unless the reviewer picks another expiry date
+export const KYC_HOLD_DAYS = 7;
+
+// What a reviewer fills in when clicking Hold
+export const kycHoldRequestSchema = z.object({
+  reason: kycHoldReasonSchema,
+  note: z.string().trim().max(500, 'Keep the note under 500 characters').optional(),
+  expiresOn: z.iso
+    .date('Pick an expiry date')
+    .refine((date) => date >= toKycEffectiveDate(Date.now()), 'The hold cannot expire in the past'),
+});
+
+export type KycHoldRequestInput = z.infer<typeof kycHoldRequestSchema>;
+
+/**
+ * Default expiry date (YYYY-MM-DD, UTC) for a hold placed at `now`
+ */
+export function defaultKycHoldExpiry(now: number = Date.now()): string {
+  return toKycEffectiveDate(now + KYC_HOLD_DAYS * DAY_MS);
+}
+
+/**
+ * When a hold expiring on `expiresOn` lifts: the end of that day (UTC), as an ISO timestamp
+ */
+export function kycHoldExpiresAt(expiresOn: string): string {
+  return new Date(Date.parse(`${expiresOn}T00:00:00Z`) + DAY_MS).toISOString();
+}
+
+export function kycHoldStatus(hold: KycHold, now: number = Date.now()): KycHoldStatus {
+  if (hold.releasedAt) return 'released';
+  return Date.parse(hold.expiresAt) <= now ? 'expired' : 'active';
+}
+
+/**
+ * The hold currently blocking a customer, if any
+ */
+export function activeKycHold(holds: KycHold[], now: number = Date.now()): KycHold | null {
+  return holds.find((hold) => kycHoldStatus(hold, now) === 'active') ?? null;
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { kycVersionRegistry } from './kycVersions';
+import { defineRulesetKycVersion, type KycVersionDefinition } from './kycVersionRegistry';
+import { parseKycRuleset } from './kycRuleEngine';
+import { kycInputSchemaV3 } from './kycRules.v3';
+import {
+  checkKycInvariants,
+  checkKycStrictness,
+  createKycRandom,
+  generateKycInput,
+  kycInvariants,
+} from '../test/kycInvariants';
+
+const RUNS = 2000;
+
+// Invariants a version is known not to meet
+const knownGaps: Record<string, string[]> = {
+  v1: ['sanctions-deny'], // v1 predates sanctions screening
+};
+
+describe('KYC invariants', () => {
+  describe.each(kycVersionRegistry.versions.map((version) => ({ id: version.id, version })))(
+    '$id',
+    ({ id, version }) => {
+      const invariants = kycInvariants.filter((invariant) => !knownGaps[id]?.includes(invariant.id));
+
+      it.each(invariants)('$description', (invariant) => {
+        expect(checkKycInvariants(version, { runs: RUNS, invariants: [invariant] })).toEqual([]);
+      });
+    }
+  );
+
+  it.each(knownGaps.v1)('v1 should still have the known gap %s', (invariantId) => {
+    // Fails once v1 is fixed, so the gap can be removed from knownGaps
+    const invariants = kycInvariants.filter((invariant) => invariant.id === invariantId);
+
+    expect(checkKycInvariants(kycVersionRegistry.resolve('v1'), { runs: RUNS, invariants })).not.toEqual([]);
+  });
+
+  it.each(
+    kycVersionRegistry.versions.slice(1).map((candidate, index) => ({
+      baseline: kycVersionRegistry.versions[index],
+      candidate,
+    }))
+  )('$candidate.id should never be more lenient than $baseline.id', ({ baseline, candidate }) => {
+    expect(checkKycStrictness(baseline, candidate, { runs: RUNS })).toEqual([]);
+  });
+});
+
+describe('invariant harness', () => {
+  const lenient: KycVersionDefinition = defineRulesetKycVersion({
+    id: 'lenient',
+    label: 'lenient',
+    color: 'rose',
+    inputSchema: kycInputSchemaV3,
+    ruleset: parseKycRuleset({
+      version: 'lenient',
+      rules: [
+        {
+          id: 'low-risk-review',
+          priority: 10,
+          when: [{ field: 'riskScore', op: 'lt', value: 20 }],
+          outcome: 'manual_review',
+          code: 'RISK_SCORE_LOW',
+          severity: 'warning',
+        },
+      ],
+      fallback: { code: 'LOW_RISK_PROFILE', when: [{ field: 'riskScore', op: 'lt', value: 50 }] },
+    }),
+  });
+
+  it('should generate the same inputs for the same seed', () => {
+    const version = kycVersionRegistry.resolve('v3');
+    const first = createKycRandom(42);
+    const second = createKycRandom(42);
+
+    expect(generateKycInput(first, version)).toEqual(generateKycInput(second, version));
+  });
+
+  it('should report each broken invariant once with the input that broke it', () => {
+    const violations = checkKycInvariants(lenient, { runs: 500, seed: 7 });
+
+    expect(violations.map((violation) => violation.invariant).sort()).toEqual([
+      'reasons-never-empty',
+      'restricted-country-deny',
+      'risk-score-monotonic',
+      'sanctions-deny',
+    ]);
+    expect(violations.every((violation) => violation.seed === 7)).toBe(true);
+  });
+
+  it('should report a candidate that is more lenient than its baseline', () => {
+    const [violation] = checkKycStrictness(kycVersionRegistry.resolve('v2'), lenient, { runs: 500 });
+
+    expect(violation.invariant).toBe('never-more-lenient');
+    expect(violation.message).toMatch(/^lenient decided \w+ where v2 decided \w+$/);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { kycJustificationSchema, requiresKycJustification } from './kycJustification';
+
+describe('kycJustification', () => {
+  it('should require a justification only when the action differs from the decision', () => {
+    expect(requiresKycJustification('approve', 'approve')).toBe(false);
+    expect(requiresKycJustification('approve', 'manual_review')).toBe(true);
+    expect(requiresKycJustification('request_documents', 'manual_review')).toBe(false);
+    expect(requiresKycJustification('request_documents', 'deny')).toBe(true);
+    expect(requiresKycJustification('hold', 'deny')).toBe(false);
+    expect(requiresKycJustification('hold', 'approve')).toBe(true);
+  });
+
+  it('should not require a justification before there is a decision', () => {
+    expect(requiresKycJustification('approve', undefined)).toBe(false);
+    expect(requiresKycJustification('hold', undefined)).toBe(false);
+  });
+
+  it('should accept a category with a note of the minimum length, trimmed', () => {
+    const result = kycJustificationSchema.safeParse({
+      category: 'false_positive',
+      note: '  Name match is a different person  ',
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.note).toBe('Name match is a different person');
+  });
+
+  it('should reject short notes and unknown categories', () => {
+    const short = kycJustificationSchema.safeParse({ category: 'other', note: 'Looks fine          ' });
+    expect(short.success).toBe(false);
+    expect(short.error?.issues[0].message).toBe('Explain the decision in at least 20 characters');
+
+    expect(kycJustificationSchema.safeParse({ category: 'gut_feeling', note: 'A long enough explanation' }).success)
+      .toBe(false);
+  });
+});
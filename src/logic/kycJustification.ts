@@ -0,0 +1,60 @@
+import { z } from 'zod';
+import type { KycDecision } from './kycRules.v1';
+
+// Shortest note auditors accept as a rationale
+export const KYC_JUSTIFICATION_MIN_LENGTH = 20;
+
+export const kycJustificationCategorySchema = z.enum([
+  'false_positive',
+  'additional_evidence',
+  'customer_relationship',
+  'risk_accepted',
+  'policy_exception',
+  'other',
+]);
+
+export type KycJustificationCategory = z.infer<typeof kycJustificationCategorySchema>;
+
+export const kycJustificationCategoryLabels: Record<KycJustificationCategory, string> = {
+  false_positive: 'False positive',
+  additional_evidence: 'Additional evidence reviewed',
+  customer_relationship: 'Known customer relationship',
+  risk_accepted: 'Risk accepted',
+  policy_exception: 'Policy exception',
+  other: 'Other',
+};
+
+// Rationale a reviewer gives for acting against the engine's decision
+export const kycJustificationSchema = z.object({
+  category: kycJustificationCategorySchema,
+  note: z
+    .string()
+    .trim()
+    .min(KYC_JUSTIFICATION_MIN_LENGTH, `Explain the decision in at least ${KYC_JUSTIFICATION_MIN_LENGTH} characters`),
+});
+
+export type KycJustification = z.infer<typeof kycJustificationSchema>;
+
+export type KycReviewerAction = 'approve' | 'request_documents' | 'hold';
+
+export const kycReviewerActionLabels: Record<KycReviewerAction, string> = {
+  approve: 'Approve',
+  request_documents: 'Request Docs',
+  hold: 'Hold',
+};
+
+// Decision each action carries out: approving approves, requesting documents
+// continues the manual review and holding blocks the customer like a deny
+const kycActionOutcomes: Record<KycReviewerAction, KycDecision> = {
+  approve: 'approve',
+  request_documents: 'manual_review',
+  hold: 'deny',
+};
+
+/**
+ * Whether an action goes against the engine's decision and so needs a justification
+ * Without a decision yet there is nothing to go against.
+ */
+export function requiresKycJustification(action: KycReviewerAction, decision: KycDecision | undefined): boolean {
+  return decision !== undefined && kycActionOutcomes[action] !== decision;
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { formatKycReason, groupKycReasonsBySeverity, type KycReason } from './kycReasons';
+
+describe('formatKycReason', () => {
+  it.each([
+    {
+      reason: { code: 'SANCTIONS_HIT', severity: 'critical', outcome: 'deny', params: {} },
+      expected: 'On sanctions list',
+    },
+    {
+      reason: { code: 'PEP', severity: 'warning', outcome: 'manual_review', params: {} },
+      expected: 'PEP (Politically Exposed Person)',
+    },
+    {
+      reason: { code: 'RISK_SCORE_HIGH', severity: 'critical', outcome: 'deny', params: { threshold: 80 } },
+      expected: 'Risk score 80+',
+    },
+    {
+      reason: {
+        code: 'RISK_SCORE_MEDIUM',
+        severity: 'warning',
+        outcome: 'manual_review',
+        params: { threshold: 50, limit: 75 },
+      },
+      expected: 'Risk score 50-74',
+    },
+    {
+      reason: { code: 'RISK_SCORE_LOW', severity: 'info', outcome: 'approve', params: {} },
+      expected: 'Low risk score',
+    },
+    {
+      reason: { code: 'LOW_RISK_PROFILE', severity: 'info', outcome: 'approve', params: {} },
+      expected: 'Low risk profile',
+    },
+    {
+      reason: {
+        code: 'AMOUNT_HIGH',
+        severity: 'warning',
+        outcome: 'manual_review',
+        params: { threshold: 100000, actual: 150000 },
+      },
+      expected: `Amount exceeds ${(100000).toLocaleString()}`,
+    },
+    {
+      reason: {
+        code: 'VELOCITY_HIGH',
+        severity: 'warning',
+        outcome: 'manual_review',
+        params: { threshold: 10, actual: 15 },
+      },
+      expected: 'High transaction velocity: 15 in 24h',
+    },
+    {
+      reason: { code: 'RESTRICTED_COUNTRY', severity: 'critical', outcome: 'deny', params: { actual: 'XX' } },
+      expected: 'Restricted country: XX',
+    },
+    {
+      reason: { code: 'COMBINED_RISK', severity: 'warning', outcome: 'manual_review', params: {} },
+      expected: 'Combined risk factors: medium risk score + high amount',
+    },
+  ] satisfies Array<{ reason: KycReason; expected: string }>)(
+    'should render $reason.code as "$expected"',
+    ({ reason, expected }) => {
+      expect(formatKycReason(reason)).toBe(expected);
+    }
+  );
+});
+
+describe('groupKycReasonsBySeverity', () => {
+  it('should group reasons most severe first and omit empty groups', () => {
+    const pep: KycReason = { code: 'PEP', severity: 'warning', outcome: 'manual_review', params: {} };
+    const country: KycReason = {
+      code: 'RESTRICTED_COUNTRY',
+      severity: 'critical',
+      outcome: 'deny',
+      params: { actual: 'XX' },
+    };
+
+    expect(groupKycReasonsBySeverity([pep, country])).toEqual([
+      { severity: 'critical', reasons: [country] },
+      { severity: 'warning', reasons: [pep] },
+    ]);
+  });
+});
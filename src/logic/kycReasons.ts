@@ -0,0 +1,90 @@
+import { z } from 'zod';
+import type { KycDecision } from './kycRules.v1';
+
+export const kycReasonCodeSchema = z.enum([
+  'SANCTIONS_HIT',
+  'PEP',
+  'RISK_SCORE_HIGH',
+  'RISK_SCORE_MEDIUM',
+  'RISK_SCORE_LOW',
+  'LOW_RISK_PROFILE',
+  'AMOUNT_HIGH',
+  'VELOCITY_HIGH',
+  'RESTRICTED_COUNTRY',
+  'ENHANCED_DUE_DILIGENCE',
+  'DOCUMENT_REJECTED',
+  'DOCUMENT_UNVERIFIED',
+  'ACCOUNT_NEW',
+  'ADVERSE_MEDIA',
+  'ADVERSE_MEDIA_SEVERE',
+  'NATIONALITY_MISMATCH',
+  'SOURCE_OF_FUNDS_UNDECLARED',
+  'COMBINED_RISK',
+]);
+
+export const kycReasonSeveritySchema = z.enum(['info', 'warning', 'critical']);
+
+export type KycReasonCode = z.infer<typeof kycReasonCodeSchema>;
+export type KycReasonSeverity = z.infer<typeof kycReasonSeveritySchema>;
+
+// Values involved in the check that produced a reason
+export interface KycReasonParams {
+  field?: string;
+  actual?: number | string | boolean;
+  threshold?: number; // lower bound (gt / gte)
+  limit?: number; // upper bound (lt / lte)
+}
+
+export interface KycReason {
+  code: KycReasonCode;
+  severity: KycReasonSeverity;
+  outcome: KycDecision; // The decision this reason pushed toward
+  params: KycReasonParams;
+}
+
+// Most severe first - used for ordering grouped reasons in the UI
+export const kycReasonSeverities: KycReasonSeverity[] = ['critical', 'warning', 'info'];
+
+const formatNumber = (value: number | undefined) => (value ?? 0).toLocaleString();
+
+const reasonMessages: Record<KycReasonCode, (params: KycReasonParams) => string> = {
+  SANCTIONS_HIT: () => 'On sanctions list',
+  PEP: () => 'PEP (Politically Exposed Person)',
+  RISK_SCORE_HIGH: ({ threshold }) => `Risk score ${threshold}+`,
+  RISK_SCORE_MEDIUM: ({ threshold, limit }) => `Risk score ${threshold}-${(limit ?? 0) - 1}`,
+  RISK_SCORE_LOW: () => 'Low risk score',
+  LOW_RISK_PROFILE: () => 'Low risk profile',
+  AMOUNT_HIGH: ({ threshold }) => `Amount exceeds ${formatNumber(threshold)}`,
+  VELOCITY_HIGH: ({ actual }) => `High transaction velocity: ${actual} in 24h`,
+  RESTRICTED_COUNTRY: ({ actual }) => `Restricted country: ${actual}`,
+  ENHANCED_DUE_DILIGENCE: ({ actual }) => `Enhanced due diligence country: ${actual}`,
+  DOCUMENT_REJECTED: () => 'Identity document rejected',
+  DOCUMENT_UNVERIFIED: ({ actual }) => `Identity document not verified (${actual})`,
+  ACCOUNT_NEW: ({ actual, limit }) => `New account: ${actual} days old (under ${limit})`,
+  ADVERSE_MEDIA: ({ actual }) => `Adverse media hits: ${actual}`,
+  ADVERSE_MEDIA_SEVERE: ({ actual, threshold }) => `Adverse media hits: ${actual} (${threshold}+)`,
+  NATIONALITY_MISMATCH: () => 'Nationality differs from country of residence',
+  SOURCE_OF_FUNDS_UNDECLARED: ({ threshold }) => `Source of funds not declared for amount over ${formatNumber(threshold)}`,
+  COMBINED_RISK: () => 'Combined risk factors: medium risk score + high amount',
+};
+
+/**
+ * Renders a structured reason as the human readable text shown to reviewers
+ */
+export function formatKycReason(reason: KycReason): string {
+  return reasonMessages[reason.code](reason.params);
+}
+
+/**
+ * Groups reasons by severity, most severe first, omitting empty groups
+ */
+export function groupKycReasonsBySeverity(
+  reasons: KycReason[]
+): Array<{ severity: KycReasonSeverity; reasons: KycReason[] }> {
+  return kycReasonSeverities
+    .map((severity) => ({
+      severity,
+      reasons: reasons.filter((reason) => reason.severity === severity),
+    }))
+    .filter((group) => group.reasons.length > 0);
+}
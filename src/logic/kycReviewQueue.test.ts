@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildKycReviewQueue,
+  filterKycReviewQueue,
+  formatKycSlaRemaining,
+  isKycReviewResolved,
+  kycReviewQueueReasonCodes,
+  kycReviewSla,
+  syncKycReviewQueueEntries,
+  type KycReviewQueueEntry,
+} from './kycReviewQueue';
+import type { KycDecision } from './kycRules.v1';
+import type { KycReasonCode } from './kycReasons';
+import type { KycEngineResult } from './useKycEngine';
+import type { KycHold } from '../api/transactionsApi';
+
+const HOUR_MS = 60 * 60 * 1000;
+const now = Date.parse('2025-11-03T12:00:00Z');
+const hoursAgo = (hours: number) => new Date(now - hours * HOUR_MS).toISOString();
+
+const evaluation = (id: string, decision: KycDecision, riskScore: number, codes: KycReasonCode[] = []) => ({
+  customer: { id, name: `Customer ${id}`, riskScore, country: 'US' },
+  result: {
+    decision,
+    reasons: codes.map((code) => ({ code, severity: 'warning', outcome: decision, params: {} })),
+    version: 'v3',
+    assignment: null,
+    riskScore: { value: riskScore, source: 'supplied', breakdown: null },
+  } satisfies KycEngineResult,
+});
+
+describe('kycReviewSla', () => {
+  it('should count down from when the customer entered the queue', () => {
+    expect(kycReviewSla('manual_review', hoursAgo(2), now)).toEqual({
+      dueAt: '2025-11-04T10:00:00.000Z',
+      remainingMs: 22 * HOUR_MS,
+      status: 'on_track',
+    });
+    expect(kycReviewSla('deny', hoursAgo(3.5), now).status).toBe('due_soon');
+    expect(kycReviewSla('deny', hoursAgo(4), now).status).toBe('breached');
+  });
+
+  it('should format the time left or overdue', () => {
+    expect(formatKycSlaRemaining(3 * HOUR_MS + 5 * 60 * 1000)).toBe('3h 05m left');
+    expect(formatKycSlaRemaining(-(HOUR_MS + 20 * 60 * 1000))).toBe('1h 20m overdue');
+  });
+});
+
+describe('syncKycReviewQueueEntries', () => {
+  const entries: Record<string, KycReviewQueueEntry> = {
+    'C-001': { decision: 'manual_review', enteredAt: hoursAgo(5), claim: { reviewerId: 'R-SAM', claimedAt: hoursAgo(1) } },
+    'C-002': { decision: 'deny', enteredAt: hoursAgo(1) },
+  };
+
+  it('should return the same entries when no decision changed', () => {
+    expect(syncKycReviewQueueEntries(entries, { 'C-001': 'manual_review', 'C-002': 'deny' }, now)).toBe(entries);
+  });
+
+  it('should add new customers, drop approved ones and keep claims and entry times', () => {
+    const synced = syncKycReviewQueueEntries(entries, { 'C-001': 'deny', 'C-003': 'manual_review' }, now);
+
+    expect(synced).toEqual({
+      'C-001': { decision: 'deny', enteredAt: hoursAgo(5), claim: { reviewerId: 'R-SAM', claimedAt: hoursAgo(1) } },
+      'C-003': { decision: 'manual_review', enteredAt: hoursAgo(0) },
+    });
+  });
+});
+
+describe('buildKycReviewQueue', () => {
+  const evaluations = [
+    evaluation('C-001', 'manual_review', 60, ['RISK_SCORE_MEDIUM']),
+    evaluation('C-002', 'approve', 95),
+    evaluation('C-003', 'deny', 80, ['SANCTIONS_HIT']),
+    evaluation('C-004', 'manual_review', 60, ['PEP', 'RISK_SCORE_MEDIUM']),
+  ];
+  const entries: Record<string, KycReviewQueueEntry> = {
+    'C-001': { decision: 'manual_review', enteredAt: hoursAgo(1) },
+    'C-004': { decision: 'manual_review', enteredAt: hoursAgo(3), claim: { reviewerId: 'R-ALEX', claimedAt: hoursAgo(2) } },
+  };
+  const queue = buildKycReviewQueue(evaluations, entries, now);
+
+  it('should leave out approved customers and sort by risk, then by time waiting', () => {
+    expect(queue.map((item) => item.customer.id)).toEqual(['C-003', 'C-004', 'C-001']);
+    expect(queue[0]).toMatchObject({ decision: 'deny', enteredAt: hoursAgo(0), claim: null });
+    expect(queue[1].claim?.reviewerId).toBe('R-ALEX');
+  });
+
+  it('should filter by reason code and ownership', () => {
+    const byCode = filterKycReviewQueue(queue, { reasonCodes: ['PEP', 'SANCTIONS_HIT'], ownership: 'all' }, 'R-ALEX');
+    const mine = filterKycReviewQueue(queue, { reasonCodes: [], ownership: 'mine' }, 'R-ALEX');
+    const unclaimed = filterKycReviewQueue(queue, { reasonCodes: ['RISK_SCORE_MEDIUM'], ownership: 'unclaimed' }, 'R-ALEX');
+
+    expect(byCode.map((item) => item.customer.id)).toEqual(['C-003', 'C-004']);
+    expect(mine.map((item) => item.customer.id)).toEqual(['C-004']);
+    expect(unclaimed.map((item) => item.customer.id)).toEqual(['C-001']);
+  });
+
+  it('should list the reason codes present in the queue', () => {
+    expect(kycReviewQueueReasonCodes(queue)).toEqual(['PEP', 'RISK_SCORE_MEDIUM', 'SANCTIONS_HIT']);
+  });
+});
+
+describe('isKycReviewResolved', () => {
+  const action = (name: string, hours: number) => ({ action: name, recordedAt: hoursAgo(hours) });
+  const hold = (expiresInHours: number): KycHold => ({
+    id: 'H-1',
+    customerId: 'C-001',
+    reason: 'suspicious_activity',
+    placedBy: 'R-ALEX',
+    placedAt: hoursAgo(2),
+    expiresAt: hoursAgo(-expiresInHours),
+  });
+  const resolved = (history: { action: string; recordedAt: string }[], holds: KycHold[] = []) =>
+    isKycReviewResolved(history, hoursAgo(3), holds, now);
+
+  it('should resolve a customer approved, or on a hold placed, since it entered the queue', () => {
+    expect(resolved([action('request_documents', 2)])).toBe(false);
+    expect(resolved([action('approve', 2)])).toBe(true);
+    expect(resolved([action('submit_approval', 2), action('confirm_approval', 1)])).toBe(true);
+    expect(resolved([action('hold', 2)], [hold(24)])).toBe(true);
+  });
+
+  it('should put a customer back once the action is undone or the hold released', () => {
+    expect(resolved([action('approve', 2), action('undo_approve', 1)])).toBe(false);
+    const released = { ...hold(24), releasedBy: 'R-ALEX', releasedAt: hoursAgo(1) };
+    expect(resolved([action('hold', 2), action('release_hold', 1)], [released])).toBe(false);
+  });
+
+  it('should put a customer back once its hold has expired', () => {
+    expect(resolved([action('hold', 2)], [hold(-1)])).toBe(false);
+  });
+
+  it('should ignore actions from before the customer entered the queue', () => {
+    expect(resolved([action('approve', 5)])).toBe(false);
+  });
+});
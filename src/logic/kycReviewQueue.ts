@@ -0,0 +1,193 @@
+import type { Customer } from '../legacy/LegacyCustomerSearch';
+import type { KycDecision } from './kycRules.v1';
+import type { KycReasonCode } from './kycReasons';
+import type { KycEngineResult } from './useKycEngine';
+import type { KycHold } from '../api/transactionsApi';
+import { activeKycHold } from './kycHolds';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// Decisions that put a customer in the review queue
+export type KycReviewQueueDecision = Exclude<KycDecision, 'approve'>;
+
+// Hours a reviewer has to act once a customer enters the queue
+export const KYC_REVIEW_SLA_HOURS: Record<KycReviewQueueDecision, number> = {
+  deny: 4,
+  manual_review: 24,
+};
+
+// Share of the SLA left below which an item is due soon
+const DUE_SOON_SHARE = 0.25;
+
+// Reviewer actions that take a customer out of the queue, and those that put it back
+const RESOLVING_ACTIONS = new Set(['approve', 'confirm_approval', 'hold']);
+const REOPENING_ACTIONS = new Set(['undo_approve', 'undo_hold', 'release_hold']);
+
+export interface KycReviewClaim {
+  reviewerId: string;
+  claimedAt: string; // ISO timestamp
+}
+
+// What is kept about a queued customer between evaluations
+export interface KycReviewQueueEntry {
+  decision: KycReviewQueueDecision;
+  enteredAt: string; // ISO timestamp the customer entered the queue
+  claim?: KycReviewClaim;
+}
+
+export type KycReviewSlaStatus = 'on_track' | 'due_soon' | 'breached';
+
+export interface KycReviewSla {
+  dueAt: string; // ISO timestamp
+  remainingMs: number; // Negative once breached
+  status: KycReviewSlaStatus;
+}
+
+export interface KycReviewQueueItem {
+  customer: Customer;
+  result: KycEngineResult;
+  decision: KycReviewQueueDecision;
+  enteredAt: string;
+  claim: KycReviewClaim | null;
+  sla: KycReviewSla;
+}
+
+export type KycReviewQueueOwnership = 'all' | 'mine' | 'unclaimed';
+
+export interface KycReviewQueueFilter {
+  reasonCodes: KycReasonCode[]; // Items with any of these reasons; empty for all
+  ownership: KycReviewQueueOwnership;
+}
+
+export function isKycReviewQueueDecision(decision: KycDecision): decision is KycReviewQueueDecision {
+  return decision !== 'approve';
+}
+
+/**
+ * SLA of a queued customer, measured from when it entered the queue
+ */
+export function kycReviewSla(
+  decision: KycReviewQueueDecision,
+  enteredAt: string,
+  now: number = Date.now()
+): KycReviewSla {
+  const slaMs = KYC_REVIEW_SLA_HOURS[decision] * HOUR_MS;
+  const dueAt = new Date(enteredAt).getTime() + slaMs;
+  const remainingMs = dueAt - now;
+  const status: KycReviewSlaStatus =
+    remainingMs <= 0 ? 'breached' : remainingMs <= slaMs * DUE_SOON_SHARE ? 'due_soon' : 'on_track';
+  return { dueAt: new Date(dueAt).toISOString(), remainingMs, status };
+}
+
+/**
+ * Countdown text for an SLA, e.g. "3h 05m left" or "1h 20m overdue"
+ */
+export function formatKycSlaRemaining(remainingMs: number): string {
+  const minutes = Math.floor(Math.abs(remainingMs) / MINUTE_MS);
+  const text = `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+  return remainingMs > 0 ? `${text} left` : `${text} overdue`;
+}
+
+/**
+ * Brings the stored queue entries in line with the current decisions (by customer id)
+ * New customers enter now, customers no longer queued are dropped and claims are kept.
+ * Returns `entries` itself when nothing changed.
+ */
+export function syncKycReviewQueueEntries(
+  entries: Record<string, KycReviewQueueEntry>,
+  decisions: Record<string, KycReviewQueueDecision>,
+  now: number = Date.now()
+): Record<string, KycReviewQueueEntry> {
+  let changed = Object.keys(entries).some((customerId) => !(customerId in decisions));
+  const synced = Object.fromEntries(
+    Object.entries(decisions).map(([customerId, decision]) => {
+      const entry = entries[customerId];
+      if (entry?.decision === decision) return [customerId, entry];
+      changed = true;
+      // A decision moving between manual_review and deny keeps its place in the queue
+      return [customerId, { ...entry, decision, enteredAt: entry?.enteredAt ?? new Date(now).toISOString() }];
+    })
+  );
+  return changed ? synced : entries;
+}
+
+/**
+ * Riskiest first (by the score the decision was made with), then longest waiting
+ */
+export function compareKycReviewQueueItems(a: KycReviewQueueItem, b: KycReviewQueueItem): number {
+  return (
+    b.result.riskScore.value - a.result.riskScore.value ||
+    a.enteredAt.localeCompare(b.enteredAt) ||
+    a.customer.id.localeCompare(b.customer.id)
+  );
+}
+
+/**
+ * Builds the sorted review queue from the customers' current evaluations
+ * Approved customers are left out; customers without a stored entry enter now.
+ */
+export function buildKycReviewQueue(
+  evaluations: { customer: Customer; result: KycEngineResult }[],
+  entries: Record<string, KycReviewQueueEntry>,
+  now: number = Date.now()
+): KycReviewQueueItem[] {
+  return evaluations
+    .flatMap(({ customer, result }) => {
+      const { decision } = result;
+      if (!isKycReviewQueueDecision(decision)) return [];
+      const entry = entries[customer.id];
+      const enteredAt = entry?.enteredAt ?? new Date(now).toISOString();
+      return [{
+        customer,
+        result,
+        decision,
+        enteredAt,
+        claim: entry?.claim ?? null,
+        sla: kycReviewSla(decision, enteredAt, now),
+      }];
+    })
+    .sort(compareKycReviewQueueItems);
+}
+
+/**
+ * Whether a reviewer has approved or held the customer since it entered the queue
+ * Undoing that action, or releasing the hold, puts the customer back; so does the hold expiring.
+ */
+export function isKycReviewResolved(
+  history: { action: string; recordedAt: string }[], // Oldest first
+  enteredAt: string,
+  holds: KycHold[],
+  now: number = Date.now()
+): boolean {
+  let resolvedBy: string | null = null;
+  for (const { action, recordedAt } of history) {
+    if (recordedAt < enteredAt) continue;
+    if (RESOLVING_ACTIONS.has(action)) resolvedBy = action;
+    if (REOPENING_ACTIONS.has(action)) resolvedBy = null;
+  }
+  if (resolvedBy === 'hold') return activeKycHold(holds, now) !== null;
+  return resolvedBy !== null;
+}
+
+/**
+ * Keeps the items matching a reason code filter and claim ownership
+ */
+export function filterKycReviewQueue(
+  items: KycReviewQueueItem[],
+  { reasonCodes, ownership }: KycReviewQueueFilter,
+  reviewerId: string
+): KycReviewQueueItem[] {
+  return items.filter(({ result, claim }) => {
+    if (ownership === 'mine' && claim?.reviewerId !== reviewerId) return false;
+    if (ownership === 'unclaimed' && claim) return false;
+    return reasonCodes.length === 0 || result.reasons.some((reason) => reasonCodes.includes(reason.code));
+  });
+}
+
+/**
+ * Reason codes present in the queue, for the filter options
+ */
+export function kycReviewQueueReasonCodes(items: KycReviewQueueItem[]): KycReasonCode[] {
+  return [...new Set(items.flatMap(({ result }) => result.reasons.map((reason) => reason.code)))].sort();
+}
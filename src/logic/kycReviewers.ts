@@ -0,0 +1,18 @@
+// People who can act on KYC decisions
+// There is no sign-in yet: the reviewer working the queue is picked from this roster
+export interface KycReviewer {
+  id: string;
+  name: string;
+}
+
+export const kycReviewers: KycReviewer[] = [
+  { id: 'R-ALEX', name: 'Alex Morgan' },
+  { id: 'R-SAM', name: 'Sam Rivera' },
+  { id: 'R-JORDAN', name: 'Jordan Lee' },
+  { id: 'R-TAYLOR', name: 'Taylor Kim' },
+];
+
+// Display name for a reviewer id (ids no longer on the roster are shown as is)
+export function kycReviewerName(reviewerId: string): string {
+  return kycReviewers.find((reviewer) => reviewer.id === reviewerId)?.name ?? reviewerId;
+}
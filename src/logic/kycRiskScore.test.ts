@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { computeKycRiskScore, kycRiskFactorWeights, resolveKycRiskScore } from './kycRiskScore';
+import { parseJurisdictionPolicy } from './jurisdictionPolicy';
+
+const lowRisk = {
+  country: 'US',
+  isPep: false,
+  occupation: 'salaried',
+  productType: 'savings',
+  amount: 0,
+  velocity: 0,
+  accountAgeDays: 2000,
+} as const;
+
+const pointsOf = (input: Parameters<typeof computeKycRiskScore>[0], factor: string) =>
+  computeKycRiskScore(input).contributions.find((contribution) => contribution.factor === factor)?.points;
+
+describe('computeKycRiskScore', () => {
+  it('should have factor weights that add up to 100', () => {
+    expect(Object.values(kycRiskFactorWeights).reduce((sum, weight) => sum + weight, 0)).toBe(100);
+  });
+
+  it('should return one contribution per factor that add up to the score', () => {
+    const breakdown = computeKycRiskScore({ ...lowRisk, country: 'IR', isPep: true });
+
+    expect(breakdown.contributions.map((contribution) => contribution.factor)).toEqual([
+      'country',
+      'pep',
+      'occupation',
+      'productType',
+      'transactions',
+      'accountAge',
+    ]);
+    const total = breakdown.contributions.reduce((sum, contribution) => sum + contribution.points, 0);
+    expect(breakdown.score).toBe(Math.round(total));
+  });
+
+  it('should score a clean profile low and a risky one high', () => {
+    expect(computeKycRiskScore(lowRisk).score).toBeLessThan(10);
+    expect(
+      computeKycRiskScore({
+        country: 'XX',
+        isPep: true,
+        occupation: 'money_services',
+        productType: 'crypto',
+        amount: 100000,
+        velocity: 20,
+        accountAgeDays: 3,
+      }).score
+    ).toBe(100);
+  });
+
+  it('should tier countries by the jurisdiction policy', () => {
+    expect(pointsOf({ ...lowRisk, country: 'XX' }, 'country')).toBe(25);
+    expect(pointsOf({ ...lowRisk, country: 'IR' }, 'country')).toBe(15);
+    expect(pointsOf(lowRisk, 'country')).toBe(2.5);
+
+    const policy = parseJurisdictionPolicy({ version: 'test', restrictedCountries: ['US'] });
+    const [country] = computeKycRiskScore(lowRisk, { jurisdictionPolicy: policy }).contributions;
+    expect(country).toMatchObject({ points: 25, detail: 'US is restricted' });
+  });
+
+  it('should count the riskier of amount and velocity', () => {
+    expect(pointsOf({ ...lowRisk, amount: 25000, velocity: 2 }, 'transactions')).toBe(10);
+    expect(pointsOf({ ...lowRisk, amount: 1000, velocity: 8 }, 'transactions')).toBe(16);
+    expect(pointsOf({ ...lowRisk, amount: 500000 }, 'transactions')).toBe(20);
+  });
+
+  it('should weigh newer accounts more', () => {
+    expect(pointsOf({ ...lowRisk, accountAgeDays: 10 }, 'accountAge')).toBe(10);
+    expect(pointsOf({ ...lowRisk, accountAgeDays: 90 }, 'accountAge')).toBe(6);
+    expect(pointsOf({ ...lowRisk, accountAgeDays: 200 }, 'accountAge')).toBe(3);
+    expect(pointsOf(lowRisk, 'accountAge')).toBe(0);
+  });
+
+  it('should count unknown occupation, product, behavior and account age at half weight', () => {
+    const breakdown = computeKycRiskScore({ country: 'US' });
+
+    expect(breakdown.contributions.filter((contribution) => contribution.detail === 'Unknown')).toEqual([
+      expect.objectContaining({ factor: 'occupation', points: 7.5 }),
+      expect.objectContaining({ factor: 'productType', points: 5 }),
+      expect.objectContaining({ factor: 'transactions', points: 10 }),
+      expect.objectContaining({ factor: 'accountAge', points: 5 }),
+    ]);
+    expect(pointsOf({ country: 'US' }, 'pep')).toBe(0);
+  });
+});
+
+describe('resolveKycRiskScore', () => {
+  it('should use a supplied score when preferred', () => {
+    expect(resolveKycRiskScore({ ...lowRisk, riskScore: 64 }, 'supplied')).toEqual({
+      value: 64,
+      source: 'supplied',
+      breakdown: null,
+    });
+  });
+
+  it('should compute the score when preferred or when none is supplied', () => {
+    const computed = computeKycRiskScore(lowRisk);
+
+    expect(resolveKycRiskScore({ ...lowRisk, riskScore: 64 }, 'computed')).toEqual({
+      value: computed.score,
+      source: 'computed',
+      breakdown: computed,
+    });
+    expect(resolveKycRiskScore(lowRisk, 'supplied').source).toBe('computed');
+  });
+});
@@ -0,0 +1,206 @@
+import { z } from 'zod';
+import { jurisdictionPolicy as defaultJurisdictionPolicy, type JurisdictionPolicy } from './jurisdictionPolicy';
+
+export const kycOccupationSchema = z.enum([
+  'salaried',
+  'self_employed',
+  'student',
+  'retired',
+  'public_official',
+  'cash_intensive_business',
+  'money_services',
+]);
+
+export const kycProductTypeSchema = z.enum(['savings', 'current_account', 'card', 'international_transfers', 'crypto']);
+
+export type KycOccupation = z.infer<typeof kycOccupationSchema>;
+export type KycProductType = z.infer<typeof kycProductTypeSchema>;
+
+export const kycOccupationLabels: Record<KycOccupation, string> = {
+  salaried: 'Salaried',
+  self_employed: 'Self-employed',
+  student: 'Student',
+  retired: 'Retired',
+  public_official: 'Public official',
+  cash_intensive_business: 'Cash-intensive business',
+  money_services: 'Money services',
+};
+
+export const kycProductTypeLabels: Record<KycProductType, string> = {
+  savings: 'Savings',
+  current_account: 'Current account',
+  card: 'Card',
+  international_transfers: 'International transfers',
+  crypto: 'Crypto',
+};
+
+// Where the risk score the rules saw came from
+export type KycRiskScoreSource = 'supplied' | 'computed';
+
+export type KycRiskFactor = 'country' | 'pep' | 'occupation' | 'productType' | 'transactions' | 'accountAge';
+
+// Everything the model looks at; all but the country may be unknown
+export interface KycRiskScoreInput {
+  country: string;
+  isPep?: boolean;
+  occupation?: KycOccupation;
+  productType?: KycProductType;
+  amount?: number;
+  velocity?: number;
+  accountAgeDays?: number;
+}
+
+export interface KycRiskFactorContribution {
+  factor: KycRiskFactor;
+  label: string;
+  weight: number; // Most points the factor can add
+  exposure: number; // 0 (no risk) to 1 (full weight)
+  points: number; // weight * exposure
+  detail: string; // What the exposure was derived from
+}
+
+export interface KycRiskScoreBreakdown {
+  score: number; // 0-100, sum of the contributions rounded
+  contributions: KycRiskFactorContribution[];
+}
+
+export interface KycRiskScoreOptions {
+  jurisdictionPolicy?: JurisdictionPolicy; // Defaults to policies/jurisdictions.json
+}
+
+// Factor weights; they add up to 100 so a score is the sum of the points
+export const kycRiskFactorWeights: Record<KycRiskFactor, number> = {
+  country: 25,
+  pep: 20,
+  occupation: 15,
+  productType: 10,
+  transactions: 20,
+  accountAge: 10,
+};
+
+const factorLabels: Record<KycRiskFactor, string> = {
+  country: 'Country risk tier',
+  pep: 'Politically exposed',
+  occupation: 'Occupation',
+  productType: 'Product type',
+  transactions: 'Transaction behavior',
+  accountAge: 'Account age',
+};
+
+// Exposure used when a factor is not known: neither clean nor risky
+const UNKNOWN_EXPOSURE = 0.5;
+
+const occupationExposure: Record<KycOccupation, number> = {
+  salaried: 0.1,
+  retired: 0.1,
+  student: 0.2,
+  self_employed: 0.4,
+  public_official: 0.6,
+  cash_intensive_business: 0.9,
+  money_services: 1,
+};
+
+const productTypeExposure: Record<KycProductType, number> = {
+  savings: 0.1,
+  current_account: 0.2,
+  card: 0.3,
+  international_transfers: 0.7,
+  crypto: 1,
+};
+
+// Amount and velocity at which transaction behavior counts fully
+const FULL_EXPOSURE_AMOUNT = 50000;
+const FULL_EXPOSURE_VELOCITY = 10;
+
+interface Exposure {
+  exposure: number;
+  detail: string;
+}
+
+function countryExposure(country: string, policy: JurisdictionPolicy): Exposure {
+  if (policy.restrictedCountries.includes(country)) return { exposure: 1, detail: `${country} is restricted` };
+  if (policy.enhancedDueDiligenceCountries.includes(country)) {
+    return { exposure: 0.6, detail: `${country} requires enhanced due diligence` };
+  }
+  return { exposure: 0.1, detail: `${country} is standard risk` };
+}
+
+function transactionExposure(amount?: number, velocity?: number): Exposure {
+  if (amount === undefined && velocity === undefined) return { exposure: UNKNOWN_EXPOSURE, detail: 'Unknown' };
+  const amountExposure = Math.min(1, (amount ?? 0) / FULL_EXPOSURE_AMOUNT);
+  const velocityExposure = Math.min(1, (velocity ?? 0) / FULL_EXPOSURE_VELOCITY);
+  return {
+    // The riskier of the two counts
+    exposure: Math.max(amountExposure, velocityExposure),
+    detail: `Amount ${(amount ?? 0).toLocaleString('en-US')}, ${velocity ?? 0} transaction(s) in 24h`,
+  };
+}
+
+function accountAgeExposure(accountAgeDays?: number): Exposure {
+  if (accountAgeDays === undefined) return { exposure: UNKNOWN_EXPOSURE, detail: 'Unknown' };
+  const detail = `${accountAgeDays} day(s)`;
+  if (accountAgeDays < 30) return { exposure: 1, detail };
+  if (accountAgeDays < 180) return { exposure: 0.6, detail };
+  if (accountAgeDays < 365) return { exposure: 0.3, detail };
+  return { exposure: 0, detail };
+}
+
+const tiered = <T extends string>(value: T | undefined, exposures: Record<T, number>, labels: Record<T, string>) =>
+  value === undefined
+    ? { exposure: UNKNOWN_EXPOSURE, detail: 'Unknown' }
+    : { exposure: exposures[value], detail: labels[value] };
+
+/**
+ * Computes a 0-100 risk score from weighted factors
+ * Each contribution reports its weight, exposure and points so the score can be explained.
+ * Unknown factors count at half weight, except PEP: a customer not flagged as a PEP
+ * (by the customer record or a confirmed screening hit) counts as not exposed.
+ */
+export function computeKycRiskScore(
+  input: KycRiskScoreInput,
+  { jurisdictionPolicy = defaultJurisdictionPolicy }: KycRiskScoreOptions = {}
+): KycRiskScoreBreakdown {
+  const exposures: Record<KycRiskFactor, Exposure> = {
+    country: countryExposure(input.country, jurisdictionPolicy),
+    // PEPs are flagged, not declared: no flag is no exposure
+    pep:
+      input.isPep === undefined
+        ? { exposure: 0, detail: 'Not flagged' }
+        : { exposure: input.isPep ? 1 : 0, detail: input.isPep ? 'Yes' : 'No' },
+    occupation: tiered(input.occupation, occupationExposure, kycOccupationLabels),
+    productType: tiered(input.productType, productTypeExposure, kycProductTypeLabels),
+    transactions: transactionExposure(input.amount, input.velocity),
+    accountAge: accountAgeExposure(input.accountAgeDays),
+  };
+
+  const contributions = (Object.keys(kycRiskFactorWeights) as KycRiskFactor[]).map((factor) => {
+    const weight = kycRiskFactorWeights[factor];
+    const { exposure, detail } = exposures[factor];
+    return { factor, label: factorLabels[factor], weight, exposure, points: weight * exposure, detail };
+  });
+  const total = contributions.reduce((sum, contribution) => sum + contribution.points, 0);
+
+  return { score: Math.min(100, Math.max(0, Math.round(total))), contributions };
+}
+
+export interface KycRiskScoreResolution {
+  value: number; // Score the rules were evaluated with
+  source: KycRiskScoreSource;
+  breakdown: KycRiskScoreBreakdown | null; // Only for computed scores
+}
+
+/**
+ * Picks the risk score to evaluate with
+ * A supplied score is used when preferred and present; otherwise it is computed.
+ */
+export function resolveKycRiskScore(
+  input: KycRiskScoreInput & { riskScore?: number },
+  preferred: KycRiskScoreSource,
+  options?: KycRiskScoreOptions
+): KycRiskScoreResolution {
+  if (preferred === 'supplied' && input.riskScore !== undefined) {
+    return { value: input.riskScore, source: 'supplied', breakdown: null };
+  }
+  const breakdown = computeKycRiskScore(input, options);
+  return { value: breakdown.score, source: 'computed', breakdown };
+}
@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assignKycVersion,
+  emptyKycRollout,
+  formatKycRolloutOverrides,
+  getKycRolloutBucket,
+  parseKycRolloutIds,
+  parseKycRolloutOverrides,
+  resolveKycRolloutOverrides,
+  type KycRollout,
+} from './kycRollout';
+
+const customerIds = Array.from({ length: 1000 }, (_, i) => `C-${String(i).padStart(4, '0')}`);
+
+describe('getKycRolloutBucket', () => {
+  it('should return the same bucket for the same customer id', () => {
+    expect(getKycRolloutBucket('C-001')).toBe(getKycRolloutBucket('C-001'));
+  });
+
+  it('should spread customer ids across all buckets', () => {
+    const buckets = customerIds.map(getKycRolloutBucket);
+
+    expect(Math.min(...buckets)).toBe(0);
+    expect(Math.max(...buckets)).toBe(99);
+    expect(new Set(buckets).size).toBeGreaterThan(90);
+  });
+});
+
+describe('assignKycVersion', () => {
+  const rollout: KycRollout = {
+    ...emptyKycRollout,
+    enabled: true,
+    split: [{ version: 'v3', percent: 30 }],
+  };
+
+  it('should keep everyone on the base version when the rollout is disabled', () => {
+    const assignment = assignKycVersion({ ...rollout, enabled: false }, { customerId: 'C-001', country: 'US' }, 'v1');
+
+    expect(assignment).toEqual({ version: 'v1', rule: 'disabled', bucket: getKycRolloutBucket('C-001') });
+  });
+
+  it('should move roughly the configured share of customers to the candidate version', () => {
+    const moved = customerIds.filter(
+      (customerId) => assignKycVersion(rollout, { customerId, country: 'US' }, 'v1').version === 'v3'
+    );
+
+    expect(moved.length).toBeGreaterThan(250);
+    expect(moved.length).toBeLessThan(350);
+  });
+
+  it('should assign by bucket against the cumulative split', () => {
+    const split: KycRollout = {
+      ...rollout,
+      split: [
+        { version: 'v2', percent: 20 },
+        { version: 'v3', percent: 30 },
+      ],
+    };
+
+    for (const customerId of customerIds.slice(0, 200)) {
+      const assignment = assignKycVersion(split, { customerId, country: 'US' }, 'v1');
+      const bucket = getKycRolloutBucket(customerId);
+      const expected = bucket < 20 ? 'v2' : bucket < 50 ? 'v3' : 'v1';
+
+      expect(assignment.version).toBe(expected);
+      expect(assignment.rule).toBe(expected === 'v1' ? 'default' : 'split');
+    }
+  });
+
+  it('should keep inputs without a customer id on the base version', () => {
+    expect(assignKycVersion({ ...rollout, split: [{ version: 'v3', percent: 100 }] }, { country: 'US' }, 'v1'))
+      .toEqual({ version: 'v1', rule: 'default', bucket: null });
+  });
+
+  it('should pin allow-listed customers and countries to their version', () => {
+    const pinned: KycRollout = {
+      ...rollout,
+      split: [],
+      allowCustomers: [{ id: 'C-001', version: 'v2' }],
+      allowCountries: [{ id: 'DE', version: 'v3' }],
+    };
+
+    expect(assignKycVersion(pinned, { customerId: 'C-001', country: 'DE' }, 'v1').rule).toBe('customer_allow');
+    expect(assignKycVersion(pinned, { customerId: 'C-001', country: 'DE' }, 'v1').version).toBe('v2');
+    expect(assignKycVersion(pinned, { customerId: 'C-002', country: 'de' }, 'v1')).toMatchObject({
+      version: 'v3',
+      rule: 'country_allow',
+    });
+  });
+
+  it('should keep deny-listed customers and countries on the base version', () => {
+    const everyone: KycRollout = {
+      ...rollout,
+      split: [{ version: 'v3', percent: 100 }],
+      denyCustomers: ['C-001'],
+      denyCountries: ['GB'],
+    };
+
+    expect(assignKycVersion(everyone, { customerId: 'C-001', country: 'US' }, 'v1')).toMatchObject({
+      version: 'v1',
+      rule: 'customer_deny',
+    });
+    expect(assignKycVersion(everyone, { customerId: 'C-002', country: 'GB' }, 'v1')).toMatchObject({
+      version: 'v1',
+      rule: 'country_deny',
+    });
+    expect(assignKycVersion(everyone, { customerId: 'C-002', country: 'US' }, 'v1').version).toBe('v3');
+  });
+
+  it('should let customer entries win over country entries', () => {
+    const mixed: KycRollout = {
+      ...rollout,
+      allowCustomers: [{ id: 'C-001', version: 'v2' }],
+      denyCountries: ['GB'],
+    };
+
+    expect(assignKycVersion(mixed, { customerId: 'C-001', country: 'GB' }, 'v1').version).toBe('v2');
+  });
+});
+
+describe('rollout list parsing', () => {
+  it('should split ids on commas and whitespace and drop duplicates', () => {
+    expect(parseKycRolloutIds(' C-001, C-002\nC-001 ,,')).toEqual(['C-001', 'C-002']);
+  });
+
+  it('should parse id=version pairs and skip incomplete ones', () => {
+    expect(parseKycRolloutOverrides('C-001=v3, C-002, C-003 = v2,\nC-001=v2')).toEqual([
+      { id: 'C-001', version: 'v2' },
+      { id: 'C-003', version: 'v2' },
+    ]);
+  });
+
+  it('should match override versions to registered ids and report unknown ones', () => {
+    const overrides = [
+      { id: 'DE', version: 'V3' },
+      { id: 'FR', version: 'v9' },
+      { id: 'IT', version: 'v2' },
+    ];
+
+    expect(resolveKycRolloutOverrides(overrides, ['v1', 'v2', 'v3'])).toEqual({
+      overrides: [
+        { id: 'DE', version: 'v3' },
+        { id: 'IT', version: 'v2' },
+      ],
+      unknownVersions: ['v9'],
+    });
+  });
+
+  it('should format overrides back into the editable text form', () => {
+    const overrides = [
+      { id: 'C-001', version: 'v3' },
+      { id: 'C-003', version: 'v2' },
+    ];
+
+    expect(parseKycRolloutOverrides(formatKycRolloutOverrides(overrides))).toEqual(overrides);
+  });
+});
@@ -0,0 +1,146 @@
+// A customer or country pinned to a specific version
+export interface KycRolloutOverride {
+  id: string; // Customer id or ISO country code
+  version: string;
+}
+
+export interface KycRolloutSplit {
+  version: string;
+  percent: number; // Share of customer buckets (0-100) moved to this version
+}
+
+export interface KycRollout {
+  enabled: boolean;
+  // Buckets are filled in order; customers past the last split stay on the base version
+  split: KycRolloutSplit[];
+  allowCustomers: KycRolloutOverride[];
+  allowCountries: KycRolloutOverride[];
+  // Customers and countries excluded from the rollout always use the base version
+  denyCustomers: string[];
+  denyCountries: string[];
+}
+
+// Which part of the rollout decided the version
+export type KycRolloutRule =
+  | 'disabled'
+  | 'default'
+  | 'customer_allow'
+  | 'customer_deny'
+  | 'country_allow'
+  | 'country_deny'
+  | 'split';
+
+export interface KycVersionAssignment {
+  version: string;
+  rule: KycRolloutRule;
+  bucket: number | null; // 0-99, null when the input has no customer id
+}
+
+export interface KycRolloutSubject {
+  customerId?: string;
+  country: string;
+}
+
+export const KYC_ROLLOUT_BUCKETS = 100;
+
+export const emptyKycRollout: KycRollout = {
+  enabled: false,
+  split: [],
+  allowCustomers: [],
+  allowCountries: [],
+  denyCustomers: [],
+  denyCountries: [],
+};
+
+/**
+ * Stable bucket (0-99) for a customer id, using the 32-bit FNV-1a hash
+ * The same customer always lands in the same bucket, on every browser
+ */
+export function getKycRolloutBucket(customerId: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < customerId.length; i++) {
+    hash ^= customerId.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % KYC_ROLLOUT_BUCKETS;
+}
+
+/**
+ * Picks the KYC version for a customer under a staged rollout
+ * Customer lists win over country lists, deny entries win over allow entries,
+ * and everyone else is assigned by bucket against the percentage split.
+ */
+export function assignKycVersion(
+  rollout: KycRollout,
+  subject: KycRolloutSubject,
+  baseVersion: string
+): KycVersionAssignment {
+  const bucket = subject.customerId ? getKycRolloutBucket(subject.customerId) : null;
+  const assign = (version: string, rule: KycRolloutRule): KycVersionAssignment => ({ version, rule, bucket });
+
+  if (!rollout.enabled) return assign(baseVersion, 'disabled');
+
+  const { customerId } = subject;
+  const country = subject.country.toUpperCase();
+
+  if (customerId && rollout.denyCustomers.includes(customerId)) return assign(baseVersion, 'customer_deny');
+  const customerOverride = rollout.allowCustomers.find((entry) => entry.id === customerId);
+  if (customerOverride) return assign(customerOverride.version, 'customer_allow');
+
+  if (rollout.denyCountries.includes(country)) return assign(baseVersion, 'country_deny');
+  const countryOverride = rollout.allowCountries.find((entry) => entry.id === country);
+  if (countryOverride) return assign(countryOverride.version, 'country_allow');
+
+  if (bucket === null) return assign(baseVersion, 'default');
+
+  let upperBound = 0;
+  for (const { version, percent } of rollout.split) {
+    upperBound += percent;
+    if (bucket < upperBound) return assign(version, 'split');
+  }
+  return assign(baseVersion, 'default');
+}
+
+/**
+ * Parses a comma or whitespace separated list of ids, dropping blanks and duplicates
+ */
+export function parseKycRolloutIds(text: string): string[] {
+  return [...new Set(text.split(/[\s,]+/).map((id) => id.trim()).filter(Boolean))];
+}
+
+/**
+ * Parses "id=version" pairs (e.g. "C-001=v3, C-002=v2"); entries without a version are ignored
+ */
+export function parseKycRolloutOverrides(text: string): KycRolloutOverride[] {
+  const overrides = new Map<string, string>();
+  for (const entry of text.split(/[,\n]+/)) {
+    const [id, version] = entry.split('=').map((part) => part.trim());
+    if (id && version) overrides.set(id, version);
+  }
+  return [...overrides].map(([id, version]) => ({ id, version }));
+}
+
+/**
+ * Matches override versions to registered version ids, ignoring case (so "v3" and "V3" are the same version)
+ * Overrides naming a version that is not registered are left out and reported in `unknownVersions`.
+ */
+export function resolveKycRolloutOverrides(
+  overrides: KycRolloutOverride[],
+  versionIds: string[]
+): { overrides: KycRolloutOverride[]; unknownVersions: string[] } {
+  const resolved: KycRolloutOverride[] = [];
+  const unknownVersions = new Set<string>();
+  for (const { id, version } of overrides) {
+    const registered = versionIds.find((versionId) => versionId.toLowerCase() === version.toLowerCase());
+    if (registered) resolved.push({ id, version: registered });
+    else unknownVersions.add(version);
+  }
+  return { overrides: resolved, unknownVersions: [...unknownVersions] };
+}
+
+/**
+ * Formats overrides as "id=version" pairs (e.g. "C-001=v3, C-002=v2"), the text parseKycRolloutOverrides reads
+ */
+export function formatKycRolloutOverrides(overrides: KycRolloutOverride[]): string {
+  return overrides.map(({ id, version }) => `${id}=${version}`).join(', ');
+}
@@ -0,0 +1,347 @@
+import { describe, it, expect } from 'vitest';
+import {
+  evaluateKycRuleset,
+  getKycThresholdDefaults,
+  parseKycRuleset,
+  type KycRuleset,
+} from './kycRuleEngine';
+import { parseJurisdictionPolicy } from './jurisdictionPolicy';
+import type { KycResult } from './kycRules.v1';
+
+const baseRuleset = {
+  version: 'test',
+  rules: [
+    {
+      id: 'blocked',
+      priority: 10,
+      when: [{ field: 'sanctionsList', op: 'eq', value: true }],
+      outcome: 'deny',
+      code: 'SANCTIONS_HIT',
+      severity: 'critical',
+      shortCircuit: true,
+    },
+    {
+      id: 'big-amount',
+      priority: 20,
+      when: [{ field: 'amount', op: 'gt', value: 1000 }],
+      outcome: 'manual_review',
+      code: 'AMOUNT_HIGH',
+      severity: 'warning',
+    },
+    {
+      id: 'country',
+      priority: 30,
+      when: [{ field: 'country', op: 'in', value: ['XX'] }],
+      outcome: 'deny',
+      code: 'RESTRICTED_COUNTRY',
+      severity: 'critical',
+    },
+  ],
+  fallback: { code: 'LOW_RISK_PROFILE' },
+};
+
+describe('parseKycRuleset', () => {
+  it('should parse a valid ruleset and apply defaults', () => {
+    const ruleset = parseKycRuleset(baseRuleset);
+
+    expect(ruleset.rules[1].shortCircuit).toBe(false);
+    expect(ruleset.rules[1].unless).toEqual([]);
+    expect(ruleset.fallback.when).toEqual([]);
+    expect(ruleset.fallback.severity).toBe('info');
+  });
+
+  it('should reject unknown outcomes', () => {
+    const invalid = {
+      ...baseRuleset,
+      rules: [{ ...baseRuleset.rules[0], outcome: 'maybe' }],
+    };
+
+    expect(() => parseKycRuleset(invalid)).toThrow();
+  });
+
+  it('should reject numeric operators on non-numeric fields', () => {
+    const invalid = {
+      ...baseRuleset,
+      rules: [{ ...baseRuleset.rules[0], when: [{ field: 'country', op: 'gt', value: 5 }] }],
+    };
+
+    expect(() => parseKycRuleset(invalid)).toThrow();
+  });
+
+  it('should reject duplicate rule ids', () => {
+    const invalid = {
+      ...baseRuleset,
+      rules: [baseRuleset.rules[0], baseRuleset.rules[0]],
+    };
+
+    expect(() => parseKycRuleset(invalid)).toThrow(/Duplicate rule id: blocked/);
+  });
+
+  it('should reject an effective window that ends before it starts', () => {
+    const invalid = { ...baseRuleset, effectiveFrom: '2024-06-01', effectiveTo: '2024-06-01' };
+
+    expect(() => parseKycRuleset(invalid)).toThrow(/effectiveTo \(2024-06-01\) must be after effectiveFrom/);
+    expect(() => parseKycRuleset({ ...baseRuleset, effectiveFrom: '06/01/2024' })).toThrow();
+  });
+
+  it('should reject unless references to unknown rules', () => {
+    const invalid = {
+      ...baseRuleset,
+      rules: [{ ...baseRuleset.rules[1], unless: ['missing'] }],
+    };
+
+    expect(() => parseKycRuleset(invalid)).toThrow(/Unknown rule id in unless: missing/);
+  });
+
+  it('should reject unknown threshold params and country lists', () => {
+    const invalidParam = {
+      ...baseRuleset,
+      rules: [{ ...baseRuleset.rules[1], when: [{ field: 'amount', op: 'gt', value: 1000, param: 'amountMax' }] }],
+    };
+    const invalidList = {
+      ...baseRuleset,
+      rules: [{ ...baseRuleset.rules[2], when: [{ field: 'country', op: 'in', list: 'blocked' }] }],
+    };
+
+    expect(() => parseKycRuleset(invalidParam)).toThrow();
+    expect(() => parseKycRuleset(invalidList)).toThrow();
+  });
+});
+
+const codes = (result: KycResult) => result.reasons.map((reason) => reason.code);
+
+describe('evaluateKycRuleset', () => {
+  const ruleset: KycRuleset = parseKycRuleset(baseRuleset);
+
+  it('should use the fallback reason when no rule fires', () => {
+    const result = evaluateKycRuleset(ruleset, { riskScore: 10, country: 'US' });
+
+    expect(result).toEqual({
+      decision: 'approve',
+      reasons: [{ code: 'LOW_RISK_PROFILE', severity: 'info', outcome: 'approve', params: {} }],
+    });
+  });
+
+  it('should stop at a short-circuit rule', () => {
+    const result = evaluateKycRuleset(ruleset, {
+      riskScore: 10,
+      country: 'XX',
+      amount: 5000,
+      sanctionsList: true,
+    });
+
+    expect(result.decision).toBe('deny');
+    expect(codes(result)).toEqual(['SANCTIONS_HIT']);
+  });
+
+  it('should escalate the decision and never downgrade it', () => {
+    const result = evaluateKycRuleset(ruleset, { riskScore: 10, country: 'XX', amount: 5000 });
+
+    expect(result.decision).toBe('deny');
+    expect(codes(result)).toEqual(['AMOUNT_HIGH', 'RESTRICTED_COUNTRY']);
+  });
+
+  it('should record the threshold and actual value on each reason', () => {
+    const result = evaluateKycRuleset(ruleset, { riskScore: 10, country: 'US', amount: 5000 });
+
+    expect(result.reasons[0]).toEqual({
+      code: 'AMOUNT_HIGH',
+      severity: 'warning',
+      outcome: 'manual_review',
+      params: { field: 'amount', actual: 5000, threshold: 1000 },
+    });
+  });
+
+  it('should not match thresholds on missing optional fields', () => {
+    const result = evaluateKycRuleset(ruleset, { riskScore: 10, country: 'US' });
+
+    expect(codes(result)).not.toContain('AMOUNT_HIGH');
+  });
+
+  it('should match document statuses and never match a missing one', () => {
+    const withDocument = parseKycRuleset({
+      ...baseRuleset,
+      rules: [
+        {
+          id: 'document',
+          priority: 10,
+          when: [{ field: 'documentStatus', op: 'in', value: ['pending', 'missing'] }],
+          outcome: 'manual_review',
+          code: 'DOCUMENT_UNVERIFIED',
+          severity: 'warning',
+        },
+      ],
+    });
+
+    expect(evaluateKycRuleset(withDocument, { riskScore: 10, country: 'US', documentStatus: 'pending' }).decision)
+      .toBe('manual_review');
+    expect(evaluateKycRuleset(withDocument, { riskScore: 10, country: 'US', documentStatus: 'verified' }).decision)
+      .toBe('approve');
+    expect(evaluateKycRuleset(withDocument, { riskScore: 10, country: 'US' }).decision).toBe('approve');
+  });
+
+  it('should evaluate rules by priority rather than document order', () => {
+    const reordered = parseKycRuleset({
+      ...baseRuleset,
+      rules: [...baseRuleset.rules].reverse(),
+    });
+
+    const result = evaluateKycRuleset(reordered, { riskScore: 10, country: 'XX', sanctionsList: true });
+
+    expect(result.decision).toBe('deny');
+    expect(codes(result)).toEqual(['SANCTIONS_HIT']);
+  });
+
+  it('should skip a rule when a rule listed in unless has fired', () => {
+    const withUnless = parseKycRuleset({
+      ...baseRuleset,
+      rules: [
+        baseRuleset.rules[1],
+        { ...baseRuleset.rules[2], unless: ['big-amount'] },
+      ],
+    });
+
+    const result = evaluateKycRuleset(withUnless, { riskScore: 10, country: 'XX', amount: 5000 });
+
+    expect(result.decision).toBe('manual_review');
+    expect(codes(result)).toEqual(['AMOUNT_HIGH']);
+  });
+});
+
+describe('evaluateKycRuleset with trace', () => {
+  const ruleset: KycRuleset = parseKycRuleset(baseRuleset);
+
+  it('should not attach a trace unless requested', () => {
+    const result = evaluateKycRuleset(ruleset, { riskScore: 10, country: 'US' });
+
+    expect(result.trace).toBeUndefined();
+  });
+
+  it('should record every rule with its compared values', () => {
+    const result = evaluateKycRuleset(ruleset, { riskScore: 10, country: 'XX', amount: 500 }, { trace: true });
+
+    expect(result.trace).toEqual({
+      rulesetVersion: 'test',
+      shortCircuitedBy: null,
+      fallbackApplied: false,
+      rules: [
+        {
+          ruleId: 'blocked',
+          code: 'SANCTIONS_HIT',
+          outcome: 'deny',
+          status: 'not_matched',
+          conditions: [{ field: 'sanctionsList', op: 'eq', expected: true, actual: undefined, matched: false }],
+        },
+        {
+          ruleId: 'big-amount',
+          code: 'AMOUNT_HIGH',
+          outcome: 'manual_review',
+          status: 'not_matched',
+          conditions: [{ field: 'amount', op: 'gt', expected: 1000, actual: 500, matched: false }],
+        },
+        {
+          ruleId: 'country',
+          code: 'RESTRICTED_COUNTRY',
+          outcome: 'deny',
+          status: 'fired',
+          conditions: [{ field: 'country', op: 'in', expected: ['XX'], actual: 'XX', matched: true }],
+        },
+      ],
+    });
+  });
+
+  it('should report the short-circuiting rule and mark later rules as not evaluated', () => {
+    const result = evaluateKycRuleset(
+      ruleset,
+      { riskScore: 10, country: 'XX', amount: 5000, sanctionsList: true },
+      { trace: true }
+    );
+
+    expect(result.trace?.shortCircuitedBy).toBe('blocked');
+    expect(result.trace?.rules.map((rule) => rule.status)).toEqual(['fired', 'not_evaluated', 'not_evaluated']);
+  });
+
+  it('should mark rules skipped through unless as suppressed', () => {
+    const withUnless = parseKycRuleset({
+      ...baseRuleset,
+      rules: [baseRuleset.rules[1], { ...baseRuleset.rules[2], unless: ['big-amount'] }],
+    });
+
+    const result = evaluateKycRuleset(withUnless, { riskScore: 10, country: 'XX', amount: 5000 }, { trace: true });
+
+    expect(result.trace?.rules.map((rule) => rule.status)).toEqual(['fired', 'suppressed']);
+  });
+
+  it('should report when the fallback reason applied', () => {
+    const result = evaluateKycRuleset(ruleset, { riskScore: 10, country: 'US' }, { trace: true });
+
+    expect(result.trace?.fallbackApplied).toBe(true);
+  });
+});
+
+describe('evaluateKycRuleset with a jurisdiction policy', () => {
+  const ruleset = parseKycRuleset({
+    version: 'test',
+    rules: [
+      {
+        id: 'big-amount',
+        priority: 10,
+        when: [{ field: 'amount', op: 'gt', value: 1000, param: 'amountHigh' }],
+        outcome: 'manual_review',
+        code: 'AMOUNT_HIGH',
+        severity: 'warning',
+      },
+      {
+        id: 'restricted',
+        priority: 20,
+        when: [{ field: 'country', op: 'in', list: 'restricted' }],
+        outcome: 'deny',
+        code: 'RESTRICTED_COUNTRY',
+        severity: 'critical',
+      },
+    ],
+    fallback: { code: 'LOW_RISK_PROFILE' },
+  });
+  const jurisdictionPolicy = parseJurisdictionPolicy({
+    version: 'test',
+    restrictedCountries: ['RU'],
+    countries: [{ country: 'NG', thresholds: { amountHigh: 100 } }],
+  });
+
+  it('should use the ruleset default where the policy has no override', () => {
+    const result = evaluateKycRuleset(ruleset, { riskScore: 10, country: 'DE', amount: 500 }, { jurisdictionPolicy });
+
+    expect(result.decision).toBe('approve');
+  });
+
+  it('should apply the threshold override for the input country', () => {
+    const result = evaluateKycRuleset(ruleset, { riskScore: 10, country: 'NG', amount: 500 }, { jurisdictionPolicy });
+
+    expect(result.decision).toBe('manual_review');
+    expect(result.reasons[0].params.threshold).toBe(100);
+  });
+
+  it('should match country lists maintained in the policy', () => {
+    const result = evaluateKycRuleset(ruleset, { riskScore: 10, country: 'RU' }, { jurisdictionPolicy });
+
+    expect(result.decision).toBe('deny');
+    expect(codes(result)).toEqual(['RESTRICTED_COUNTRY']);
+  });
+
+  it('should trace where a resolved value came from', () => {
+    const result = evaluateKycRuleset(
+      ruleset,
+      { riskScore: 10, country: 'NG', amount: 500 },
+      { jurisdictionPolicy, trace: true }
+    );
+
+    expect(result.trace?.rules.map((rule) => rule.conditions[0])).toEqual([
+      { field: 'amount', op: 'gt', expected: 100, actual: 500, matched: true, source: 'country:NG' },
+      { field: 'country', op: 'in', expected: ['RU'], actual: 'NG', matched: false, source: 'list:restricted' },
+    ]);
+  });
+
+  it('should report the default value of each named threshold', () => {
+    expect(getKycThresholdDefaults(ruleset)).toEqual({ amountHigh: 1000 });
+  });
+});
@@ -0,0 +1,365 @@
+import { z } from 'zod';
+import type { KycDecision, KycResult } from './kycRules.v1';
+import type { KycInputV3Base } from './kycRules.v3';
+import { kycDocumentStatusSchema } from './kycDocumentStatus';
+import {
+  kycReasonCodeSchema,
+  kycReasonSeveritySchema,
+  type KycReason,
+  type KycReasonCode,
+  type KycReasonParams,
+} from './kycReasons';
+import {
+  getEffectiveJurisdictionPolicy,
+  jurisdictionPolicy as defaultJurisdictionPolicy,
+  kycCountryListSchema,
+  kycThresholdParamSchema,
+  type EffectiveJurisdictionPolicy,
+  type JurisdictionPolicy,
+  type KycThresholdParam,
+} from './jurisdictionPolicy';
+
+const decisionSchema = z.enum(['approve', 'manual_review', 'deny']);
+
+// Fields of KycInputV3Base that rules are allowed to look at
+export const kycNumericFieldSchema = z.enum(['riskScore', 'amount', 'velocity', 'accountAgeDays', 'adverseMediaHits']);
+export const kycBooleanFieldSchema = z.enum(['isPep', 'sanctionsList', 'nationalityMismatch', 'sourceOfFundsDeclared']);
+
+export const kycConditionSchema = z.union([
+  z.object({
+    field: kycNumericFieldSchema,
+    op: z.enum(['gt', 'gte', 'lt', 'lte']),
+    value: z.number(),
+    // Named threshold the jurisdiction policy may override; `value` is the default
+    param: kycThresholdParamSchema.optional(),
+    // Compare against this fraction of the param's value; `value` is the default already scaled
+    factor: z.number().positive().optional(),
+  }),
+  z.object({
+    field: kycBooleanFieldSchema,
+    op: z.literal('eq'),
+    value: z.boolean(),
+  }),
+  z.object({
+    field: z.literal('country'),
+    op: z.literal('in'),
+    value: z.array(z.string().min(1)).min(1),
+  }),
+  z.object({
+    field: z.literal('country'),
+    op: z.literal('in'),
+    // Country list maintained in the jurisdiction policy
+    list: kycCountryListSchema,
+  }),
+  z.object({
+    field: z.literal('documentStatus'),
+    op: z.literal('in'),
+    value: z.array(kycDocumentStatusSchema).min(1),
+  }),
+]);
+
+export const kycRuleSchema = z.object({
+  id: z.string().min(1),
+  // Rules are evaluated in ascending priority order
+  priority: z.number().int(),
+  // All conditions must match for the rule to fire
+  when: z.array(kycConditionSchema).min(1),
+  outcome: decisionSchema,
+  // Reason reported when the rule fires, rendered by formatKycReason
+  code: kycReasonCodeSchema,
+  severity: kycReasonSeveritySchema,
+  // Stop evaluating further rules once this one fires
+  shortCircuit: z.boolean().default(false),
+  // Rule ids that, when already fired, suppress this rule
+  unless: z.array(z.string()).default([]),
+});
+
+export const kycRulesetSchema = z
+  .object({
+    version: z.string().min(1),
+    description: z.string().optional(),
+    // Window in which the ruleset was live, as UTC dates; effectiveTo is exclusive
+    effectiveFrom: z.iso.date().optional(),
+    effectiveTo: z.iso.date().optional(),
+    rules: z.array(kycRuleSchema),
+    // Reason reported when no rule fired and the input matches `when`
+    fallback: z.object({
+      code: kycReasonCodeSchema,
+      severity: kycReasonSeveritySchema.default('info'),
+      when: z.array(kycConditionSchema).default([]),
+    }),
+  })
+  .superRefine((ruleset, ctx) => {
+    if (ruleset.effectiveFrom && ruleset.effectiveTo && ruleset.effectiveTo <= ruleset.effectiveFrom) {
+      ctx.addIssue({
+        code: 'custom',
+        message: `effectiveTo (${ruleset.effectiveTo}) must be after effectiveFrom (${ruleset.effectiveFrom})`,
+        path: ['effectiveTo'],
+      });
+    }
+    const ids = new Set<string>();
+    ruleset.rules.forEach((rule, index) => {
+      if (ids.has(rule.id)) {
+        ctx.addIssue({
+          code: 'custom',
+          message: `Duplicate rule id: ${rule.id}`,
+          path: ['rules', index, 'id'],
+        });
+      }
+      ids.add(rule.id);
+    });
+    ruleset.rules.forEach((rule, index) => {
+      rule.unless.forEach((id) => {
+        if (!ids.has(id)) {
+          ctx.addIssue({
+            code: 'custom',
+            message: `Unknown rule id in unless: ${id}`,
+            path: ['rules', index, 'unless'],
+          });
+        }
+      });
+    });
+  });
+
+export type KycCondition = z.infer<typeof kycConditionSchema>;
+// Condition with thresholds and lists filled in from the jurisdiction policy
+export type KycResolvedCondition = Exclude<KycCondition, { list: unknown }>;
+export type KycRule = z.infer<typeof kycRuleSchema>;
+export type KycRuleset = z.infer<typeof kycRulesetSchema>;
+
+export interface KycConditionTrace {
+  field: KycCondition['field'];
+  op: KycCondition['op'];
+  expected: KycResolvedCondition['value']; // Threshold or list the input was compared against
+  actual: number | string | boolean | undefined;
+  matched: boolean;
+  source?: string; // Jurisdiction policy entry that supplied `expected`, if any
+}
+
+export interface KycRuleTrace {
+  ruleId: string;
+  code: KycReasonCode;
+  outcome: KycDecision;
+  // fired: all conditions matched; not_matched: a condition failed;
+  // suppressed: a rule in `unless` had fired; not_evaluated: after a short-circuit
+  status: 'fired' | 'not_matched' | 'suppressed' | 'not_evaluated';
+  conditions: KycConditionTrace[];
+}
+
+export interface KycTrace {
+  rulesetVersion: string;
+  rules: KycRuleTrace[];
+  shortCircuitedBy: string | null; // Rule id that ended evaluation early
+  fallbackApplied: boolean;
+}
+
+export interface KycEvaluationOptions {
+  trace?: boolean; // Attach a KycTrace to the result
+  jurisdictionPolicy?: JurisdictionPolicy; // Defaults to policies/jurisdictions.json
+}
+
+/**
+ * Validates a ruleset document (typically imported JSON)
+ * Throws a ZodError describing every problem if the document is invalid
+ */
+export function parseKycRuleset(document: unknown): KycRuleset {
+  return kycRulesetSchema.parse(document);
+}
+
+const decisionSeverity: Record<KycDecision, number> = {
+  approve: 0,
+  manual_review: 1,
+  deny: 2,
+};
+
+// A decision only ever escalates: approve -> manual_review -> deny
+function escalate(current: KycDecision, next: KycDecision): KycDecision {
+  return decisionSeverity[next] > decisionSeverity[current] ? next : current;
+}
+
+/**
+ * Default value of each named threshold in a ruleset (the first condition using it)
+ */
+export function getKycThresholdDefaults(ruleset: KycRuleset): Partial<Record<KycThresholdParam, number>> {
+  const defaults: Partial<Record<KycThresholdParam, number>> = {};
+  const conditions = [...ruleset.rules.flatMap((rule) => rule.when), ...ruleset.fallback.when];
+  for (const condition of conditions) {
+    if ('param' in condition && condition.param && defaults[condition.param] === undefined) {
+      defaults[condition.param] = condition.value / (condition.factor ?? 1);
+    }
+  }
+  return defaults;
+}
+
+interface ResolvedCondition {
+  condition: KycResolvedCondition;
+  source?: string;
+}
+
+function resolveCondition(condition: KycCondition, jurisdiction: EffectiveJurisdictionPolicy): ResolvedCondition {
+  if ('list' in condition) {
+    return {
+      condition: { field: condition.field, op: condition.op, value: jurisdiction.lists[condition.list] },
+      source: `list:${condition.list}`,
+    };
+  }
+  if ('param' in condition && condition.param) {
+    const override = jurisdiction.thresholds[condition.param];
+    if (override) {
+      return { condition: { ...condition, value: override.value * (condition.factor ?? 1) }, source: override.source };
+    }
+  }
+  return { condition };
+}
+
+function matchesCondition(condition: KycResolvedCondition, input: KycInputV3Base): boolean {
+  switch (condition.op) {
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte': {
+      const actual = input[condition.field];
+      // Missing optional numbers never match a threshold
+      if (actual === undefined) return false;
+      if (condition.op === 'gt') return actual > condition.value;
+      if (condition.op === 'gte') return actual >= condition.value;
+      if (condition.op === 'lt') return actual < condition.value;
+      return actual <= condition.value;
+    }
+    case 'eq':
+      return (input[condition.field] ?? false) === condition.value;
+    case 'in': {
+      const actual = input[condition.field];
+      // A missing document status never matches
+      if (actual === undefined) return false;
+      return (condition.value as string[]).includes(actual);
+    }
+  }
+}
+
+// Params are taken from the conditions on the rule's first field
+function buildReasonParams(conditions: KycResolvedCondition[], input: KycInputV3Base): KycReasonParams {
+  if (conditions.length === 0) return {};
+
+  const field = conditions[0].field;
+  const params: KycReasonParams = { field, actual: input[field] };
+  for (const condition of conditions) {
+    if (condition.field !== field || typeof condition.value !== 'number') continue;
+    if ((condition.op === 'gt' || condition.op === 'gte') && params.threshold === undefined) {
+      params.threshold = condition.value;
+    }
+    if ((condition.op === 'lt' || condition.op === 'lte') && params.limit === undefined) {
+      params.limit = condition.value;
+    }
+  }
+  return params;
+}
+
+function buildReason(
+  code: KycReason['code'],
+  severity: KycReason['severity'],
+  outcome: KycDecision,
+  conditions: KycResolvedCondition[],
+  input: KycInputV3Base
+): KycReason {
+  return { code, severity, outcome, params: buildReasonParams(conditions, input) };
+}
+
+function traceCondition({ condition, source }: ResolvedCondition, input: KycInputV3Base): KycConditionTrace {
+  const trace: KycConditionTrace = {
+    field: condition.field,
+    op: condition.op,
+    expected: condition.value,
+    actual: input[condition.field],
+    matched: matchesCondition(condition, input),
+  };
+  if (source) trace.source = source;
+  return trace;
+}
+
+/**
+ * Generic KYC rule interpreter
+ * Runs the rules of a ruleset in priority order, escalating the decision for
+ * every rule that fires and stopping at the first short-circuit rule.
+ * Named thresholds and country lists are resolved from the jurisdiction policy
+ * for the input's country first.
+ * With `{ trace: true }` the result also explains every rule that was checked.
+ */
+export function evaluateKycRuleset(
+  ruleset: KycRuleset,
+  input: KycInputV3Base,
+  options: KycEvaluationOptions = {}
+): KycResult {
+  const reasons: KycReason[] = [];
+  const fired = new Set<string>();
+  const ruleTraces: KycRuleTrace[] = [];
+  let decision: KycDecision = 'approve';
+  let shortCircuitedBy: string | null = null;
+
+  const jurisdiction = getEffectiveJurisdictionPolicy(
+    options.jurisdictionPolicy ?? defaultJurisdictionPolicy,
+    input.country
+  );
+  const resolve = (conditions: KycCondition[]) =>
+    conditions.map((condition) => resolveCondition(condition, jurisdiction));
+
+  const rules = [...ruleset.rules].sort((a, b) => a.priority - b.priority);
+
+  for (const rule of rules) {
+    const resolved = resolve(rule.when);
+    const conditions = resolved.map((condition) => traceCondition(condition, input));
+    const ruleTrace: KycRuleTrace = {
+      ruleId: rule.id,
+      code: rule.code,
+      outcome: rule.outcome,
+      status: 'not_evaluated',
+      conditions,
+    };
+    ruleTraces.push(ruleTrace);
+
+    if (shortCircuitedBy) continue;
+
+    if (rule.unless.some((id) => fired.has(id))) {
+      ruleTrace.status = 'suppressed';
+      continue;
+    }
+    if (!conditions.every((condition) => condition.matched)) {
+      ruleTrace.status = 'not_matched';
+      continue;
+    }
+
+    ruleTrace.status = 'fired';
+    fired.add(rule.id);
+    decision = escalate(decision, rule.outcome);
+    reasons.push(
+      buildReason(rule.code, rule.severity, rule.outcome, resolved.map(({ condition }) => condition), input)
+    );
+
+    if (rule.shortCircuit) {
+      shortCircuitedBy = rule.id;
+    }
+  }
+
+  const { fallback } = ruleset;
+  const fallbackWhen = resolve(fallback.when).map(({ condition }) => condition);
+  const fallbackApplied =
+    fired.size === 0 && fallbackWhen.every((condition) => matchesCondition(condition, input));
+  if (fallbackApplied) {
+    reasons.push(buildReason(fallback.code, fallback.severity, 'approve', fallbackWhen, input));
+  }
+
+  if (!options.trace) {
+    return { decision, reasons };
+  }
+
+  return {
+    decision,
+    reasons,
+    trace: {
+      rulesetVersion: ruleset.version,
+      rules: ruleTraces,
+      shortCircuitedBy,
+      fallbackApplied,
+    },
+  };
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { evaluateKycV1, type KycInput } from './kycRules.v1';
+import { formatKycReason } from './kycReasons';
 
 describe('evaluateKycV1', () => {
   it('should approve when risk score is low', () => {
@@ -12,7 +13,7 @@ describe('evaluateKycV1', () => {
     const result = evaluateKycV1(input);
 
     expect(result.decision).toBe('approve');
-    expect(result.reasons).toContain('Low risk score');
+    expect(result.reasons.map(formatKycReason)).toContain('Low risk score');
   });
 
   it('should deny when risk score is 80 or higher', () => {
@@ -25,7 +26,7 @@ describe('evaluateKycV1', () => {
     const result = evaluateKycV1(input);
 
     expect(result.decision).toBe('deny');
-    expect(result.reasons).toContain('Risk score 80+');
+    expect(result.reasons.map(formatKycReason)).toContain('Risk score 80+');
   });
 
   it('should deny when risk score exceeds 80', () => {
@@ -38,7 +39,7 @@ describe('evaluateKycV1', () => {
     const result = evaluateKycV1(input);
 
     expect(result.decision).toBe('deny');
-    expect(result.reasons).toContain('Risk score 80+');
+    expect(result.reasons.map(formatKycReason)).toContain('Risk score 80+');
   });
 
   it('should require manual review when risk score is 50-79', () => {
@@ -51,7 +52,7 @@ describe('evaluateKycV1', () => {
     const result = evaluateKycV1(input);
 
     expect(result.decision).toBe('manual_review');
-    expect(result.reasons).toContain('Risk score 50-79');
+    expect(result.reasons.map(formatKycReason)).toContain('Risk score 50-79');
   });
 
   it('should require manual review at lower bound (50)', () => {
@@ -64,7 +65,7 @@ describe('evaluateKycV1', () => {
     const result = evaluateKycV1(input);
 
     expect(result.decision).toBe('manual_review');
-    expect(result.reasons).toContain('Risk score 50-79');
+    expect(result.reasons.map(formatKycReason)).toContain('Risk score 50-79');
   });
 
   it('should require manual review at upper bound (79)', () => {
@@ -77,7 +78,7 @@ describe('evaluateKycV1', () => {
     const result = evaluateKycV1(input);
 
     expect(result.decision).toBe('manual_review');
-    expect(result.reasons).toContain('Risk score 50-79');
+    expect(result.reasons.map(formatKycReason)).toContain('Risk score 50-79');
   });
 
   it('should deny when country is restricted', () => {
@@ -90,7 +91,7 @@ describe('evaluateKycV1', () => {
     const result = evaluateKycV1(input);
 
     expect(result.decision).toBe('deny');
-    expect(result.reasons).toContain('Restricted country: XX');
+    expect(result.reasons.map(formatKycReason)).toContain('Restricted country: XX');
   });
 
   it('should deny when country is restricted even with low risk score', () => {
@@ -103,7 +104,7 @@ describe('evaluateKycV1', () => {
     const result = evaluateKycV1(input);
 
     expect(result.decision).toBe('deny');
-    expect(result.reasons).toContain('Restricted country: YY');
+    expect(result.reasons.map(formatKycReason)).toContain('Restricted country: YY');
   });
 
   it('should deny when country is restricted even with high risk score', () => {
@@ -119,7 +120,7 @@ describe('evaluateKycV1', () => {
     // Note: High risk score check happens before country check in the implementation
     // So it will return 'Risk score 80+' instead of 'Restricted country: ZZ'
     expect(result.reasons.length).toBeGreaterThan(0);
-    expect(result.reasons.some(r => r.includes('Risk score 80+') || r.includes('Restricted country'))).toBe(true);
+    expect(result.reasons.map(formatKycReason).some(r => r.includes('Risk score 80+') || r.includes('Restricted country'))).toBe(true);
   });
 
   it('should prioritize country restriction over risk score', () => {
@@ -132,7 +133,7 @@ describe('evaluateKycV1', () => {
     const result = evaluateKycV1(input);
 
     expect(result.decision).toBe('deny');
-    expect(result.reasons).toContain('Restricted country: XX');
+    expect(result.reasons.map(formatKycReason)).toContain('Restricted country: XX');
     // Should not include manual review reason since country denial takes precedence
   });
 
@@ -146,7 +147,7 @@ describe('evaluateKycV1', () => {
     const result = evaluateKycV1(input);
 
     expect(result.decision).toBe('deny');
-    expect(result.reasons).toContain('Risk score 80+');
+    expect(result.reasons.map(formatKycReason)).toContain('Risk score 80+');
     // Should not include manual review reason
   });
 
@@ -176,5 +177,29 @@ describe('evaluateKycV1', () => {
     expect(result.reasons).toBeInstanceOf(Array);
     expect(result.reasons.length).toBeGreaterThan(0);
   });
-});
 
+  it('should report structured reason codes with thresholds', () => {
+    const input: KycInput = {
+      version: 'v1',
+      riskScore: 65,
+      country: 'XX',
+    };
+
+    const result = evaluateKycV1(input);
+
+    expect(result.reasons).toEqual([
+      {
+        code: 'RISK_SCORE_MEDIUM',
+        severity: 'warning',
+        outcome: 'manual_review',
+        params: { field: 'riskScore', actual: 65, threshold: 50, limit: 80 },
+      },
+      {
+        code: 'RESTRICTED_COUNTRY',
+        severity: 'critical',
+        outcome: 'deny',
+        params: { field: 'country', actual: 'XX' },
+      },
+    ]);
+  });
+});
@@ -1,3 +1,13 @@
+import { z } from 'zod';
+import {
+  evaluateKycRuleset,
+  parseKycRuleset,
+  type KycEvaluationOptions,
+  type KycTrace,
+} from './kycRuleEngine';
+import type { KycReason } from './kycReasons';
+import rulesetV1 from './rulesets/v1.json';
+
 export type KycDecision = 'approve' | 'manual_review' | 'deny';
 
 // Base input fields for v1 (without discriminator)
@@ -7,6 +17,12 @@ export interface KycInputBase {
   amount?: number;
 }
 
+export const kycInputSchemaV1 = z.object({
+  riskScore: z.number(),
+  country: z.string(),
+  amount: z.number().optional(),
+});
+
 // Discriminated union type for v1
 export interface KycInput extends KycInputBase {
   version: 'v1';
@@ -14,44 +30,21 @@ export interface KycInput extends KycInputBase {
 
 export interface KycResult {
   decision: KycDecision;
-  reasons: string[];
+  reasons: KycReason[]; // Render with formatKycReason
+  trace?: KycTrace; // Only present when evaluated with { trace: true }
 }
 
 /**
- * KYC Rules v1 - Simple rule-based evaluation
+ * KYC Rules v1 ruleset document (see rulesets/v1.json)
  * - riskScore >= 80 => deny
  * - riskScore 50-79 => manual_review
  * - Certain countries => deny
  */
-export function evaluateKycV1(input: KycInput): KycResult {
-  const reasons: string[] = [];
-  let decision: KycDecision = 'approve';
-
-  // High risk score threshold
-  if (input.riskScore >= 80) {
-    decision = 'deny';
-    reasons.push('Risk score 80+');
-    return { decision, reasons };
-  }
-
-  // Medium risk score threshold
-  if (input.riskScore >= 50 && input.riskScore < 80) {
-    decision = 'manual_review';
-    reasons.push('Risk score 50-79');
-  }
-
-  // Country-based restrictions
-  const restrictedCountries = ['XX', 'YY', 'ZZ']; // Placeholder countries
-  if (restrictedCountries.includes(input.country)) {
-    decision = 'deny';
-    reasons.push(`Restricted country: ${input.country}`);
-    return { decision, reasons };
-  }
+export const kycRulesetV1 = parseKycRuleset(rulesetV1);
 
-  if (decision === 'approve' && input.riskScore < 50) {
-    reasons.push('Low risk score');
-  }
-
-  return { decision, reasons };
+/**
+ * KYC Rules v1 - Simple rule-based evaluation
+ */
+export function evaluateKycV1(input: KycInput, options?: KycEvaluationOptions): KycResult {
+  return evaluateKycRuleset(kycRulesetV1, input, options);
 }
-
@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { evaluateKycV2, type KycInputV2 } from './kycRules.v2';
+import { formatKycReason } from './kycReasons';
+import { parseJurisdictionPolicy } from './jurisdictionPolicy';
 
 describe('evaluateKycV2', () => {
   it('should approve when risk score is low and no other risk factors', () => {
@@ -12,7 +14,7 @@ describe('evaluateKycV2', () => {
     const result = evaluateKycV2(input);
 
     expect(result.decision).toBe('approve');
-    expect(result.reasons).toContain('Low risk profile');
+    expect(result.reasons.map(formatKycReason)).toContain('Low risk profile');
   });
 
   it('should deny when sanctions list is true (highest priority)', () => {
@@ -26,7 +28,7 @@ describe('evaluateKycV2', () => {
     const result = evaluateKycV2(input);
 
     expect(result.decision).toBe('deny');
-    expect(result.reasons).toContain('On sanctions list');
+    expect(result.reasons.map(formatKycReason)).toContain('On sanctions list');
   });
 
   it('should deny when sanctions list is true even with low risk score', () => {
@@ -40,7 +42,7 @@ describe('evaluateKycV2', () => {
     const result = evaluateKycV2(input);
 
     expect(result.decision).toBe('deny');
-    expect(result.reasons).toContain('On sanctions list');
+    expect(result.reasons.map(formatKycReason)).toContain('On sanctions list');
   });
 
   it('should require manual review when isPep is true', () => {
@@ -54,7 +56,7 @@ describe('evaluateKycV2', () => {
     const result = evaluateKycV2(input);
 
     expect(result.decision).toBe('manual_review');
-    expect(result.reasons).toContain('PEP (Politically Exposed Person)');
+    expect(result.reasons.map(formatKycReason)).toContain('PEP (Politically Exposed Person)');
   });
 
   it('should deny when risk score is 75 or higher', () => {
@@ -67,7 +69,7 @@ describe('evaluateKycV2', () => {
     const result = evaluateKycV2(input);
 
     expect(result.decision).toBe('deny');
-    expect(result.reasons).toContain('Risk score 75+');
+    expect(result.reasons.map(formatKycReason)).toContain('Risk score 75+');
   });
 
   it('should deny when risk score exceeds 75', () => {
@@ -80,7 +82,7 @@ describe('evaluateKycV2', () => {
     const result = evaluateKycV2(input);
 
     expect(result.decision).toBe('deny');
-    expect(result.reasons).toContain('Risk score 75+');
+    expect(result.reasons.map(formatKycReason)).toContain('Risk score 75+');
   });
 
   it('should require manual review when risk score is 50-74', () => {
@@ -93,7 +95,7 @@ describe('evaluateKycV2', () => {
     const result = evaluateKycV2(input);
 
     expect(result.decision).toBe('manual_review');
-    expect(result.reasons).toContain('Risk score 50-74');
+    expect(result.reasons.map(formatKycReason)).toContain('Risk score 50-74');
   });
 
   it('should require manual review when amount exceeds threshold', () => {
@@ -107,7 +109,7 @@ describe('evaluateKycV2', () => {
     const result = evaluateKycV2(input);
 
     expect(result.decision).toBe('manual_review');
-    expect(result.reasons.some(r => r.includes('Amount exceeds'))).toBe(true);
+    expect(result.reasons.map(formatKycReason).some(r => r.includes('Amount exceeds'))).toBe(true);
   });
 
   it('should not require manual review when amount is below threshold', () => {
@@ -134,7 +136,7 @@ describe('evaluateKycV2', () => {
     const result = evaluateKycV2(input);
 
     expect(result.decision).toBe('manual_review');
-    expect(result.reasons.some(r => r.includes('High transaction velocity'))).toBe(true);
+    expect(result.reasons.map(formatKycReason).some(r => r.includes('High transaction velocity'))).toBe(true);
   });
 
   it('should not require manual review when velocity is below threshold', () => {
@@ -160,7 +162,7 @@ describe('evaluateKycV2', () => {
     const result = evaluateKycV2(input);
 
     expect(result.decision).toBe('deny');
-    expect(result.reasons).toContain('Restricted country: XX');
+    expect(result.reasons.map(formatKycReason)).toContain('Restricted country: XX');
   });
 
   it('should require manual review for combined risk factors', () => {
@@ -190,7 +192,7 @@ describe('evaluateKycV2', () => {
     const result = evaluateKycV2(input);
 
     expect(result.decision).toBe('deny');
-    expect(result.reasons).toContain('On sanctions list');
+    expect(result.reasons.map(formatKycReason)).toContain('On sanctions list');
   });
 
   it('should prioritize sanctions list over high risk score', () => {
@@ -204,7 +206,7 @@ describe('evaluateKycV2', () => {
     const result = evaluateKycV2(input);
 
     expect(result.decision).toBe('deny');
-    expect(result.reasons).toContain('On sanctions list');
+    expect(result.reasons.map(formatKycReason)).toContain('On sanctions list');
   });
 
   it('should require manual review when PEP and medium risk score', () => {
@@ -218,7 +220,7 @@ describe('evaluateKycV2', () => {
     const result = evaluateKycV2(input);
 
     expect(result.decision).toBe('manual_review');
-    expect(result.reasons).toContain('PEP (Politically Exposed Person)');
+    expect(result.reasons.map(formatKycReason)).toContain('PEP (Politically Exposed Person)');
   });
 
   it('should handle all optional fields', () => {
@@ -237,5 +239,84 @@ describe('evaluateKycV2', () => {
     expect(result.decision).toBe('approve');
     expect(result.reasons).toBeInstanceOf(Array);
   });
-});
 
+  it('should report the reason code, outcome and actual value for velocity', () => {
+    const input: KycInputV2 = {
+      version: 'v2',
+      riskScore: 30,
+      country: 'US',
+      velocity: 15,
+    };
+
+    const result = evaluateKycV2(input);
+
+    expect(result.reasons).toEqual([
+      {
+        code: 'VELOCITY_HIGH',
+        severity: 'warning',
+        outcome: 'manual_review',
+        params: { field: 'velocity', actual: 15, threshold: 10 },
+      },
+    ]);
+  });
+
+  it('should trace which rule short-circuited a high risk denial', () => {
+    const input: KycInputV2 = {
+      version: 'v2',
+      riskScore: 80,
+      country: 'XX',
+      isPep: true,
+    };
+
+    const result = evaluateKycV2(input, { trace: true });
+
+    expect(result.trace?.shortCircuitedBy).toBe('risk-score-high');
+    expect(result.trace?.rules.find((rule) => rule.ruleId === 'risk-score-high')?.conditions).toEqual([
+      { field: 'riskScore', op: 'gte', expected: 75, actual: 80, matched: true },
+    ]);
+    expect(result.trace?.rules.find((rule) => rule.ruleId === 'restricted-country')?.status).toBe('not_evaluated');
+  });
+
+  it('should require manual review for enhanced due diligence countries', () => {
+    const input: KycInputV2 = {
+      version: 'v2',
+      riskScore: 30,
+      country: 'IR',
+    };
+
+    const result = evaluateKycV2(input);
+
+    expect(result.decision).toBe('manual_review');
+    expect(result.reasons.map(formatKycReason)).toEqual(['Enhanced due diligence country: IR']);
+  });
+
+  it('should apply the lower amount threshold of high-risk corridors', () => {
+    const input: KycInputV2 = {
+      version: 'v2',
+      riskScore: 30,
+      country: 'NG',
+      amount: 30000,
+    };
+
+    const result = evaluateKycV2(input);
+
+    expect(result.decision).toBe('manual_review');
+    expect(result.reasons.map(formatKycReason)).toContain('Amount exceeds 25,000');
+  });
+
+  it('should scale the combined-risk amount with the jurisdiction amount threshold', () => {
+    // A medium risk threshold above the score leaves combined risk as the only amount check below amountHigh
+    const policy = (thresholds: Record<string, number>) =>
+      parseJurisdictionPolicy({ version: 'test', restrictedCountries: [], countries: [{ country: 'DE', thresholds }] });
+    const input: KycInputV2 = { version: 'v2', riskScore: 65, country: 'DE', amount: 30000 };
+
+    const defaultAmount = evaluateKycV2(input, { jurisdictionPolicy: policy({ riskScoreMedium: 70 }) });
+    const lowerAmount = evaluateKycV2(input, {
+      jurisdictionPolicy: policy({ riskScoreMedium: 70, amountHigh: 40000 }),
+    });
+
+    expect(defaultAmount.decision).toBe('approve');
+    expect(lowerAmount.decision).toBe('manual_review');
+    expect(lowerAmount.reasons.map((reason) => reason.code)).toEqual(['COMBINED_RISK']);
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateKycV3, type KycInputV3 } from './kycRules.v3';
+import { formatKycReason } from './kycReasons';
+
+// A customer with every v3 signal in good standing
+const cleanInput: KycInputV3 = {
+  version: 'v3',
+  riskScore: 30,
+  country: 'US',
+  documentStatus: 'verified',
+  accountAgeDays: 400,
+  adverseMediaHits: 0,
+  nationalityMismatch: false,
+  sourceOfFundsDeclared: true,
+};
+
+describe('evaluateKycV3', () => {
+  it('should approve when every signal is clean', () => {
+    const result = evaluateKycV3(cleanInput);
+
+    expect(result.decision).toBe('approve');
+    expect(result.reasons.map(formatKycReason)).toEqual(['Low risk profile']);
+  });
+
+  it('should approve a low risk customer without any v3 signals', () => {
+    const result = evaluateKycV3({ version: 'v3', riskScore: 30, country: 'US' });
+
+    expect(result.decision).toBe('approve');
+  });
+
+  it('should deny when sanctions list is true', () => {
+    const result = evaluateKycV3({ ...cleanInput, sanctionsList: true });
+
+    expect(result.decision).toBe('deny');
+    expect(result.reasons.map(formatKycReason)).toEqual(['On sanctions list']);
+  });
+
+  it('should deny when risk score is 70 or higher', () => {
+    const result = evaluateKycV3({ ...cleanInput, riskScore: 70 });
+
+    expect(result.decision).toBe('deny');
+    expect(result.reasons.map(formatKycReason)).toContain('Risk score 70+');
+  });
+
+  it('should require manual review when risk score is 45-69', () => {
+    const result = evaluateKycV3({ ...cleanInput, riskScore: 45 });
+
+    expect(result.decision).toBe('manual_review');
+    expect(result.reasons.map(formatKycReason)).toContain('Risk score 45-69');
+  });
+
+  describe('document verification', () => {
+    it('should deny when the identity document was rejected', () => {
+      const result = evaluateKycV3({ ...cleanInput, documentStatus: 'rejected', isPep: true });
+
+      expect(result.decision).toBe('deny');
+      expect(result.reasons.map(formatKycReason)).toEqual(['Identity document rejected']);
+      expect(result.reasons[0].severity).toBe('critical');
+    });
+
+    it.each(['pending', 'expired', 'missing'] as const)(
+      'should require manual review when the document is %s',
+      (documentStatus) => {
+        const result = evaluateKycV3({ ...cleanInput, documentStatus });
+
+        expect(result.decision).toBe('manual_review');
+        expect(result.reasons.map(formatKycReason)).toEqual([`Identity document not verified (${documentStatus})`]);
+      }
+    );
+
+    it('should not flag a customer without a document status', () => {
+      const result = evaluateKycV3({ ...cleanInput, documentStatus: undefined });
+
+      expect(result.reasons.map((reason) => reason.code)).not.toContain('DOCUMENT_UNVERIFIED');
+    });
+  });
+
+  describe('account age', () => {
+    it('should require manual review for accounts younger than 30 days', () => {
+      const result = evaluateKycV3({ ...cleanInput, accountAgeDays: 12 });
+
+      expect(result.decision).toBe('manual_review');
+      expect(result.reasons).toEqual([
+        {
+          code: 'ACCOUNT_NEW',
+          severity: 'warning',
+          outcome: 'manual_review',
+          params: { field: 'accountAgeDays', actual: 12, limit: 30 },
+        },
+      ]);
+      expect(formatKycReason(result.reasons[0])).toBe('New account: 12 days old (under 30)');
+    });
+
+    it('should not flag accounts that are 30 days or older', () => {
+      const result = evaluateKycV3({ ...cleanInput, accountAgeDays: 30 });
+
+      expect(result.decision).toBe('approve');
+    });
+  });
+
+  describe('adverse media', () => {
+    it('should require manual review for one or two hits', () => {
+      const result = evaluateKycV3({ ...cleanInput, adverseMediaHits: 2 });
+
+      expect(result.decision).toBe('manual_review');
+      expect(result.reasons.map(formatKycReason)).toEqual(['Adverse media hits: 2']);
+    });
+
+    it('should deny and stop at three or more hits', () => {
+      const result = evaluateKycV3({ ...cleanInput, adverseMediaHits: 3, documentStatus: 'pending' }, { trace: true });
+
+      expect(result.decision).toBe('deny');
+      expect(result.reasons.map(formatKycReason)).toEqual(['Adverse media hits: 3 (3+)']);
+      expect(result.trace?.shortCircuitedBy).toBe('adverse-media-severe');
+    });
+  });
+
+  describe('nationality mismatch', () => {
+    it('should require manual review when nationality differs and risk score is 40+', () => {
+      const result = evaluateKycV3({ ...cleanInput, riskScore: 40, nationalityMismatch: true });
+
+      expect(result.decision).toBe('manual_review');
+      expect(result.reasons.map(formatKycReason)).toEqual(['Nationality differs from country of residence']);
+    });
+
+    it('should not flag a mismatch for low risk customers', () => {
+      const result = evaluateKycV3({ ...cleanInput, riskScore: 39, nationalityMismatch: true });
+
+      expect(result.decision).toBe('approve');
+    });
+  });
+
+  describe('source of funds', () => {
+    it('should require manual review for undeclared funds above 10,000', () => {
+      const result = evaluateKycV3({ ...cleanInput, amount: 12000, sourceOfFundsDeclared: false });
+
+      expect(result.decision).toBe('manual_review');
+      expect(result.reasons.map(formatKycReason)).toEqual([
+        'Source of funds not declared for amount over 10,000',
+      ]);
+    });
+
+    it('should treat a missing declaration as undeclared', () => {
+      const result = evaluateKycV3({ ...cleanInput, amount: 12000, sourceOfFundsDeclared: undefined });
+
+      expect(result.reasons.map((reason) => reason.code)).toContain('SOURCE_OF_FUNDS_UNDECLARED');
+    });
+
+    it('should not flag declared funds or small amounts', () => {
+      expect(evaluateKycV3({ ...cleanInput, amount: 12000 }).decision).toBe('approve');
+      expect(evaluateKycV3({ ...cleanInput, amount: 9000, sourceOfFundsDeclared: false }).decision).toBe('approve');
+    });
+  });
+
+  it('should require manual review when amount exceeds 75,000', () => {
+    const result = evaluateKycV3({ ...cleanInput, amount: 80000 });
+
+    expect(result.decision).toBe('manual_review');
+    expect(result.reasons.map(formatKycReason)).toContain('Amount exceeds 75,000');
+  });
+
+  it('should require manual review when velocity exceeds 8', () => {
+    const result = evaluateKycV3({ ...cleanInput, velocity: 9 });
+
+    expect(result.decision).toBe('manual_review');
+    expect(result.reasons.map(formatKycReason)).toContain('High transaction velocity: 9 in 24h');
+  });
+
+  it('should deny when country is restricted', () => {
+    const result = evaluateKycV3({ ...cleanInput, country: 'XX' });
+
+    expect(result.decision).toBe('deny');
+    expect(result.reasons.map(formatKycReason)).toContain('Restricted country: XX');
+  });
+
+  it('should collect every warning that applies', () => {
+    const result = evaluateKycV3({
+      ...cleanInput,
+      isPep: true,
+      documentStatus: 'expired',
+      adverseMediaHits: 1,
+      accountAgeDays: 3,
+    });
+
+    expect(result.decision).toBe('manual_review');
+    expect(result.reasons.map((reason) => reason.code)).toEqual([
+      'PEP',
+      'DOCUMENT_UNVERIFIED',
+      'ADVERSE_MEDIA',
+      'ACCOUNT_NEW',
+    ]);
+  });
+
+  it('should prioritize a rejected document over a high risk score', () => {
+    const result = evaluateKycV3({ ...cleanInput, riskScore: 90, documentStatus: 'rejected' }, { trace: true });
+
+    expect(result.trace?.shortCircuitedBy).toBe('document-rejected');
+    expect(result.trace?.rules.find((rule) => rule.ruleId === 'risk-score-high')?.status).toBe('not_evaluated');
+  });
+});
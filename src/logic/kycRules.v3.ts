@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import type { KycResult } from './kycRules.v1';
+import { kycInputSchemaV2, type KycInputV2Base } from './kycRules.v2';
+import { evaluateKycRuleset, parseKycRuleset, type KycEvaluationOptions } from './kycRuleEngine';
+import { kycDocumentStatusSchema, type KycDocumentStatus } from './kycDocumentStatus';
+import rulesetV3 from './rulesets/v3.json';
+
+// Base input fields for v3 (extends v2 base)
+export interface KycInputV3Base extends KycInputV2Base {
+  documentStatus?: KycDocumentStatus; // Identity document verification
+  accountAgeDays?: number; // Days since the account was opened
+  adverseMediaHits?: number; // Negative news matches
+  nationalityMismatch?: boolean; // Nationality differs from country of residence
+  sourceOfFundsDeclared?: boolean;
+}
+
+export const kycInputSchemaV3 = kycInputSchemaV2.extend({
+  documentStatus: kycDocumentStatusSchema.optional(),
+  accountAgeDays: z.number().optional(),
+  adverseMediaHits: z.number().optional(),
+  nationalityMismatch: z.boolean().optional(),
+  sourceOfFundsDeclared: z.boolean().optional(),
+});
+
+// Discriminated union type for v3
+export interface KycInputV3 extends KycInputV3Base {
+  version: 'v3';
+}
+
+/**
+ * KYC Rules v3 ruleset document (see rulesets/v3.json)
+ * Tightens the v2 thresholds and adds document verification, account age,
+ * adverse media, nationality mismatch and source-of-funds checks
+ */
+export const kycRulesetV3 = parseKycRuleset(rulesetV3);
+
+/**
+ * KYC Rules v3 - Document, tenure and adverse-media aware evaluation
+ */
+export function evaluateKycV3(input: KycInputV3, options?: KycEvaluationOptions): KycResult {
+  return evaluateKycRuleset(kycRulesetV3, input, options);
+}
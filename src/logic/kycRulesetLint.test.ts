@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import { kycVersionRegistry } from './kycVersions';
+import { parseKycRuleset } from './kycRuleEngine';
+import { lintKycRuleset } from './kycRulesetLint';
+import { getEffectiveJurisdictionPolicy, jurisdictionPolicy } from './jurisdictionPolicy';
+import { expectNoDeadKycRules } from '../test/kycRulesetLint';
+
+const today = new Date().toISOString().slice(0, 10);
+
+// Retired rulesets are historic records and are not edited, so only live ones must be clean
+const liveVersions = kycVersionRegistry.versions.filter(
+  (version) => version.ruleset && (!version.effectiveTo || version.effectiveTo > today)
+);
+
+const rule = (id: string, when: unknown[], extra: Record<string, unknown> = {}) => ({
+  id,
+  priority: 10,
+  when,
+  outcome: 'manual_review',
+  code: 'RISK_SCORE_MEDIUM',
+  severity: 'warning',
+  ...extra,
+});
+
+const ruleset = (rules: unknown[], fallbackWhen: unknown[] = [{ field: 'riskScore', op: 'lt', value: 50 }]) =>
+  parseKycRuleset({ version: 'test', rules, fallback: { code: 'LOW_RISK_PROFILE', when: fallbackWhen } });
+
+describe('lintKycRuleset', () => {
+  it.each(liveVersions.map((version) => ({ id: version.id, version })))(
+    '$id should have no dead rules',
+    ({ version }) => {
+      expectNoDeadKycRules(version.ruleset!);
+    }
+  );
+
+  it('should report the retired v2 combined-risk rule as dead', () => {
+    const findings = lintKycRuleset(kycVersionRegistry.resolve('v2').ruleset!);
+
+    expect(findings.filter((finding) => finding.kind === 'dead_rule')).toEqual([
+      expect.objectContaining({
+        severity: 'error',
+        ruleIds: ['combined-risk', 'sanctions-hit', 'risk-score-high', 'risk-score-medium'],
+      }),
+    ]);
+  });
+
+  it('should report a rule whose conditions contradict each other', () => {
+    const findings = lintKycRuleset(
+      ruleset([
+        rule('impossible', [
+          { field: 'amount', op: 'gt', value: 100 },
+          { field: 'amount', op: 'lte', value: 100 },
+        ]),
+      ])
+    );
+
+    expect(findings[0]).toMatchObject({ kind: 'dead_rule', ruleIds: ['impossible'] });
+    expect(findings[0].message).toMatch(/contradict/);
+  });
+
+  it('should report a rule shadowed by an earlier short-circuit rule', () => {
+    const findings = lintKycRuleset(
+      ruleset([
+        rule('pep', [{ field: 'isPep', op: 'eq', value: true }], { priority: 1, outcome: 'deny', shortCircuit: true }),
+        rule('pep-high-amount', [
+          { field: 'isPep', op: 'eq', value: true },
+          { field: 'amount', op: 'gt', value: 1000 },
+        ]),
+        rule('high-amount', [{ field: 'amount', op: 'gt', value: 1000 }]),
+      ])
+    );
+
+    expect(findings.filter((finding) => finding.kind === 'dead_rule').map((finding) => finding.ruleIds)).toEqual([
+      ['pep-high-amount', 'pep'],
+    ]);
+  });
+
+  it('should not treat a missing boolean as covered by an eq true rule', () => {
+    const findings = lintKycRuleset(
+      ruleset([
+        rule('pep', [{ field: 'isPep', op: 'eq', value: true }], { priority: 1, shortCircuit: true }),
+        rule('not-pep', [{ field: 'isPep', op: 'eq', value: false }]),
+      ])
+    );
+
+    expect(findings.filter((finding) => finding.kind === 'dead_rule')).toEqual([]);
+  });
+
+  it('should report risk scores that no band or fallback covers', () => {
+    const findings = lintKycRuleset(
+      ruleset([
+        rule('high', [{ field: 'riskScore', op: 'gte', value: 75 }], { outcome: 'deny' }),
+        rule('medium', [
+          { field: 'riskScore', op: 'gte', value: 60 },
+          { field: 'riskScore', op: 'lt', value: 70 },
+        ]),
+      ])
+    );
+
+    expect(findings.filter((finding) => finding.kind === 'coverage_gap').map((finding) => finding.message)).toEqual([
+      'Risk score 50 to <60 is not covered by any risk score rule or the fallback',
+      'Risk score 70 to <75 is not covered by any risk score rule or the fallback',
+    ]);
+  });
+
+  it('should treat a fallback without conditions as covering every risk score', () => {
+    const findings = lintKycRuleset(ruleset([rule('high', [{ field: 'riskScore', op: 'gte', value: 75 }])], []));
+
+    expect(findings).toEqual([]);
+  });
+
+  it('should report overlapping ranges of rules with different outcomes', () => {
+    const findings = lintKycRuleset(
+      ruleset([
+        rule('large', [{ field: 'amount', op: 'gte', value: 10000 }], {
+          priority: 1,
+          outcome: 'deny',
+          shortCircuit: true,
+        }),
+        rule('medium', [
+          { field: 'amount', op: 'gte', value: 5000 },
+          { field: 'amount', op: 'lte', value: 20000 },
+        ]),
+      ])
+    );
+
+    expect(findings.filter((finding) => finding.kind === 'overlap')).toEqual([
+      {
+        kind: 'overlap',
+        severity: 'warning',
+        ruleIds: ['large', 'medium'],
+        message:
+          'Rules "large" (deny) and "medium" (manual_review) both match amount 10,000 to 20,000; ' +
+          '"large" short-circuits there, so "medium" never gets to review',
+      },
+    ]);
+  });
+
+  it('should resolve params against the given jurisdiction', () => {
+    const shadowing = ruleset([
+      rule('high', [{ field: 'riskScore', op: 'gte', value: 75, param: 'riskScoreHigh' }], {
+        priority: 1,
+        shortCircuit: true,
+      }),
+      rule('very-high', [{ field: 'riskScore', op: 'gte', value: 80 }]),
+    ]);
+    const strict = getEffectiveJurisdictionPolicy(jurisdictionPolicy, '');
+    const lenient = { ...strict, thresholds: { riskScoreHigh: { value: 90, source: 'country:XX' } } };
+
+    const hasDeadRule = (jurisdiction: typeof strict) =>
+      lintKycRuleset(shadowing, { jurisdiction }).some((finding) => finding.kind === 'dead_rule');
+
+    expect(hasDeadRule(strict)).toBe(true);
+    expect(hasDeadRule(lenient)).toBe(false);
+  });
+});
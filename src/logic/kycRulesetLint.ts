@@ -0,0 +1,337 @@
+import type { KycDecision } from './kycRules.v1';
+import {
+  kycBooleanFieldSchema,
+  kycNumericFieldSchema,
+  type KycCondition,
+  type KycRule,
+  type KycRuleset,
+} from './kycRuleEngine';
+import { kycDocumentStatusSchema } from './kycDocumentStatus';
+import {
+  getEffectiveJurisdictionPolicy,
+  jurisdictionPolicy,
+  type EffectiveJurisdictionPolicy,
+} from './jurisdictionPolicy';
+
+export type KycLintFindingKind = 'dead_rule' | 'coverage_gap' | 'overlap';
+export type KycLintSeverity = 'error' | 'warning';
+
+export interface KycLintFinding {
+  kind: KycLintFindingKind;
+  severity: KycLintSeverity; // Dead rules are errors, everything else a warning
+  ruleIds: string[];
+  message: string;
+}
+
+export interface KycLintOptions {
+  // Thresholds and country lists to resolve params against; defaults to
+  // jurisdictions.json with no country-specific overrides
+  jurisdiction?: EffectiveJurisdictionPolicy;
+}
+
+// Risk scores the coverage check expects every score in
+export const KYC_RISK_SCORE_RANGE = { min: 0, max: 100 };
+
+// The set of inputs a rule matches is a region: one value set per field it constrains
+interface Interval {
+  lo: number;
+  loOpen: boolean;
+  hi: number;
+  hiOpen: boolean;
+}
+
+interface NumberSet {
+  kind: 'number';
+  intervals: Interval[]; // Sorted and disjoint
+  undefined: boolean; // Whether a missing value is included
+}
+
+interface ValueSet {
+  kind: 'values';
+  values: Set<string>;
+  complement: boolean; // Every value except `values` (countries are unbounded)
+}
+
+type FieldSet = NumberSet | ValueSet;
+type Region = Record<string, FieldSet>; // Fields not present are unconstrained
+
+const UNDEFINED = 'undefined';
+const allNumbers: Interval = { lo: -Infinity, loOpen: true, hi: Infinity, hiOpen: true };
+
+const isNumericField = (field: string) => (kycNumericFieldSchema.options as string[]).includes(field);
+const isBooleanField = (field: string) => (kycBooleanFieldSchema.options as string[]).includes(field);
+
+// Every value a field can take; riskScore and country are required inputs
+function universe(field: string): FieldSet {
+  if (isNumericField(field)) {
+    return { kind: 'number', intervals: [allNumbers], undefined: field !== 'riskScore' };
+  }
+  if (isBooleanField(field)) {
+    return { kind: 'values', values: new Set(['true', 'false', UNDEFINED]), complement: false };
+  }
+  if (field === 'documentStatus') {
+    return { kind: 'values', values: new Set([...kycDocumentStatusSchema.options, UNDEFINED]), complement: false };
+  }
+  return { kind: 'values', values: new Set(), complement: true };
+}
+
+const isEmptyInterval = ({ lo, loOpen, hi, hiOpen }: Interval) => lo > hi || (lo === hi && (loOpen || hiOpen));
+
+function intersectIntervals(a: Interval, b: Interval): Interval {
+  const lo = Math.max(a.lo, b.lo);
+  const hi = Math.min(a.hi, b.hi);
+  return {
+    lo,
+    loOpen: (a.lo === lo && a.loOpen) || (b.lo === lo && b.loOpen),
+    hi,
+    hiOpen: (a.hi === hi && a.hiOpen) || (b.hi === hi && b.hiOpen),
+  };
+}
+
+// Gaps between sorted, disjoint intervals
+function complementIntervals(intervals: Interval[]): Interval[] {
+  const gaps: Interval[] = [];
+  let lo = -Infinity;
+  let loOpen = true;
+  for (const interval of intervals) {
+    gaps.push({ lo, loOpen, hi: interval.lo, hiOpen: !interval.loOpen });
+    lo = interval.hi;
+    loOpen = !interval.hiOpen;
+  }
+  gaps.push({ lo, loOpen, hi: Infinity, hiOpen: true });
+  return gaps.filter((gap) => !isEmptyInterval(gap));
+}
+
+function intersectSets(a: FieldSet, b: FieldSet): FieldSet {
+  if (a.kind === 'number' && b.kind === 'number') {
+    const intervals = a.intervals
+      .flatMap((x) => b.intervals.map((y) => intersectIntervals(x, y)))
+      .filter((interval) => !isEmptyInterval(interval))
+      .sort((x, y) => x.lo - y.lo || Number(x.loOpen) - Number(y.loOpen));
+    return { kind: 'number', intervals, undefined: a.undefined && b.undefined };
+  }
+  if (a.kind === 'values' && b.kind === 'values') {
+    if (a.complement && b.complement) {
+      return { kind: 'values', values: new Set([...a.values, ...b.values]), complement: true };
+    }
+    const [included, other] = a.complement ? [b, a] : [a, b];
+    const values = [...included.values].filter((value) => other.values.has(value) !== other.complement);
+    return { kind: 'values', values: new Set(values), complement: false };
+  }
+  throw new Error('Cannot intersect value sets of different kinds');
+}
+
+function complementSet(set: FieldSet): FieldSet {
+  if (set.kind === 'number') {
+    return { kind: 'number', intervals: complementIntervals(set.intervals), undefined: !set.undefined };
+  }
+  return { ...set, complement: !set.complement };
+}
+
+const isEmptySet = (set: FieldSet) =>
+  set.kind === 'number' ? set.intervals.length === 0 && !set.undefined : !set.complement && set.values.size === 0;
+
+function conditionSet(condition: KycCondition, jurisdiction: EffectiveJurisdictionPolicy): FieldSet {
+  if ('list' in condition) {
+    return { kind: 'values', values: new Set(jurisdiction.lists[condition.list]), complement: false };
+  }
+  switch (condition.op) {
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte': {
+      const override = condition.param && jurisdiction.thresholds[condition.param];
+      const value = override ? override.value * (condition.factor ?? 1) : condition.value;
+      const interval =
+        condition.op === 'gt' || condition.op === 'gte'
+          ? { lo: value, loOpen: condition.op === 'gt', hi: Infinity, hiOpen: true }
+          : { lo: -Infinity, loOpen: true, hi: value, hiOpen: condition.op === 'lt' };
+      // Missing numbers never match a threshold
+      return { kind: 'number', intervals: [interval], undefined: false };
+    }
+    case 'eq':
+      // A missing boolean is compared as false
+      return {
+        kind: 'values',
+        values: new Set(condition.value ? ['true'] : ['false', UNDEFINED]),
+        complement: false,
+      };
+    case 'in':
+      return { kind: 'values', values: new Set<string>(condition.value), complement: false };
+  }
+}
+
+function regionOf(conditions: KycCondition[], jurisdiction: EffectiveJurisdictionPolicy): Region {
+  const region: Region = {};
+  for (const condition of conditions) {
+    const current = region[condition.field] ?? universe(condition.field);
+    region[condition.field] = intersectSets(current, conditionSet(condition, jurisdiction));
+  }
+  return region;
+}
+
+const isEmptyRegion = (region: Region) => Object.values(region).some(isEmptySet);
+
+function intersectRegions(a: Region, b: Region): Region {
+  const region: Region = { ...a };
+  for (const [field, set] of Object.entries(b)) {
+    region[field] = intersectSets(region[field] ?? universe(field), set);
+  }
+  return region;
+}
+
+// a minus b, split into disjoint regions one constrained field of b at a time
+function subtractRegion(a: Region, b: Region): Region[] {
+  if (isEmptyRegion(intersectRegions(a, b))) return [a];
+
+  const pieces: Region[] = [];
+  let rest: Region = { ...a };
+  for (const [field, set] of Object.entries(b)) {
+    const current = rest[field] ?? universe(field);
+    const piece = { ...rest, [field]: intersectSets(current, complementSet(set)) };
+    if (!isEmptyRegion(piece)) pieces.push(piece);
+    rest = { ...rest, [field]: intersectSets(current, set) };
+  }
+  return pieces;
+}
+
+const formatNumber = (value: number) => value.toLocaleString('en-US');
+
+function formatInterval({ lo, loOpen, hi, hiOpen }: Interval): string {
+  if (lo === -Infinity) return `${hiOpen ? '<' : '≤'} ${formatNumber(hi)}`;
+  if (hi === Infinity) return `${loOpen ? '>' : '≥'} ${formatNumber(lo)}`;
+  if (lo === hi) return formatNumber(lo);
+  return `${loOpen ? '>' : ''}${formatNumber(lo)} to ${hiOpen ? '<' : ''}${formatNumber(hi)}`;
+}
+
+const describeRule = (rule: KycRule) => `"${rule.id}" (${rule.outcome})`;
+const outcomeVerbs: Record<KycDecision, string> = { approve: 'approve', manual_review: 'review', deny: 'deny' };
+
+interface DeadRuleAnalysis {
+  findings: KycLintFinding[];
+  dead: Set<string>;
+}
+
+// A rule is dead when every input it matches is already taken by an earlier
+// short-circuit rule or by a rule listed in its `unless`
+function findDeadRules(rules: KycRule[], jurisdiction: EffectiveJurisdictionPolicy): DeadRuleAnalysis {
+  const findings: KycLintFinding[] = [];
+  const dead = new Set<string>();
+
+  rules.forEach((rule, index) => {
+    const region = regionOf(rule.when, jurisdiction);
+    if (isEmptyRegion(region)) {
+      dead.add(rule.id);
+      findings.push({
+        kind: 'dead_rule',
+        severity: 'error',
+        ruleIds: [rule.id],
+        message: `Rule "${rule.id}" can never fire: its conditions contradict each other`,
+      });
+      return;
+    }
+
+    let remaining = [region];
+    const coveredBy: string[] = [];
+    for (const earlier of rules.slice(0, index)) {
+      // Rules that can themselves be suppressed are not guaranteed to fire
+      const blocks = earlier.unless.length === 0 && (earlier.shortCircuit || rule.unless.includes(earlier.id));
+      if (!blocks) continue;
+
+      const earlierRegion = regionOf(earlier.when, jurisdiction);
+      if (remaining.some((piece) => !isEmptyRegion(intersectRegions(piece, earlierRegion)))) {
+        coveredBy.push(earlier.shortCircuit ? earlier.id : `${earlier.id} (unless)`);
+      }
+      remaining = remaining.flatMap((piece) => subtractRegion(piece, earlierRegion));
+      if (remaining.length === 0) break;
+    }
+
+    if (remaining.length === 0) {
+      dead.add(rule.id);
+      findings.push({
+        kind: 'dead_rule',
+        severity: 'error',
+        ruleIds: [rule.id, ...coveredBy.map((id) => id.replace(' (unless)', ''))],
+        message: `Rule "${rule.id}" can never fire: every input it matches is taken by ${coveredBy.join(', ')}`,
+      });
+    }
+  });
+
+  return { findings, dead };
+}
+
+// Risk scores for which no risk-score-only rule and no fallback gives a reason
+function findRiskScoreGaps(ruleset: KycRuleset, jurisdiction: EffectiveJurisdictionPolicy): KycLintFinding[] {
+  const onlyRiskScore = (conditions: KycCondition[]) =>
+    conditions.every((condition) => condition.field === 'riskScore');
+  const bands = [
+    ...ruleset.rules.filter((rule) => onlyRiskScore(rule.when)).map((rule) => rule.when),
+    ...(onlyRiskScore(ruleset.fallback.when) ? [ruleset.fallback.when] : []),
+  ];
+
+  const range: Interval = { lo: KYC_RISK_SCORE_RANGE.min, loOpen: false, hi: KYC_RISK_SCORE_RANGE.max, hiOpen: false };
+  let uncovered: FieldSet = { kind: 'number', intervals: [range], undefined: false };
+  for (const band of bands) {
+    const covered = regionOf(band, jurisdiction).riskScore ?? universe('riskScore');
+    uncovered = intersectSets(uncovered, complementSet(covered));
+  }
+
+  return (uncovered as NumberSet).intervals.map((gap) => ({
+    kind: 'coverage_gap' as const,
+    severity: 'warning' as const,
+    ruleIds: [],
+    message: `Risk score ${formatInterval(gap)} is not covered by any risk score rule or the fallback`,
+  }));
+}
+
+// Pairs of rules with different outcomes whose ranges on the same numeric field overlap
+function findOverlaps(
+  rules: KycRule[],
+  dead: Set<string>,
+  jurisdiction: EffectiveJurisdictionPolicy
+): KycLintFinding[] {
+  const findings: KycLintFinding[] = [];
+  const live = rules.filter((rule) => !dead.has(rule.id));
+
+  live.forEach((first, index) => {
+    for (const second of live.slice(index + 1)) {
+      if (first.outcome === second.outcome) continue;
+      const firstRegion = regionOf(first.when, jurisdiction);
+      const secondRegion = regionOf(second.when, jurisdiction);
+      const overlap = intersectRegions(firstRegion, secondRegion);
+      if (isEmptyRegion(overlap)) continue;
+
+      const fields = Object.keys(firstRegion).filter((field) => isNumericField(field) && field in secondRegion);
+      for (const field of fields) {
+        const ranges = (overlap[field] as NumberSet).intervals.map(formatInterval).join(', ');
+        findings.push({
+          kind: 'overlap',
+          severity: 'warning',
+          ruleIds: [first.id, second.id],
+          message:
+            `Rules ${describeRule(first)} and ${describeRule(second)} both match ${field} ${ranges}` +
+            (first.shortCircuit
+              ? `; "${first.id}" short-circuits there, so "${second.id}" never gets to ${outcomeVerbs[second.outcome]}`
+              : ''),
+        });
+      }
+    }
+  });
+
+  return findings;
+}
+
+/**
+ * Statically analyzes a ruleset without evaluating any input
+ * Reports rules that can never fire, risk scores no rule or fallback covers,
+ * and rules with different outcomes whose numeric ranges overlap.
+ * Params and lists are resolved with `options.jurisdiction`.
+ */
+export function lintKycRuleset(ruleset: KycRuleset, options: KycLintOptions = {}): KycLintFinding[] {
+  const jurisdiction = options.jurisdiction ?? getEffectiveJurisdictionPolicy(jurisdictionPolicy, '');
+  // Same order as the engine: by priority, ties in document order
+  const rules = [...ruleset.rules].sort((a, b) => a.priority - b.priority);
+
+  const { findings: deadRules, dead } = findDeadRules(rules, jurisdiction);
+  return [...deadRules, ...findRiskScoreGaps(ruleset, jurisdiction), ...findOverlaps(rules, dead, jurisdiction)];
+}
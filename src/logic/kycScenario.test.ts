@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import {
+  defaultKycScenario,
+  scenarioFromSearchParams,
+  scenarioToSearchParams,
+  type KycScenario,
+} from './kycScenario';
+
+describe('kycScenario', () => {
+  it('should round-trip a scenario through URL search params', () => {
+    const scenario: KycScenario = {
+      riskScore: 65,
+      country: 'XX',
+      amount: 150000,
+      velocity: 12,
+      isPep: true,
+      sanctionsList: false,
+    };
+
+    const params = scenarioToSearchParams(scenario);
+
+    expect(params.toString()).toBe('riskScore=65&country=XX&amount=150000&velocity=12&isPep=1&sanctionsList=0');
+    expect(scenarioFromSearchParams(params)).toEqual(scenario);
+  });
+
+  it('should use the default scenario when no params are present', () => {
+    expect(scenarioFromSearchParams(new URLSearchParams())).toEqual(defaultKycScenario);
+  });
+
+  it('should fall back to defaults field by field for invalid values', () => {
+    const params = new URLSearchParams('riskScore=250&country=usa&amount=abc&velocity=3&isPep=true');
+
+    expect(scenarioFromSearchParams(params)).toEqual({
+      ...defaultKycScenario,
+      velocity: 3,
+      isPep: true,
+    });
+  });
+
+  it('should upper-case country codes', () => {
+    expect(scenarioFromSearchParams(new URLSearchParams('country=gb')).country).toBe('GB');
+  });
+});
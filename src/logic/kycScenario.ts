@@ -0,0 +1,59 @@
+import { z } from 'zod';
+
+export const kycScenarioSchema = z.object({
+  riskScore: z.number().min(0).max(100),
+  country: z.string().regex(/^[A-Z]{2}$/, 'Use a 2-letter country code'),
+  amount: z.number().min(0),
+  velocity: z.number().int().min(0),
+  isPep: z.boolean(),
+  sanctionsList: z.boolean(),
+});
+
+export type KycScenario = z.infer<typeof kycScenarioSchema>;
+
+export const defaultKycScenario: KycScenario = {
+  riskScore: 30,
+  country: 'US',
+  amount: 0,
+  velocity: 0,
+  isPep: false,
+  sanctionsList: false,
+};
+
+type ScenarioField = keyof KycScenario;
+
+const parseParam = (field: ScenarioField, raw: string): unknown => {
+  const defaultValue = defaultKycScenario[field];
+  if (typeof defaultValue === 'boolean') return raw === '1' || raw === 'true';
+  if (typeof defaultValue === 'number') return raw.trim() === '' ? NaN : Number(raw);
+  return raw.toUpperCase();
+};
+
+/**
+ * Encodes a scenario as URL search params so it can be shared as a link
+ */
+export function scenarioToSearchParams(scenario: KycScenario): URLSearchParams {
+  const params = new URLSearchParams();
+  (Object.keys(defaultKycScenario) as ScenarioField[]).forEach((field) => {
+    const value = scenario[field];
+    params.set(field, typeof value === 'boolean' ? (value ? '1' : '0') : String(value));
+  });
+  return params;
+}
+
+/**
+ * Decodes a scenario from URL search params
+ * Missing or invalid values fall back to the default scenario field by field
+ */
+export function scenarioFromSearchParams(params: URLSearchParams): KycScenario {
+  const scenario: KycScenario = { ...defaultKycScenario };
+  (Object.keys(defaultKycScenario) as ScenarioField[]).forEach((field) => {
+    const raw = params.get(field);
+    if (raw === null) return;
+    const parsed = kycScenarioSchema.shape[field].safeParse(parseParam(field, raw));
+    if (parsed.success) {
+      Object.assign(scenario, { [field]: parsed.data });
+    }
+  });
+  return scenario;
+}
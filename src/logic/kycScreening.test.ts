@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { applyKycScreening, confirmedKycScreeningLists, screenKycName, type KycScreeningReviews } from './kycScreening';
+import { kycWatchlist, parseKycWatchlist } from './kycWatchlist';
+import { seedCustomers } from '../legacy/customerSeed';
+
+const watchlist = parseKycWatchlist({
+  version: 'test',
+  entries: [
+    { id: 'SAN-1', name: 'Tomas Novak', list: 'sanctions' },
+    { id: 'SAN-2', name: 'Mohammed Al Rashid', aliases: ['Muhammad Al-Rasheed'], list: 'sanctions' },
+    { id: 'PEP-1', name: 'Tomasz Nowak', list: 'pep' },
+  ],
+});
+
+const reviewed = (status: 'confirmed' | 'dismissed') => ({ status, reviewedAt: '2025-11-02T10:00:00.000Z' });
+
+describe('screenKycName', () => {
+  it('should match names with diacritics against the folded watchlist name', () => {
+    expect(screenKycName('Tomáš Novák', watchlist)[0]).toEqual({
+      entryId: 'SAN-1',
+      list: 'sanctions',
+      entryName: 'Tomas Novak',
+      matchedName: 'Tomas Novak',
+      score: 1,
+    });
+  });
+
+  it('should report the alias that matched best', () => {
+    const [hit] = screenKycName('Muhammad Al Rasheed', watchlist);
+
+    expect(hit).toMatchObject({ entryId: 'SAN-2', matchedName: 'Muhammad Al-Rasheed', score: 1 });
+  });
+
+  it('should return hits above the threshold, best first', () => {
+    const hits = screenKycName('Tomáš Novák', watchlist, { threshold: 0.7 });
+
+    expect(hits.map((hit) => hit.entryId)).toEqual(['SAN-1', 'PEP-1']);
+    expect(hits[1].score).toBeLessThan(1);
+    expect(screenKycName('Tomáš Novák', watchlist).map((hit) => hit.entryId)).toEqual(['SAN-1']);
+  });
+
+  it('should not report unrelated names', () => {
+    expect(screenKycName('Emma Thompson', watchlist)).toEqual([]);
+  });
+
+  it('should find the seeded customers that are on the local watchlist', () => {
+    const hitIds = seedCustomers.flatMap((customer) =>
+      screenKycName(customer.name, kycWatchlist).map((hit) => `${customer.id}:${hit.entryId}`)
+    );
+
+    expect(hitIds).toEqual(
+      expect.arrayContaining(['C-018:SAN-002', 'C-023:PEP-001', 'C-025:SAN-001', 'C-030:PEP-002', 'C-050:SAN-003'])
+    );
+    expect(hitIds.some((id) => id.startsWith('C-001:'))).toBe(false);
+  });
+});
+
+describe('applyKycScreening', () => {
+  const hits = [
+    ...screenKycName('Tomáš Novák', watchlist),
+    ...screenKycName('Tomasz Nowak', watchlist).filter((hit) => hit.list === 'pep'),
+  ];
+  const input = { riskScore: 30, country: 'CZ', isPep: false, sanctionsList: false };
+
+  it('should leave the input unchanged while hits are pending or dismissed', () => {
+    const reviews: KycScreeningReviews = { 'SAN-1': reviewed('dismissed') };
+
+    expect(applyKycScreening(input, hits, {})).toEqual(input);
+    expect(applyKycScreening(input, hits, reviews)).toEqual(input);
+  });
+
+  it('should flag the lists of confirmed hits', () => {
+    expect(applyKycScreening(input, hits, { 'SAN-1': reviewed('confirmed') })).toEqual({ ...input, sanctionsList: true });
+    expect(applyKycScreening(input, hits, { 'PEP-1': reviewed('confirmed') })).toEqual({ ...input, isPep: true });
+  });
+
+  it('should keep flags that were already set on the input', () => {
+    expect(applyKycScreening({ ...input, isPep: true }, hits, { 'SAN-1': reviewed('dismissed') }).isPep).toBe(true);
+  });
+
+  it('should ignore reviews of entries that are no longer hits', () => {
+    expect(confirmedKycScreeningLists([], { 'SAN-1': reviewed('confirmed') })).toEqual({ sanctions: false, pep: false });
+  });
+});
@@ -0,0 +1,84 @@
+import { nameSimilarity } from './nameMatching';
+import type { KycWatchlist, KycWatchlistType } from './kycWatchlist';
+
+// Names at least this similar (0-1) are reported as candidate hits
+export const KYC_SCREENING_THRESHOLD = 0.85;
+
+export interface KycScreeningHit {
+  entryId: string;
+  list: KycWatchlistType;
+  entryName: string; // Primary name of the watchlist entry
+  matchedName: string; // Name or alias that matched best
+  score: number; // 0-1, rounded to two decimals
+}
+
+export type KycScreeningReviewStatus = 'confirmed' | 'dismissed';
+
+export interface KycScreeningReview {
+  status: KycScreeningReviewStatus;
+  reviewedAt: string; // ISO timestamp
+}
+
+// Reviews of one customer's hits by watchlist entry id; hits without one are pending
+export type KycScreeningReviews = Record<string, KycScreeningReview>;
+
+export interface KycScreeningOptions {
+  threshold?: number;
+}
+
+/**
+ * Screens a name against every name and alias on a watchlist
+ * Returns one hit per entry scoring at least the threshold, best first.
+ */
+export function screenKycName(
+  name: string,
+  watchlist: KycWatchlist,
+  { threshold = KYC_SCREENING_THRESHOLD }: KycScreeningOptions = {}
+): KycScreeningHit[] {
+  return watchlist.entries
+    .map((entry) => {
+      const [best] = [entry.name, ...entry.aliases]
+        .map((candidate) => ({ candidate, score: nameSimilarity(name, candidate) }))
+        .sort((a, b) => b.score - a.score);
+      return {
+        entryId: entry.id,
+        list: entry.list,
+        entryName: entry.name,
+        matchedName: best.candidate,
+        score: Math.round(best.score * 100) / 100,
+      };
+    })
+    .filter((hit) => hit.score >= threshold)
+    .sort((a, b) => b.score - a.score || a.entryId.localeCompare(b.entryId));
+}
+
+/**
+ * Hits a reviewer confirmed, by watchlist type
+ */
+export function confirmedKycScreeningLists(
+  hits: KycScreeningHit[],
+  reviews: KycScreeningReviews
+): Record<KycWatchlistType, boolean> {
+  const confirmed = hits.filter((hit) => reviews[hit.entryId]?.status === 'confirmed');
+  return {
+    sanctions: confirmed.some((hit) => hit.list === 'sanctions'),
+    pep: confirmed.some((hit) => hit.list === 'pep'),
+  };
+}
+
+/**
+ * Sets sanctionsList / isPep on a KYC input when a reviewer confirmed a hit on that list
+ * Flags already set on the input are kept; pending and dismissed hits change nothing.
+ */
+export function applyKycScreening<T extends { sanctionsList?: boolean; isPep?: boolean }>(
+  input: T,
+  hits: KycScreeningHit[],
+  reviews: KycScreeningReviews
+): T {
+  const confirmed = confirmedKycScreeningLists(hits, reviews);
+  return {
+    ...input,
+    ...(confirmed.sanctions && { sanctionsList: true }),
+    ...(confirmed.pep && { isPep: true }),
+  };
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { deriveKycTransactionSignals } from './kycTransactionSignals';
+import type { Transaction } from '../api/transactionsApi';
+
+const now = new Date('2024-06-15T12:00:00Z').getTime();
+const hoursAgo = (hours: number) => new Date(now - hours * 60 * 60 * 1000).toISOString();
+
+const transaction = (overrides: Partial<Transaction>): Transaction => ({
+  id: 'T-000',
+  customerId: 'C-001',
+  customerName: 'Jacob White',
+  amount: 100,
+  currency: 'USD',
+  type: 'payment',
+  status: 'completed',
+  date: hoursAgo(1),
+  ...overrides,
+});
+
+describe('deriveKycTransactionSignals', () => {
+  it('should return zero signals for a customer without transactions', () => {
+    expect(deriveKycTransactionSignals([], now)).toEqual({
+      velocity: 0,
+      largestPendingAmount: 0,
+      totalsByType: { payment: 0, refund: 0, chargeback: 0 },
+      windowDays: 30,
+      drivers: { velocity: [], amount: null },
+    });
+  });
+
+  it('should count every transaction of the last 24h towards velocity', () => {
+    const signals = deriveKycTransactionSignals(
+      [
+        transaction({ id: 'T-001', date: hoursAgo(2) }),
+        transaction({ id: 'T-002', date: hoursAgo(23), status: 'failed' }),
+        transaction({ id: 'T-003', date: hoursAgo(25) }),
+      ],
+      now
+    );
+
+    expect(signals.velocity).toBe(2);
+    expect(signals.drivers.velocity).toEqual(['T-001', 'T-002']);
+  });
+
+  it('should use the largest pending transaction as the amount', () => {
+    const signals = deriveKycTransactionSignals(
+      [
+        transaction({ id: 'T-001', amount: 5000, status: 'pending' }),
+        transaction({ id: 'T-002', amount: 120000, status: 'pending', date: hoursAgo(72) }),
+        transaction({ id: 'T-003', amount: 900000, status: 'completed' }),
+      ],
+      now
+    );
+
+    expect(signals.largestPendingAmount).toBe(120000);
+    expect(signals.drivers.amount).toBe('T-002');
+  });
+
+  it('should count held transactions as pending', () => {
+    const signals = deriveKycTransactionSignals(
+      [
+        transaction({ id: 'T-001', amount: 5000, status: 'pending' }),
+        transaction({ id: 'T-002', amount: 8000, status: 'on_hold' }),
+      ],
+      now
+    );
+
+    expect(signals.largestPendingAmount).toBe(8000);
+    expect(signals.drivers.amount).toBe('T-002');
+  });
+
+  it('should total amounts by type within the window, excluding failed transactions', () => {
+    const signals = deriveKycTransactionSignals(
+      [
+        transaction({ amount: 100, type: 'payment' }),
+        transaction({ amount: 250, type: 'payment', status: 'pending' }),
+        transaction({ amount: 40, type: 'refund' }),
+        transaction({ amount: 75, type: 'chargeback', status: 'failed' }),
+        transaction({ amount: 999, type: 'payment', date: hoursAgo(31 * 24) }),
+      ],
+      now
+    );
+
+    expect(signals.totalsByType).toEqual({ payment: 350, refund: 40, chargeback: 0 });
+  });
+
+  it('should ignore transactions dated in the future', () => {
+    const signals = deriveKycTransactionSignals(
+      [transaction({ status: 'pending', amount: 500, date: hoursAgo(-1) })],
+      now
+    );
+
+    expect(signals.velocity).toBe(0);
+    expect(signals.largestPendingAmount).toBe(0);
+  });
+});
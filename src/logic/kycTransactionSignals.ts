@@ -0,0 +1,70 @@
+import type { Transaction } from '../api/transactionsApi';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How far back the rolling totals look
+export const KYC_SIGNAL_WINDOW_DAYS = 30;
+
+export interface KycTransactionSignals {
+  velocity: number; // Transactions in the last 24h, including failed attempts
+  largestPendingAmount: number; // Held transactions count as pending: a hold doesn't settle them
+  totalsByType: Record<Transaction['type'], number>; // Rolling totals, failed transactions excluded
+  windowDays: number;
+  // Ids of the transactions behind each KYC input
+  drivers: {
+    velocity: string[];
+    amount: string | null;
+  };
+}
+
+const emptyTransactionTotals = (): Record<Transaction['type'], number> => ({
+  payment: 0,
+  refund: 0,
+  chargeback: 0,
+});
+
+/**
+ * Derives the KYC amount and velocity inputs from a customer's transaction history
+ * `now` is injectable so results are reproducible
+ */
+export function deriveKycTransactionSignals(
+  transactions: Transaction[],
+  now: number = Date.now(),
+  windowDays: number = KYC_SIGNAL_WINDOW_DAYS
+): KycTransactionSignals {
+  const windowStart = now - windowDays * DAY_MS;
+  const velocityStart = now - DAY_MS;
+
+  const totalsByType = emptyTransactionTotals();
+  const velocityIds: string[] = [];
+  let largestPending: Transaction | null = null;
+
+  for (const transaction of transactions) {
+    const time = new Date(transaction.date).getTime();
+    if (time > now || time < windowStart) continue;
+
+    if (time >= velocityStart) {
+      velocityIds.push(transaction.id);
+    }
+    if (transaction.status !== 'failed') {
+      totalsByType[transaction.type] += transaction.amount;
+    }
+    if (
+      (transaction.status === 'pending' || transaction.status === 'on_hold') &&
+      (!largestPending || transaction.amount > largestPending.amount)
+    ) {
+      largestPending = transaction;
+    }
+  }
+
+  return {
+    velocity: velocityIds.length,
+    largestPendingAmount: largestPending?.amount ?? 0,
+    totalsByType,
+    windowDays,
+    drivers: {
+      velocity: velocityIds,
+      amount: largestPending?.id ?? null,
+    },
+  };
+}
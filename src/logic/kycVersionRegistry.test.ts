@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createKycVersionRegistry,
+  defineRulesetKycVersion,
+  isKycVersionEffective,
+  toKycEffectiveDate,
+} from './kycVersionRegistry';
+import { kycVersionRegistry } from './kycVersions';
+import { kycInputSchemaV1, kycRulesetV1 } from './kycRules.v1';
+import { kycInputSchemaV2, kycRulesetV2 } from './kycRules.v2';
+
+const v1 = defineRulesetKycVersion({
+  id: 'v1',
+  label: 'v1',
+  color: 'blue',
+  ruleset: kycRulesetV1,
+  inputSchema: kycInputSchemaV1,
+});
+const v2 = defineRulesetKycVersion({
+  id: 'v2',
+  label: 'v2',
+  color: 'purple',
+  ruleset: kycRulesetV2,
+  inputSchema: kycInputSchemaV2,
+});
+
+describe('createKycVersionRegistry', () => {
+  it('should list versions in registration order with the first as default', () => {
+    const registry = createKycVersionRegistry([v1, v2]);
+
+    expect(registry.ids).toEqual(['v1', 'v2']);
+    expect(registry.defaultVersion).toBe(v1);
+  });
+
+  it('should look up versions by id', () => {
+    const registry = createKycVersionRegistry([v1, v2]);
+
+    expect(registry.get('v2')).toBe(v2);
+    expect(registry.get('v9')).toBeUndefined();
+  });
+
+  it('should resolve unknown ids to the default version', () => {
+    const registry = createKycVersionRegistry([v1, v2]);
+
+    expect(registry.resolve('v9')).toBe(v1);
+  });
+
+  it('should reject duplicate ids', () => {
+    expect(() => createKycVersionRegistry([v1, { ...v2, id: 'v1' }])).toThrow(/KYC version already registered: v1/);
+  });
+
+  it('should reject an empty registry', () => {
+    expect(() => createKycVersionRegistry([])).toThrow(/At least one KYC version/);
+  });
+
+  it('should resolve the version that was live on a date', () => {
+    const registry = createKycVersionRegistry([
+      { ...v1, effectiveFrom: '2024-01-01', effectiveTo: '2024-03-01' },
+      { ...v2, effectiveFrom: '2024-03-01', effectiveTo: undefined },
+    ]);
+
+    expect(registry.resolveAsOf('2023-12-31')).toBeUndefined();
+    expect(registry.resolveAsOf('2024-01-01')?.id).toBe('v1');
+    expect(registry.resolveAsOf('2024-02-29T23:59:59Z')?.id).toBe('v1');
+    expect(registry.resolveAsOf('2024-03-01')?.id).toBe('v2');
+    expect(registry.resolveAsOf(new Date('2030-06-01T12:00:00Z'))?.id).toBe('v2');
+  });
+
+  it('should never resolve versions without an effective window as of a date', () => {
+    const registry = createKycVersionRegistry([
+      { ...v1, effectiveFrom: undefined, effectiveTo: undefined },
+      { ...v2, effectiveFrom: '2024-03-01', effectiveTo: undefined },
+    ]);
+
+    expect(registry.resolveAsOf('2024-01-01')).toBeUndefined();
+    expect(registry.resolve('v1')).toBe(registry.defaultVersion);
+  });
+
+  it('should reject overlapping effective windows', () => {
+    expect(() =>
+      createKycVersionRegistry([
+        { ...v1, effectiveFrom: '2024-01-01', effectiveTo: '2024-04-01' },
+        { ...v2, effectiveFrom: '2024-03-01', effectiveTo: undefined },
+      ])
+    ).toThrow(/KYC versions v1 and v2 have overlapping effective windows/);
+    expect(() =>
+      createKycVersionRegistry([
+        { ...v1, effectiveFrom: '2024-01-01', effectiveTo: undefined },
+        { ...v2, effectiveFrom: '2024-03-01', effectiveTo: undefined },
+      ])
+    ).toThrow(/overlapping effective windows/);
+  });
+});
+
+describe('effective dates', () => {
+  it('should compare timestamps by their UTC date', () => {
+    expect(toKycEffectiveDate('2024-03-03')).toBe('2024-03-03');
+    expect(toKycEffectiveDate('2024-03-03T23:30:00-02:00')).toBe('2024-03-04');
+    expect(toKycEffectiveDate(Date.UTC(2024, 2, 3, 12))).toBe('2024-03-03');
+    expect(() => toKycEffectiveDate('last tuesday')).toThrow(/Invalid KYC "as of" date/);
+  });
+
+  it('should treat effectiveTo as exclusive', () => {
+    const version = { ...v1, effectiveFrom: '2024-01-01', effectiveTo: '2024-03-01' };
+
+    expect(isKycVersionEffective(version, '2024-02-29')).toBe(true);
+    expect(isKycVersionEffective(version, '2024-03-01')).toBe(false);
+  });
+});
+
+describe('defineRulesetKycVersion', () => {
+  it('should evaluate the ruleset and default the description', () => {
+    expect(v2.description).toBe(kycRulesetV2.description);
+    expect(v2.evaluate({ riskScore: 30, country: 'US', isPep: true }).decision).toBe('manual_review');
+  });
+
+  it('should validate input with the version schema', () => {
+    const invalid = { riskScore: '30', country: 'US' } as unknown as Parameters<typeof v1.evaluate>[0];
+
+    expect(() => v1.evaluate(invalid)).toThrow();
+  });
+});
+
+describe('kycVersionRegistry', () => {
+  it('should register v1, v2 and v3', () => {
+    expect(kycVersionRegistry.ids).toEqual(['v1', 'v2', 'v3']);
+    expect(kycVersionRegistry.defaultVersion.id).toBe('v1');
+  });
+
+  it('should take effective windows from the ruleset documents, one after another', () => {
+    const windows = kycVersionRegistry.versions.map(({ effectiveFrom, effectiveTo }) => [effectiveFrom, effectiveTo]);
+
+    expect(windows).toEqual([
+      ['2023-01-01', '2024-07-01'],
+      ['2024-07-01', '2025-10-01'],
+      ['2025-10-01', undefined],
+    ]);
+    expect(kycVersionRegistry.resolveAsOf('2025-03-03')?.id).toBe('v2');
+  });
+
+  it('should give every version a distinct color', () => {
+    const colors = kycVersionRegistry.versions.map((version) => version.color);
+
+    expect(new Set(colors).size).toBe(colors.length);
+  });
+
+  it('should apply the tighter v3 thresholds', () => {
+    const v3 = kycVersionRegistry.resolve('v3');
+
+    expect(v3.evaluate({ riskScore: 72, country: 'US' }).decision).toBe('deny');
+    expect(kycVersionRegistry.resolve('v2').evaluate({ riskScore: 72, country: 'US' }).decision).toBe('manual_review');
+  });
+});
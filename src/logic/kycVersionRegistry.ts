@@ -0,0 +1,126 @@
+import type { z } from 'zod';
+import type { KycResult } from './kycRules.v1';
+import type { KycInputV3Base } from './kycRules.v3';
+import { evaluateKycRuleset, type KycEvaluationOptions, type KycRuleset } from './kycRuleEngine';
+
+// Palette a version can be drawn in; the UI maps each color to its own classes
+export type KycVersionColor = 'blue' | 'purple' | 'teal' | 'amber' | 'rose';
+
+// Input accepted by every version; each version validates the fields it needs
+export type KycVersionInput = KycInputV3Base;
+
+export interface KycVersionDefinition {
+  id: string;
+  label: string;
+  description?: string;
+  color: KycVersionColor;
+  inputSchema: z.ZodType<KycVersionInput>;
+  evaluate: (input: KycVersionInput, options?: KycEvaluationOptions) => KycResult;
+  ruleset?: KycRuleset; // Present for versions backed by a ruleset document
+  // Window in which the version was live, as UTC dates (YYYY-MM-DD); effectiveTo is exclusive.
+  // Versions without effectiveFrom are never picked for an "as of" evaluation.
+  effectiveFrom?: string;
+  effectiveTo?: string;
+}
+
+export interface KycVersionRegistry {
+  versions: KycVersionDefinition[]; // In registration order
+  ids: string[];
+  defaultVersion: KycVersionDefinition; // The first registered version
+  get: (id: string) => KycVersionDefinition | undefined;
+  // Unknown ids (e.g. a persisted flag for a removed version) fall back to the default
+  resolve: (id: string) => KycVersionDefinition;
+  // Version that was live at the given time, if any
+  resolveAsOf: (asOf: KycAsOf) => KycVersionDefinition | undefined;
+}
+
+export type KycAsOf = Date | string | number;
+
+/**
+ * UTC calendar date (YYYY-MM-DD) of a timestamp, used to compare against effective windows
+ * Throws on unparseable input
+ */
+export function toKycEffectiveDate(asOf: KycAsOf): string {
+  if (typeof asOf === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(asOf)) return asOf;
+  const date = new Date(asOf);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid KYC "as of" date: ${String(asOf)}`);
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Whether a version was live on the given date
+ */
+export function isKycVersionEffective(version: KycVersionDefinition, asOf: KycAsOf): boolean {
+  if (!version.effectiveFrom) return false;
+  const date = toKycEffectiveDate(asOf);
+  return version.effectiveFrom <= date && (!version.effectiveTo || date < version.effectiveTo);
+}
+
+interface RulesetKycVersionOptions
+  extends Omit<KycVersionDefinition, 'evaluate' | 'ruleset' | 'description' | 'effectiveFrom' | 'effectiveTo'> {
+  ruleset: KycRuleset;
+  description?: string; // Defaults to the ruleset description
+}
+
+/**
+ * Defines a version whose evaluator runs a ruleset document through the rule engine
+ * The effective window is taken from the ruleset document
+ */
+export function defineRulesetKycVersion({
+  ruleset,
+  inputSchema,
+  description,
+  ...definition
+}: RulesetKycVersionOptions): KycVersionDefinition {
+  return {
+    ...definition,
+    description: description ?? ruleset.description,
+    effectiveFrom: ruleset.effectiveFrom,
+    effectiveTo: ruleset.effectiveTo,
+    inputSchema,
+    ruleset,
+    evaluate: (input, options) => evaluateKycRuleset(ruleset, inputSchema.parse(input), options),
+  };
+}
+
+/**
+ * Builds a registry from version definitions
+ * Throws if no version is given, an id is registered twice or two effective
+ * windows overlap (so at most one version was live on any date)
+ */
+export function createKycVersionRegistry(definitions: KycVersionDefinition[]): KycVersionRegistry {
+  if (definitions.length === 0) {
+    throw new Error('At least one KYC version must be registered');
+  }
+
+  const byId = new Map<string, KycVersionDefinition>();
+  for (const definition of definitions) {
+    if (byId.has(definition.id)) {
+      throw new Error(`KYC version already registered: ${definition.id}`);
+    }
+    byId.set(definition.id, definition);
+  }
+
+  const effectiveFrom = (definition: KycVersionDefinition) => definition.effectiveFrom ?? '';
+  const dated = definitions
+    .filter((definition) => definition.effectiveFrom)
+    .sort((a, b) => effectiveFrom(a).localeCompare(effectiveFrom(b)));
+  for (let i = 1; i < dated.length; i++) {
+    const previous = dated[i - 1];
+    if (!previous.effectiveTo || previous.effectiveTo > effectiveFrom(dated[i])) {
+      throw new Error(`KYC versions ${previous.id} and ${dated[i].id} have overlapping effective windows`);
+    }
+  }
+
+  const defaultVersion = definitions[0];
+  return {
+    versions: definitions,
+    ids: definitions.map((definition) => definition.id),
+    defaultVersion,
+    get: (id) => byId.get(id),
+    resolve: (id) => byId.get(id) ?? defaultVersion,
+    resolveAsOf: (asOf) => dated.find((definition) => isKycVersionEffective(definition, asOf)),
+  };
+}
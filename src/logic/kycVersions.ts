@@ -0,0 +1,33 @@
+import { createKycVersionRegistry, defineRulesetKycVersion } from './kycVersionRegistry';
+import { kycInputSchemaV1, kycRulesetV1 } from './kycRules.v1';
+import { kycInputSchemaV2, kycRulesetV2 } from './kycRules.v2';
+import { kycInputSchemaV3, kycRulesetV3 } from './kycRules.v3';
+
+/**
+ * Every selectable KYC version
+ * The flag store, feature flag panel, dashboard and tools all render from this
+ * registry - registering a version here is all it takes to add one.
+ */
+export const kycVersionRegistry = createKycVersionRegistry([
+  defineRulesetKycVersion({
+    id: 'v1',
+    label: 'v1',
+    color: 'blue',
+    ruleset: kycRulesetV1,
+    inputSchema: kycInputSchemaV1,
+  }),
+  defineRulesetKycVersion({
+    id: 'v2',
+    label: 'v2',
+    color: 'purple',
+    ruleset: kycRulesetV2,
+    inputSchema: kycInputSchemaV2,
+  }),
+  defineRulesetKycVersion({
+    id: 'v3',
+    label: 'v3',
+    color: 'teal',
+    ruleset: kycRulesetV3,
+    inputSchema: kycInputSchemaV3,
+  }),
+]);
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { kycWatchlist, parseKycWatchlist } from './kycWatchlist';
+
+describe('kycWatchlist', () => {
+  it('should load the local watchlist', () => {
+    expect(kycWatchlist.entries.length).toBeGreaterThan(0);
+    expect(new Set(kycWatchlist.entries.map((entry) => entry.list))).toEqual(new Set(['sanctions', 'pep']));
+  });
+
+  it('should default aliases and countries to empty lists', () => {
+    const watchlist = parseKycWatchlist({
+      version: 'test',
+      entries: [{ id: 'E-1', name: 'Ivan Petrov', list: 'pep' }],
+    });
+
+    expect(watchlist.entries[0].aliases).toEqual([]);
+    expect(watchlist.entries[0].countries).toEqual([]);
+  });
+
+  it('should reject duplicate entry ids, unknown lists and unknown countries', () => {
+    const entry = { id: 'E-1', name: 'Ivan Petrov', list: 'pep' };
+
+    expect(() => parseKycWatchlist({ version: 'test', entries: [entry, entry] })).toThrow(
+      'Duplicate watchlist entry id: E-1'
+    );
+    expect(() => parseKycWatchlist({ version: 'test', entries: [{ ...entry, list: 'terror' }] })).toThrow();
+    expect(() => parseKycWatchlist({ version: 'test', entries: [{ ...entry, countries: ['RU', 'QQ'] }] })).toThrow(
+      'Unknown ISO 3166 alpha-2 country code: QQ'
+    );
+  });
+});
@@ -0,0 +1,57 @@
+import { z } from 'zod';
+import { countryCodeSchema } from './jurisdictionPolicy';
+import watchlistDocument from './watchlists/local.json';
+
+export const kycWatchlistTypeSchema = z.enum(['sanctions', 'pep']);
+
+export const kycWatchlistEntrySchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  // Other spellings and scripts the person is known by
+  aliases: z.array(z.string().min(1)).default([]),
+  list: kycWatchlistTypeSchema,
+  countries: z.array(countryCodeSchema).default([]), // Citizenship, nationality or address countries
+  dateOfBirth: z.string().optional(), // As listed; may be partial ("1962") or approximate ("circa 1970")
+  program: z.string().optional(), // Sanctions program the listing falls under
+  position: z.string().optional(), // Public function held by a PEP
+});
+
+export const kycWatchlistSchema = z
+  .object({
+    version: z.string().min(1),
+    description: z.string().optional(),
+    entries: z.array(kycWatchlistEntrySchema),
+  })
+  .superRefine((watchlist, ctx) => {
+    const ids = new Set<string>();
+    watchlist.entries.forEach((entry, index) => {
+      if (ids.has(entry.id)) {
+        ctx.addIssue({
+          code: 'custom',
+          message: `Duplicate watchlist entry id: ${entry.id}`,
+          path: ['entries', index, 'id'],
+        });
+      }
+      ids.add(entry.id);
+    });
+  });
+
+export type KycWatchlistType = z.infer<typeof kycWatchlistTypeSchema>;
+export type KycWatchlistEntry = z.infer<typeof kycWatchlistEntrySchema>;
+export type KycWatchlist = z.infer<typeof kycWatchlistSchema>;
+
+export const kycWatchlistTypeLabels: Record<KycWatchlistType, string> = {
+  sanctions: 'Sanctions',
+  pep: 'PEP',
+};
+
+/**
+ * Validates a watchlist document (typically imported JSON)
+ * Throws a ZodError describing every problem if the document is invalid
+ */
+export function parseKycWatchlist(document: unknown): KycWatchlist {
+  return kycWatchlistSchema.parse(document);
+}
+
+// Watchlist customers are screened against (watchlists/local.json)
+export const kycWatchlist = parseKycWatchlist(watchlistDocument);
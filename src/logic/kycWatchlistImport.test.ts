@@ -0,0 +1,238 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildKycWatchlist,
+  buildKycWatchlistFromManifest,
+  importKycWatchlistCsv,
+  importOfacSdnCsv,
+  importOfacSdnXml,
+} from './kycWatchlistImport';
+import { screenKycName } from './kycScreening';
+import { countryCodeFromName } from './isoCountries';
+import {
+  kycWatchlistFixture,
+  kycWatchlistFixtureManifest,
+  readKycWatchlistFixture,
+} from '../test/kycWatchlistFixtures';
+
+const file = (name: string, text: string) => ({ name, text });
+
+describe('countryCodeFromName', () => {
+  it('should accept codes, display names and list spellings', () => {
+    expect(countryCodeFromName('de')).toBe('DE');
+    expect(countryCodeFromName('Saudi Arabia')).toBe('SA');
+    expect(countryCodeFromName('Korea, North')).toBe('KP');
+    expect(countryCodeFromName('Burma')).toBe('MM');
+    expect(countryCodeFromName('  côte d’ivoire ')).toBe('CI');
+    expect(countryCodeFromName('Atlantis')).toBeUndefined();
+  });
+});
+
+describe('importOfacSdnCsv', () => {
+  const result = importOfacSdnCsv({
+    sdn: kycWatchlistFixture('sdn.csv'),
+    alt: kycWatchlistFixture('alt.csv'),
+    add: kycWatchlistFixture('add.csv'),
+  });
+
+  it('should import every record with names, aliases, birth dates, countries and programs', () => {
+    expect(result.issues).toEqual([]);
+    expect(result.entries.map((entry) => entry.id)).toEqual([
+      'OFAC-1001',
+      'OFAC-1002',
+      'OFAC-1003',
+      'OFAC-1004',
+      'OFAC-1005',
+    ]);
+    expect(result.entries[0]).toEqual({
+      id: 'OFAC-1001',
+      name: 'Mohammed AL-RASHID',
+      aliases: ['Muhammad AL RASHEED', 'Mohamed ALRASHID'],
+      list: 'sanctions',
+      countries: ['SA'],
+      dateOfBirth: '04 Jul 1975',
+      program: 'SDGT',
+    });
+  });
+
+  it('should keep entity names as listed and merge address countries', () => {
+    const [, volkov, northernStar] = result.entries;
+
+    expect(volkov.dateOfBirth).toBe('1968');
+    expect(northernStar).toMatchObject({
+      name: 'NORTHERN STAR TRADING LLC',
+      aliases: ['SEVERNAYA ZVEZDA TRADING'],
+      countries: ['AE', 'KP'],
+      program: 'DPRK3, SDGT',
+    });
+  });
+
+  it('should report bad rows and keep the rest', () => {
+    const { entries, issues } = importOfacSdnCsv({
+      sdn: file('sdn.csv', [
+        '1,"NOVAK, Tomas","individual","CZ",-0- ,-0- ,-0- ,-0- ,-0- ,-0- ,-0- ,"nationality Atlantis."',
+        'x1,"BROKEN",-0- ,-0- ,-0- ,-0- ,-0- ,-0- ,-0- ,-0- ,-0- ,-0- ',
+        '2,-0- ,-0- ,-0- ,-0- ,-0- ,-0- ,-0- ,-0- ,-0- ,-0- ,-0- ',
+        '3,"SHORT"',
+        '1,"AGAIN",-0- ,-0- ,-0- ,-0- ,-0- ,-0- ,-0- ,-0- ,-0- ,-0- ',
+      ].join('\n')),
+      alt: file('alt.csv', '9,901,"aka","NOBODY",-0- \n1,902,"aka",-0- ,-0- '),
+    });
+
+    expect(entries.map((entry) => entry.name)).toEqual(['Tomas NOVAK']);
+    expect(issues).toEqual([
+      { file: 'sdn.csv', row: 1, severity: 'warning', message: 'Unknown country "Atlantis" was left out' },
+      { file: 'sdn.csv', row: 2, severity: 'error', message: 'Invalid entity number "x1"' },
+      { file: 'sdn.csv', row: 3, severity: 'error', message: 'Missing name' },
+      { file: 'sdn.csv', row: 4, severity: 'error', message: 'Expected 12 columns, found 2' },
+      { file: 'sdn.csv', row: 5, severity: 'error', message: 'Duplicate entity number 1' },
+      { file: 'alt.csv', row: 1, severity: 'error', message: 'Unknown entity number "9"' },
+      { file: 'alt.csv', row: 2, severity: 'error', message: 'Missing alias name' },
+    ]);
+  });
+});
+
+describe('importOfacSdnXml', () => {
+  it('should import entries with their main birth date and all countries', () => {
+    const { entries, issues } = importOfacSdnXml(kycWatchlistFixture('sdn.xml'));
+
+    expect(issues).toEqual([]);
+    expect(entries).toEqual([
+      {
+        id: 'OFAC-2001',
+        name: 'Omar NASSER',
+        aliases: ['Umar NASIR'],
+        list: 'sanctions',
+        countries: ['LB', 'SY'],
+        dateOfBirth: '15 Jan 1980',
+        program: 'SDGT, SYRIA',
+      },
+      {
+        id: 'OFAC-2002',
+        name: 'BLUE HARBOR SHIPPING CO.',
+        aliases: ['BANDAR ABI SHIPPING & TRADING'],
+        list: 'sanctions',
+        countries: ['IR'],
+        program: 'IRAN',
+      },
+    ]);
+  });
+
+  it('should give the same ids as the CSV layout', () => {
+    const xml = '<sdnList><sdnEntry><uid>1001</uid><lastName>X</lastName></sdnEntry></sdnList>';
+
+    expect(importOfacSdnXml(file('sdn.xml', xml)).entries[0].id).toBe('OFAC-1001');
+  });
+
+  it('should report malformed documents and bad records', () => {
+    expect(importOfacSdnXml(file('sdn.xml', '<sdnList>\n<sdnEntry></sdnList>')).issues).toEqual([
+      { file: 'sdn.xml', row: null, severity: 'error', message: 'Expected </sdnEntry> but found </sdnList> (line 2)' },
+    ]);
+    expect(importOfacSdnXml(file('list.xml', '<list/>')).issues[0].message).toBe(
+      'Expected an <sdnList> document, found <list>'
+    );
+
+    const xml = '<sdnList><sdnEntry><lastName>X</lastName></sdnEntry><sdnEntry><uid>5</uid></sdnEntry></sdnList>';
+    expect(importOfacSdnXml(file('sdn.xml', xml)).issues.map(({ row, message }) => [row, message])).toEqual([
+      [1, 'Invalid uid ""'],
+      [2, 'Missing lastName'],
+    ]);
+  });
+});
+
+describe('importKycWatchlistCsv', () => {
+  const mapping = { name: 'Full Name', aliases: 'Other Names', countries: 'Country', list: 'List' };
+
+  it('should map columns by header name and split multi-value cells', () => {
+    const { entries, issues } = importKycWatchlistCsv(kycWatchlistFixture('pep.csv'), {
+      ...mapping,
+      id: 'reference', // Header names are matched ignoring case
+      dateOfBirth: 'Birth Date',
+      position: 'Role',
+    });
+
+    expect(issues).toEqual([]);
+    expect(entries[1]).toEqual({
+      id: 'PEP-102',
+      name: 'Fatima Al Zahra',
+      aliases: ['Fatima Alzahra'],
+      list: 'pep',
+      countries: ['AE', 'SA'],
+      dateOfBirth: '1974',
+      position: 'Ambassador',
+    });
+    expect(entries[0].aliases).toEqual(['Ivan Petrow', 'Иван Петров']);
+  });
+
+  it('should number entries without an id column and fall back to the default list', () => {
+    const { entries } = importKycWatchlistCsv(file('list.csv', 'name\nTomas Novak\n\nIvan Petrov'), {
+      name: 'name',
+      idPrefix: 'LOCAL',
+      defaultList: 'pep',
+    });
+
+    expect(entries.map(({ id, list }) => [id, list])).toEqual([
+      ['LOCAL-2', 'pep'],
+      ['LOCAL-4', 'pep'],
+    ]);
+  });
+
+  it('should report missing columns for the whole file', () => {
+    const { entries, issues } = importKycWatchlistCsv(file('list.csv', 'name\nTomas Novak'), mapping);
+
+    expect(entries).toEqual([]);
+    expect(issues.map((issue) => issue.message)).toEqual([
+      'Column "Full Name" not found in the header',
+      'Column "Other Names" not found in the header',
+      'Column "Country" not found in the header',
+      'Column "List" not found in the header',
+    ]);
+  });
+
+  it('should report bad rows and keep the rest', () => {
+    const csv = [
+      'id,name,list',
+      '1,Tomas Novak,sanctions',
+      '2,,pep',
+      ',Ivan Petrov,pep',
+      '1,Jean Dubois,',
+      '4,Kim,terror',
+    ];
+    const { entries, issues } = importKycWatchlistCsv(file('list.csv', csv.join('\n')), {
+      id: 'id',
+      name: 'name',
+      list: 'list',
+    });
+
+    expect(entries.map((entry) => entry.id)).toEqual(['1']);
+    expect(issues.map(({ row, message }) => [row, message])).toEqual([
+      [3, 'Missing name'],
+      [4, 'Missing id'],
+      [5, 'Duplicate id 1'],
+      [6, 'Unknown list "terror"; expected sanctions or pep'],
+    ]);
+  });
+});
+
+describe('buildKycWatchlist', () => {
+  it('should keep the first entry of an id imported twice', () => {
+    const first = importKycWatchlistCsv(file('a.csv', 'name\nTomas Novak'), { name: 'name' });
+    const second = importKycWatchlistCsv(file('b.csv', 'name\nTomas Nowak'), { name: 'name' });
+
+    const { watchlist, issues } = buildKycWatchlist([first, second], { version: 'test' });
+
+    expect(watchlist.entries.map((entry) => entry.name)).toEqual(['Tomas Novak']);
+    expect(issues).toEqual([
+      { file: 'b.csv', row: null, severity: 'error', message: 'Entry CSV-2 was already imported; skipped' },
+    ]);
+  });
+
+  it('should rebuild the fixture watchlist from its manifest', () => {
+    const { watchlist, issues } = buildKycWatchlistFromManifest(kycWatchlistFixtureManifest, readKycWatchlistFixture);
+
+    expect(issues).toEqual([]);
+    expect(watchlist.version).toBe('fixtures');
+    expect(watchlist.entries).toHaveLength(10);
+    expect(screenKycName('Alexander Volkov', watchlist).map((hit) => hit.entryId)).toEqual(['OFAC-1002']);
+    expect(screenKycName('Ivan Petrov', watchlist).map((hit) => hit.entryId)).toEqual(['PEP-101']);
+  });
+});
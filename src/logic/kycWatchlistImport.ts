@@ -0,0 +1,463 @@
+import { z } from 'zod';
+import { parseCsv } from './csv';
+import { parseXml, xmlChildren, xmlChildText, type XmlElement } from './xml';
+import { countryCodeFromName } from './isoCountries';
+import {
+  kycWatchlistEntrySchema,
+  kycWatchlistTypeSchema,
+  parseKycWatchlist,
+  type KycWatchlist,
+  type KycWatchlistEntry,
+} from './kycWatchlist';
+
+export const kycWatchlistImportFormatSchema = z.enum(['ofac_csv', 'ofac_xml', 'csv']);
+
+export type KycWatchlistImportFormat = z.infer<typeof kycWatchlistImportFormatSchema>;
+
+export const kycWatchlistImportFormatLabels: Record<KycWatchlistImportFormat, string> = {
+  ofac_csv: 'OFAC SDN (CSV)',
+  ofac_xml: 'OFAC SDN (XML)',
+  csv: 'Generic CSV',
+};
+
+export interface KycWatchlistFile {
+  name: string; // Shown in issues
+  text: string;
+}
+
+export interface KycWatchlistImportIssue {
+  file: string;
+  row: number | null; // 1-based CSV row or XML record; null when it concerns the whole file
+  severity: 'error' | 'warning'; // Rows with an error are skipped; warnings keep the entry
+  message: string;
+}
+
+export interface KycWatchlistImportResult {
+  file: string; // Main file of the import
+  entries: KycWatchlistEntry[];
+  issues: KycWatchlistImportIssue[];
+}
+
+// An entry being assembled from one or more rows
+interface EntryDraft {
+  id: string;
+  name: string;
+  aliases: string[];
+  countries: Set<string>;
+  dateOfBirth?: string;
+  program?: string;
+  position?: string;
+  list: string;
+  file: string;
+  row: number | null;
+}
+
+const createIssues = () => {
+  const issues: KycWatchlistImportIssue[] = [];
+  const report =
+    (severity: KycWatchlistImportIssue['severity']) => (file: string, row: number | null, message: string) => {
+      issues.push({ file, row, severity, message });
+    };
+  return { issues, error: report('error'), warning: report('warning') };
+};
+
+type Issues = ReturnType<typeof createIssues>;
+
+const isBlankRow = (cells: string[]) => cells.every((cell) => cell.trim() === '' || cell.trim() === '\x1a');
+
+function addCountry(draft: EntryDraft, name: string, issues: Issues, file: string, row: number | null) {
+  const code = countryCodeFromName(name);
+  if (code) draft.countries.add(code);
+  else issues.warning(file, row, `Unknown country "${name}" was left out`);
+}
+
+// Validates drafts against the entry schema; invalid ones are reported and dropped
+function toEntries(drafts: EntryDraft[], issues: Issues): KycWatchlistEntry[] {
+  return drafts.flatMap(({ countries, file, row, aliases, ...draft }) => {
+    const parsed = kycWatchlistEntrySchema.safeParse({
+      ...draft,
+      aliases: [...new Set(aliases)].filter((alias) => alias !== draft.name),
+      countries: [...countries].sort(),
+    });
+    if (parsed.success) return [parsed.data];
+    issues.error(file, row, parsed.error.issues.map((issue) => issue.message).join('; '));
+    return [];
+  });
+}
+
+// OFAC writes "-0-" for empty cells
+const ofacValue = (cell: string | undefined) => {
+  const value = cell?.trim();
+  return value && value !== '-0-' ? value : undefined;
+};
+
+// "AL-RASHID, Mohammed" -> "Mohammed AL-RASHID"; entity names are kept as listed
+const ofacName = (name: string, individual: boolean) => {
+  const comma = name.indexOf(',');
+  return individual && comma > 0 ? `${name.slice(comma + 1).trim()} ${name.slice(0, comma).trim()}` : name;
+};
+
+// "SDGT] [IRAN" -> "SDGT, IRAN"
+const ofacPrograms = (program: string) =>
+  program
+    .split(/\]\s*\[/)
+    .map((part) => part.replace(/[[\]]/g, '').trim())
+    .filter(Boolean)
+    .join(', ');
+
+// Remarks such as "DOB 12 Mar 1962; POB Baghdad, Iraq; nationality Iraq."
+const remarkItems = (remarks: string) =>
+  remarks
+    .split(';')
+    .map((item) => item.trim().replace(/\.$/, ''))
+    .filter(Boolean);
+
+const remarkValues = (items: string[], label: string) =>
+  items.filter((item) => item.startsWith(`${label} `)).map((item) => item.slice(label.length + 1).trim());
+
+const ofacEntryId = (entityNumber: string) => `OFAC-${entityNumber}`;
+
+export interface OfacSdnCsvFiles {
+  sdn: KycWatchlistFile; // Primary records (sdn.csv)
+  alt?: KycWatchlistFile; // Aliases (alt.csv)
+  add?: KycWatchlistFile; // Addresses (add.csv)
+}
+
+/**
+ * Imports the OFAC SDN list in its CSV layout (no header rows)
+ * sdn.csv: ent_num, name, type, program, title, call sign, vessel type, tonnage, GRT, vessel flag,
+ *          vessel owner, remarks
+ * alt.csv: ent_num, alt_num, type, name, remarks
+ * add.csv: ent_num, add_num, address, city, country, remarks
+ * Date of birth and nationality come from the remarks; every entry lands on the sanctions list.
+ */
+export function importOfacSdnCsv({ sdn, alt, add }: OfacSdnCsvFiles): KycWatchlistImportResult {
+  const issues = createIssues();
+  const drafts = new Map<string, EntryDraft>();
+  const individuals = new Set<string>(); // Entity numbers of people; entities and vessels keep their names as listed
+
+  parseCsv(sdn.text).forEach((cells, index) => {
+    const row = index + 1;
+    if (isBlankRow(cells)) return;
+    if (cells.length < 12) return issues.error(sdn.name, row, `Expected 12 columns, found ${cells.length}`);
+    const [entityNumber, rawName, type, program] = cells.map((cell) => ofacValue(cell));
+    const remarks = ofacValue(cells[11]);
+    if (!entityNumber || !/^\d+$/.test(entityNumber)) {
+      return issues.error(sdn.name, row, `Invalid entity number "${cells[0].trim()}"`);
+    }
+    if (!rawName) return issues.error(sdn.name, row, 'Missing name');
+    if (drafts.has(entityNumber)) return issues.error(sdn.name, row, `Duplicate entity number ${entityNumber}`);
+
+    const individual = type?.toLowerCase() === 'individual';
+    if (individual) individuals.add(entityNumber);
+    const items = remarkItems(remarks ?? '');
+    const draft: EntryDraft = {
+      id: ofacEntryId(entityNumber),
+      name: ofacName(rawName, individual),
+      aliases: [],
+      countries: new Set(),
+      dateOfBirth: remarkValues(items, 'DOB')[0],
+      program: (program && ofacPrograms(program)) || undefined,
+      list: 'sanctions',
+      file: sdn.name,
+      row,
+    };
+    for (const country of [...remarkValues(items, 'nationality'), ...remarkValues(items, 'citizen')]) {
+      addCountry(draft, country, issues, sdn.name, row);
+    }
+    drafts.set(entityNumber, draft);
+  });
+
+  // Entity number of an alt.csv or add.csv row, when it refers to an imported entry
+  const entityOf = (file: KycWatchlistFile, row: number, cells: string[], columns: number) => {
+    if (cells.length < columns) {
+      return issues.error(file.name, row, `Expected ${columns} columns, found ${cells.length}`);
+    }
+    const entityNumber = ofacValue(cells[0]) ?? '';
+    if (!drafts.has(entityNumber)) return issues.error(file.name, row, `Unknown entity number "${entityNumber}"`);
+    return entityNumber;
+  };
+
+  if (alt) {
+    parseCsv(alt.text).forEach((cells, index) => {
+      if (isBlankRow(cells)) return;
+      const entityNumber = entityOf(alt, index + 1, cells, 5);
+      if (!entityNumber) return;
+      const alias = ofacValue(cells[3]);
+      if (!alias) return issues.error(alt.name, index + 1, 'Missing alias name');
+      drafts.get(entityNumber)?.aliases.push(ofacName(alias, individuals.has(entityNumber)));
+    });
+  }
+
+  if (add) {
+    parseCsv(add.text).forEach((cells, index) => {
+      if (isBlankRow(cells)) return;
+      const entityNumber = entityOf(add, index + 1, cells, 6);
+      const draft = entityNumber && drafts.get(entityNumber);
+      const country = ofacValue(cells[4]);
+      if (draft && country) addCountry(draft, country, issues, add.name, index + 1);
+    });
+  }
+
+  const entries = toEntries([...drafts.values()], issues);
+  return { file: sdn.name, entries, issues: issues.issues };
+}
+
+const xmlPersonName = (element: XmlElement) =>
+  [xmlChildText(element, 'firstName'), xmlChildText(element, 'lastName')].filter(Boolean).join(' ');
+
+// Text of every <item><leaf> under <list>, e.g. programList/program
+const xmlListTexts = (element: XmlElement, list: string, item: string, leaf?: string) =>
+  xmlChildren(element, list)
+    .flatMap((listElement) => xmlChildren(listElement, item))
+    .map((itemElement) => (leaf ? xmlChildText(itemElement, leaf) : itemElement.text.trim() || undefined))
+    .filter((text): text is string => text !== undefined);
+
+/**
+ * Imports the OFAC SDN list in its XML layout (sdnList/sdnEntry)
+ * Names, aliases (akaList), programs, the main date of birth and the nationality,
+ * citizenship and address countries are read; every entry lands on the sanctions list.
+ * Ids match importOfacSdnCsv so both layouts of the same list produce the same entries.
+ */
+export function importOfacSdnXml(file: KycWatchlistFile): KycWatchlistImportResult {
+  const issues = createIssues();
+
+  let root: XmlElement;
+  try {
+    root = parseXml(file.text);
+  } catch (error) {
+    issues.error(file.name, null, error instanceof Error ? error.message : String(error));
+    return { file: file.name, entries: [], issues: issues.issues };
+  }
+  if (root.name !== 'sdnList') {
+    issues.error(file.name, null, `Expected an <sdnList> document, found <${root.name}>`);
+    return { file: file.name, entries: [], issues: issues.issues };
+  }
+
+  const seen = new Set<string>();
+  const drafts = xmlChildren(root, 'sdnEntry').flatMap((element, index): EntryDraft[] => {
+    const row = index + 1;
+    const uid = xmlChildText(element, 'uid');
+    if (!uid || !/^\d+$/.test(uid)) {
+      issues.error(file.name, row, `Invalid uid "${uid ?? ''}"`);
+      return [];
+    }
+    if (!xmlChildText(element, 'lastName')) {
+      issues.error(file.name, row, 'Missing lastName');
+      return [];
+    }
+    if (seen.has(uid)) {
+      issues.error(file.name, row, `Duplicate uid ${uid}`);
+      return [];
+    }
+    seen.add(uid);
+
+    const birthDates = xmlChildren(element, 'dateOfBirthList').flatMap((list) => xmlChildren(list, 'dateOfBirthItem'));
+    const mainBirthDate = birthDates.find((item) => xmlChildText(item, 'mainEntry') === 'true') ?? birthDates[0];
+    const draft: EntryDraft = {
+      id: ofacEntryId(uid),
+      name: xmlPersonName(element),
+      aliases: xmlChildren(element, 'akaList')
+        .flatMap((list) => xmlChildren(list, 'aka'))
+        .map(xmlPersonName)
+        .filter(Boolean),
+      countries: new Set(),
+      dateOfBirth: mainBirthDate && xmlChildText(mainBirthDate, 'dateOfBirth'),
+      program: xmlListTexts(element, 'programList', 'program').join(', ') || undefined,
+      list: 'sanctions',
+      file: file.name,
+      row,
+    };
+    const countries = [
+      ...xmlListTexts(element, 'nationalityList', 'nationality', 'country'),
+      ...xmlListTexts(element, 'citizenshipList', 'citizenship', 'country'),
+      ...xmlListTexts(element, 'addressList', 'address', 'country'),
+    ];
+    for (const country of countries) addCountry(draft, country, issues, file.name, row);
+    return [draft];
+  });
+
+  const entries = toEntries(drafts, issues);
+  return { file: file.name, entries, issues: issues.issues };
+}
+
+const optionalColumn = z.string().trim().optional();
+
+// Header names of the columns holding each field; only the name is required
+export const kycWatchlistCsvMappingSchema = z.object({
+  name: z.string().trim().min(1, 'Name column is required'),
+  id: optionalColumn, // Entries are numbered `${idPrefix}-${row}` without one
+  aliases: optionalColumn,
+  dateOfBirth: optionalColumn,
+  countries: optionalColumn, // Country codes or English names
+  program: optionalColumn,
+  position: optionalColumn,
+  list: optionalColumn, // "sanctions" or "pep" per row
+  separator: z.string().min(1).default(';'), // Between several aliases or countries in one cell
+  defaultList: kycWatchlistTypeSchema.default('sanctions'), // For rows without a list
+  idPrefix: z.string().trim().min(1).default('CSV'),
+});
+
+// Mapping as written by hand or by the upload form, before defaults
+export type KycWatchlistCsvMapping = z.input<typeof kycWatchlistCsvMappingSchema>;
+
+const mappedFields = ['name', 'id', 'aliases', 'dateOfBirth', 'countries', 'program', 'position', 'list'] as const;
+
+/**
+ * Imports a CSV list with a header row, using a mapping from fields to header names
+ * Header names are matched ignoring case and surrounding spaces.
+ */
+export function importKycWatchlistCsv(
+  file: KycWatchlistFile,
+  csvMapping: KycWatchlistCsvMapping
+): KycWatchlistImportResult {
+  const issues = createIssues();
+  const mapping = kycWatchlistCsvMappingSchema.parse(csvMapping);
+  const [header = [], ...rows] = parseCsv(file.text);
+  const headerIndex = new Map(header.map((column, index) => [column.trim().toLowerCase(), index]));
+
+  const columns: Partial<Record<(typeof mappedFields)[number], number>> = {};
+  for (const field of mappedFields) {
+    const column = mapping[field];
+    if (!column) continue;
+    const index = headerIndex.get(column.toLowerCase());
+    if (index === undefined) issues.error(file.name, 1, `Column "${column}" not found in the header`);
+    else columns[field] = index;
+  }
+  if (issues.issues.length > 0) return { file: file.name, entries: [], issues: issues.issues };
+
+  const split = (value: string | undefined) =>
+    (value ?? '')
+      .split(mapping.separator)
+      .map((part) => part.trim())
+      .filter(Boolean);
+
+  const seen = new Set<string>();
+  const drafts = rows.flatMap((cells, index): EntryDraft[] => {
+    const row = index + 2; // After the header
+    if (isBlankRow(cells)) return [];
+    const cell = (field: (typeof mappedFields)[number]) => {
+      const column = columns[field];
+      return column === undefined ? undefined : cells[column]?.trim() || undefined;
+    };
+
+    const name = cell('name');
+    if (!name) {
+      issues.error(file.name, row, 'Missing name');
+      return [];
+    }
+    const id = columns.id === undefined ? `${mapping.idPrefix}-${row}` : cell('id');
+    if (!id) {
+      issues.error(file.name, row, 'Missing id');
+      return [];
+    }
+    if (seen.has(id)) {
+      issues.error(file.name, row, `Duplicate id ${id}`);
+      return [];
+    }
+    const list = cell('list')?.toLowerCase() ?? mapping.defaultList;
+    if (!kycWatchlistTypeSchema.safeParse(list).success) {
+      issues.error(file.name, row, `Unknown list "${cell('list')}"; expected sanctions or pep`);
+      return [];
+    }
+    seen.add(id);
+
+    const draft: EntryDraft = {
+      id,
+      name,
+      aliases: split(cell('aliases')),
+      countries: new Set(),
+      dateOfBirth: cell('dateOfBirth'),
+      program: cell('program'),
+      position: cell('position'),
+      list,
+      file: file.name,
+      row,
+    };
+    for (const country of split(cell('countries'))) addCountry(draft, country, issues, file.name, row);
+    return [draft];
+  });
+
+  const entries = toEntries(drafts, issues);
+  return { file: file.name, entries, issues: issues.issues };
+}
+
+export interface KycWatchlistBuildOptions {
+  version: string;
+  description?: string;
+}
+
+export interface KycWatchlistBuild {
+  watchlist: KycWatchlist;
+  issues: KycWatchlistImportIssue[];
+}
+
+/**
+ * Combines imports into one watchlist
+ * An id imported twice keeps its first entry and reports the others.
+ */
+export function buildKycWatchlist(
+  imports: KycWatchlistImportResult[],
+  { version, description }: KycWatchlistBuildOptions
+): KycWatchlistBuild {
+  const issues = imports.flatMap((result) => result.issues);
+  const entries = new Map<string, KycWatchlistEntry>();
+  for (const { file, entries: imported } of imports) {
+    for (const entry of imported) {
+      if (entries.has(entry.id)) {
+        issues.push({ file, row: null, severity: 'error', message: `Entry ${entry.id} was already imported; skipped` });
+      } else {
+        entries.set(entry.id, entry);
+      }
+    }
+  }
+  return { watchlist: parseKycWatchlist({ version, description, entries: [...entries.values()] }), issues };
+}
+
+// Lists a watchlist is built from; file paths are resolved by the caller
+export const kycWatchlistManifestSchema = z.object({
+  version: z.string().min(1),
+  description: z.string().optional(),
+  sources: z.array(
+    z.discriminatedUnion('format', [
+      z.object({
+        format: z.literal('ofac_csv'),
+        sdn: z.string(),
+        alt: z.string().optional(),
+        add: z.string().optional(),
+      }),
+      z.object({ format: z.literal('ofac_xml'), xml: z.string() }),
+      z.object({ format: z.literal('csv'), csv: z.string(), mapping: kycWatchlistCsvMappingSchema }),
+    ])
+  ),
+});
+
+export type KycWatchlistManifest = z.infer<typeof kycWatchlistManifestSchema>;
+
+/**
+ * Builds a watchlist from a manifest (see scripts/build-kyc-watchlist.js)
+ * readFile returns the text of a path named in the manifest.
+ */
+export function buildKycWatchlistFromManifest(
+  manifest: unknown,
+  readFile: (path: string) => string
+): KycWatchlistBuild {
+  const { version, description, sources } = kycWatchlistManifestSchema.parse(manifest);
+  const read = (path: string): KycWatchlistFile => ({ name: path, text: readFile(path) });
+
+  const imports = sources.map((source) => {
+    switch (source.format) {
+      case 'ofac_csv':
+        return importOfacSdnCsv({
+          sdn: read(source.sdn),
+          alt: source.alt === undefined ? undefined : read(source.alt),
+          add: source.add === undefined ? undefined : read(source.add),
+        });
+      case 'ofac_xml':
+        return importOfacSdnXml(read(source.xml));
+      case 'csv':
+        return importKycWatchlistCsv(read(source.csv), source.mapping);
+    }
+  });
+  return buildKycWatchlist(imports, { version, description });
+}
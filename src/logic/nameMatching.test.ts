@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { editDistance, nameSimilarity, nameTokens, normalizeName } from './nameMatching';
+
+describe('normalizeName', () => {
+  it.each([
+    ['Tomáš Novák', 'tomas novak'],
+    ['Nina Bergström', 'nina bergstrom'],
+    ['Grace O\'Connor', 'grace o connor'],
+    ['Mohammed Al-Rashid', 'mohammed al rashid'],
+    ['Jürgen Weiß', 'jurgen weiss'],
+    ['Łukasz Sørensen', 'lukasz sorensen'],
+    ['Александр Волков', 'aleksandr volkov'],
+    ['  Ivan   PETROV ', 'ivan petrov'],
+  ])('should normalize %s to %s', (name, expected) => {
+    expect(normalizeName(name)).toBe(expected);
+  });
+
+  it('should split names into tokens', () => {
+    expect(nameTokens('Jean-Claude  Dubois')).toEqual(['jean', 'claude', 'dubois']);
+  });
+});
+
+describe('editDistance', () => {
+  it.each([
+    ['', '', 0],
+    ['novak', 'novak', 0],
+    ['novak', 'nowak', 1],
+    ['kitten', 'sitting', 3],
+    ['', 'abc', 3],
+  ])('should be %#: %s -> %s = %d', (a, b, expected) => {
+    expect(editDistance(a, b)).toBe(expected);
+  });
+});
+
+describe('nameSimilarity', () => {
+  it('should treat spellings that only differ in diacritics, case or script as identical', () => {
+    expect(nameSimilarity('Tomáš Novák', 'TOMAS NOVAK')).toBe(1);
+    expect(nameSimilarity('Aleksandr Volkov', 'Александр Волков')).toBe(1);
+  });
+
+  it('should ignore token order', () => {
+    expect(nameSimilarity('Petrov Ivan', 'Ivan Petrov')).toBe(1);
+  });
+
+  it('should match split and joined tokens', () => {
+    expect(nameSimilarity('Mohamed Alrashid', 'Mohamed Al-Rashid')).toBe(1);
+  });
+
+  it('should score small misspellings high and different names low', () => {
+    expect(nameSimilarity('Ivan Petrow', 'Ivan Petrov')).toBeGreaterThan(0.9);
+    expect(nameSimilarity('Ivan Petrov', 'Emma Thompson')).toBeLessThan(0.4);
+  });
+
+  it('should return 0 for names without letters or digits', () => {
+    expect(nameSimilarity('--', 'Ivan Petrov')).toBe(0);
+  });
+});
@@ -0,0 +1,78 @@
+// Letters that Unicode decomposition does not fold to ASCII
+const specialLetters: Record<string, string> = {
+  ß: 'ss',
+  æ: 'ae',
+  œ: 'oe',
+  ø: 'o',
+  ł: 'l',
+  đ: 'd',
+  ð: 'd',
+  þ: 'th',
+  ı: 'i',
+};
+
+// Cyrillic to Latin, close to the transliteration used on passports
+const cyrillic: Record<string, string> = {
+  а: 'a', б: 'b', в: 'v', г: 'g', д: 'd', е: 'e', ё: 'e', ж: 'zh', з: 'z', и: 'i', й: 'y',
+  к: 'k', л: 'l', м: 'm', н: 'n', о: 'o', п: 'p', р: 'r', с: 's', т: 't', у: 'u', ф: 'f',
+  х: 'kh', ц: 'ts', ч: 'ch', ш: 'sh', щ: 'shch', ъ: '', ы: 'y', ь: '', э: 'e', ю: 'yu', я: 'ya',
+  і: 'i', ї: 'yi', є: 'ye', ґ: 'g',
+};
+
+/**
+ * Lower-cases a name, transliterates it to Latin letters and folds diacritics
+ * "Tomáš Novák" and "Томаш Новак" both become "tomas novak"; punctuation becomes spaces.
+ */
+export function normalizeName(name: string): string {
+  return [...name.toLowerCase()]
+    .map((char) => specialLetters[char] ?? cyrillic[char] ?? char)
+    .join('')
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+export const nameTokens = (name: string): string[] => normalizeName(name).split(' ').filter(Boolean);
+
+/**
+ * Levenshtein distance (insertions, deletions and substitutions)
+ */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// 1 for equal strings, 0 when every character differs
+const stringSimilarity = (a: string, b: string) =>
+  a.length + b.length === 0 ? 1 : 1 - editDistance(a, b) / Math.max(a.length, b.length);
+
+// Each token's best match in the other name, averaged over both names (order-insensitive)
+function tokenSimilarity(a: string[], b: string[]): number {
+  const best = (token: string, others: string[]) => Math.max(...others.map((other) => stringSimilarity(token, other)));
+  const total = a.reduce((sum, token) => sum + best(token, b), 0) + b.reduce((sum, token) => sum + best(token, a), 0);
+  return total / (a.length + b.length);
+}
+
+/**
+ * Similarity of two names from 0 to 1 after normalization
+ * The better of token-by-token matching (tolerates reordered and misspelt names)
+ * and whole-name matching (tolerates split or joined tokens like "Al-Rashid" / "Alrashid").
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const aTokens = nameTokens(a);
+  const bTokens = nameTokens(b);
+  if (aTokens.length === 0 || bTokens.length === 0) return 0;
+  return Math.max(tokenSimilarity(aTokens, bTokens), stringSimilarity(aTokens.join(''), bTokens.join('')));
+}
@@ -0,0 +1,525 @@
+import { useState, useMemo, useEffect } from 'react';
+import { useQueryClient, type QueryKey } from '@tanstack/react-query';
+import type { Customer } from '../legacy/LegacyCustomerSearch';
+import { useKycEngine, type KycShadowEvaluation } from './useKycEngine';
+import { customerToKycInput } from './customerKycInput';
+import { useKycScreening, type UseKycScreening } from './useKycScreening';
+import { kycVersionRegistry } from './kycVersions';
+import { toKycEffectiveDate } from './kycVersionRegistry';
+import { useKycTransactionSignals, kycTransactionSignalsQueryKey } from './useKycTransactionSignals';
+import type { KycTransactionSignals } from './kycTransactionSignals';
+import type { KycResult } from './kycRules.v1';
+import { requiresKycFourEyes, pendingKycApproval, canCheckKycApproval } from './kycFourEyes';
+import {
+  kycJustificationSchema,
+  requiresKycJustification,
+  type KycJustification,
+  type KycReviewerAction,
+} from './kycJustification';
+import {
+  kycDocumentRequestSchema,
+  type KycDocumentRequestInput,
+  type KycDocumentType,
+  type KycRequestedDocumentStatus,
+} from './kycDocumentRequests';
+import { kycDocumentChecksum, kycDocumentFileError } from './kycDocumentFiles';
+import { useKycUndoWindow, type KycStagedAction } from './useKycUndoWindow';
+import { activeKycHold, kycHoldExpiresAt, kycHoldRequestSchema, type KycHoldRequestInput } from './kycHolds';
+import { useFeatureFlags } from '../state/featureFlags';
+import { useKycDivergenceLog } from '../state/kycDivergenceLog';
+import { useKycReviewer } from '../state/kycReviewer';
+import { useKycApprovals } from '../state/kycApprovals';
+import { useKycDocumentRequests } from '../state/kycDocumentRequests';
+import { useKycDocumentFiles } from '../state/kycDocumentFiles';
+import { useKycHolds } from '../state/kycHolds';
+import {
+  useKycActionHistory,
+  type KycActionHistoryEntry,
+  type KycHistoryAction,
+} from '../state/kycActionHistory';
+import {
+  approveKycDecision,
+  revertKycApproval,
+  requestKycDocuments,
+  updateKycDocumentStatus,
+  uploadKycDocumentFile,
+  holdKycDecision,
+  releaseKycHold,
+  submitKycApproval,
+  confirmKycApproval,
+  rejectKycApproval,
+  type KycApproval,
+  type KycDecisionRecord,
+  type KycDocumentRequest,
+  type KycDocumentFile,
+  type KycHold,
+  type TransactionsResponse,
+  type Transaction,
+} from '../api/transactionsApi';
+
+const noApprovals: KycApproval[] = [];
+const noHistory: KycActionHistoryEntry[] = [];
+const noDocumentRequests: KycDocumentRequest[] = [];
+const noDocumentFiles: KycDocumentFile[] = [];
+const noHolds: KycHold[] = [];
+
+// Longest delay setTimeout supports; later expiries are checked again after it
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+export interface UseCustomerKycReviewOptions {
+  // Transactions query showing this customer: updated optimistically by the actions and refetched after them
+  transactionsQueryKey?: QueryKey;
+}
+
+export interface UseCustomerKycReview {
+  evaluation: KycShadowEvaluation | null;
+  result: KycResult | null;
+  version: string; // Version that produced the decision, or the base version before one is made
+  asOf: string | null; // Date the decision is re-evaluated as of (null: live evaluation); no actions meanwhile
+  setAsOf: (date: string | null) => void;
+  signals: KycTransactionSignals | null;
+  screening: UseKycScreening;
+  reviewerId: string; // Reviewer the actions are recorded for
+  approvals: KycApproval[]; // Four-eyes approvals for this customer, oldest first
+  approvalRequired: boolean; // Approve submits an approval for a second reviewer instead of approving
+  history: KycActionHistoryEntry[]; // Actions taken on this customer, oldest first
+  documentRequests: KycDocumentRequest[]; // Documents asked of this customer, oldest request first
+  documentFiles: KycDocumentFile[]; // Evidence uploaded for those requests, oldest first
+  holds: KycHold[]; // Holds placed on this customer, oldest first
+  activeHold: KycHold | null; // Hold blocking the customer's pending transactions right now
+  stagedAction: KycStagedAction | null; // Approve or Hold waiting out the undo window, or sent and still undoable
+  isProcessing: boolean; // Also true while an action waits out the undo window; actions are refused meanwhile
+  // Actions against the decision (see requiresKycJustification) are refused without a justification
+  approve: (justification?: KycJustification) => Promise<void>;
+  confirmApproval: () => Promise<void>;
+  rejectApproval: () => Promise<void>;
+  requestDocuments: (request: KycDocumentRequestInput, justification?: KycJustification) => Promise<void>;
+  updateDocumentStatus: (
+    requestId: string,
+    documentType: KycDocumentType,
+    status: KycRequestedDocumentStatus
+  ) => Promise<void>;
+  uploadDocumentFile: (requestId: string, documentType: KycDocumentType, file: File) => Promise<void>;
+  hold: (request: KycHoldRequestInput, justification?: KycJustification) => Promise<void>;
+  releaseHold: () => Promise<void>;
+  undo: () => void; // Undoes the staged action
+}
+
+/**
+ * Custom hook that evaluates the KYC decision for the customer under review and
+ * runs the reviewer actions on it.
+ *
+ * Amount and velocity come from the customer's transaction signals and confirmed
+ * screening hits set sanctionsList / isPep. Approve, Hold and Release update the
+ * transactions in `transactionsQueryKey` optimistically and roll back on failure.
+ * Holds lift themselves at their expiry, after which the transactions are refetched.
+ *
+ * Approve and Hold are staged for the undo window (`kycUndoSeconds` feature flag) before
+ * they are sent; undoing one reverts its optimistic update, or compensates it once sent.
+ * No other action can be taken while one waits out the window.
+ *
+ * Approve, Hold and Request Docs are refused while the decision is shown as of a past date:
+ * four-eyes, justifications and the stored record all follow the live decision.
+ *
+ * Approving against a manual_review or deny recommendation only submits an
+ * approval; the customer is approved once a different reviewer confirms it.
+ * Every completed action is added to the customer's history.
+ */
+export function useCustomerKycReview(
+  customer: Customer | null,
+  { transactionsQueryKey }: UseCustomerKycReviewOptions = {}
+): UseCustomerKycReview {
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [asOf, setAsOf] = useState<string | null>(null);
+  // Active KYC version as resolved by the engine (unknown persisted ids fall back to the default)
+  const { evaluateWithShadow, version: baseVersion } = useKycEngine();
+  const queryClient = useQueryClient();
+  const undoWindow = useKycUndoWindow(useFeatureFlags((state) => state.kycUndoSeconds) * 1000);
+  const hasStagedAction = undoWindow.staged?.status === 'staged';
+
+  const recordKycDivergences = useKycDivergenceLog((state) => state.recordDivergences);
+  const reviewerId = useKycReviewer((state) => state.reviewerId);
+  const approvals = useKycApprovals((state) => (customer && state.approvals[customer.id]) || noApprovals);
+  const recordApproval = useKycApprovals((state) => state.recordApproval);
+  const history = useKycActionHistory((state) => (customer && state.entries[customer.id]) || noHistory);
+  const recordAction = useKycActionHistory((state) => state.recordAction);
+  const documentRequests = useKycDocumentRequests(
+    (state) => (customer && state.requests[customer.id]) || noDocumentRequests
+  );
+  const recordDocumentRequest = useKycDocumentRequests((state) => state.recordRequest);
+  const documentFiles = useKycDocumentFiles((state) => (customer && state.files[customer.id]) || noDocumentFiles);
+  const recordDocumentFile = useKycDocumentFiles((state) => state.recordFile);
+  const holds = useKycHolds((state) => (customer && state.holds[customer.id]) || noHolds);
+  const recordHold = useKycHolds((state) => state.recordHold);
+
+  // Moved forward when the active hold may have expired
+  const [now, setNow] = useState(Date.now);
+  const activeHold = useMemo(() => activeKycHold(holds, now), [holds, now]);
+
+  // Amount and velocity come from the customer's transaction history,
+  // fetched independently of any table filters
+  const { signals, isLoading: isLoadingSignals } = useKycTransactionSignals(customer?.id);
+
+  // Watchlist hits for the customer's name; confirmed ones set sanctionsList / isPep
+  const screening = useKycScreening(customer);
+
+  // Build KYC input from customer data once its transaction signals are known
+  const kycInput = useMemo(() => {
+    if (!customer || isLoadingSignals) return null;
+    return screening.applyToInput(customerToKycInput(customer, signals));
+  }, [customer, isLoadingSignals, signals, screening]);
+
+  // Shadow versions (if enabled) are evaluated alongside the active version.
+  // As of a past date, the version live on that date is used instead.
+  const evaluation = useMemo(() => {
+    if (!kycInput) return null;
+    if (!asOf) return evaluateWithShadow(kycInput, { trace: true });
+    // No decision can be shown for a date before the first version went live
+    if (!kycVersionRegistry.resolveAsOf(asOf)) return null;
+    return evaluateWithShadow(kycInput, { trace: true, asOf });
+  }, [kycInput, asOf, evaluateWithShadow]);
+
+  // Record shadow disagreements so compliance can review them later
+  // (only for live evaluations - historical ones are not observations)
+  useEffect(() => {
+    if (!customer || !kycInput || !evaluation?.diverged || evaluation.asOf) return;
+    recordKycDivergences(customer.id, kycInput, evaluation);
+  }, [customer, kycInput, evaluation, recordKycDivergences]);
+
+  // The API releases held transactions at the hold's expiry: pick that up when it passes
+  useEffect(() => {
+    if (!activeHold) return;
+    const expiresAt = Date.parse(activeHold.expiresAt);
+    const timer = setTimeout(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current < expiresAt) return;
+      if (transactionsQueryKey) void queryClient.refetchQueries({ queryKey: transactionsQueryKey, exact: true });
+      void queryClient.invalidateQueries({ queryKey: kycTransactionSignalsQueryKey(activeHold.customerId) });
+    }, Math.min(Math.max(0, expiresAt - Date.now()), MAX_TIMER_DELAY_MS));
+    return () => clearTimeout(timer);
+  }, [activeHold, queryClient, transactionsQueryKey]);
+
+  const refetchTransactions = async () => {
+    if (!transactionsQueryKey) return;
+    await queryClient.refetchQueries({ queryKey: transactionsQueryKey, exact: true });
+  };
+
+  // KYC actions change transaction statuses, which feed the KYC signals
+  const invalidateKycSignals = (customerId: string) =>
+    queryClient.invalidateQueries({ queryKey: kycTransactionSignalsQueryKey(customerId) });
+
+  // Optimistically move the customer's transactions from one status to another;
+  // returns a function that moves the same transactions back
+  const updateTransactionsOptimistically = (
+    customerId: string,
+    { from, to }: { from: Transaction['status']; to: Transaction['status'] }
+  ) => {
+    if (!transactionsQueryKey) return () => {};
+    const queryKey = transactionsQueryKey;
+    const updatedIds = new Set<string>();
+    const setStatuses = (update: (transaction: Transaction) => Transaction) =>
+      queryClient.setQueryData<TransactionsResponse>(queryKey, (oldData) => {
+        if (!oldData) return oldData;
+        return { ...oldData, transactions: oldData.transactions.map(update) };
+      });
+
+    setStatuses((transaction) => {
+      if (transaction.customerId !== customerId || transaction.status !== from) return transaction;
+      updatedIds.add(transaction.id);
+      return { ...transaction, status: to };
+    });
+    // Only transactions still showing the optimistic status are moved back
+    return () =>
+      setStatuses((transaction) =>
+        updatedIds.has(transaction.id) && transaction.status === to ? { ...transaction, status: from } : transaction
+      );
+  };
+
+  // Decision the reviewer saw, stored with the action along with the version that produced it
+  const buildKycDecisionRecord = (justification?: KycJustification): KycDecisionRecord | undefined => {
+    if (!evaluation) return undefined;
+    return {
+      decision: evaluation.result.decision,
+      kycVersion: evaluation.version,
+      riskScore: evaluation.riskScore.value,
+      riskScoreSource: evaluation.riskScore.source,
+      effectiveDate: toKycEffectiveDate(Date.now()),
+      evaluatedAt: new Date().toISOString(),
+      ...(justification && { justification }),
+    };
+  };
+
+  // Acting against the decision needs a valid justification, which is sent with the action;
+  // returns null when it is missing
+  const buildActionRecord = (
+    action: KycReviewerAction,
+    justification?: KycJustification
+  ): { record: KycDecisionRecord | undefined } | null => {
+    if (!requiresKycJustification(action, evaluation?.result.decision)) return { record: buildKycDecisionRecord() };
+    const parsed = kycJustificationSchema.safeParse(justification);
+    return parsed.success ? { record: buildKycDecisionRecord(parsed.data) } : null;
+  };
+
+  const recordHistory = (action: KycHistoryAction, record?: KycDecisionRecord) => {
+    if (customer) recordAction({ customerId: customer.id, action, reviewerId, record });
+  };
+
+  // Approve, Hold, Release and confirming an approval share the optimistic update / rollback flow.
+  // Undoable actions are staged for the undo window; `compensate` reverses them once sent.
+  const runOptimisticAction = async (
+    action: () => Promise<void>,
+    statusChange: { from: Transaction['status']; to: Transaction['status'] },
+    failureMessage: string,
+    undoable?: { label: string; historyAction: KycHistoryAction; compensate: () => Promise<void> }
+  ) => {
+    if (!customer || hasStagedAction) return;
+    const customerId = customer.id;
+    const rollback = updateTransactionsOptimistically(customerId, statusChange);
+
+    // Resolves false when the action failed and was rolled back
+    const send = async () => {
+      setIsProcessing(true);
+      try {
+        await action();
+        // Refetch to ensure we have the latest server state
+        await refetchTransactions();
+        invalidateKycSignals(customerId);
+        return true;
+      } catch (error) {
+        console.error(failureMessage, error);
+        rollback();
+        return false;
+      } finally {
+        setIsProcessing(false);
+      }
+    };
+
+    if (!undoable) {
+      await send();
+      return;
+    }
+    undoWindow.stage({
+      label: undoable.label,
+      commit: send,
+      revert: rollback,
+      compensate: async () => {
+        setIsProcessing(true);
+        try {
+          await undoable.compensate();
+          recordHistory(undoable.historyAction);
+          await refetchTransactions();
+          invalidateKycSignals(customerId);
+        } catch (error) {
+          console.error('Failed to undo KYC action:', error);
+        } finally {
+          setIsProcessing(false);
+        }
+      },
+    });
+  };
+
+  const approvalRequired = requiresKycFourEyes(evaluation?.result.decision);
+  const pendingApproval = pendingKycApproval(approvals);
+
+  // Runs a four-eyes step and stores the approval the API answers with
+  const runApprovalAction = async (
+    action: () => Promise<KycApproval>,
+    historyAction: KycHistoryAction,
+    failureMessage: string
+  ) => {
+    setIsProcessing(true);
+    try {
+      const approval = await action();
+      recordApproval(approval);
+      recordHistory(historyAction, approval.record);
+    } catch (error) {
+      console.error(failureMessage, error);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Pending transactions go through once approved
+  const approve = async (justification?: KycJustification) => {
+    const actionRecord = buildActionRecord('approve', justification);
+    if (!customer || asOf || pendingApproval || hasStagedAction || !actionRecord) return;
+    const { record } = actionRecord;
+    if (!approvalRequired) {
+      const approveCustomer = async () => {
+        await approveKycDecision(customer.id, record);
+        recordHistory('approve', record);
+      };
+      return runOptimisticAction(
+        approveCustomer,
+        { from: 'pending', to: 'completed' },
+        'Failed to approve KYC decision:',
+        {
+          label: `Approved ${customer.name}`,
+          historyAction: 'undo_approve',
+          compensate: () => revertKycApproval(customer.id, reviewerId),
+        }
+      );
+    }
+    return runApprovalAction(
+      () => submitKycApproval(customer.id, reviewerId, record),
+      'submit_approval',
+      'Failed to submit KYC approval:'
+    );
+  };
+
+  // Confirming as the second reviewer approves the customer
+  const confirmApproval = async () => {
+    if (!pendingApproval || !canCheckKycApproval(pendingApproval, reviewerId)) return;
+    const confirm = async () => {
+      const approval = await confirmKycApproval(pendingApproval.id, reviewerId);
+      recordApproval(approval);
+      recordHistory('confirm_approval', approval.record);
+    };
+    return runOptimisticAction(confirm, { from: 'pending', to: 'completed' }, 'Failed to confirm KYC approval:');
+  };
+
+  const rejectApproval = async () => {
+    if (!pendingApproval || !canCheckKycApproval(pendingApproval, reviewerId)) return;
+    return runApprovalAction(
+      () => rejectKycApproval(pendingApproval.id, reviewerId),
+      'reject_approval',
+      'Failed to reject KYC approval:'
+    );
+  };
+
+  // Requests without a document type or due date are refused
+  const requestDocuments = async (request: KycDocumentRequestInput, justification?: KycJustification) => {
+    const actionRecord = buildActionRecord('request_documents', justification);
+    const parsed = kycDocumentRequestSchema.safeParse(request);
+    if (!customer || asOf || hasStagedAction || !actionRecord || !parsed.success) return;
+    setIsProcessing(true);
+    try {
+      const documentRequest = await requestKycDocuments(
+        customer.id,
+        { ...parsed.data, requestedBy: reviewerId },
+        actionRecord.record
+      );
+      recordDocumentRequest(documentRequest);
+      recordHistory('request_documents', actionRecord.record);
+      // Refetch transactions after KYC action to ensure consistency
+      void refetchTransactions();
+    } catch (error) {
+      console.error('Failed to request documents:', error);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const updateDocumentStatus = async (
+    requestId: string,
+    documentType: KycDocumentType,
+    status: KycRequestedDocumentStatus
+  ) => {
+    setIsProcessing(true);
+    try {
+      recordDocumentRequest(await updateKycDocumentStatus(requestId, documentType, status, reviewerId));
+    } catch (error) {
+      console.error('Failed to update document status:', error);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Files are hashed before upload; a requested document counts as received once a file for it arrives
+  const uploadDocumentFile = async (requestId: string, documentType: KycDocumentType, file: File) => {
+    if (!customer || kycDocumentFileError(file)) return;
+    setIsProcessing(true);
+    try {
+      const content = await file.arrayBuffer();
+      const uploaded = await uploadKycDocumentFile(
+        {
+          customerId: customer.id,
+          requestId,
+          documentType,
+          fileName: file.name,
+          mimeType: file.type,
+          checksum: await kycDocumentChecksum(content),
+          uploadedBy: reviewerId,
+        },
+        content
+      );
+      recordDocumentFile(uploaded);
+      const document = documentRequests
+        .find((request) => request.id === requestId)
+        ?.documents.find(({ type }) => type === documentType);
+      if (document?.status === 'requested') {
+        recordDocumentRequest(await updateKycDocumentStatus(requestId, documentType, 'received', reviewerId));
+      }
+    } catch (error) {
+      console.error('Failed to upload document:', error);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Pending transactions are on hold until the hold is released or expires; a customer is held once at a time
+  const hold = async (request: KycHoldRequestInput, justification?: KycJustification) => {
+    const actionRecord = buildActionRecord('hold', justification);
+    const parsed = kycHoldRequestSchema.safeParse(request);
+    if (!customer || asOf || activeHold || !actionRecord || !parsed.success) return;
+    const { expiresOn, ...details } = parsed.data;
+    let placed: KycHold | undefined;
+    const holdCustomer = async () => {
+      placed = await holdKycDecision(
+        customer.id,
+        { ...details, expiresAt: kycHoldExpiresAt(expiresOn), placedBy: reviewerId },
+        actionRecord.record
+      );
+      recordHold(placed);
+      recordHistory('hold', actionRecord.record);
+    };
+    // Undoing a hold that was already placed releases it
+    const releasePlaced = async () => {
+      if (placed) recordHold(await releaseKycHold(placed.id, reviewerId));
+    };
+    return runOptimisticAction(holdCustomer, { from: 'pending', to: 'on_hold' }, 'Failed to hold KYC decision:', {
+      label: `Held ${customer.name}`,
+      historyAction: 'undo_hold',
+      compensate: releasePlaced,
+    });
+  };
+
+  const releaseHold = async () => {
+    if (!activeHold) return;
+    const release = async () => {
+      recordHold(await releaseKycHold(activeHold.id, reviewerId));
+      recordHistory('release_hold');
+    };
+    return runOptimisticAction(release, { from: 'on_hold', to: 'pending' }, 'Failed to release KYC hold:');
+  };
+
+  return {
+    evaluation,
+    result: evaluation?.result ?? null,
+    version: evaluation?.version ?? baseVersion,
+    asOf,
+    setAsOf,
+    signals,
+    screening,
+    reviewerId,
+    approvals,
+    approvalRequired,
+    history,
+    documentRequests,
+    documentFiles,
+    holds,
+    activeHold,
+    stagedAction: undoWindow.staged,
+    isProcessing: isProcessing || hasStagedAction,
+    approve,
+    confirmApproval,
+    rejectApproval,
+    requestDocuments,
+    updateDocumentStatus,
+    uploadDocumentFile,
+    hold,
+    releaseHold,
+    undo: undoWindow.undo,
+  };
+}
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll } from 'vitest';
+import type { ReactNode } from 'react';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { http, HttpResponse, delay } from 'msw';
+import { useKycBulkActions } from './useKycBulkActions';
+import { KYC_BULK_CONCURRENCY } from './kycBulkActions';
+import type { Customer } from '../legacy/LegacyCustomerSearch';
+import { useFeatureFlags } from '../state/featureFlags';
+import { useKycActionHistory } from '../state/kycActionHistory';
+import { useKycApprovals } from '../state/kycApprovals';
+import { useKycDocumentRequests } from '../state/kycDocumentRequests';
+import { useKycHolds } from '../state/kycHolds';
+import {
+  server,
+  happyPathHandlers,
+  clearMockKycApprovals,
+  clearMockKycDocumentRequests,
+  clearMockKycHolds,
+} from '../test/test-utils';
+
+const clean: Customer = { id: 'C-101', name: 'Robin Lee', riskScore: 10, country: 'US', documentStatus: 'verified' };
+const sanctioned: Customer = { id: 'C-102', name: 'Kai Novak', riskScore: 90, country: 'US', sanctionsList: true };
+const others: Customer[] = ['C-103', 'C-104', 'C-105'].map((id) => ({ ...clean, id, name: `Customer ${id}` }));
+
+const documentRequest = { documentTypes: ['passport' as const], dueDate: '2999-01-01' };
+const justification = { category: 'additional_evidence' as const, note: 'Source of funds checked for the batch' };
+
+const renderBulkActions = (customers: Customer[]) => {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  );
+  return renderHook(() => useKycBulkActions(customers), { wrapper });
+};
+
+const statuses = (result: { current: ReturnType<typeof useKycBulkActions> }) =>
+  Object.fromEntries(result.current.run?.items.map(({ customerId, status }) => [customerId, status]) ?? []);
+
+describe('useKycBulkActions', () => {
+  beforeAll(() => {
+    server.listen();
+  });
+
+  beforeEach(() => {
+    server.use(...happyPathHandlers);
+    useFeatureFlags.setState({ kycVersion: 'v1', kycShadowVersions: [] });
+    useKycActionHistory.setState({ entries: {} });
+    useKycApprovals.setState({ approvals: {} });
+    useKycDocumentRequests.setState({ requests: {} });
+    useKycHolds.setState({ holds: {} });
+    clearMockKycApprovals();
+    clearMockKycDocumentRequests();
+    clearMockKycHolds();
+  });
+
+  afterEach(() => {
+    server.resetHandlers();
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  it('should refuse to approve a deny decision unless it is overridden', async () => {
+    const { result } = renderBulkActions([clean, sanctioned]);
+    await waitFor(() => expect(result.current.isEvaluating).toBe(false));
+    expect(result.current.decisions).toEqual({ 'C-101': 'approve', 'C-102': 'deny' });
+
+    await act(() => result.current.approve({ overrideDeny: false }));
+
+    expect(statuses(result)).toEqual({ 'C-101': 'succeeded', 'C-102': 'refused' });
+    expect(useKycApprovals.getState().approvals['C-102']).toBeUndefined();
+  });
+
+  it('should submit an overridden deny for a second reviewer, with the justification', async () => {
+    const { result } = renderBulkActions([sanctioned]);
+    await waitFor(() => expect(result.current.isEvaluating).toBe(false));
+    expect(result.current.justificationsNeeded('approve', true)).toBe(1);
+
+    // Without a justification nothing is sent
+    await act(() => result.current.approve({ overrideDeny: true }));
+    expect(result.current.run).toBeNull();
+
+    await act(() => result.current.approve({ overrideDeny: true }, justification));
+
+    expect(statuses(result)).toEqual({ 'C-102': 'succeeded' });
+    expect(useKycApprovals.getState().approvals['C-102']?.[0]).toMatchObject({
+      status: 'pending',
+      record: { decision: 'deny', justification },
+    });
+  });
+
+  it('should refuse to hold a customer already on hold', async () => {
+    useKycHolds.setState({
+      holds: {
+        'C-103': [
+          {
+            id: 'H-9',
+            customerId: 'C-103',
+            reason: 'suspicious_activity',
+            placedBy: 'R-SAM',
+            placedAt: new Date().toISOString(),
+            expiresAt: '2999-01-02T00:00:00.000Z',
+          },
+        ],
+      },
+    });
+    const { result } = renderBulkActions([clean, others[0]]);
+    await waitFor(() => expect(result.current.isEvaluating).toBe(false));
+
+    await act(() => result.current.hold({ reason: 'suspicious_activity', expiresOn: '2999-01-01' }, justification));
+
+    expect(statuses(result)).toEqual({ 'C-101': 'succeeded', 'C-103': 'refused' });
+    expect(result.current.run?.items[1].error).toBe('The customer is already on hold');
+    expect(useKycHolds.getState().holds['C-103']).toHaveLength(1);
+  });
+
+  it('should act on at most KYC_BULK_CONCURRENCY customers at once', async () => {
+    let inFlight = 0;
+    let mostInFlight = 0;
+    server.use(
+      http.post('*/api/kyc/request-documents/:customerId', async () => {
+        inFlight += 1;
+        mostInFlight = Math.max(mostInFlight, inFlight);
+        await delay(20);
+        inFlight -= 1;
+      })
+    );
+    const { result } = renderBulkActions([clean, ...others]);
+    await waitFor(() => expect(result.current.isEvaluating).toBe(false));
+
+    await act(() => result.current.requestDocuments(documentRequest, justification));
+
+    expect(mostInFlight).toBe(KYC_BULK_CONCURRENCY);
+    expect(Object.values(statuses(result))).toEqual(['succeeded', 'succeeded', 'succeeded', 'succeeded']);
+  });
+
+  it('should retry only the customers the action failed for', async () => {
+    const requested: string[] = [];
+    let failing = true;
+    server.use(
+      http.post('*/api/kyc/request-documents/:customerId', ({ params }) => {
+        requested.push(params.customerId as string);
+        if (failing && params.customerId === 'C-103') {
+          return HttpResponse.json({ error: 'Document service unavailable' }, { status: 503 });
+        }
+      })
+    );
+    const { result } = renderBulkActions([clean, others[0]]);
+    await waitFor(() => expect(result.current.isEvaluating).toBe(false));
+
+    await act(() => result.current.requestDocuments(documentRequest, justification));
+
+    expect(statuses(result)).toEqual({ 'C-101': 'succeeded', 'C-103': 'failed' });
+    expect(result.current.run?.items[1].error).toBe('Document service unavailable');
+
+    failing = false;
+    await act(() => result.current.retryFailed());
+
+    expect(statuses(result)).toEqual({ 'C-101': 'succeeded', 'C-103': 'succeeded' });
+    expect(requested).toEqual(['C-101', 'C-103', 'C-103']);
+    expect(useKycDocumentRequests.getState().requests['C-103']).toHaveLength(1);
+  });
+});
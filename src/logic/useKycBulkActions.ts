@@ -0,0 +1,245 @@
+import { useMemo, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import type { Customer } from '../legacy/LegacyCustomerSearch';
+import { useKycCustomerEvaluations, kycEvaluationsTransactionsQueryKey } from './useKycCustomerEvaluations';
+import { kycTransactionSignalsQueryKey } from './useKycTransactionSignals';
+import { toKycEffectiveDate } from './kycVersionRegistry';
+import type { KycDecision } from './kycRules.v1';
+import type { KycEngineResult } from './useKycEngine';
+import { requiresKycFourEyes, pendingKycApproval } from './kycFourEyes';
+import {
+  kycJustificationSchema,
+  requiresKycJustification,
+  type KycJustification,
+  type KycReviewerAction,
+} from './kycJustification';
+import { kycDocumentRequestSchema, type KycDocumentRequestInput } from './kycDocumentRequests';
+import { activeKycHold, kycHoldExpiresAt, kycHoldRequestSchema, type KycHoldRequestInput } from './kycHolds';
+import {
+  countKycBulkJustifications,
+  kycBulkRefusal,
+  mapWithConcurrency,
+  KYC_BULK_CONCURRENCY,
+  type KycBulkItem,
+  type KycBulkRun,
+} from './kycBulkActions';
+import { useKycReviewer } from '../state/kycReviewer';
+import { useKycApprovals } from '../state/kycApprovals';
+import { useKycDocumentRequests } from '../state/kycDocumentRequests';
+import { useKycHolds } from '../state/kycHolds';
+import { useKycActionHistory } from '../state/kycActionHistory';
+import {
+  approveKycDecision,
+  requestKycDocuments,
+  holdKycDecision,
+  submitKycApproval,
+  type KycDecisionRecord,
+} from '../api/transactionsApi';
+
+// Sends the action for one customer; resolves with a refusal reason when it is not sent
+type KycBulkTask = (customer: Customer, result: KycEngineResult) => Promise<string | null>;
+
+export interface UseKycBulkActions {
+  decisions: Record<string, KycDecision>; // Engine decision per selected customer, once evaluated
+  isEvaluating: boolean;
+  run: KycBulkRun | null; // Latest bulk run and each customer's progress
+  isRunning: boolean;
+  // Customers an action goes against the decision of; the action is refused without a justification for them
+  justificationsNeeded: (action: KycReviewerAction, overrideDeny?: boolean) => number;
+  approve: (options: { overrideDeny: boolean }, justification?: KycJustification) => Promise<void>;
+  hold: (request: KycHoldRequestInput, justification?: KycJustification) => Promise<void>;
+  requestDocuments: (request: KycDocumentRequestInput, justification?: KycJustification) => Promise<void>;
+  retryFailed: () => Promise<void>; // Runs the latest action again for the customers it failed for
+}
+
+/**
+ * Custom hook that runs Approve, Hold or Request Docs for several customers at once
+ *
+ * Actions are sent with bounded concurrency (KYC_BULK_CONCURRENCY) and the
+ * progress of every customer is tracked, so failures can be retried on their own.
+ * Each customer's decision is made as in the review queue and recorded with the
+ * action, the same as acting on the customer alone - approving against
+ * manual_review or deny submits a four-eyes approval. Bulk approve refuses deny
+ * decisions unless `overrideDeny` is set, and bulk hold customers already on hold. Bulk actions are not staged for the
+ * undo window.
+ */
+export function useKycBulkActions(customers: Customer[]): UseKycBulkActions {
+  const queryClient = useQueryClient();
+  const { evaluations } = useKycCustomerEvaluations(customers);
+  const [run, setRun] = useState<KycBulkRun | null>(null);
+  // Task of the latest run, kept for retries
+  const lastTask = useRef<KycBulkTask | null>(null);
+
+  const reviewerId = useKycReviewer((state) => state.reviewerId);
+  const recordApproval = useKycApprovals((state) => state.recordApproval);
+  const recordDocumentRequest = useKycDocumentRequests((state) => state.recordRequest);
+  const recordHold = useKycHolds((state) => state.recordHold);
+  const recordAction = useKycActionHistory((state) => state.recordAction);
+
+  const decisions = useMemo(() => {
+    const byCustomer: Record<string, KycDecision> = {};
+    for (const { customer, result } of evaluations ?? []) byCustomer[customer.id] = result.decision;
+    return byCustomer;
+  }, [evaluations]);
+
+  const isRunning = run?.items.some(({ status }) => status === 'queued' || status === 'running') ?? false;
+
+  const justificationsNeeded = (action: KycReviewerAction, overrideDeny = false) =>
+    countKycBulkJustifications(
+      action,
+      customers.map((customer) => decisions[customer.id]),
+      overrideDeny
+    );
+
+  const updateItem = (customerId: string, update: Partial<KycBulkItem>) =>
+    setRun((current) =>
+      current && {
+        ...current,
+        items: current.items.map((item) => (item.customerId === customerId ? { ...item, ...update } : item)),
+      }
+    );
+
+  // Decision the customer was acted on against, stored with the action like a single action's
+  const buildRecord = (result: KycEngineResult, justification?: KycJustification): KycDecisionRecord => ({
+    decision: result.decision,
+    kycVersion: result.version,
+    riskScore: result.riskScore.value,
+    riskScoreSource: result.riskScore.source,
+    effectiveDate: toKycEffectiveDate(Date.now()),
+    evaluatedAt: new Date().toISOString(),
+    ...(justification && { justification }),
+  });
+
+  // Runs the task for the given customers; the others keep their progress from the previous run
+  const start = async (action: KycReviewerAction, task: KycBulkTask, targets: Customer[]) => {
+    const results = new Map(evaluations?.map(({ customer, result }) => [customer.id, result]));
+    const targetIds = new Set(targets.map(({ id }) => id));
+    lastTask.current = task;
+    setRun((current) => ({
+      action,
+      items: customers.map(
+        (customer) =>
+          (current?.action === action && !targetIds.has(customer.id)
+            ? current.items.find((item) => item.customerId === customer.id)
+            : undefined) ?? { customerId: customer.id, customerName: customer.name, status: 'queued' }
+      ),
+    }));
+
+    await mapWithConcurrency(targets, KYC_BULK_CONCURRENCY, async (customer) => {
+      const result = results.get(customer.id);
+      if (!result) {
+        updateItem(customer.id, { status: 'failed', error: 'No KYC decision yet' });
+        return;
+      }
+      updateItem(customer.id, { status: 'running' });
+      try {
+        const refusal = await task(customer, result);
+        if (refusal) {
+          updateItem(customer.id, { status: 'refused', error: refusal });
+          return;
+        }
+        updateItem(customer.id, { status: 'succeeded' });
+        // Actions change transaction statuses, which feed the KYC signals
+        void queryClient.invalidateQueries({ queryKey: kycTransactionSignalsQueryKey(customer.id) });
+      } catch (error) {
+        console.error(`Bulk KYC action failed for customer ${customer.id}:`, error);
+        updateItem(customer.id, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+      }
+    });
+
+    // Refetch everything showing the customers' transactions and decisions
+    await Promise.all([
+      queryClient.invalidateQueries({ queryKey: ['transactions'] }),
+      queryClient.invalidateQueries({ queryKey: kycEvaluationsTransactionsQueryKey }),
+    ]);
+  };
+
+  // Justification for the customers the action goes against the decision of; null when it is missing
+  const checkJustification = (action: KycReviewerAction, overrideDeny: boolean, justification?: KycJustification) => {
+    if (justificationsNeeded(action, overrideDeny) === 0) return {};
+    const parsed = kycJustificationSchema.safeParse(justification);
+    return parsed.success ? { justification: parsed.data } : null;
+  };
+
+  const recordFor = (action: KycReviewerAction, result: KycEngineResult, justification?: KycJustification) =>
+    buildRecord(result, requiresKycJustification(action, result.decision) ? justification : undefined);
+
+  const approve = async ({ overrideDeny }: { overrideDeny: boolean }, justification?: KycJustification) => {
+    const checked = checkJustification('approve', overrideDeny, justification);
+    if (!evaluations || isRunning || !checked) return;
+    const approveCustomer: KycBulkTask = async (customer, result) => {
+      const refusal = kycBulkRefusal('approve', result.decision, overrideDeny);
+      if (refusal) return refusal;
+      const record = recordFor('approve', result, checked.justification);
+      if (!requiresKycFourEyes(result.decision)) {
+        await approveKycDecision(customer.id, record);
+        recordAction({ customerId: customer.id, action: 'approve', reviewerId, record });
+        return null;
+      }
+      // Read at send time: an earlier run may have submitted one since
+      if (pendingKycApproval(useKycApprovals.getState().approvals[customer.id] ?? [])) {
+        return 'An approval is already waiting for a second reviewer';
+      }
+      const approval = await submitKycApproval(customer.id, reviewerId, record);
+      recordApproval(approval);
+      recordAction({ customerId: customer.id, action: 'submit_approval', reviewerId, record: approval.record });
+      return null;
+    };
+    await start('approve', approveCustomer, customers);
+  };
+
+  const hold = async (request: KycHoldRequestInput, justification?: KycJustification) => {
+    const checked = checkJustification('hold', false, justification);
+    const parsed = kycHoldRequestSchema.safeParse(request);
+    if (!evaluations || isRunning || !checked || !parsed.success) return;
+    const { expiresOn, ...details } = parsed.data;
+    const holdCustomer: KycBulkTask = async (customer, result) => {
+      // Read at send time, like pending approvals: a customer is held once at a time
+      if (activeKycHold(useKycHolds.getState().holds[customer.id] ?? [])) return 'The customer is already on hold';
+      const record = recordFor('hold', result, checked.justification);
+      const placed = await holdKycDecision(
+        customer.id,
+        { ...details, expiresAt: kycHoldExpiresAt(expiresOn), placedBy: reviewerId },
+        record
+      );
+      recordHold(placed);
+      recordAction({ customerId: customer.id, action: 'hold', reviewerId, record });
+      return null;
+    };
+    await start('hold', holdCustomer, customers);
+  };
+
+  const requestDocuments = async (request: KycDocumentRequestInput, justification?: KycJustification) => {
+    const checked = checkJustification('request_documents', false, justification);
+    const parsed = kycDocumentRequestSchema.safeParse(request);
+    if (!evaluations || isRunning || !checked || !parsed.success) return;
+    const requestFromCustomer: KycBulkTask = async (customer, result) => {
+      const record = recordFor('request_documents', result, checked.justification);
+      const documentRequest = await requestKycDocuments(customer.id, { ...parsed.data, requestedBy: reviewerId }, record);
+      recordDocumentRequest(documentRequest);
+      recordAction({ customerId: customer.id, action: 'request_documents', reviewerId, record });
+      return null;
+    };
+    await start('request_documents', requestFromCustomer, customers);
+  };
+
+  const retryFailed = async () => {
+    const task = lastTask.current;
+    if (!run || !task || isRunning) return;
+    const failedIds = new Set(run.items.filter(({ status }) => status === 'failed').map(({ customerId }) => customerId));
+    const failed = customers.filter(({ id }) => failedIds.has(id));
+    if (failed.length > 0) await start(run.action, task, failed);
+  };
+
+  return {
+    decisions,
+    isEvaluating: evaluations === null,
+    run,
+    isRunning,
+    justificationsNeeded,
+    approve,
+    hold,
+    requestDocuments,
+    retryFailed,
+  };
+}
@@ -0,0 +1,74 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import type { Customer } from '../legacy/LegacyCustomerSearch';
+import { fetchTransactions, type Transaction } from '../api/transactionsApi';
+import { useKycScreeningReviews } from '../state/kycScreeningReviews';
+import { useKycImportedWatchlist } from '../state/kycImportedWatchlist';
+import { useKycEngine, type KycEngineResult } from './useKycEngine';
+import { customerToKycInput } from './customerKycInput';
+import { deriveKycTransactionSignals, KYC_SIGNAL_WINDOW_DAYS } from './kycTransactionSignals';
+import { applyKycScreening, screenKycName } from './kycScreening';
+import { kycWatchlist } from './kycWatchlist';
+
+// Large enough to cover every customer's signal window in one page
+const EVALUATIONS_PAGE_SIZE = 10000;
+
+export const kycEvaluationsTransactionsQueryKey = ['kyc-evaluations-transactions'] as const;
+
+export interface KycCustomerEvaluation {
+  customer: Customer;
+  result: KycEngineResult;
+}
+
+export interface UseKycCustomerEvaluations {
+  evaluations: KycCustomerEvaluation[] | null; // null until transactions have loaded (or failed to)
+  isError: boolean; // Transactions could not be fetched; decisions are made without signals
+}
+
+/**
+ * Custom hook that evaluates the current KYC decision of several customers at once
+ *
+ * Decisions are made the same way as on the dashboard: transaction signals from
+ * the signal window (one fetch for all customers) and confirmed screening hits.
+ */
+export function useKycCustomerEvaluations(customers: Customer[]): UseKycCustomerEvaluations {
+  const { evaluate } = useKycEngine();
+  const screeningReviews = useKycScreeningReviews((state) => state.reviews);
+  const watchlist = useKycImportedWatchlist((state) => state.watchlist) ?? kycWatchlist;
+
+  const { data, isPending, isError, dataUpdatedAt } = useQuery({
+    queryKey: kycEvaluationsTransactionsQueryKey,
+    // Nothing to fetch for until there are customers to evaluate
+    enabled: customers.length > 0,
+    queryFn: () =>
+      fetchTransactions({
+        dateFrom: new Date(Date.now() - KYC_SIGNAL_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+          .toISOString()
+          .split('T')[0],
+        pageSize: EVALUATIONS_PAGE_SIZE,
+      }),
+  });
+
+  const evaluations = useMemo(() => {
+    if (customers.length === 0) return [];
+    if (isPending) return null;
+    const transactionsByCustomer = new Map<string, Transaction[]>();
+    for (const transaction of data?.transactions ?? []) {
+      const transactions = transactionsByCustomer.get(transaction.customerId) ?? [];
+      transactions.push(transaction);
+      transactionsByCustomer.set(transaction.customerId, transactions);
+    }
+
+    return customers.map((customer) => {
+      // Windows are measured from when the data was fetched
+      const signals = data
+        ? deriveKycTransactionSignals(transactionsByCustomer.get(customer.id) ?? [], dataUpdatedAt)
+        : null;
+      const hits = screenKycName(customer.name, watchlist);
+      const input = applyKycScreening(customerToKycInput(customer, signals), hits, screeningReviews[customer.id] ?? {});
+      return { customer, result: evaluate(input) };
+    });
+  }, [customers, data, dataUpdatedAt, isPending, watchlist, screeningReviews, evaluate]);
+
+  return { evaluations, isError };
+}
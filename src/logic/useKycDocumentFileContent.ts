@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { fetchKycDocumentFileContent, type KycDocumentFile } from '../api/transactionsApi';
+import { kycDocumentChecksum } from './kycDocumentFiles';
+
+export const kycDocumentFileContentQueryKey = (fileId: string) => ['kyc-document-file-content', fileId] as const;
+
+export interface UseKycDocumentFileContent {
+  url: string | null; // Object URL of the content, revoked on unmount
+  checksumMatches: boolean | null; // Whether the content still has the checksum taken at upload; null while loading
+  isLoading: boolean;
+  isError: boolean;
+}
+
+/**
+ * Custom hook that fetches an uploaded file and checks it against the checksum
+ * taken at upload, so a file altered since then is flagged wherever it is shown.
+ */
+export function useKycDocumentFileContent(file: KycDocumentFile): UseKycDocumentFileContent {
+  const { data, isLoading, isError } = useQuery({
+    queryKey: kycDocumentFileContentQueryKey(file.id),
+    queryFn: async () => {
+      const content = await fetchKycDocumentFileContent(file.id);
+      return { content, checksum: await kycDocumentChecksum(content) };
+    },
+    // Uploaded files never change; a different checksum means tampering, not an update
+    staleTime: Infinity,
+  });
+
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    if (!data) return;
+    const objectUrl = URL.createObjectURL(new Blob([data.content], { type: file.mimeType }));
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [data, file.mimeType]);
+
+  return {
+    url,
+    checksumMatches: data ? data.checksum === file.checksum : null,
+    isLoading,
+    isError,
+  };
+}
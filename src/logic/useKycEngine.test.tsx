@@ -3,6 +3,8 @@ import { renderHook } from '@testing-library/react';
 import { useKycEngine } from './useKycEngine';
 import { useFeatureFlags } from '../state/featureFlags';
 import type { KycInputWithoutVersion } from './useKycEngine';
+import { formatKycReason } from './kycReasons';
+import { emptyKycRollout, getKycRolloutBucket } from './kycRollout';
 
 describe('useKycEngine', () => {
   beforeEach(() => {
@@ -10,6 +12,9 @@ describe('useKycEngine', () => {
     localStorage.removeItem('feature-flags-storage');
     useFeatureFlags.setState({
       kycVersion: 'v1',
+      kycShadowVersions: [],
+      kycRollout: emptyKycRollout,
+      kycRiskScoreSource: 'supplied',
       showComponentOutlines: false,
     });
   });
@@ -22,7 +27,9 @@ describe('useKycEngine', () => {
     it.each([
       { version: 'v1', expectedVersion: 'v1' },
       { version: 'v2', expectedVersion: 'v2' },
-    ] satisfies Array<{ version: 'v1' | 'v2'; expectedVersion: 'v1' | 'v2' }>)(
+      { version: 'v3', expectedVersion: 'v3' },
+      { version: 'v0-removed', expectedVersion: 'v1' },
+    ])(
       'should return version $expectedVersion when kycVersion is $version',
       ({ version, expectedVersion }) => {
         useFeatureFlags.setState({ kycVersion: version });
@@ -131,7 +138,7 @@ describe('useKycEngine', () => {
         const kycResult = result.current.evaluate(input);
 
         expect(kycResult.decision).toBe(expectedDecision);
-        expect(kycResult.reasons.some(r => r.includes(expectedReasonContains))).toBe(true);
+        expect(kycResult.reasons.map(formatKycReason).some(r => r.includes(expectedReasonContains))).toBe(true);
       }
     );
   });
@@ -155,8 +162,222 @@ describe('useKycEngine', () => {
 
       // v2 should deny at 75+, so 85 should be denied
       expect(kycResult.decision).toBe('deny');
-      expect(kycResult.reasons).toContain('Risk score 75+');
+      expect(kycResult.reasons.map(formatKycReason)).toContain('Risk score 75+');
     });
   });
-});
 
+  describe('shadow evaluation', () => {
+    it('should not evaluate shadow versions when none are configured', () => {
+      const { result } = renderHook(() => useKycEngine());
+
+      const evaluation = result.current.evaluateWithShadow({ riskScore: 30, country: 'US', isPep: true });
+
+      expect(evaluation.version).toBe('v1');
+      expect(evaluation.shadows).toEqual([]);
+      expect(evaluation.diverged).toBe(false);
+    });
+
+    it('should never shadow the active version', () => {
+      useFeatureFlags.setState({ kycVersion: 'v1', kycShadowVersions: ['v1', 'v2'] });
+      const { result } = renderHook(() => useKycEngine());
+
+      expect(result.current.shadowVersions).toEqual(['v2']);
+    });
+
+    it('should skip shadow versions that are not registered', () => {
+      useFeatureFlags.setState({ kycVersion: 'v1', kycShadowVersions: ['v0-removed', 'v3'] });
+      const { result } = renderHook(() => useKycEngine());
+
+      expect(result.current.shadowVersions).toEqual(['v3']);
+    });
+
+    it('should flag divergence when a candidate version decides differently', () => {
+      useFeatureFlags.setState({ kycVersion: 'v1', kycShadowVersions: ['v2'] });
+      const { result } = renderHook(() => useKycEngine());
+
+      const evaluation = result.current.evaluateWithShadow({ riskScore: 30, country: 'US', isPep: true });
+
+      expect(evaluation.result.decision).toBe('approve');
+      expect(evaluation.shadows).toHaveLength(1);
+      expect(evaluation.shadows[0].version).toBe('v2');
+      expect(evaluation.shadows[0].result.decision).toBe('manual_review');
+      expect(evaluation.shadows[0].diverges).toBe(true);
+      expect(evaluation.diverged).toBe(true);
+    });
+
+    it('should not flag divergence when decisions agree', () => {
+      useFeatureFlags.setState({ kycVersion: 'v2', kycShadowVersions: ['v1'] });
+      const { result } = renderHook(() => useKycEngine());
+
+      const evaluation = result.current.evaluateWithShadow({ riskScore: 90, country: 'US' });
+
+      expect(evaluation.result.decision).toBe('deny');
+      expect(evaluation.shadows[0].result.decision).toBe('deny');
+      expect(evaluation.diverged).toBe(false);
+    });
+  });
+
+  describe('staged rollout', () => {
+    const input = { riskScore: 50, country: 'US' };
+
+    it('should use the base version for everyone while the rollout is disabled', () => {
+      const { result } = renderHook(() => useKycEngine());
+
+      const kycResult = result.current.evaluate({ ...input, customerId: 'C-001' });
+
+      expect(kycResult.version).toBe('v1');
+      expect(kycResult.assignment?.rule).toBe('disabled');
+    });
+
+    it('should evaluate each customer with the version of their bucket', () => {
+      useFeatureFlags.setState({
+        kycRollout: { ...emptyKycRollout, enabled: true, split: [{ version: 'v3', percent: 50 }] },
+      });
+      const { result } = renderHook(() => useKycEngine());
+
+      for (const customerId of ['C-001', 'C-002', 'C-003', 'C-004', 'C-005', 'C-006']) {
+        const kycResult = result.current.evaluate({ ...input, customerId });
+        const expectedVersion = getKycRolloutBucket(customerId) < 50 ? 'v3' : 'v1';
+
+        expect(kycResult.version).toBe(expectedVersion);
+        expect(kycResult.assignment?.bucket).toBe(getKycRolloutBucket(customerId));
+        // v1 reviews a risk score of 50, v3 denies it only from 70
+        expect(kycResult.decision).toBe('manual_review');
+        expect(kycResult.reasons.map(formatKycReason)).toContain(
+          expectedVersion === 'v3' ? 'Risk score 45-69' : 'Risk score 50-79'
+        );
+      }
+      expect(result.current.version).toBe('v1');
+    });
+
+    it('should ignore rollout entries for unregistered versions', () => {
+      useFeatureFlags.setState({
+        kycRollout: {
+          ...emptyKycRollout,
+          enabled: true,
+          split: [{ version: 'v0-removed', percent: 100 }],
+          allowCustomers: [{ id: 'C-001', version: 'v0-removed' }],
+        },
+      });
+      const { result } = renderHook(() => useKycEngine());
+
+      expect(result.current.rollout.split).toEqual([]);
+      expect(result.current.evaluate({ ...input, customerId: 'C-001' }).version).toBe('v1');
+    });
+
+    it('should report the assigned version and compare shadows against it', () => {
+      useFeatureFlags.setState({
+        kycShadowVersions: ['v1', 'v3'],
+        kycRollout: { ...emptyKycRollout, enabled: true, allowCustomers: [{ id: 'C-001', version: 'v3' }] },
+      });
+      const { result } = renderHook(() => useKycEngine());
+
+      const evaluation = result.current.evaluateWithShadow({ ...input, customerId: 'C-001' });
+
+      expect(evaluation.version).toBe('v3');
+      expect(evaluation.assignment?.rule).toBe('customer_allow');
+      expect(evaluation.shadows.map((shadow) => shadow.version)).toEqual(['v1']);
+    });
+  });
+
+  describe('as of a date', () => {
+    it('should evaluate with the version that was live on that date', () => {
+      useFeatureFlags.setState({ kycVersion: 'v1' });
+      const { result } = renderHook(() => useKycEngine());
+
+      const kycResult = result.current.evaluate({ riskScore: 76, country: 'US' }, { asOf: '2025-03-03' });
+
+      expect(kycResult.version).toBe('v2');
+      expect(kycResult.asOf).toBe('2025-03-03');
+      expect(kycResult.assignment).toBeNull();
+      expect(kycResult.reasons.map(formatKycReason)).toContain('Risk score 75+');
+    });
+
+    it('should bypass the staged rollout', () => {
+      useFeatureFlags.setState({
+        kycRollout: { ...emptyKycRollout, enabled: true, allowCustomers: [{ id: 'C-001', version: 'v3' }] },
+      });
+      const { result } = renderHook(() => useKycEngine());
+
+      expect(result.current.evaluate({ riskScore: 30, country: 'US', customerId: 'C-001' }, { asOf: '2024-01-15' }).version)
+        .toBe('v1');
+    });
+
+    it('should throw when no version was live on that date', () => {
+      const { result } = renderHook(() => useKycEngine());
+
+      expect(() => result.current.evaluate({ riskScore: 30, country: 'US' }, { asOf: '2020-01-01' })).toThrow(
+        'No KYC version was in effect on 2020-01-01'
+      );
+    });
+
+    it('should report the effective version on shadow evaluations', () => {
+      useFeatureFlags.setState({ kycShadowVersions: ['v3'] });
+      const { result } = renderHook(() => useKycEngine());
+
+      const evaluation = result.current.evaluateWithShadow({ riskScore: 72, country: 'US' }, { asOf: '2024-08-01' });
+
+      expect(evaluation.version).toBe('v2');
+      expect(evaluation.asOf).toBe('2024-08-01');
+      expect(evaluation.shadows[0]).toMatchObject({ version: 'v3', diverges: true });
+    });
+  });
+
+  describe('risk score source', () => {
+    // Enhanced due diligence country, PEP, money services, crypto, large amount, new account: computes to 90
+    const riskyFactors = {
+      country: 'IR',
+      isPep: true,
+      occupation: 'money_services',
+      productType: 'crypto',
+      amount: 50000,
+      velocity: 0,
+      accountAgeDays: 1,
+    } satisfies KycInputWithoutVersion;
+
+    it('should evaluate with the supplied score by default', () => {
+      const { result } = renderHook(() => useKycEngine());
+
+      const kycResult = result.current.evaluate({ ...riskyFactors, riskScore: 30, country: 'US' });
+
+      expect(kycResult.riskScore).toEqual({ value: 30, source: 'supplied', breakdown: null });
+    });
+
+    it('should evaluate with the computed score when the flag asks for it', () => {
+      useFeatureFlags.setState({ kycRiskScoreSource: 'computed' });
+      const { result } = renderHook(() => useKycEngine());
+
+      const kycResult = result.current.evaluate({ ...riskyFactors, riskScore: 30 });
+
+      expect(kycResult.riskScore.source).toBe('computed');
+      expect(kycResult.riskScore.value).toBe(90);
+      expect(kycResult.riskScore.breakdown?.score).toBe(90);
+      expect(kycResult.decision).toBe('deny');
+    });
+
+    it('should compute the score when none is supplied', () => {
+      const { result } = renderHook(() => useKycEngine());
+
+      expect(result.current.evaluate({ country: 'US' }).riskScore.source).toBe('computed');
+    });
+
+    it('should let an option override the flag', () => {
+      useFeatureFlags.setState({ kycRiskScoreSource: 'computed' });
+      const { result } = renderHook(() => useKycEngine());
+
+      expect(result.current.evaluate({ riskScore: 30, country: 'US' }, { riskScoreSource: 'supplied' }).riskScore.source)
+        .toBe('supplied');
+    });
+
+    it('should evaluate shadow versions with the same score', () => {
+      useFeatureFlags.setState({ kycRiskScoreSource: 'computed', kycShadowVersions: ['v2'] });
+      const { result } = renderHook(() => useKycEngine());
+
+      const evaluation = result.current.evaluateWithShadow({ ...riskyFactors, riskScore: 30 });
+
+      expect(evaluation.riskScore.source).toBe('computed');
+      expect(evaluation.result.decision).toBe('deny');
+      expect(evaluation.shadows[0].result.decision).toBe('deny');
+    });
+  });
+});
@@ -1,52 +1,181 @@
 import { useMemo } from 'react';
 import { useFeatureFlags } from '../state/featureFlags';
-import { evaluateKycV1, type KycInput as KycInputV1, type KycInputBase, type KycResult } from './kycRules.v1';
-import { evaluateKycV2, type KycInputV2, type KycInputV2Base } from './kycRules.v2';
+import type { KycInput as KycInputV1, KycInputBase, KycResult } from './kycRules.v1';
+import type { KycInputV2 } from './kycRules.v2';
+import type { KycInputV3, KycInputV3Base } from './kycRules.v3';
+import type { KycEvaluationOptions } from './kycRuleEngine';
+import { kycVersionRegistry } from './kycVersions';
+import { toKycEffectiveDate, type KycAsOf } from './kycVersionRegistry';
+import { assignKycVersion, type KycRollout, type KycVersionAssignment } from './kycRollout';
+import {
+  resolveKycRiskScore,
+  type KycOccupation,
+  type KycProductType,
+  type KycRiskScoreResolution,
+  type KycRiskScoreSource,
+} from './kycRiskScore';
 
 // Discriminated union type for all KYC inputs
-export type KycInput = KycInputV1 | KycInputV2;
+export type KycInput = KycInputV1 | KycInputV2 | KycInputV3;
 
 // Input type that callers provide (without version discriminator)
-// The hook will automatically add the version based on feature flags
-export type KycInputWithoutVersion = KycInputBase & Partial<KycInputV2Base>;
+// The engine picks the version based on feature flags and, during a staged
+// rollout, on the customer id
+export type KycInputWithoutVersion = Omit<KycInputBase, 'riskScore'> &
+  Partial<KycInputV3Base> & {
+    customerId?: string;
+    riskScore?: number; // Supplied score; computed from the risk factors when missing
+    occupation?: KycOccupation;
+    productType?: KycProductType;
+  };
+
+export interface KycEngineOptions extends KycEvaluationOptions {
+  // Evaluate with the version that was live on this date instead of the flagged one.
+  // The jurisdiction policy is always the current one.
+  asOf?: KycAsOf;
+  // Overrides the kycRiskScoreSource flag
+  riskScoreSource?: KycRiskScoreSource;
+}
+
+// Result of the version the input was assigned to
+export interface KycEngineResult extends KycResult {
+  version: string;
+  assignment: KycVersionAssignment | null; // null when evaluated as of a date
+  asOf?: string; // Effective date (YYYY-MM-DD) the version was picked for
+  riskScore: KycRiskScoreResolution; // Score the version was evaluated with
+}
+
+export interface KycShadowResult {
+  version: string;
+  result: KycResult;
+  diverges: boolean; // Decision differs from the active version's decision
+}
+
+export interface KycShadowEvaluation {
+  version: string; // Version assigned to this input
+  assignment: KycVersionAssignment | null;
+  asOf?: string;
+  riskScore: KycRiskScoreResolution; // Shadows are evaluated with the same score
+  result: KycResult;
+  shadows: KycShadowResult[];
+  diverged: boolean; // At least one shadow version disagrees
+}
 
 export interface UseKycEngine {
-  evaluate: (input: KycInputWithoutVersion) => KycResult;
-  version: 'v1' | 'v2';
+  evaluate: (input: KycInputWithoutVersion, options?: KycEngineOptions) => KycEngineResult;
+  evaluateWithShadow: (input: KycInputWithoutVersion, options?: KycEngineOptions) => KycShadowEvaluation;
+  assignVersion: (input: KycInputWithoutVersion) => KycVersionAssignment;
+  version: string; // Base version, used by everyone outside the rollout
+  shadowVersions: string[];
+  rollout: KycRollout; // With entries for unregistered versions removed
 }
 
 /**
- * Custom hook that selects the appropriate KYC rule version based on feature flag
- * and exposes an evaluate method that uses the correct rules.
- * 
- * The hook automatically adds the version discriminator to the input based on
- * the current feature flag, allowing TypeScript to properly narrow the types.
+ * Custom hook that looks up the KYC version selected by feature flag in the
+ * version registry and exposes its evaluator.
+ *
+ * When the kycRollout flag is enabled each input is assigned a version by its
+ * customer id (see assignKycVersion) and the result reports the assignment.
+ *
+ * The risk score is the supplied one or, with the kycRiskScoreSource flag set to
+ * 'computed' (or no score supplied), computed by computeKycRiskScore; the result
+ * records which was used.
+ *
+ * With `{ asOf }` the version whose effective window covers that date is used
+ * instead, so past decisions can be re-evaluated; it throws if none was live.
+ *
+ * In shadow mode (kycShadowVersions flag) evaluateWithShadow also runs the candidate
+ * versions on the same input so disagreements can be observed before a rollout.
  */
 export function useKycEngine(): UseKycEngine {
-  const { kycVersion } = useFeatureFlags();
+  const { kycVersion: requestedVersion, kycShadowVersions, kycRollout, kycRiskScoreSource } = useFeatureFlags();
+  // A persisted flag may name a version that is no longer registered
+  const kycVersion = kycVersionRegistry.resolve(requestedVersion).id;
+
+  // Unknown versions are skipped; the active version is never its own shadow
+  const registeredShadowVersions = useMemo(
+    () => kycShadowVersions.filter((version) => kycVersionRegistry.get(version) !== undefined),
+    [kycShadowVersions]
+  );
+  const shadowVersions = useMemo(
+    () => registeredShadowVersions.filter((version) => version !== kycVersion),
+    [registeredShadowVersions, kycVersion]
+  );
+
+  // Rollout entries may also name versions that are no longer registered
+  const rollout = useMemo((): KycRollout => {
+    const isRegistered = ({ version }: { version: string }) => kycVersionRegistry.get(version) !== undefined;
+    return {
+      ...kycRollout,
+      split: kycRollout.split.filter(isRegistered),
+      allowCustomers: kycRollout.allowCustomers.filter(isRegistered),
+      allowCountries: kycRollout.allowCountries.filter(isRegistered),
+    };
+  }, [kycRollout]);
+
+  const assignVersion = useMemo(() => {
+    return (input: KycInputWithoutVersion): KycVersionAssignment =>
+      assignKycVersion(rollout, { customerId: input.customerId, country: input.country }, kycVersion);
+  }, [rollout, kycVersion]);
 
   const evaluate = useMemo(() => {
-    return (input: KycInputWithoutVersion): KycResult => {
-      // Add version discriminator based on feature flag
-      if (kycVersion === 'v2') {
-        const inputWithVersion: KycInputV2 = {
-          ...input,
-          version: 'v2',
-        };
-        return evaluateKycV2(inputWithVersion);
+    return (
+      input: KycInputWithoutVersion,
+      { asOf, riskScoreSource = kycRiskScoreSource, ...options }: KycEngineOptions = {}
+    ): KycEngineResult => {
+      const riskScore = resolveKycRiskScore(input, riskScoreSource, options);
+      const scoredInput = { ...input, riskScore: riskScore.value };
+
+      if (asOf !== undefined) {
+        const effectiveDate = toKycEffectiveDate(asOf);
+        const effectiveVersion = kycVersionRegistry.resolveAsOf(effectiveDate);
+        if (!effectiveVersion) {
+          throw new Error(`No KYC version was in effect on ${effectiveDate}`);
+        }
+        const result = effectiveVersion.evaluate(scoredInput, options);
+        return { ...result, version: effectiveVersion.id, assignment: null, asOf: effectiveDate, riskScore };
       }
-      
-      const inputWithVersion: KycInputV1 = {
-        ...input,
-        version: 'v1',
+
+      const assignment = assignVersion(input);
+      const result = kycVersionRegistry.resolve(assignment.version).evaluate(scoredInput, options);
+      return { ...result, version: assignment.version, assignment, riskScore };
+    };
+  }, [assignVersion, kycRiskScoreSource]);
+
+  const evaluateWithShadow = useMemo(() => {
+    return (input: KycInputWithoutVersion, options: KycEngineOptions = {}): KycShadowEvaluation => {
+      const { version, assignment, asOf, riskScore, ...result } = evaluate(input, options);
+      const scoredInput = { ...input, riskScore: riskScore.value };
+      // Shadows are compared against the version this input was assigned to
+      const shadows = registeredShadowVersions
+        .filter((shadowVersion) => shadowVersion !== version)
+        .map((shadowVersion) => {
+          const shadowResult = kycVersionRegistry.resolve(shadowVersion).evaluate(scoredInput, options);
+          return {
+            version: shadowVersion,
+            result: shadowResult,
+            diverges: shadowResult.decision !== result.decision,
+          };
+        });
+
+      return {
+        version,
+        assignment,
+        ...(asOf && { asOf }),
+        riskScore,
+        result,
+        shadows,
+        diverged: shadows.some((shadow) => shadow.diverges),
       };
-      return evaluateKycV1(inputWithVersion);
     };
-  }, [kycVersion]);
+  }, [evaluate, registeredShadowVersions]);
 
   return {
     evaluate,
+    evaluateWithShadow,
+    assignVersion,
     version: kycVersion,
+    shadowVersions,
+    rollout,
   };
 }
-
@@ -0,0 +1,65 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { Customer } from '../legacy/LegacyCustomerSearch';
+import { seedCustomers } from '../legacy/customerSeed';
+import { useKycReviewQueueEntries } from '../state/kycReviewQueue';
+import { useKycActionHistory } from '../state/kycActionHistory';
+import { useKycHolds } from '../state/kycHolds';
+import { useKycCustomerEvaluations } from './useKycCustomerEvaluations';
+import {
+  buildKycReviewQueue,
+  isKycReviewQueueDecision,
+  isKycReviewResolved,
+  type KycReviewQueueDecision,
+  type KycReviewQueueItem,
+} from './kycReviewQueue';
+
+// SLA countdowns, and holds that have expired, are refreshed this often
+const SLA_TICK_MS = 60 * 1000;
+
+export interface UseKycReviewQueue {
+  items: KycReviewQueueItem[]; // Riskiest and longest waiting first
+  isLoading: boolean;
+  isError: boolean; // Transactions could not be fetched; decisions are made without signals
+}
+
+/**
+ * Custom hook that evaluates every customer and lists those whose current
+ * decision is manual_review or deny.
+ *
+ * Decisions come from useKycCustomerEvaluations, as for bulk actions.
+ * The queue store records when each customer entered the queue and who claimed it.
+ * Customers approved, or on a hold placed since then, are left out (see isKycReviewResolved).
+ */
+export function useKycReviewQueue(customers: Customer[] = seedCustomers): UseKycReviewQueue {
+  const { evaluations, isError } = useKycCustomerEvaluations(customers);
+  const entries = useKycReviewQueueEntries((state) => state.entries);
+  const syncQueue = useKycReviewQueueEntries((state) => state.syncQueue);
+  const history = useKycActionHistory((state) => state.entries);
+  const holds = useKycHolds((state) => state.holds);
+  const [now, setNow] = useState(Date.now);
+
+  // Customers enter and leave the queue as their decisions change
+  useEffect(() => {
+    if (!evaluations) return;
+    const decisions: Record<string, KycReviewQueueDecision> = {};
+    for (const { customer, result } of evaluations) {
+      if (isKycReviewQueueDecision(result.decision)) decisions[customer.id] = result.decision;
+    }
+    syncQueue(decisions);
+  }, [evaluations, syncQueue]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), SLA_TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const items = useMemo(() => {
+    if (!evaluations) return [];
+    return buildKycReviewQueue(evaluations, entries, now).filter(
+      ({ customer, enteredAt }) =>
+        !isKycReviewResolved(history[customer.id] ?? [], enteredAt, holds[customer.id] ?? [], now)
+    );
+  }, [evaluations, entries, history, holds, now]);
+
+  return { items, isLoading: evaluations === null, isError };
+}
@@ -0,0 +1,53 @@
+import { useMemo } from 'react';
+import { useKycScreeningReviews } from '../state/kycScreeningReviews';
+import { useKycImportedWatchlist } from '../state/kycImportedWatchlist';
+import { kycWatchlist } from './kycWatchlist';
+import {
+  applyKycScreening,
+  screenKycName,
+  type KycScreeningHit,
+  type KycScreeningReviews,
+  type KycScreeningReviewStatus,
+} from './kycScreening';
+
+const noReviews: KycScreeningReviews = {};
+
+export interface UseKycScreening {
+  hits: KycScreeningHit[];
+  reviews: KycScreeningReviews; // Reviews of this customer's hits by watchlist entry id
+  // Applies confirmed hits to a KYC input (see applyKycScreening)
+  applyToInput: <T extends { sanctionsList?: boolean; isPep?: boolean }>(input: T) => T;
+  reviewHit: (entryId: string, status: KycScreeningReviewStatus) => void;
+  reopenHit: (entryId: string) => void;
+}
+
+/**
+ * Custom hook that screens a customer's name against the local watchlist (or the
+ * one imported on the watchlist upload screen) and exposes the reviewer decisions
+ * on the resulting hits.
+ */
+export function useKycScreening(customer: { id: string; name: string } | null): UseKycScreening {
+  const customerId = customer?.id;
+  const name = customer?.name;
+  const reviews = useKycScreeningReviews((state) => (customerId && state.reviews[customerId]) || noReviews);
+  const reviewHitForCustomer = useKycScreeningReviews((state) => state.reviewHit);
+  const reopenHitForCustomer = useKycScreeningReviews((state) => state.reopenHit);
+  const watchlist = useKycImportedWatchlist((state) => state.watchlist) ?? kycWatchlist;
+
+  const hits = useMemo(() => (name ? screenKycName(name, watchlist) : []), [name, watchlist]);
+
+  return useMemo(
+    () => ({
+      hits,
+      reviews,
+      applyToInput: (input) => applyKycScreening(input, hits, reviews),
+      reviewHit: (entryId, status) => {
+        if (customerId) reviewHitForCustomer(customerId, entryId, status);
+      },
+      reopenHit: (entryId) => {
+        if (customerId) reopenHitForCustomer(customerId, entryId);
+      },
+    }),
+    [hits, reviews, customerId, reviewHitForCustomer, reopenHitForCustomer]
+  );
+}
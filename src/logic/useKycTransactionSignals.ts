@@ -0,0 +1,50 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { fetchTransactions } from '../api/transactionsApi';
+import {
+  deriveKycTransactionSignals,
+  KYC_SIGNAL_WINDOW_DAYS,
+  type KycTransactionSignals,
+} from './kycTransactionSignals';
+
+// Large enough to cover a customer's whole signal window in one page
+const SIGNAL_PAGE_SIZE = 1000;
+
+export const kycTransactionSignalsQueryKey = (customerId: string | undefined) =>
+  ['kyc-transaction-signals', customerId] as const;
+
+export interface UseKycTransactionSignals {
+  signals: KycTransactionSignals | null;
+  isLoading: boolean;
+  isError: boolean;
+}
+
+/**
+ * Custom hook that fetches a customer's recent transactions and derives the KYC
+ * amount/velocity signals from them.
+ *
+ * Fetched separately from the transactions table so the table filters never
+ * change the KYC decision.
+ */
+export function useKycTransactionSignals(customerId: string | undefined): UseKycTransactionSignals {
+  const { data, isLoading, isError, dataUpdatedAt } = useQuery({
+    queryKey: kycTransactionSignalsQueryKey(customerId),
+    queryFn: () =>
+      fetchTransactions({
+        customerId,
+        dateFrom: new Date(Date.now() - KYC_SIGNAL_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+          .toISOString()
+          .split('T')[0],
+        pageSize: SIGNAL_PAGE_SIZE,
+      }),
+    enabled: Boolean(customerId),
+  });
+
+  // Windows are measured from when the data was fetched
+  const signals = useMemo(
+    () => (data ? deriveKycTransactionSignals(data.transactions, dataUpdatedAt) : null),
+    [data, dataUpdatedAt]
+  );
+
+  return { signals, isLoading, isError };
+}
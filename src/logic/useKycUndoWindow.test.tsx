@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useKycUndoWindow, type KycStagedActionOptions } from './useKycUndoWindow';
+
+// Action whose commit resolves when the test says so
+const stagedAction = (committed = true) => {
+  let finishCommit = () => {};
+  const options = {
+    label: 'Approved Emily Chen',
+    commit: vi.fn(() => new Promise<boolean>((resolve) => (finishCommit = () => resolve(committed)))),
+    revert: vi.fn(),
+    compensate: vi.fn(async () => {}),
+  } satisfies KycStagedActionOptions;
+  return { options, finishCommit: () => act(async () => finishCommit()) };
+};
+
+describe('useKycUndoWindow', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should revert an action undone within the window without sending it', () => {
+    const { result } = renderHook(() => useKycUndoWindow(5000));
+    const { options } = stagedAction();
+
+    act(() => result.current.stage(options));
+    expect(result.current.staged).toMatchObject({ label: 'Approved Emily Chen', status: 'staged' });
+
+    act(() => result.current.undo());
+    act(() => vi.advanceTimersByTime(5000));
+
+    expect(options.revert).toHaveBeenCalledOnce();
+    expect(options.commit).not.toHaveBeenCalled();
+    expect(result.current.staged).toBeNull();
+  });
+
+  it('should send the action once the window passes', async () => {
+    const { result } = renderHook(() => useKycUndoWindow(5000));
+    const { options, finishCommit } = stagedAction();
+
+    act(() => result.current.stage(options));
+    act(() => vi.advanceTimersByTime(4999));
+    expect(options.commit).not.toHaveBeenCalled();
+
+    act(() => vi.advanceTimersByTime(1));
+    expect(options.commit).toHaveBeenCalledOnce();
+    expect(result.current.staged?.status).toBe('committing');
+
+    await finishCommit();
+    expect(result.current.staged?.status).toBe('committed');
+
+    // Undo stays available for another window after the API answered
+    act(() => vi.advanceTimersByTime(5000));
+    expect(result.current.staged).toBeNull();
+    expect(options.revert).not.toHaveBeenCalled();
+    expect(options.compensate).not.toHaveBeenCalled();
+  });
+
+  it('should compensate an action undone after it was sent', async () => {
+    const { result } = renderHook(() => useKycUndoWindow(5000));
+    const { options, finishCommit } = stagedAction();
+
+    act(() => result.current.stage(options));
+    act(() => vi.advanceTimersByTime(5000));
+    await finishCommit();
+    expect(result.current.staged?.status).toBe('committed');
+
+    await act(async () => result.current.undo());
+
+    expect(options.compensate).toHaveBeenCalledOnce();
+    expect(options.revert).not.toHaveBeenCalled();
+    expect(result.current.staged).toBeNull();
+  });
+
+  it('should compensate an action undone while it was being sent', async () => {
+    const { result } = renderHook(() => useKycUndoWindow(5000));
+    const { options, finishCommit } = stagedAction();
+
+    act(() => result.current.stage(options));
+    act(() => vi.advanceTimersByTime(5000));
+    act(() => result.current.undo());
+    expect(result.current.staged?.status).toBe('undoing');
+    expect(options.compensate).not.toHaveBeenCalled();
+
+    await finishCommit();
+    expect(options.compensate).toHaveBeenCalledOnce();
+    expect(options.revert).not.toHaveBeenCalled();
+    expect(result.current.staged).toBeNull();
+  });
+
+  it('should not compensate an action the API refused', async () => {
+    const { result } = renderHook(() => useKycUndoWindow(5000));
+    const { options, finishCommit } = stagedAction(false);
+
+    act(() => result.current.stage(options));
+    act(() => vi.advanceTimersByTime(5000));
+    act(() => result.current.undo());
+    await finishCommit();
+
+    expect(options.compensate).not.toHaveBeenCalled();
+  });
+
+  it('should refuse another action while one is staged', () => {
+    const { result } = renderHook(() => useKycUndoWindow(5000));
+    const first = stagedAction();
+    const second = stagedAction();
+
+    act(() => result.current.stage(first.options));
+    act(() => result.current.stage({ ...second.options, label: 'Held Emily Chen' }));
+
+    expect(first.options.commit).not.toHaveBeenCalled();
+    expect(second.options.commit).not.toHaveBeenCalled();
+    expect(result.current.staged).toMatchObject({ label: 'Approved Emily Chen', status: 'staged' });
+  });
+
+  it('should end the undo of a sent action when the next one is staged', async () => {
+    const { result } = renderHook(() => useKycUndoWindow(5000));
+    const first = stagedAction();
+    const second = stagedAction();
+
+    act(() => result.current.stage(first.options));
+    act(() => vi.advanceTimersByTime(5000));
+    await first.finishCommit();
+    act(() => result.current.stage({ ...second.options, label: 'Held Emily Chen' }));
+    act(() => result.current.undo());
+
+    expect(second.options.revert).toHaveBeenCalledOnce();
+    expect(first.options.compensate).not.toHaveBeenCalled();
+    expect(result.current.staged).toBeNull();
+  });
+
+  it('should send a staged action when the page unmounts', () => {
+    const { result, unmount } = renderHook(() => useKycUndoWindow(5000));
+    const { options } = stagedAction();
+
+    act(() => result.current.stage(options));
+    unmount();
+
+    expect(options.commit).toHaveBeenCalledOnce();
+  });
+
+  it('should send actions right away without a window', () => {
+    const { result } = renderHook(() => useKycUndoWindow(0));
+    const { options } = stagedAction();
+
+    act(() => result.current.stage(options));
+
+    expect(options.commit).toHaveBeenCalledOnce();
+    expect(result.current.staged).toBeNull();
+  });
+});
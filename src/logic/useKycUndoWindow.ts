@@ -0,0 +1,143 @@
+import { useEffect, useRef, useState } from 'react';
+
+// staged: waiting out the window, committing: being sent, committed: sent and still undoable,
+// undoing: sent, the compensating call follows
+export type KycStagedActionStatus = 'staged' | 'committing' | 'committed' | 'undoing';
+
+export interface KycStagedAction {
+  id: string;
+  label: string; // What the toast says, e.g. "Approved Emily Chen"
+  commitsAt: number; // Epoch ms the action is sent at
+  status: KycStagedActionStatus;
+}
+
+export interface KycStagedActionOptions {
+  label: string;
+  commit: () => Promise<boolean>; // Sends the action; false when it failed (and was rolled back)
+  revert: () => void; // Reverts the optimistic update of an action that was never sent
+  compensate: () => Promise<void>; // Reverses an action the API already took
+}
+
+export interface UseKycUndoWindow {
+  staged: KycStagedAction | null; // Latest action until it can no longer be undone
+  // Refused while another action is still waiting out its window
+  stage: (options: KycStagedActionOptions) => void;
+  undo: () => void;
+}
+
+interface PendingAction {
+  action: KycStagedAction;
+  options: KycStagedActionOptions;
+  timer: ReturnType<typeof setTimeout> | undefined; // Sends the action, then ends its post-commit undo
+  undoRequested: boolean;
+}
+
+/**
+ * Custom hook that holds back an action for `windowMs` so it can be undone
+ *
+ * Undo within the window reverts the action without calling the API. Once sent, the
+ * action stays undoable for another `windowMs` (or until the next action is staged);
+ * Undo then makes the compensating call, after the API has answered if it is still
+ * being sent. Nothing else can be staged while an action waits out its window.
+ * Unmounting sends a waiting action right away. A window of 0 sends actions
+ * immediately, with nothing to undo.
+ */
+export function useKycUndoWindow(windowMs: number): UseKycUndoWindow {
+  const [staged, setStaged] = useState<KycStagedAction | null>(null);
+  const pending = useRef<PendingAction | null>(null);
+
+  const update = (entry: PendingAction, status: KycStagedActionStatus) => {
+    entry.action = { ...entry.action, status };
+    if (pending.current === entry) setStaged(entry.action);
+  };
+
+  const finish = (entry: PendingAction) => {
+    clearTimeout(entry.timer);
+    if (pending.current === entry) {
+      pending.current = null;
+      setStaged(null);
+    }
+  };
+
+  const compensate = async (entry: PendingAction) => {
+    update(entry, 'undoing');
+    await entry.options.compensate();
+    finish(entry);
+  };
+
+  const commit = async (entry: PendingAction) => {
+    clearTimeout(entry.timer);
+    update(entry, 'committing');
+    const committed = await entry.options.commit();
+    if (!committed) {
+      finish(entry);
+      return;
+    }
+    if (entry.undoRequested) {
+      await compensate(entry);
+      return;
+    }
+    // Sent: Undo stays available for another window
+    update(entry, 'committed');
+    entry.timer = setTimeout(() => finish(entry), windowMs);
+  };
+
+  // Keep the latest commit for the unmount flush below
+  const commitRef = useRef(commit);
+  useEffect(() => {
+    commitRef.current = commit;
+  });
+
+  // Leaving the page does not drop an action the reviewer took
+  useEffect(
+    () => () => {
+      const entry = pending.current;
+      if (entry?.action.status === 'staged') void commitRef.current(entry);
+      else clearTimeout(entry?.timer);
+    },
+    []
+  );
+
+  const stage = (options: KycStagedActionOptions) => {
+    // A second click must not send the action still waiting to be undone
+    if (pending.current?.action.status === 'staged') return;
+    // The next action ends the previous one's post-commit undo
+    if (pending.current?.action.status === 'committed') finish(pending.current);
+    if (windowMs <= 0) {
+      void options.commit();
+      return;
+    }
+
+    const entry: PendingAction = {
+      action: { id: crypto.randomUUID(), label: options.label, commitsAt: Date.now() + windowMs, status: 'staged' },
+      options,
+      timer: undefined,
+      undoRequested: false,
+    };
+    entry.timer = setTimeout(() => void commit(entry), windowMs);
+    pending.current = entry;
+    setStaged(entry.action);
+  };
+
+  const undo = () => {
+    const entry = pending.current;
+    if (!entry) return;
+    switch (entry.action.status) {
+      case 'staged':
+        entry.options.revert();
+        finish(entry);
+        return;
+      case 'committing':
+        // Compensated once the API has answered
+        entry.undoRequested = true;
+        update(entry, 'undoing');
+        return;
+      case 'committed':
+        clearTimeout(entry.timer);
+        void compensate(entry);
+        return;
+    }
+  };
+
+  return { staged, stage, undo };
+}
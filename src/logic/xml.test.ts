@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { parseXml, xmlChildren, xmlChildText } from './xml';
+
+describe('parseXml', () => {
+  it('should read elements, attributes and text', () => {
+    const root = parseXml(`<?xml version="1.0" encoding="utf-8"?>
+      <!-- exported list -->
+      <list version='2'>
+        <entry id="1"><name>Tomas Novak</name></entry>
+        <entry id="2"><name>Ivan Petrov</name><empty/></entry>
+      </list>`);
+
+    expect(root.name).toBe('list');
+    expect(root.attributes).toEqual({ version: '2' });
+    expect(xmlChildren(root, 'entry').map((entry) => entry.attributes.id)).toEqual(['1', '2']);
+    const entries = xmlChildren(root, 'entry');
+    expect(entries.map((entry) => xmlChildText(entry, 'name'))).toEqual(['Tomas Novak', 'Ivan Petrov']);
+    expect(xmlChildText(entries[1], 'empty')).toBeUndefined();
+  });
+
+  it('should decode entities and CDATA and drop namespace prefixes', () => {
+    const root = parseXml(
+      '<x:list xmlns:x="urn:test"><x:name>Smith &amp; Sons &#233;&#xE9;</x:name><note><![CDATA[a < b]]></note></x:list>'
+    );
+
+    expect(root.name).toBe('list');
+    expect(xmlChildText(root, 'name')).toBe('Smith & Sons éé');
+    expect(xmlChildText(root, 'note')).toBe('a < b');
+  });
+
+  it('should reject malformed documents with the line of the problem', () => {
+    expect(() => parseXml('<list>\n<entry></list>')).toThrow('Expected </entry> but found </list> (line 2)');
+    expect(() => parseXml('<list><entry>')).toThrow('Unclosed element <entry>');
+    expect(() => parseXml('<a/><b/>')).toThrow('More than one root element');
+    expect(() => parseXml('just text')).toThrow('Text outside the root element');
+  });
+});
@@ -0,0 +1,104 @@
+export interface XmlElement {
+  name: string; // Local name, without a namespace prefix
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string; // Text directly inside the element, entities decoded
+}
+
+const namedEntities: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, body: string) => {
+    if (body[0] !== '#') return namedEntities[body] ?? entity;
+    const code = body[1] === 'x' || body[1] === 'X' ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10);
+    return String.fromCodePoint(code);
+  });
+
+const localName = (name: string) => name.slice(name.indexOf(':') + 1);
+
+const attributePattern = /([\w:.-]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+
+/**
+ * Parses an XML document into its root element
+ * Covers what data files use: elements, attributes, text, CDATA and the predefined and numeric entities.
+ * Comments, processing instructions and the doctype are skipped; namespaces are dropped from names.
+ * Throws for malformed markup, naming the line.
+ */
+export function parseXml(source: string): XmlElement {
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+  let position = 0;
+
+  const lineAt = (index: number) => source.slice(0, index).split('\n').length;
+  const fail = (message: string, index = position): never => {
+    throw new Error(`${message} (line ${lineAt(index)})`);
+  };
+  const skipPast = (terminator: string, what: string) => {
+    const end = source.indexOf(terminator, position);
+    if (end === -1) fail(`Unterminated ${what}`);
+    const content = source.slice(position, end);
+    position = end + terminator.length;
+    return content;
+  };
+  const appendText = (text: string) => {
+    const parent = stack[stack.length - 1];
+    if (parent) parent.text += text;
+    else if (text.trim()) fail('Text outside the root element');
+  };
+
+  while (position < source.length) {
+    const tagStart = source.indexOf('<', position);
+    if (tagStart === -1) {
+      appendText(decodeEntities(source.slice(position)));
+      break;
+    }
+    appendText(decodeEntities(source.slice(position, tagStart)));
+    position = tagStart;
+
+    if (source.startsWith('<!--', position)) {
+      skipPast('-->', 'comment');
+    } else if (source.startsWith('<![CDATA[', position)) {
+      position += '<![CDATA['.length;
+      appendText(skipPast(']]>', 'CDATA section'));
+    } else if (source.startsWith('<?', position) || source.startsWith('<!', position)) {
+      skipPast('>', 'declaration');
+    } else if (source.startsWith('</', position)) {
+      position += 2;
+      const name = localName(skipPast('>', 'closing tag').trim());
+      const element = stack.pop();
+      if (!element) fail(`Unexpected closing tag </${name}>`, tagStart);
+      else if (element.name !== name) fail(`Expected </${element.name}> but found </${name}>`, tagStart);
+    } else {
+      position += 1;
+      const tag = skipPast('>', 'tag');
+      const selfClosing = tag.endsWith('/');
+      const body = selfClosing ? tag.slice(0, -1) : tag;
+      const [rawName = ''] = body.trim().split(/\s/, 1);
+      if (!rawName) fail('Missing element name', tagStart);
+
+      const attributes: Record<string, string> = {};
+      for (const match of body.slice(body.indexOf(rawName) + rawName.length).matchAll(attributePattern)) {
+        attributes[localName(match[1])] = decodeEntities(match[3] ?? match[4]);
+      }
+      const element: XmlElement = { name: localName(rawName), attributes, children: [], text: '' };
+
+      const parent = stack[stack.length - 1];
+      if (parent) parent.children.push(element);
+      else if (root) fail('More than one root element', tagStart);
+      else root = element;
+
+      if (!selfClosing) stack.push(element);
+    }
+  }
+
+  if (stack.length > 0) fail(`Unclosed element <${stack[stack.length - 1].name}>`);
+  if (!root) fail('No root element');
+  return root as XmlElement;
+}
+
+export const xmlChildren = (element: XmlElement, name: string): XmlElement[] =>
+  element.children.filter((child) => child.name === name);
+
+// Trimmed text of the first child with that name; undefined when missing or empty
+export const xmlChildText = (element: XmlElement, name: string): string | undefined =>
+  element.children.find((child) => child.name === name)?.text.trim() || undefined;
@@ -1,5 +1,10 @@
 import type { RouteObject } from 'react-router-dom';
 import { PaymentsOpsDashboard } from './views/dashboard/PaymentsOpsDashboard';
+import { KycBacktestView } from './views/backtest/KycBacktestView';
+import { KycSimulatorView } from './views/simulator/KycSimulatorView';
+import { JurisdictionPolicyView } from './views/jurisdictions/JurisdictionPolicyView';
+import { WatchlistImportView } from './views/watchlists/WatchlistImportView';
+import { KycReviewQueueView } from './views/queue/KycReviewQueueView';
 
 export const routes: RouteObject[] = [
   {
@@ -14,5 +19,25 @@ export const routes: RouteObject[] = [
     path: '/view2',
     Component: () => <PaymentsOpsDashboard view="view2" />,
   },
+  {
+    path: '/backtest',
+    Component: KycBacktestView,
+  },
+  {
+    path: '/simulator',
+    Component: KycSimulatorView,
+  },
+  {
+    path: '/jurisdictions',
+    Component: JurisdictionPolicyView,
+  },
+  {
+    path: '/watchlists',
+    Component: WatchlistImportView,
+  },
+  {
+    path: '/queue',
+    Component: KycReviewQueueView,
+  },
 ];
 
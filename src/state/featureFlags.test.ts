@@ -33,6 +33,64 @@ describe('featureFlags', () => {
   });
 
 
+  it('should default to no KYC shadow versions and allow setting them', () => {
+    const { result } = renderHook(() => useFeatureFlags());
+
+    expect(result.current.kycShadowVersions).toEqual([]);
+
+    act(() => {
+      result.current.setKycShadowVersions(['v2']);
+    });
+
+    expect(result.current.kycShadowVersions).toEqual(['v2']);
+  });
+
+  it('should default to a disabled KYC rollout and allow configuring it', () => {
+    const { result } = renderHook(() => useFeatureFlags());
+
+    expect(result.current.kycRollout.enabled).toBe(false);
+
+    act(() => {
+      result.current.setKycRollout({ ...result.current.kycRollout, enabled: true, split: [{ version: 'v3', percent: 10 }] });
+    });
+
+    expect(result.current.kycRollout.enabled).toBe(true);
+    expect(result.current.kycRollout.split).toEqual([{ version: 'v3', percent: 10 }]);
+  });
+
+  it('should default to the supplied risk score and allow switching to the computed one', () => {
+    const { result } = renderHook(() => useFeatureFlags());
+
+    expect(result.current.kycRiskScoreSource).toBe('supplied');
+
+    act(() => {
+      result.current.setKycRiskScoreSource('computed');
+    });
+
+    expect(result.current.kycRiskScoreSource).toBe('computed');
+  });
+
+  it('should default to a 5 second undo window and keep it within bounds', () => {
+    const { result } = renderHook(() => useFeatureFlags());
+
+    expect(result.current.kycUndoSeconds).toBe(5);
+
+    act(() => {
+      result.current.setKycUndoSeconds(0);
+    });
+    expect(result.current.kycUndoSeconds).toBe(0);
+
+    act(() => {
+      result.current.setKycUndoSeconds(600);
+    });
+    expect(result.current.kycUndoSeconds).toBe(60);
+
+    act(() => {
+      result.current.setKycUndoSeconds(Number.NaN);
+    });
+    expect(result.current.kycUndoSeconds).toBe(0);
+  });
+
   it('should set showComponentOutlines', () => {
     const { result } = renderHook(() => useFeatureFlags());
 
@@ -1,19 +1,42 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import { kycVersionRegistry } from '../logic/kycVersions';
+import { emptyKycRollout, type KycRollout } from '../logic/kycRollout';
+import type { KycRiskScoreSource } from '../logic/kycRiskScore';
 
 interface FeatureFlags {
-  kycVersion: 'v1' | 'v2'; // Internal - controls which KYC rules to use
+  kycVersion: string; // Internal - id of the registered KYC version to use
+  kycShadowVersions: string[]; // Candidate versions evaluated alongside the active one
+  kycRollout: KycRollout; // Staged rollout moving a share of customers off kycVersion
+  kycRiskScoreSource: KycRiskScoreSource; // Supplied customer score or the computed one
+  kycUndoSeconds: number; // Grace period before Approve and Hold are sent to the API (0: sent right away)
   showComponentOutlines: boolean;
-  setKycVersion: (version: 'v1' | 'v2') => void;
+  setKycVersion: (version: string) => void;
+  setKycShadowVersions: (versions: string[]) => void;
+  setKycRollout: (rollout: KycRollout) => void;
+  setKycRiskScoreSource: (source: KycRiskScoreSource) => void;
+  setKycUndoSeconds: (seconds: number) => void;
   setShowComponentOutlines: (show: boolean) => void;
 }
 
+// Longest undo window the panel offers, in seconds
+export const MAX_KYC_UNDO_SECONDS = 60;
+
 export const useFeatureFlags = create<FeatureFlags>()(
   persist(
     (set) => ({
-      kycVersion: 'v1',
+      kycVersion: kycVersionRegistry.defaultVersion.id,
+      kycShadowVersions: [],
+      kycRollout: emptyKycRollout,
+      kycRiskScoreSource: 'supplied',
+      kycUndoSeconds: 5,
       showComponentOutlines: false,
       setKycVersion: (version) => set({ kycVersion: version }),
+      setKycShadowVersions: (versions) => set({ kycShadowVersions: versions }),
+      setKycRollout: (rollout) => set({ kycRollout: rollout }),
+      setKycRiskScoreSource: (source) => set({ kycRiskScoreSource: source }),
+      setKycUndoSeconds: (seconds) =>
+        set({ kycUndoSeconds: Math.min(MAX_KYC_UNDO_SECONDS, Math.max(0, Math.round(seconds) || 0)) }),
       setShowComponentOutlines: (show) => set({ showComponentOutlines: show }),
     }),
     {
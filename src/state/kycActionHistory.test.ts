@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { useKycActionHistory, MAX_HISTORY_ENTRIES_PER_CUSTOMER } from './kycActionHistory';
+import type { KycDecisionRecord } from '../api/transactionsApi';
+
+const record: KycDecisionRecord = {
+  decision: 'manual_review',
+  kycVersion: 'v2',
+  riskScore: 55,
+  riskScoreSource: 'computed',
+  effectiveDate: '2025-11-03',
+  evaluatedAt: '2025-11-03T09:00:00.000Z',
+  justification: { category: 'additional_evidence', note: 'Proof of address received by email' },
+};
+
+describe('kycActionHistory', () => {
+  beforeEach(() => {
+    localStorage.removeItem('kyc-action-history-storage');
+    useKycActionHistory.setState({ entries: {} });
+  });
+
+  afterEach(() => {
+    localStorage.removeItem('kyc-action-history-storage');
+  });
+
+  it('should keep actions per customer, oldest first', () => {
+    const { recordAction } = useKycActionHistory.getState();
+    recordAction({ customerId: 'C-001', action: 'submit_approval', reviewerId: 'R-ALEX', record });
+    recordAction({ customerId: 'C-001', action: 'confirm_approval', reviewerId: 'R-SAM', record });
+    recordAction({ customerId: 'C-002', action: 'hold', reviewerId: 'R-ALEX' });
+
+    const { entries } = useKycActionHistory.getState();
+    expect(entries['C-001'].map((entry) => entry.action)).toEqual(['submit_approval', 'confirm_approval']);
+    expect(entries['C-002']).toHaveLength(1);
+    expect(entries['C-001'][0].id).not.toBe(entries['C-001'][1].id);
+  });
+
+  it('should drop the oldest entries beyond the per-customer limit', () => {
+    const { recordAction } = useKycActionHistory.getState();
+    for (let i = 0; i < MAX_HISTORY_ENTRIES_PER_CUSTOMER + 1; i++) {
+      recordAction({ customerId: 'C-001', action: i === 0 ? 'hold' : 'request_documents', reviewerId: 'R-ALEX' });
+    }
+
+    const customerEntries = useKycActionHistory.getState().entries['C-001'];
+    expect(customerEntries).toHaveLength(MAX_HISTORY_ENTRIES_PER_CUSTOMER);
+    expect(customerEntries.some((entry) => entry.action === 'hold')).toBe(false);
+  });
+
+  it('should persist the justification with the action', () => {
+    useKycActionHistory.getState().recordAction({ customerId: 'C-001', action: 'approve', reviewerId: 'R-ALEX', record });
+
+    const stored = JSON.parse(localStorage.getItem('kyc-action-history-storage') ?? '{}');
+    expect(stored.state.entries['C-001'][0].record.justification.category).toBe('additional_evidence');
+  });
+});
@@ -0,0 +1,60 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { KycDecisionRecord } from '../api/transactionsApi';
+
+export type KycHistoryAction =
+  | 'approve'
+  | 'undo_approve'
+  | 'submit_approval'
+  | 'confirm_approval'
+  | 'reject_approval'
+  | 'request_documents'
+  | 'hold'
+  | 'release_hold'
+  | 'undo_hold';
+
+export interface KycActionHistoryEntry {
+  id: string;
+  customerId: string;
+  action: KycHistoryAction;
+  reviewerId: string;
+  recordedAt: string; // ISO timestamp
+  record?: KycDecisionRecord; // Decision acted on, with the justification when one was given
+}
+
+interface KycActionHistoryState {
+  entries: Record<string, KycActionHistoryEntry[]>; // By customer id, oldest first
+  recordAction: (entry: Omit<KycActionHistoryEntry, 'id' | 'recordedAt'>) => void;
+  clear: () => void;
+}
+
+// Oldest entries of a customer are dropped beyond this size to keep localStorage bounded
+export const MAX_HISTORY_ENTRIES_PER_CUSTOMER = 100;
+
+/**
+ * KYC actions taken on each customer, by whom and why
+ * Persisted so auditors can read a customer's history later
+ */
+export const useKycActionHistory = create<KycActionHistoryState>()(
+  persist(
+    (set) => ({
+      entries: {},
+      recordAction: (entry) =>
+        set((state) => {
+          const recorded: KycActionHistoryEntry = {
+            ...entry,
+            id: crypto.randomUUID(),
+            recordedAt: new Date().toISOString(),
+          };
+          const customerEntries = [...(state.entries[entry.customerId] ?? []), recorded].slice(
+            -MAX_HISTORY_ENTRIES_PER_CUSTOMER
+          );
+          return { entries: { ...state.entries, [entry.customerId]: customerEntries } };
+        }),
+      clear: () => set({ entries: {} }),
+    }),
+    {
+      name: 'kyc-action-history-storage', // localStorage key
+    }
+  )
+);
@@ -0,0 +1,51 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { useKycApprovals } from './kycApprovals';
+import type { KycApproval } from '../api/transactionsApi';
+import { canCheckKycApproval, pendingKycApproval } from '../logic/kycFourEyes';
+
+const pending: KycApproval = {
+  id: 'A-1',
+  customerId: 'C-003',
+  status: 'pending',
+  makerId: 'R-ALEX',
+  submittedAt: '2025-11-03T09:00:00.000Z',
+};
+
+describe('kycApprovals', () => {
+  beforeEach(() => {
+    localStorage.removeItem('kyc-approvals-storage');
+    useKycApprovals.setState({ approvals: {} });
+  });
+
+  afterEach(() => {
+    localStorage.removeItem('kyc-approvals-storage');
+  });
+
+  it('should keep a pending approval until a reviewer other than its maker decides it', () => {
+    const { recordApproval } = useKycApprovals.getState();
+    recordApproval({ ...pending, status: 'rejected', checkerId: 'R-SAM', decidedAt: '2025-11-03T10:00:00.000Z' });
+    recordApproval({ ...pending, id: 'A-2' });
+
+    const waiting = pendingKycApproval(useKycApprovals.getState().approvals['C-003']);
+    expect(waiting?.id).toBe('A-2');
+    expect(canCheckKycApproval(waiting!, 'R-ALEX')).toBe(false);
+    expect(canCheckKycApproval(waiting!, 'R-SAM')).toBe(true);
+
+    recordApproval({
+      ...pending,
+      id: 'A-2',
+      status: 'confirmed',
+      checkerId: 'R-SAM',
+      decidedAt: '2025-11-03T11:00:00.000Z',
+    });
+
+    expect(pendingKycApproval(useKycApprovals.getState().approvals['C-003'])).toBeNull();
+  });
+
+  it('should persist approvals', () => {
+    useKycApprovals.getState().recordApproval(pending);
+
+    const stored = JSON.parse(localStorage.getItem('kyc-approvals-storage') ?? '{}');
+    expect(stored.state.approvals['C-003'][0].makerId).toBe('R-ALEX');
+  });
+});
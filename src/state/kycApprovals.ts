@@ -0,0 +1,28 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { KycApproval } from '../api/transactionsApi';
+import { upsertByCustomer } from './upsertByCustomer';
+
+interface KycApprovalState {
+  approvals: Record<string, KycApproval[]>; // By customer id, oldest first
+  recordApproval: (approval: KycApproval) => void;
+  clear: () => void;
+}
+
+/**
+ * Four-eyes approvals as last returned by the API
+ * Persisted so the second reviewer finds pending approvals after a reload
+ */
+export const useKycApprovals = create<KycApprovalState>()(
+  persist(
+    (set) => ({
+      approvals: {},
+      // Replaces the stored copy of an approval, or appends a new one
+      recordApproval: (approval) => set((state) => ({ approvals: upsertByCustomer(state.approvals, approval) })),
+      clear: () => set({ approvals: {} }),
+    }),
+    {
+      name: 'kyc-approvals-storage', // localStorage key
+    }
+  )
+);
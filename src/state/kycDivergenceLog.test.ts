@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { useKycDivergenceLog, divergenceLogToCsv, MAX_DIVERGENCE_ENTRIES } from './kycDivergenceLog';
+import type { KycShadowEvaluation } from '../logic/useKycEngine';
+
+const divergingEvaluation: KycShadowEvaluation = {
+  version: 'v1',
+  assignment: { version: 'v1', rule: 'disabled', bucket: null },
+  riskScore: { value: 30, source: 'supplied', breakdown: null },
+  result: {
+    decision: 'approve',
+    reasons: [{ code: 'RISK_SCORE_LOW', severity: 'info', outcome: 'approve', params: {} }],
+  },
+  shadows: [
+    {
+      version: 'v2',
+      result: {
+        decision: 'manual_review',
+        reasons: [{ code: 'PEP', severity: 'warning', outcome: 'manual_review', params: {} }],
+      },
+      diverges: true,
+    },
+  ],
+  diverged: true,
+};
+
+const input = { riskScore: 30, country: 'US', isPep: true };
+
+describe('kycDivergenceLog', () => {
+  beforeEach(() => {
+    localStorage.removeItem('kyc-divergence-log-storage');
+    useKycDivergenceLog.setState({ entries: [] });
+  });
+
+  afterEach(() => {
+    localStorage.removeItem('kyc-divergence-log-storage');
+  });
+
+  it('should record one entry per diverging shadow version', () => {
+    useKycDivergenceLog.getState().recordDivergences('C-001', input, divergingEvaluation);
+
+    const { entries } = useKycDivergenceLog.getState();
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      customerId: 'C-001',
+      input,
+      riskScore: 30,
+      riskScoreSource: 'supplied',
+      activeVersion: 'v1',
+      activeDecision: 'approve',
+      activeReasonCodes: ['RISK_SCORE_LOW'],
+      shadowVersion: 'v2',
+      shadowDecision: 'manual_review',
+      shadowReasonCodes: ['PEP'],
+    });
+  });
+
+  it('should ignore shadow results that agree with the active version', () => {
+    useKycDivergenceLog.getState().recordDivergences('C-001', input, {
+      ...divergingEvaluation,
+      shadows: [{ ...divergingEvaluation.shadows[0], diverges: false }],
+      diverged: false,
+    });
+
+    expect(useKycDivergenceLog.getState().entries).toEqual([]);
+  });
+
+  it('should not record the same observation twice', () => {
+    const { recordDivergences } = useKycDivergenceLog.getState();
+    recordDivergences('C-001', input, divergingEvaluation);
+    recordDivergences('C-001', input, divergingEvaluation);
+
+    expect(useKycDivergenceLog.getState().entries).toHaveLength(1);
+  });
+
+  it('should keep at most MAX_DIVERGENCE_ENTRIES entries', () => {
+    const { recordDivergences } = useKycDivergenceLog.getState();
+    for (let i = 0; i <= MAX_DIVERGENCE_ENTRIES; i++) {
+      recordDivergences(`C-${i}`, input, divergingEvaluation);
+    }
+
+    const { entries } = useKycDivergenceLog.getState();
+    expect(entries).toHaveLength(MAX_DIVERGENCE_ENTRIES);
+    expect(entries[0].customerId).toBe('C-1');
+  });
+
+  it('should persist entries to localStorage', () => {
+    useKycDivergenceLog.getState().recordDivergences('C-001', input, divergingEvaluation);
+
+    const stored = JSON.parse(localStorage.getItem('kyc-divergence-log-storage')!);
+    expect(stored.state.entries).toHaveLength(1);
+  });
+
+  it('should clear all entries', () => {
+    useKycDivergenceLog.getState().recordDivergences('C-001', input, divergingEvaluation);
+    useKycDivergenceLog.getState().clear();
+
+    expect(useKycDivergenceLog.getState().entries).toEqual([]);
+  });
+
+  it('should export entries as CSV', () => {
+    useKycDivergenceLog.getState().recordDivergences('C-001', input, divergingEvaluation);
+
+    const [header, row] = divergenceLogToCsv(useKycDivergenceLog.getState().entries).split('\n');
+    expect(header).toBe(
+      'recordedAt,customerId,activeVersion,activeDecision,activeReasonCodes,shadowVersion,shadowDecision,shadowReasonCodes,riskScore,riskScoreSource,input'
+    );
+    expect(row).toContain('C-001,v1,approve,RISK_SCORE_LOW,v2,manual_review,PEP,30,supplied');
+  });
+});
@@ -0,0 +1,115 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { KycDecision } from '../logic/kycRules.v1';
+import type { KycReasonCode } from '../logic/kycReasons';
+import type { KycInputWithoutVersion, KycShadowEvaluation } from '../logic/useKycEngine';
+import type { KycRiskScoreSource } from '../logic/kycRiskScore';
+import { toCsv } from '../logic/csv';
+
+export interface KycDivergenceEntry {
+  id: string;
+  recordedAt: string;
+  customerId: string;
+  input: KycInputWithoutVersion;
+  riskScore: number; // Score both versions were evaluated with
+  riskScoreSource: KycRiskScoreSource;
+  activeVersion: string;
+  activeDecision: KycDecision;
+  activeReasonCodes: KycReasonCode[];
+  shadowVersion: string;
+  shadowDecision: KycDecision;
+  shadowReasonCodes: KycReasonCode[];
+}
+
+interface KycDivergenceLog {
+  entries: KycDivergenceEntry[];
+  recordDivergences: (customerId: string, input: KycInputWithoutVersion, evaluation: KycShadowEvaluation) => void;
+  clear: () => void;
+}
+
+// Oldest entries are dropped beyond this size to keep localStorage bounded
+export const MAX_DIVERGENCE_ENTRIES = 500;
+
+const isSameObservation = (a: KycDivergenceEntry, b: KycDivergenceEntry) =>
+  a.customerId === b.customerId &&
+  a.activeVersion === b.activeVersion &&
+  a.shadowVersion === b.shadowVersion &&
+  a.activeDecision === b.activeDecision &&
+  a.shadowDecision === b.shadowDecision &&
+  a.riskScoreSource === b.riskScoreSource &&
+  JSON.stringify(a.input) === JSON.stringify(b.input);
+
+/**
+ * Local log of shadow evaluations that disagreed with the active KYC version
+ * Persisted so compliance can export disagreements seen on real traffic
+ */
+export const useKycDivergenceLog = create<KycDivergenceLog>()(
+  persist(
+    (set) => ({
+      entries: [],
+      recordDivergences: (customerId, input, evaluation) =>
+        set((state) => {
+          const recordedAt = new Date().toISOString();
+          const newEntries = evaluation.shadows
+            .filter((shadow) => shadow.diverges)
+            .map<KycDivergenceEntry>((shadow) => ({
+              id: crypto.randomUUID(),
+              recordedAt,
+              customerId,
+              input,
+              riskScore: evaluation.riskScore.value,
+              riskScoreSource: evaluation.riskScore.source,
+              activeVersion: evaluation.version,
+              activeDecision: evaluation.result.decision,
+              activeReasonCodes: evaluation.result.reasons.map((reason) => reason.code),
+              shadowVersion: shadow.version,
+              shadowDecision: shadow.result.decision,
+              shadowReasonCodes: shadow.result.reasons.map((reason) => reason.code),
+            }))
+            // Re-selecting the same customer should not flood the log
+            .filter((entry) => !state.entries.some((existing) => isSameObservation(existing, entry)));
+
+          if (newEntries.length === 0) return state;
+          return { entries: [...state.entries, ...newEntries].slice(-MAX_DIVERGENCE_ENTRIES) };
+        }),
+      clear: () => set({ entries: [] }),
+    }),
+    {
+      name: 'kyc-divergence-log-storage', // localStorage key
+    }
+  )
+);
+
+/**
+ * Serializes divergence entries as CSV for export
+ */
+export function divergenceLogToCsv(entries: KycDivergenceEntry[]): string {
+  return toCsv(
+    [
+      'recordedAt',
+      'customerId',
+      'activeVersion',
+      'activeDecision',
+      'activeReasonCodes',
+      'shadowVersion',
+      'shadowDecision',
+      'shadowReasonCodes',
+      'riskScore',
+      'riskScoreSource',
+      'input',
+    ],
+    entries.map((entry) => ({
+      recordedAt: entry.recordedAt,
+      customerId: entry.customerId,
+      activeVersion: entry.activeVersion,
+      activeDecision: entry.activeDecision,
+      activeReasonCodes: entry.activeReasonCodes.join(' '),
+      shadowVersion: entry.shadowVersion,
+      shadowDecision: entry.shadowDecision,
+      shadowReasonCodes: entry.shadowReasonCodes.join(' '),
+      riskScore: entry.riskScore,
+      riskScoreSource: entry.riskScoreSource,
+      input: JSON.stringify(entry.input),
+    }))
+  );
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { useKycDocumentFiles } from './kycDocumentFiles';
+import type { KycDocumentFile } from '../api/transactionsApi';
+
+const file: KycDocumentFile = {
+  id: 'F-1',
+  customerId: 'C-003',
+  requestId: 'DR-1',
+  documentType: 'passport',
+  fileName: 'passport.jpg',
+  mimeType: 'image/jpeg',
+  size: 2048,
+  pageCount: 1,
+  checksum: 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+  uploadedBy: 'R-ALEX',
+  uploadedAt: '2025-11-03T09:00:00.000Z',
+};
+
+describe('kycDocumentFiles', () => {
+  beforeEach(() => {
+    localStorage.removeItem('kyc-document-files-storage');
+    useKycDocumentFiles.setState({ files: {} });
+  });
+
+  afterEach(() => {
+    localStorage.removeItem('kyc-document-files-storage');
+  });
+
+  it('should store a file the API answered with twice only once', () => {
+    const { recordFile } = useKycDocumentFiles.getState();
+    recordFile(file);
+    recordFile({ ...file, id: 'F-2', fileName: 'passport-back.jpg' });
+    recordFile(file);
+
+    expect(useKycDocumentFiles.getState().files['C-003'].map(({ id }) => id)).toEqual(['F-1', 'F-2']);
+  });
+
+  it('should persist the checksum with the file', () => {
+    useKycDocumentFiles.getState().recordFile(file);
+
+    const stored = JSON.parse(localStorage.getItem('kyc-document-files-storage') ?? '{}');
+    expect(stored.state.files['C-003'][0].checksum).toBe(file.checksum);
+  });
+});
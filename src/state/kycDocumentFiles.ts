@@ -0,0 +1,28 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { KycDocumentFile } from '../api/transactionsApi';
+import { upsertByCustomer } from './upsertByCustomer';
+
+interface KycDocumentFileState {
+  files: Record<string, KycDocumentFile[]>; // By customer id, oldest first
+  recordFile: (file: KycDocumentFile) => void;
+  clear: () => void;
+}
+
+/**
+ * Files uploaded as evidence, as returned by the API (content stays on the server)
+ * Persisted so the files of a customer are listed after a reload
+ */
+export const useKycDocumentFiles = create<KycDocumentFileState>()(
+  persist(
+    (set) => ({
+      files: {},
+      // A file the API answers with twice (retried response) is stored once
+      recordFile: (file) => set((state) => ({ files: upsertByCustomer(state.files, file) })),
+      clear: () => set({ files: {} }),
+    }),
+    {
+      name: 'kyc-document-files-storage', // localStorage key
+    }
+  )
+);
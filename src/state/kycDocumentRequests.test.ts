@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { useKycDocumentRequests } from './kycDocumentRequests';
+import type { KycDocumentRequest } from '../api/transactionsApi';
+import {
+  nextKycDocumentStatuses,
+  type KycDocumentType,
+  type KycRequestedDocumentStatus,
+} from '../logic/kycDocumentRequests';
+
+const request: KycDocumentRequest = {
+  id: 'DR-1',
+  customerId: 'C-003',
+  documents: [{ type: 'passport', status: 'requested', updatedBy: 'R-ALEX', updatedAt: '2025-11-03T09:00:00.000Z' }],
+  dueDate: '2025-11-17',
+  requestedBy: 'R-ALEX',
+  requestedAt: '2025-11-03T09:00:00.000Z',
+};
+
+describe('kycDocumentRequests', () => {
+  beforeEach(() => {
+    localStorage.removeItem('kyc-document-requests-storage');
+    useKycDocumentRequests.setState({ requests: {} });
+  });
+
+  afterEach(() => {
+    localStorage.removeItem('kyc-document-requests-storage');
+  });
+
+  it('should move each document of a request through its own statuses', () => {
+    const { recordRequest } = useKycDocumentRequests.getState();
+    const document = (type: KycDocumentType, status: KycRequestedDocumentStatus) => ({
+      type,
+      status,
+      updatedBy: 'R-SAM',
+      updatedAt: '2025-11-04T09:00:00.000Z',
+    });
+    recordRequest({ ...request, documents: [...request.documents, document('proof_of_address', 'requested')] });
+    recordRequest({
+      ...request,
+      documents: [document('passport', 'received'), document('proof_of_address', 'requested')],
+    });
+    recordRequest({
+      ...request,
+      documents: [document('passport', 'verified'), document('proof_of_address', 'requested')],
+    });
+
+    const [stored] = useKycDocumentRequests.getState().requests['C-003'];
+    expect(stored.documents.map(({ status }) => status)).toEqual(['verified', 'requested']);
+    expect(stored.documents.map(({ status }) => nextKycDocumentStatuses(status))).toEqual([[], ['received']]);
+  });
+
+  it('should persist requests', () => {
+    useKycDocumentRequests.getState().recordRequest(request);
+
+    const stored = JSON.parse(localStorage.getItem('kyc-document-requests-storage') ?? '{}');
+    expect(stored.state.requests['C-003'][0].dueDate).toBe('2025-11-17');
+  });
+});
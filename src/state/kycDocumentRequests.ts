@@ -0,0 +1,28 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { KycDocumentRequest } from '../api/transactionsApi';
+import { upsertByCustomer } from './upsertByCustomer';
+
+interface KycDocumentRequestState {
+  requests: Record<string, KycDocumentRequest[]>; // By customer id, oldest first
+  recordRequest: (request: KycDocumentRequest) => void;
+  clear: () => void;
+}
+
+/**
+ * Document requests as last returned by the API
+ * Persisted so reviewers can mark documents as they arrive after a reload
+ */
+export const useKycDocumentRequests = create<KycDocumentRequestState>()(
+  persist(
+    (set) => ({
+      requests: {},
+      // Replaces the stored copy of a request, or appends a new one
+      recordRequest: (request) => set((state) => ({ requests: upsertByCustomer(state.requests, request) })),
+      clear: () => set({ requests: {} }),
+    }),
+    {
+      name: 'kyc-document-requests-storage', // localStorage key
+    }
+  )
+);
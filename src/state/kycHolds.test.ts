@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { useKycHolds } from './kycHolds';
+import type { KycHold } from '../api/transactionsApi';
+import { activeKycHold, kycHoldStatus } from '../logic/kycHolds';
+
+const hold: KycHold = {
+  id: 'H-1',
+  customerId: 'C-002',
+  reason: 'sanctions_review',
+  placedBy: 'R-ALEX',
+  placedAt: '2025-11-03T09:00:00.000Z',
+  expiresAt: '2025-11-10T00:00:00.000Z',
+};
+
+describe('kycHolds', () => {
+  beforeEach(() => {
+    localStorage.removeItem('kyc-holds-storage');
+    useKycHolds.setState({ holds: {} });
+  });
+
+  afterEach(() => {
+    localStorage.removeItem('kyc-holds-storage');
+  });
+
+  it('should stop blocking the customer once a stored hold expires or is released', () => {
+    const { recordHold } = useKycHolds.getState();
+    const stored = () => useKycHolds.getState().holds['C-002'];
+    recordHold(hold);
+
+    expect(activeKycHold(stored(), Date.parse('2025-11-09T23:59:59.000Z'))?.id).toBe('H-1');
+    expect(activeKycHold(stored(), Date.parse('2025-11-10T00:00:00.000Z'))).toBeNull();
+
+    const replacement: KycHold = {
+      ...hold,
+      id: 'H-2',
+      placedAt: '2025-11-10T09:00:00.000Z',
+      expiresAt: '2025-11-17T00:00:00.000Z',
+    };
+    recordHold(replacement);
+    const now = Date.parse('2025-11-11T00:00:00.000Z');
+    expect(activeKycHold(stored(), now)?.id).toBe('H-2');
+
+    recordHold({ ...replacement, releasedBy: 'R-SAM', releasedAt: '2025-11-11T09:00:00.000Z' });
+    expect(stored().map((storedHold) => kycHoldStatus(storedHold, now))).toEqual(['expired', 'released']);
+    expect(activeKycHold(stored(), now)).toBeNull();
+  });
+
+  it('should persist holds', () => {
+    useKycHolds.getState().recordHold(hold);
+
+    const stored = JSON.parse(localStorage.getItem('kyc-holds-storage') ?? '{}');
+    expect(stored.state.holds['C-002'][0].reason).toBe('sanctions_review');
+  });
+});
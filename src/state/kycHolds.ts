@@ -0,0 +1,28 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { KycHold } from '../api/transactionsApi';
+import { upsertByCustomer } from './upsertByCustomer';
+
+interface KycHoldState {
+  holds: Record<string, KycHold[]>; // By customer id, oldest first
+  recordHold: (hold: KycHold) => void;
+  clear: () => void;
+}
+
+/**
+ * Holds as last returned by the API
+ * Persisted so a held customer still shows as held, and can be released, after a reload
+ */
+export const useKycHolds = create<KycHoldState>()(
+  persist(
+    (set) => ({
+      holds: {},
+      // Replaces the stored copy of a hold, or appends a new one
+      recordHold: (hold) => set((state) => ({ holds: upsertByCustomer(state.holds, hold) })),
+      clear: () => set({ holds: {} }),
+    }),
+    {
+      name: 'kyc-holds-storage', // localStorage key
+    }
+  )
+);
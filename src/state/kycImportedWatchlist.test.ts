@@ -0,0 +1,45 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { useKycImportedWatchlist } from './kycImportedWatchlist';
+import type { KycWatchlist } from '../logic/kycWatchlist';
+
+const watchlist: KycWatchlist = {
+  version: 'imported',
+  entries: [{ id: 'OFAC-1', name: 'Tomas Novak', aliases: [], list: 'sanctions', countries: ['CZ'] }],
+};
+
+describe('kycImportedWatchlist', () => {
+  beforeEach(() => {
+    localStorage.removeItem('kyc-imported-watchlist-storage');
+    useKycImportedWatchlist.setState({ watchlist: null, importedAt: null });
+  });
+
+  afterEach(() => {
+    localStorage.removeItem('kyc-imported-watchlist-storage');
+  });
+
+  it('should start without an imported watchlist', () => {
+    expect(useKycImportedWatchlist.getState().watchlist).toBeNull();
+  });
+
+  it('should keep the imported watchlist and when it was imported', () => {
+    useKycImportedWatchlist.getState().activate(watchlist);
+
+    const state = useKycImportedWatchlist.getState();
+    expect(state.watchlist).toEqual(watchlist);
+    expect(Date.parse(state.importedAt ?? '')).not.toBeNaN();
+  });
+
+  it('should persist the imported watchlist', () => {
+    useKycImportedWatchlist.getState().activate(watchlist);
+
+    const stored = JSON.parse(localStorage.getItem('kyc-imported-watchlist-storage') ?? '{}');
+    expect(stored.state.watchlist.version).toBe('imported');
+  });
+
+  it('should go back to the bundled watchlist on reset', () => {
+    useKycImportedWatchlist.getState().activate(watchlist);
+    useKycImportedWatchlist.getState().reset();
+
+    expect(useKycImportedWatchlist.getState()).toMatchObject({ watchlist: null, importedAt: null });
+  });
+});
@@ -0,0 +1,28 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { KycWatchlist } from '../logic/kycWatchlist';
+
+interface KycImportedWatchlistState {
+  watchlist: KycWatchlist | null; // Screened against instead of the bundled list when set
+  importedAt: string | null; // ISO timestamp
+  activate: (watchlist: KycWatchlist) => void;
+  reset: () => void;
+}
+
+/**
+ * Watchlist imported on the upload screen
+ * Persisted so screening keeps using it after a reload; reset returns to watchlists/local.json
+ */
+export const useKycImportedWatchlist = create<KycImportedWatchlistState>()(
+  persist(
+    (set) => ({
+      watchlist: null,
+      importedAt: null,
+      activate: (watchlist) => set({ watchlist, importedAt: new Date().toISOString() }),
+      reset: () => set({ watchlist: null, importedAt: null }),
+    }),
+    {
+      name: 'kyc-imported-watchlist-storage', // localStorage key
+    }
+  )
+);
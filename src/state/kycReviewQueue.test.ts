@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { useKycReviewQueueEntries } from './kycReviewQueue';
+
+describe('kycReviewQueue', () => {
+  beforeEach(() => {
+    localStorage.removeItem('kyc-review-queue-storage');
+    useKycReviewQueueEntries.setState({ entries: {} });
+    useKycReviewQueueEntries.getState().syncQueue({ 'C-003': 'deny', 'C-009': 'manual_review' });
+  });
+
+  afterEach(() => {
+    localStorage.removeItem('kyc-review-queue-storage');
+  });
+
+  it('should record when customers enter the queue', () => {
+    const { entries } = useKycReviewQueueEntries.getState();
+
+    expect(Object.keys(entries)).toEqual(['C-003', 'C-009']);
+    expect(entries['C-003'].decision).toBe('deny');
+    expect(Date.parse(entries['C-003'].enteredAt)).not.toBeNaN();
+  });
+
+  it('should not let a second reviewer take over a claim', () => {
+    const { claim } = useKycReviewQueueEntries.getState();
+    claim('C-003', 'R-ALEX');
+    claim('C-003', 'R-SAM');
+
+    expect(useKycReviewQueueEntries.getState().entries['C-003'].claim?.reviewerId).toBe('R-ALEX');
+  });
+
+  it('should only let the owner release a claim', () => {
+    const { claim, release } = useKycReviewQueueEntries.getState();
+    claim('C-003', 'R-ALEX');
+    release('C-003', 'R-SAM');
+    expect(useKycReviewQueueEntries.getState().entries['C-003'].claim?.reviewerId).toBe('R-ALEX');
+
+    release('C-003', 'R-ALEX');
+    expect(useKycReviewQueueEntries.getState().entries['C-003'].claim).toBeUndefined();
+  });
+
+  it('should ignore claims on customers not in the queue', () => {
+    useKycReviewQueueEntries.getState().claim('C-001', 'R-ALEX');
+
+    expect(useKycReviewQueueEntries.getState().entries['C-001']).toBeUndefined();
+  });
+
+  it('should persist entries and claims', () => {
+    useKycReviewQueueEntries.getState().claim('C-009', 'R-SAM');
+
+    const stored = JSON.parse(localStorage.getItem('kyc-review-queue-storage') ?? '{}');
+    expect(stored.state.entries['C-009'].claim.reviewerId).toBe('R-SAM');
+  });
+});
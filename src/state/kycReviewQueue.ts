@@ -0,0 +1,52 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import {
+  syncKycReviewQueueEntries,
+  type KycReviewQueueDecision,
+  type KycReviewQueueEntry,
+} from '../logic/kycReviewQueue';
+
+interface KycReviewQueueState {
+  entries: Record<string, KycReviewQueueEntry>; // By customer id
+  syncQueue: (decisions: Record<string, KycReviewQueueDecision>) => void;
+  claim: (customerId: string, reviewerId: string) => void;
+  release: (customerId: string, reviewerId: string) => void;
+  clear: () => void;
+}
+
+/**
+ * When each customer entered the manual review queue and who has claimed it
+ * Persisted so SLAs keep counting and claims survive reloads.
+ * A claim can only be taken over once its owner releases it.
+ */
+export const useKycReviewQueueEntries = create<KycReviewQueueState>()(
+  persist(
+    (set) => ({
+      entries: {},
+      syncQueue: (decisions) =>
+        set((state) => {
+          const entries = syncKycReviewQueueEntries(state.entries, decisions);
+          return entries === state.entries ? state : { entries };
+        }),
+      claim: (customerId, reviewerId) =>
+        set((state) => {
+          const entry = state.entries[customerId];
+          if (!entry || entry.claim) return state;
+          const claim = { reviewerId, claimedAt: new Date().toISOString() };
+          return { entries: { ...state.entries, [customerId]: { ...entry, claim } } };
+        }),
+      release: (customerId, reviewerId) =>
+        set((state) => {
+          const entry = state.entries[customerId];
+          if (entry?.claim?.reviewerId !== reviewerId) return state;
+          const unclaimed = { ...entry };
+          delete unclaimed.claim;
+          return { entries: { ...state.entries, [customerId]: unclaimed } };
+        }),
+      clear: () => set({ entries: {} }),
+    }),
+    {
+      name: 'kyc-review-queue-storage', // localStorage key
+    }
+  )
+);
@@ -0,0 +1,26 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { useKycReviewer } from './kycReviewer';
+import { kycReviewers } from '../logic/kycReviewers';
+
+describe('kycReviewer', () => {
+  beforeEach(() => {
+    localStorage.removeItem('kyc-reviewer-storage');
+    useKycReviewer.setState({ reviewerId: kycReviewers[0].id });
+  });
+
+  afterEach(() => {
+    localStorage.removeItem('kyc-reviewer-storage');
+  });
+
+  it('should start as the first reviewer on the roster', () => {
+    expect(useKycReviewer.getState().reviewerId).toBe('R-ALEX');
+  });
+
+  it('should switch and persist the reviewer', () => {
+    useKycReviewer.getState().setReviewer('R-SAM');
+
+    expect(useKycReviewer.getState().reviewerId).toBe('R-SAM');
+    const stored = JSON.parse(localStorage.getItem('kyc-reviewer-storage') ?? '{}');
+    expect(stored.state.reviewerId).toBe('R-SAM');
+  });
+});
@@ -0,0 +1,24 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { kycReviewers } from '../logic/kycReviewers';
+
+interface KycReviewerState {
+  reviewerId: string; // Reviewer claims and actions are recorded for
+  setReviewer: (reviewerId: string) => void;
+}
+
+/**
+ * Reviewer working in this browser
+ * Persisted so claims keep their owner across reloads
+ */
+export const useKycReviewer = create<KycReviewerState>()(
+  persist(
+    (set) => ({
+      reviewerId: kycReviewers[0].id,
+      setReviewer: (reviewerId) => set({ reviewerId }),
+    }),
+    {
+      name: 'kyc-reviewer-storage', // localStorage key
+    }
+  )
+);
@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { useKycScreeningReviews } from './kycScreeningReviews';
+
+describe('kycScreeningReviews', () => {
+  beforeEach(() => {
+    localStorage.removeItem('kyc-screening-reviews-storage');
+    useKycScreeningReviews.setState({ reviews: {} });
+  });
+
+  afterEach(() => {
+    localStorage.removeItem('kyc-screening-reviews-storage');
+  });
+
+  it('should record a review per customer and watchlist entry', () => {
+    const { reviewHit } = useKycScreeningReviews.getState();
+    reviewHit('C-025', 'SAN-001', 'confirmed');
+    reviewHit('C-025', 'PEP-003', 'dismissed');
+    reviewHit('C-009', 'PEP-003', 'confirmed');
+
+    const { reviews } = useKycScreeningReviews.getState();
+    expect(reviews['C-025']['SAN-001'].status).toBe('confirmed');
+    expect(reviews['C-025']['PEP-003'].status).toBe('dismissed');
+    expect(reviews['C-009']['PEP-003'].status).toBe('confirmed');
+    expect(Date.parse(reviews['C-025']['SAN-001'].reviewedAt)).not.toBeNaN();
+  });
+
+  it('should replace an earlier review of the same hit', () => {
+    const { reviewHit } = useKycScreeningReviews.getState();
+    reviewHit('C-025', 'SAN-001', 'confirmed');
+    reviewHit('C-025', 'SAN-001', 'dismissed');
+
+    expect(useKycScreeningReviews.getState().reviews['C-025']['SAN-001'].status).toBe('dismissed');
+  });
+
+  it('should reopen a reviewed hit', () => {
+    const { reviewHit, reopenHit } = useKycScreeningReviews.getState();
+    reviewHit('C-025', 'SAN-001', 'confirmed');
+    reviewHit('C-025', 'PEP-003', 'dismissed');
+    reopenHit('C-025', 'SAN-001');
+
+    expect(useKycScreeningReviews.getState().reviews['C-025']).toEqual({
+      'PEP-003': expect.objectContaining({ status: 'dismissed' }),
+    });
+  });
+
+  it('should persist reviews to localStorage', () => {
+    useKycScreeningReviews.getState().reviewHit('C-025', 'SAN-001', 'confirmed');
+
+    const stored = JSON.parse(localStorage.getItem('kyc-screening-reviews-storage')!);
+    expect(stored.state.reviews['C-025']['SAN-001'].status).toBe('confirmed');
+  });
+});
@@ -0,0 +1,40 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type {
+  KycScreeningReview,
+  KycScreeningReviews,
+  KycScreeningReviewStatus,
+} from '../logic/kycScreening';
+
+interface KycScreeningReviewState {
+  reviews: Record<string, KycScreeningReviews>; // By customer id, then watchlist entry id
+  reviewHit: (customerId: string, entryId: string, status: KycScreeningReviewStatus) => void;
+  reopenHit: (customerId: string, entryId: string) => void;
+  clear: () => void;
+}
+
+/**
+ * Reviewer decisions on screening hits
+ * Persisted so a confirmed or dismissed hit stays decided across sessions
+ */
+export const useKycScreeningReviews = create<KycScreeningReviewState>()(
+  persist(
+    (set) => ({
+      reviews: {},
+      reviewHit: (customerId, entryId, status) =>
+        set((state) => {
+          const review: KycScreeningReview = { status, reviewedAt: new Date().toISOString() };
+          return { reviews: { ...state.reviews, [customerId]: { ...state.reviews[customerId], [entryId]: review } } };
+        }),
+      reopenHit: (customerId, entryId) =>
+        set((state) => {
+          const remaining = Object.entries(state.reviews[customerId] ?? {}).filter(([id]) => id !== entryId);
+          return { reviews: { ...state.reviews, [customerId]: Object.fromEntries(remaining) } };
+        }),
+      clear: () => set({ reviews: {} }),
+    }),
+    {
+      name: 'kyc-screening-reviews-storage', // localStorage key
+    }
+  )
+);
@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { upsertByCustomer } from './upsertByCustomer';
+
+describe('upsertByCustomer', () => {
+  it('should append new items per customer and replace stored copies in place', () => {
+    const first = { id: 'X-1', customerId: 'C-001', version: 1 };
+    const stored = { 'C-001': [first], 'C-002': [{ id: 'X-2', customerId: 'C-002', version: 1 }] };
+
+    const appended = upsertByCustomer(stored, { id: 'X-3', customerId: 'C-001', version: 1 });
+    const replaced = upsertByCustomer(appended, { ...first, version: 2 });
+
+    expect(replaced['C-001']).toEqual([
+      { id: 'X-1', customerId: 'C-001', version: 2 },
+      { id: 'X-3', customerId: 'C-001', version: 1 },
+    ]);
+    expect(replaced['C-002']).toBe(stored['C-002']);
+    expect(stored['C-001']).toEqual([first]);
+  });
+});
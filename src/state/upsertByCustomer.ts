@@ -0,0 +1,14 @@
+/**
+ * Replaces the stored copy of an item (matched by id) in its customer's list, or appends it
+ * Returns a new record; lists stay oldest first
+ */
+export function upsertByCustomer<T extends { id: string; customerId: string }>(
+  byCustomer: Record<string, T[]>,
+  item: T
+): Record<string, T[]> {
+  const current = byCustomer[item.customerId] ?? [];
+  const updated = current.some((stored) => stored.id === item.id)
+    ? current.map((stored) => (stored.id === item.id ? item : stored))
+    : [...current, item];
+  return { ...byCustomer, [item.customerId]: updated };
+}
@@ -0,0 +1,222 @@
+import type { KycDecision } from '../logic/kycRules.v1';
+import type { KycVersionDefinition, KycVersionInput } from '../logic/kycVersionRegistry';
+import { kycDocumentStatusSchema } from '../logic/kycDocumentStatus';
+import { jurisdictionPolicy, type JurisdictionPolicy } from '../logic/jurisdictionPolicy';
+
+/**
+ * Generator-driven invariant harness for KYC versions
+ *
+ * Usage in tests:
+ * ```ts
+ * expect(checkKycInvariants(kycVersionRegistry.resolve('v2'))).toEqual([]);
+ * expect(checkKycStrictness(v1, v2)).toEqual([]);
+ * ```
+ * Inputs come from a seeded generator, so a reported violation can be
+ * reproduced by re-running with the same seed.
+ */
+
+export type KycRandom = () => number; // Uniform in [0, 1)
+
+export interface KycInvariantViolation {
+  invariant: string;
+  message: string;
+  input: KycVersionInput;
+  seed: number;
+}
+
+export interface KycInvariant {
+  id: string;
+  description: string;
+  // Returns a message describing the violation, or null when the property holds
+  check: (version: KycVersionDefinition, input: KycVersionInput, context: KycInvariantContext) => string | null;
+}
+
+export interface KycInvariantContext {
+  random: KycRandom;
+  policy: JurisdictionPolicy;
+}
+
+export interface KycInvariantOptions {
+  runs?: number;
+  seed?: number;
+  invariants?: KycInvariant[];
+  policy?: JurisdictionPolicy;
+}
+
+const decisionRank: Record<KycDecision, number> = {
+  approve: 0,
+  manual_review: 1,
+  deny: 2,
+};
+
+/**
+ * Small seeded PRNG (mulberry32) - deterministic across runs and machines
+ */
+export function createKycRandom(seed: number): KycRandom {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const randomInt = (random: KycRandom, min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+const pick = <T>(random: KycRandom, values: readonly T[]): T => values[Math.floor(random() * values.length)];
+const maybe = <T>(random: KycRandom, value: () => T): T | undefined => (random() < 0.2 ? undefined : value());
+
+// Countries without any policy entry, mixed in so most inputs are ordinary
+const ordinaryCountries = ['US', 'GB', 'DE', 'FR', 'JP', 'BR', 'IN', 'CA', 'AU', 'SG'];
+
+// Every country the policy treats specially, plus ordinary ones
+function countryPool(policy: JurisdictionPolicy): string[] {
+  return [
+    ...new Set([
+      ...policy.restrictedCountries,
+      ...policy.enhancedDueDiligenceCountries,
+      ...policy.regions.flatMap((region) => region.countries),
+      ...policy.countries.map((entry) => entry.country),
+      ...ordinaryCountries,
+    ]),
+  ];
+}
+
+// Numbers just around every threshold a version compares a field against
+function boundaryValues(version: KycVersionDefinition, field: string): number[] {
+  const conditions = version.ruleset
+    ? [...version.ruleset.rules.flatMap((rule) => rule.when), ...version.ruleset.fallback.when]
+    : [];
+  return conditions.flatMap((condition) =>
+    condition.field === field && 'value' in condition && typeof condition.value === 'number'
+      ? [condition.value - 1, condition.value, condition.value + 1].filter((value) => value >= 0)
+      : []
+  );
+}
+
+// Half the time a boundary value, otherwise uniform in [min, max]
+function numberFor(random: KycRandom, version: KycVersionDefinition, field: string, min: number, max: number) {
+  const boundaries = boundaryValues(version, field);
+  return boundaries.length > 0 && random() < 0.5 ? pick(random, boundaries) : randomInt(random, min, max);
+}
+
+/**
+ * Random input covering every field any version reads
+ */
+export function generateKycInput(
+  random: KycRandom,
+  version: KycVersionDefinition,
+  policy: JurisdictionPolicy = jurisdictionPolicy
+): KycVersionInput {
+  return {
+    riskScore: Math.min(100, numberFor(random, version, 'riskScore', 0, 100)),
+    country: pick(random, countryPool(policy)),
+    isPep: maybe(random, () => random() < 0.2),
+    sanctionsList: maybe(random, () => random() < 0.1),
+    amount: maybe(random, () => numberFor(random, version, 'amount', 0, 200000)),
+    velocity: maybe(random, () => numberFor(random, version, 'velocity', 0, 20)),
+    documentStatus: maybe(random, () => pick(random, kycDocumentStatusSchema.options)),
+    accountAgeDays: maybe(random, () => numberFor(random, version, 'accountAgeDays', 0, 2000)),
+    adverseMediaHits: maybe(random, () => numberFor(random, version, 'adverseMediaHits', 0, 5)),
+    nationalityMismatch: maybe(random, () => random() < 0.2),
+    sourceOfFundsDeclared: maybe(random, () => random() < 0.8),
+  };
+}
+
+const evaluate = (version: KycVersionDefinition, input: KycVersionInput, policy: JurisdictionPolicy) =>
+  version.evaluate(input, { jurisdictionPolicy: policy });
+
+export const kycInvariants: KycInvariant[] = [
+  {
+    id: 'reasons-never-empty',
+    description: 'Every decision comes with at least one reason',
+    check: (version, input, { policy }) =>
+      evaluate(version, input, policy).reasons.length === 0 ? 'decision has no reasons' : null,
+  },
+  {
+    id: 'risk-score-monotonic',
+    description: 'Raising the risk score never makes the decision more lenient',
+    check: (version, input, { random, policy }) => {
+      if (input.riskScore >= 100) return null;
+      const higher = { ...input, riskScore: randomInt(random, input.riskScore + 1, 100) };
+      const before = evaluate(version, input, policy).decision;
+      const after = evaluate(version, higher, policy).decision;
+      return decisionRank[after] < decisionRank[before]
+        ? `risk score ${input.riskScore} -> ${higher.riskScore} changed ${before} to ${after}`
+        : null;
+    },
+  },
+  {
+    id: 'sanctions-deny',
+    description: 'A sanctions hit is always denied',
+    check: (version, input, { policy }) => {
+      const decision = evaluate(version, { ...input, sanctionsList: true }, policy).decision;
+      return decision === 'deny' ? null : `sanctions hit decided ${decision}`;
+    },
+  },
+  {
+    id: 'restricted-country-deny',
+    description: 'Customers from restricted countries are always denied',
+    check: (version, input, { random, policy }) => {
+      if (policy.restrictedCountries.length === 0) return null;
+      const country = pick(random, policy.restrictedCountries);
+      const decision = evaluate(version, { ...input, country }, policy).decision;
+      return decision === 'deny' ? null : `restricted country ${country} decided ${decision}`;
+    },
+  },
+];
+
+/**
+ * Runs every invariant against `runs` generated inputs and returns the violations
+ * (at most one per invariant - the first input that broke it)
+ */
+export function checkKycInvariants(
+  version: KycVersionDefinition,
+  { runs = 1000, seed = 1, invariants = kycInvariants, policy = jurisdictionPolicy }: KycInvariantOptions = {}
+): KycInvariantViolation[] {
+  const random = createKycRandom(seed);
+  const violations: KycInvariantViolation[] = [];
+  const broken = new Set<string>();
+
+  for (let run = 0; run < runs; run++) {
+    const input = generateKycInput(random, version, policy);
+    for (const invariant of invariants) {
+      if (broken.has(invariant.id)) continue;
+      const message = invariant.check(version, input, { random, policy });
+      if (message) {
+        broken.add(invariant.id);
+        violations.push({ invariant: invariant.id, message: `${version.id}: ${message}`, input, seed });
+      }
+    }
+  }
+  return violations;
+}
+
+/**
+ * Checks that `candidate` never decides more leniently than `baseline` on the same input
+ */
+export function checkKycStrictness(
+  baseline: KycVersionDefinition,
+  candidate: KycVersionDefinition,
+  { runs = 1000, seed = 1, policy = jurisdictionPolicy }: Omit<KycInvariantOptions, 'invariants'> = {}
+): KycInvariantViolation[] {
+  const random = createKycRandom(seed);
+  for (let run = 0; run < runs; run++) {
+    // Boundaries of both versions are worth probing
+    const input = generateKycInput(random, random() < 0.5 ? baseline : candidate, policy);
+    const before = evaluate(baseline, input, policy).decision;
+    const after = evaluate(candidate, input, policy).decision;
+    if (decisionRank[after] < decisionRank[before]) {
+      return [
+        {
+          invariant: 'never-more-lenient',
+          message: `${candidate.id} decided ${after} where ${baseline.id} decided ${before}`,
+          input,
+          seed,
+        },
+      ];
+    }
+  }
+  return [];
+}
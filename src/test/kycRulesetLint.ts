@@ -0,0 +1,19 @@
+import { expect } from 'vitest';
+import type { KycRuleset } from '../logic/kycRuleEngine';
+import { lintKycRuleset, type KycLintOptions } from '../logic/kycRulesetLint';
+
+/**
+ * Fails the current test if the ruleset has a rule that can never fire
+ *
+ * Usage in tests:
+ * ```ts
+ * expectNoDeadKycRules(kycRulesV3);
+ * ```
+ */
+export function expectNoDeadKycRules(ruleset: KycRuleset, options?: KycLintOptions) {
+  const deadRules = lintKycRuleset(ruleset, options)
+    .filter((finding) => finding.kind === 'dead_rule')
+    .map((finding) => finding.message);
+
+  expect(deadRules, `${ruleset.version} has dead rules`).toEqual([]);
+}
@@ -0,0 +1,24 @@
+import type { KycWatchlistFile } from '../logic/kycWatchlistImport';
+import manifest from './fixtures/watchlists/manifest.json';
+
+// Raw text of the list files next to the manifest, by path relative to this module
+const fixtureFiles = import.meta.glob<string>('./fixtures/watchlists/*.{csv,xml}', {
+  query: '?raw',
+  import: 'default',
+  eager: true,
+});
+
+// Manifest scripts/build-kyc-watchlist.js rebuilds the fixture watchlist from
+export const kycWatchlistFixtureManifest: unknown = manifest;
+
+/**
+ * Reads a watchlist fixture by its name in the manifest, e.g. "sdn.csv"
+ * Throws for unknown names so a typo does not look like an empty list.
+ */
+export function readKycWatchlistFixture(name: string): string {
+  const text = fixtureFiles[`./fixtures/watchlists/${name}`];
+  if (text === undefined) throw new Error(`Unknown watchlist fixture: ${name}`);
+  return text;
+}
+
+export const kycWatchlistFixture = (name: string): KycWatchlistFile => ({ name, text: readKycWatchlistFixture(name) });
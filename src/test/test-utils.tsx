@@ -3,7 +3,97 @@ import { render, type RenderOptions } from '@testing-library/react';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { setupServer } from 'msw/node';
 import { http, HttpResponse } from 'msw';
-import type { TransactionsResponse, Transaction } from '../api/transactionsApi';
+import type {
+  TransactionsResponse,
+  Transaction,
+  KycDecisionRecord,
+  KycApproval,
+  KycDocumentRequest,
+  KycDocumentFile,
+  KycHold,
+} from '../api/transactionsApi';
+import {
+  canMoveKycDocumentStatus,
+  type KycDocumentType,
+  type KycRequestedDocumentStatus,
+} from '../logic/kycDocumentRequests';
+import { countKycDocumentPages, kycDocumentChecksum } from '../logic/kycDocumentFiles';
+import { activeKycHold, kycHoldStatus } from '../logic/kycHolds';
+
+// KYC actions may carry the decision record as a JSON body
+async function readKycDecisionRecord(request: Request): Promise<KycDecisionRecord | null> {
+  const text = await request.text();
+  return text ? (JSON.parse(text) as KycDecisionRecord) : null;
+}
+
+// Approvals submitted to the mock API, by id
+const mockKycApprovals = new Map<string, KycApproval>();
+
+/**
+ * Forgets the approvals submitted to the mock API
+ * Call between tests that submit approvals for the same customer
+ */
+export function clearMockKycApprovals() {
+  mockKycApprovals.clear();
+}
+
+// Document requests made to the mock API, by id
+const mockKycDocumentRequests = new Map<string, KycDocumentRequest>();
+
+/**
+ * Forgets the document requests made to the mock API
+ */
+export function clearMockKycDocumentRequests() {
+  mockKycDocumentRequests.clear();
+}
+
+// Files uploaded to the mock API with their content, by id
+const mockKycDocumentFiles = new Map<string, { file: KycDocumentFile; content: ArrayBuffer }>();
+
+/**
+ * Forgets the files uploaded to the mock API
+ */
+export function clearMockKycDocumentFiles() {
+  mockKycDocumentFiles.clear();
+}
+
+// Holds placed through the mock API, by id
+const mockKycHolds = new Map<string, KycHold>();
+
+/**
+ * Forgets the holds placed through the mock API
+ */
+export function clearMockKycHolds() {
+  mockKycHolds.clear();
+}
+
+const activeMockKycHold = (customerId: string) =>
+  activeKycHold([...mockKycHolds.values()].filter((hold) => hold.customerId === customerId));
+
+// Confirm and reject share the checks on the approval and its second reviewer
+async function decideMockKycApproval(
+  approvalId: string,
+  request: Request,
+  status: 'confirmed' | 'rejected'
+) {
+  const { checkerId } = (await request.json()) as { checkerId: string };
+  const approval = mockKycApprovals.get(approvalId);
+  if (!approval) {
+    return HttpResponse.json({ error: `Unknown approval ${approvalId}` }, { status: 404 });
+  }
+  if (approval.status !== 'pending') {
+    return HttpResponse.json({ error: `Approval ${approvalId} is already ${approval.status}` }, { status: 409 });
+  }
+  if (approval.makerId === checkerId) {
+    return HttpResponse.json(
+      { error: 'An approval must be confirmed or rejected by a different reviewer' },
+      { status: 403 }
+    );
+  }
+  const decided: KycApproval = { ...approval, status, checkerId, decidedAt: new Date().toISOString() };
+  mockKycApprovals.set(approvalId, decided);
+  return HttpResponse.json(decided);
+}
 
 // Create a test QueryClient with shorter cache times for testing
 function createTestQueryClient() {
@@ -121,8 +211,12 @@ export const happyPathHandlers = [
       },
     ];
 
+    // Pending transactions of held customers are on hold until the hold is released or expires
+    let filtered: Transaction[] = mockTransactions.map((t) =>
+      t.status === 'pending' && activeMockKycHold(t.customerId) ? { ...t, status: 'on_hold' as const } : t
+    );
+
     // Apply filters
-    let filtered = mockTransactions;
 
     if (customerId) {
       filtered = filtered.filter((t) => t.customerId === customerId);
@@ -162,34 +256,204 @@ export const happyPathHandlers = [
   }),
 
   // POST /api/kyc/approve/:customerId - Approve KYC decision
-  http.post('*/api/kyc/approve/:customerId', async ({ params }) => {
+  http.post('*/api/kyc/approve/:customerId', async ({ params, request }) => {
     const { customerId } = params;
+    const record = await readKycDecisionRecord(request);
     return HttpResponse.json({ 
       success: true, 
       customerId,
+      record,
       message: `KYC approved for customer ${customerId}` 
     });
   }),
 
-  // POST /api/kyc/request-documents/:customerId - Request KYC documents
-  http.post('*/api/kyc/request-documents/:customerId', async ({ params }) => {
+  // POST /api/kyc/approve/:customerId/revert - Revert an approval undone after it was sent
+  http.post('*/api/kyc/approve/:customerId/revert', async ({ params, request }) => {
     const { customerId } = params;
-    return HttpResponse.json({ 
-      success: true, 
+    const { reviewerId } = (await request.json()) as { reviewerId: string };
+    return HttpResponse.json({
+      success: true,
       customerId,
-      message: `Documents requested for customer ${customerId}` 
+      reviewerId,
+      message: `KYC approval reverted for customer ${customerId}`,
     });
   }),
 
-  // POST /api/kyc/hold/:customerId - Hold KYC decision
-  http.post('*/api/kyc/hold/:customerId', async ({ params }) => {
-    const { customerId } = params;
-    return HttpResponse.json({ 
-      success: true, 
+  // POST /api/kyc/request-documents/:customerId - Request KYC documents of the given types
+  http.post('*/api/kyc/request-documents/:customerId', async ({ params, request }) => {
+    const customerId = params.customerId as string;
+    const { documentTypes, dueDate, requestedBy, record } = (await request.json()) as {
+      documentTypes: KycDocumentType[];
+      dueDate: string;
+      requestedBy: string;
+      record?: KycDecisionRecord;
+    };
+    if (!documentTypes?.length) {
+      return HttpResponse.json({ error: 'At least one document type is required' }, { status: 400 });
+    }
+    const requestedAt = new Date().toISOString();
+    const documentRequest: KycDocumentRequest = {
+      id: `DR-${mockKycDocumentRequests.size + 1}`,
       customerId,
-      message: `KYC decision held for customer ${customerId}` 
-    });
+      documents: documentTypes.map((type) => ({
+        type,
+        status: 'requested',
+        updatedBy: requestedBy,
+        updatedAt: requestedAt,
+      })),
+      dueDate,
+      requestedBy,
+      requestedAt,
+      record,
+    };
+    mockKycDocumentRequests.set(documentRequest.id, documentRequest);
+    return HttpResponse.json(documentRequest);
+  }),
+
+  // POST /api/kyc/document-requests/:requestId/documents/:documentType - Mark a requested document's status
+  http.post('*/api/kyc/document-requests/:requestId/documents/:documentType', async ({ params, request }) => {
+    const requestId = params.requestId as string;
+    const { status, reviewerId } = (await request.json()) as {
+      status: KycRequestedDocumentStatus;
+      reviewerId: string;
+    };
+    const documentRequest = mockKycDocumentRequests.get(requestId);
+    const document = documentRequest?.documents.find(({ type }) => type === params.documentType);
+    if (!documentRequest || !document) {
+      return HttpResponse.json(
+        { error: `Unknown document ${params.documentType} in request ${requestId}` },
+        { status: 404 }
+      );
+    }
+    if (!canMoveKycDocumentStatus(document.status, status)) {
+      return HttpResponse.json(
+        { error: `Document ${document.type} is ${document.status} and cannot be marked ${status}` },
+        { status: 409 }
+      );
+    }
+    const updated: KycDocumentRequest = {
+      ...documentRequest,
+      documents: documentRequest.documents.map((stored) =>
+        stored === document ? { ...stored, status, updatedBy: reviewerId, updatedAt: new Date().toISOString() } : stored
+      ),
+    };
+    mockKycDocumentRequests.set(requestId, updated);
+    return HttpResponse.json(updated);
+  }),
+
+  // POST /api/kyc/documents - Upload a file for a requested document (raw content, metadata in the query)
+  http.post('*/api/kyc/documents', async ({ request }) => {
+    const query = new URL(request.url).searchParams;
+    const content = await request.arrayBuffer();
+    const mimeType = request.headers.get('Content-Type') ?? '';
+    const checksum = await kycDocumentChecksum(content);
+    if (checksum !== request.headers.get('X-Content-SHA256')) {
+      return HttpResponse.json({ error: 'Checksum mismatch: the file was altered in transit' }, { status: 422 });
+    }
+    const file: KycDocumentFile = {
+      id: `F-${mockKycDocumentFiles.size + 1}`,
+      customerId: query.get('customerId') ?? '',
+      requestId: query.get('requestId') ?? '',
+      documentType: query.get('documentType') as KycDocumentType,
+      fileName: query.get('fileName') ?? '',
+      mimeType,
+      size: content.byteLength,
+      pageCount: countKycDocumentPages(content, mimeType),
+      checksum,
+      uploadedBy: query.get('uploadedBy') ?? '',
+      uploadedAt: new Date().toISOString(),
+    };
+    mockKycDocumentFiles.set(file.id, { file, content });
+    return HttpResponse.json(file);
+  }),
+
+  // GET /api/kyc/documents/:fileId/content - Content of an uploaded file
+  http.get('*/api/kyc/documents/:fileId/content', ({ params }) => {
+    const stored = mockKycDocumentFiles.get(params.fileId as string);
+    if (!stored) {
+      return HttpResponse.json({ error: `Unknown document ${params.fileId}` }, { status: 404 });
+    }
+    return HttpResponse.arrayBuffer(stored.content, { headers: { 'Content-Type': stored.file.mimeType } });
+  }),
+
+  // POST /api/kyc/hold/:customerId - Hold a customer's pending transactions
+  http.post('*/api/kyc/hold/:customerId', async ({ params, request }) => {
+    const customerId = params.customerId as string;
+    const { reason, note, expiresAt, placedBy, record } = (await request.json()) as Pick<
+      KycHold,
+      'reason' | 'note' | 'expiresAt' | 'placedBy' | 'record'
+    >;
+    if (activeMockKycHold(customerId)) {
+      return HttpResponse.json({ error: `Customer ${customerId} is already on hold` }, { status: 409 });
+    }
+    if (!expiresAt || Date.parse(expiresAt) <= Date.now()) {
+      return HttpResponse.json({ error: 'A hold needs an expiry in the future' }, { status: 400 });
+    }
+    const hold: KycHold = {
+      id: `H-${mockKycHolds.size + 1}`,
+      customerId,
+      reason,
+      ...(note && { note }),
+      placedBy,
+      placedAt: new Date().toISOString(),
+      expiresAt,
+      record,
+    };
+    mockKycHolds.set(hold.id, hold);
+    return HttpResponse.json(hold);
   }),
+
+  // POST /api/kyc/holds/:holdId/release - Release a hold before it expires
+  http.post('*/api/kyc/holds/:holdId/release', async ({ params, request }) => {
+    const holdId = params.holdId as string;
+    const { reviewerId } = (await request.json()) as { reviewerId: string };
+    const hold = mockKycHolds.get(holdId);
+    if (!hold) {
+      return HttpResponse.json({ error: `Unknown hold ${holdId}` }, { status: 404 });
+    }
+    const status = kycHoldStatus(hold);
+    if (status !== 'active') {
+      return HttpResponse.json({ error: `Hold ${holdId} is already ${status}` }, { status: 409 });
+    }
+    const released: KycHold = { ...hold, releasedBy: reviewerId, releasedAt: new Date().toISOString() };
+    mockKycHolds.set(holdId, released);
+    return HttpResponse.json(released);
+  }),
+
+  // POST /api/kyc/approvals - Submit an approval against the engine's recommendation
+  http.post('*/api/kyc/approvals', async ({ request }) => {
+    const { customerId, makerId, record } = (await request.json()) as {
+      customerId: string;
+      makerId: string;
+      record?: KycDecisionRecord;
+    };
+    const pending = [...mockKycApprovals.values()].find(
+      (approval) => approval.customerId === customerId && approval.status === 'pending'
+    );
+    if (pending) {
+      return HttpResponse.json({ error: `An approval is already pending for customer ${customerId}` }, { status: 409 });
+    }
+    const approval: KycApproval = {
+      id: `A-${mockKycApprovals.size + 1}`,
+      customerId,
+      status: 'pending',
+      record,
+      makerId,
+      submittedAt: new Date().toISOString(),
+    };
+    mockKycApprovals.set(approval.id, approval);
+    return HttpResponse.json(approval);
+  }),
+
+  // POST /api/kyc/approvals/:approvalId/confirm - Second reviewer confirms (the customer is approved)
+  http.post('*/api/kyc/approvals/:approvalId/confirm', ({ params, request }) =>
+    decideMockKycApproval(params.approvalId as string, request, 'confirmed')
+  ),
+
+  // POST /api/kyc/approvals/:approvalId/reject - Second reviewer rejects
+  http.post('*/api/kyc/approvals/:approvalId/reject', ({ params, request }) =>
+    decideMockKycApproval(params.approvalId as string, request, 'rejected')
+  ),
 ];
 
 /**
@@ -223,6 +487,14 @@ export const approveKycFailure = http.post('*/api/kyc/approve/:customerId', () =
   );
 });
 
+// POST /api/kyc/approve/:customerId/revert - Revert fails
+export const revertKycApprovalFailure = http.post('*/api/kyc/approve/:customerId/revert', () => {
+  return HttpResponse.json(
+    { error: 'Failed to revert KYC approval' },
+    { status: 400 }
+  );
+});
+
 // POST /api/kyc/request-documents/:customerId - Request fails
 export const requestDocumentsFailure = http.post('*/api/kyc/request-documents/:customerId', () => {
   return HttpResponse.json(
@@ -231,6 +503,25 @@ export const requestDocumentsFailure = http.post('*/api/kyc/request-documents/:c
   );
 });
 
+// POST /api/kyc/document-requests/:requestId/documents/:documentType - Status update fails
+export const updateKycDocumentStatusFailure = http.post(
+  '*/api/kyc/document-requests/:requestId/documents/:documentType',
+  () => {
+    return HttpResponse.json(
+      { error: 'Failed to update document status' },
+      { status: 400 }
+    );
+  }
+);
+
+// POST /api/kyc/documents - Upload fails
+export const uploadKycDocumentFileFailure = http.post('*/api/kyc/documents', () => {
+  return HttpResponse.json(
+    { error: 'Failed to upload document' },
+    { status: 400 }
+  );
+});
+
 // POST /api/kyc/hold/:customerId - Hold fails
 export const holdKycFailure = http.post('*/api/kyc/hold/:customerId', () => {
   return HttpResponse.json(
@@ -239,6 +530,38 @@ export const holdKycFailure = http.post('*/api/kyc/hold/:customerId', () => {
   );
 });
 
+// POST /api/kyc/holds/:holdId/release - Release fails
+export const releaseKycHoldFailure = http.post('*/api/kyc/holds/:holdId/release', () => {
+  return HttpResponse.json(
+    { error: 'Failed to release KYC hold' },
+    { status: 400 }
+  );
+});
+
+// POST /api/kyc/approvals - Submission fails
+export const submitKycApprovalFailure = http.post('*/api/kyc/approvals', () => {
+  return HttpResponse.json(
+    { error: 'Failed to submit KYC approval' },
+    { status: 400 }
+  );
+});
+
+// POST /api/kyc/approvals/:approvalId/confirm - Confirmation fails
+export const confirmKycApprovalFailure = http.post('*/api/kyc/approvals/:approvalId/confirm', () => {
+  return HttpResponse.json(
+    { error: 'Failed to confirm KYC approval' },
+    { status: 400 }
+  );
+});
+
+// POST /api/kyc/approvals/:approvalId/reject - Rejection fails
+export const rejectKycApprovalFailure = http.post('*/api/kyc/approvals/:approvalId/reject', () => {
+  return HttpResponse.json(
+    { error: 'Failed to reject KYC approval' },
+    { status: 400 }
+  );
+});
+
 /**
  * All unhappy path handlers (for convenience)
  */
@@ -246,8 +569,15 @@ export const unhappyPathHandlers = [
   transactionsNetworkError,
   transactionsServerError,
   approveKycFailure,
+  revertKycApprovalFailure,
   requestDocumentsFailure,
+  updateKycDocumentStatusFailure,
+  uploadKycDocumentFileFailure,
   holdKycFailure,
+  releaseKycHoldFailure,
+  submitKycApprovalFailure,
+  confirmKycApprovalFailure,
+  rejectKycApprovalFailure,
 ];
 
 /**
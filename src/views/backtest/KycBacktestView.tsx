@@ -0,0 +1,154 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { seedCustomers } from '../../legacy/customerSeed';
+import { kycVersionRegistry } from '../../logic/kycVersions';
+import {
+  runKycBacktest,
+  buildTransitionMatrix,
+  changedDecisions,
+  changedDecisionsToCsv,
+  kycDecisions,
+} from '../../logic/kycBacktest';
+import { ExportButton } from '../../components/ExportButton';
+import { TransitionMatrix, type TransitionCell } from './components/TransitionMatrix';
+import { BacktestResultsTable } from './components/BacktestResultsTable';
+
+/**
+ * KYC Population Backtest Page
+ * Runs every registered KYC version over the whole customer book and shows
+ * how decisions would move between two versions
+ */
+export function KycBacktestView() {
+  const versions = kycVersionRegistry.ids;
+  const [fromVersion, setFromVersion] = useState(versions[0]);
+  const [toVersion, setToVersion] = useState(versions[versions.length - 1]);
+  const [selectedCell, setSelectedCell] = useState<TransitionCell | null>(null);
+  const [showChangedOnly, setShowChangedOnly] = useState(true);
+  const [expandedCustomerId, setExpandedCustomerId] = useState<string | null>(null);
+
+  // Customers come from the legacy seed today; swap for an API query later
+  const rows = useMemo(() => runKycBacktest(seedCustomers, kycVersionRegistry.versions), []);
+
+  const matrix = useMemo(
+    () => buildTransitionMatrix(rows, fromVersion, toVersion),
+    [rows, fromVersion, toVersion]
+  );
+  const changedCount = useMemo(
+    () => changedDecisions(rows, fromVersion, toVersion).length,
+    [rows, fromVersion, toVersion]
+  );
+
+  const visibleRows = useMemo(() => {
+    if (selectedCell) {
+      return rows.filter(
+        (row) =>
+          row.results[fromVersion].decision === selectedCell.from &&
+          row.results[toVersion].decision === selectedCell.to
+      );
+    }
+    return showChangedOnly ? changedDecisions(rows, fromVersion, toVersion) : rows;
+  }, [rows, fromVersion, toVersion, selectedCell, showChangedOnly]);
+
+  const handleVersionChange = (setter: (version: string) => void) => (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setter(e.target.value);
+    setSelectedCell(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <header className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold text-gray-900">KYC Population Backtest</h1>
+          <Link
+            to="/"
+            className="px-6 py-2 rounded-md text-sm font-bold bg-gray-200 text-gray-700 hover:bg-gray-300 transition-all"
+          >
+            Back to Dashboard
+          </Link>
+        </header>
+
+        <section className="p-4 bg-white rounded-lg border border-gray-200 flex flex-wrap items-center gap-4">
+          <label className="text-sm font-medium text-gray-700">
+            From{' '}
+            <select
+              value={fromVersion}
+              onChange={handleVersionChange(setFromVersion)}
+              className="ml-1 px-3 py-2 border border-gray-300 rounded-md"
+              aria-label="Baseline KYC version"
+            >
+              {versions.map((version) => (
+                <option key={version} value={version}>{version}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm font-medium text-gray-700">
+            To{' '}
+            <select
+              value={toVersion}
+              onChange={handleVersionChange(setToVersion)}
+              className="ml-1 px-3 py-2 border border-gray-300 rounded-md"
+              aria-label="Candidate KYC version"
+            >
+              {versions.map((version) => (
+                <option key={version} value={version}>{version}</option>
+              ))}
+            </select>
+          </label>
+          <span className="text-sm text-gray-600">
+            {changedCount} of {rows.length} customers change decision
+          </span>
+          <div className="ml-auto">
+            <ExportButton
+              filename={`kyc-backtest-${fromVersion}-to-${toVersion}.csv`}
+              getContent={() => changedDecisionsToCsv(rows, fromVersion, toVersion)}
+              disabled={changedCount === 0}
+            >
+              Export changed decisions (CSV)
+            </ExportButton>
+          </div>
+        </section>
+
+        <TransitionMatrix
+          matrix={matrix}
+          decisions={kycDecisions}
+          fromVersion={fromVersion}
+          toVersion={toVersion}
+          selectedCell={selectedCell}
+          onCellSelect={setSelectedCell}
+        />
+
+        <section className="p-6 bg-white rounded-lg border border-gray-200" aria-labelledby="backtest-customers-heading">
+          <div className="flex items-center justify-between mb-4">
+            <h2 id="backtest-customers-heading" className="text-lg font-semibold">Customers</h2>
+            {selectedCell ? (
+              <button
+                type="button"
+                onClick={() => setSelectedCell(null)}
+                className="text-sm text-blue-700 hover:underline"
+              >
+                Clear matrix filter
+              </button>
+            ) : (
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={showChangedOnly}
+                  onChange={(e) => setShowChangedOnly(e.target.checked)}
+                />
+                Changed decisions only
+              </label>
+            )}
+          </div>
+          <BacktestResultsTable
+            rows={visibleRows}
+            versions={fromVersion === toVersion ? [fromVersion] : [fromVersion, toVersion]}
+            expandedCustomerId={expandedCustomerId}
+            onToggleCustomer={(customerId) =>
+              setExpandedCustomerId((current) => (current === customerId ? null : customerId))
+            }
+          />
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { Fragment } from 'react';
+import type { KycBacktestRow } from '../../../logic/kycBacktest';
+import { formatKycReason } from '../../../logic/kycReasons';
+import { KycDecisionBadge } from '../../dashboard/components/KycDecisionBadge';
+
+interface BacktestResultsTableProps {
+  rows: KycBacktestRow[];
+  versions: string[];
+  expandedCustomerId: string | null;
+  onToggleCustomer: (customerId: string) => void;
+}
+
+/**
+ * UI Component: Per-customer backtest results with drill-down into reasons
+ * Pure presentation component - rows are computed by the backtest view
+ */
+export function BacktestResultsTable({
+  rows,
+  versions,
+  expandedCustomerId,
+  onToggleCustomer,
+}: BacktestResultsTableProps) {
+  if (rows.length === 0) {
+    return <p className="text-gray-600 text-center py-8">No customers match</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-left" aria-label="Backtest results">
+        <thead>
+          <tr className="border-b border-gray-200">
+            <th className="pb-2 text-sm font-semibold text-gray-700">Customer</th>
+            <th className="pb-2 text-sm font-semibold text-gray-700">Country</th>
+            <th className="pb-2 text-sm font-semibold text-gray-700">Risk</th>
+            {versions.map((version) => (
+              <th key={version} className="pb-2 text-sm font-semibold text-gray-700">{version.toUpperCase()}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ customer, results }) => {
+            const isExpanded = expandedCustomerId === customer.id;
+            return (
+              <Fragment key={customer.id}>
+                <tr
+                  className="border-b border-gray-100 cursor-pointer hover:bg-gray-50"
+                  onClick={() => onToggleCustomer(customer.id)}
+                  aria-expanded={isExpanded}
+                >
+                  <td className="py-2 text-sm text-gray-900">
+                    <span className="font-medium">{customer.name}</span>{' '}
+                    <span className="text-gray-500">{customer.id}</span>
+                  </td>
+                  <td className="py-2 text-sm text-gray-600">{customer.country}</td>
+                  <td className="py-2 text-sm text-gray-600">{customer.riskScore}</td>
+                  {versions.map((version) => (
+                    <td key={version} className="py-2">
+                      <KycDecisionBadge decision={results[version].decision} />
+                    </td>
+                  ))}
+                </tr>
+                {isExpanded && (
+                  <tr className="bg-gray-50">
+                    <td colSpan={3 + versions.length} className="p-3">
+                      <div className="grid gap-4 md:grid-cols-2">
+                        {versions.map((version) => (
+                          <div key={version}>
+                            <h3 className="text-xs font-bold uppercase text-gray-600 mb-1">{version} reasons</h3>
+                            <ul className="list-disc list-inside text-sm text-gray-700">
+                              {results[version].reasons.map((reason) => (
+                                <li key={reason.code}>{formatKycReason(reason)}</li>
+                              ))}
+                            </ul>
+                          </div>
+                        ))}
+                      </div>
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
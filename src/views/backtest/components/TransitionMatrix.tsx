@@ -0,0 +1,87 @@
+import type { KycDecision } from '../../../logic/kycRules.v1';
+import type { KycTransitionMatrix } from '../../../logic/kycBacktest';
+
+export interface TransitionCell {
+  from: KycDecision;
+  to: KycDecision;
+}
+
+interface TransitionMatrixProps {
+  matrix: KycTransitionMatrix;
+  decisions: KycDecision[];
+  fromVersion: string;
+  toVersion: string;
+  selectedCell: TransitionCell | null;
+  onCellSelect: (cell: TransitionCell | null) => void;
+}
+
+const decisionLabels: Record<KycDecision, string> = {
+  approve: 'Approve',
+  manual_review: 'Manual Review',
+  deny: 'Deny',
+};
+
+/**
+ * UI Component: Matrix of KYC decision transitions between two versions
+ * Rows are the "from" decision, columns the "to" decision; off-diagonal cells are changes
+ */
+export function TransitionMatrix({
+  matrix,
+  decisions,
+  fromVersion,
+  toVersion,
+  selectedCell,
+  onCellSelect,
+}: TransitionMatrixProps) {
+  return (
+    <section className="p-6 bg-white rounded-lg border border-gray-200" aria-labelledby="transition-matrix-heading">
+      <h2 id="transition-matrix-heading" className="text-lg font-semibold mb-4">
+        Decision Transitions ({fromVersion} → {toVersion})
+      </h2>
+      <table className="text-sm text-center" aria-label="Decision transition matrix">
+        <thead>
+          <tr>
+            <th className="p-2 text-left text-gray-500 font-medium">
+              {fromVersion} ↓ / {toVersion} →
+            </th>
+            {decisions.map((to) => (
+              <th key={to} className="p-2 font-semibold text-gray-700">{decisionLabels[to]}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {decisions.map((from) => (
+            <tr key={from}>
+              <th className="p-2 text-left font-semibold text-gray-700">{decisionLabels[from]}</th>
+              {decisions.map((to) => {
+                const count = matrix[from][to];
+                const isChange = from !== to;
+                const isSelected = selectedCell?.from === from && selectedCell?.to === to;
+                return (
+                  <td key={to} className="p-1">
+                    <button
+                      type="button"
+                      onClick={() => onCellSelect(isSelected ? null : { from, to })}
+                      disabled={count === 0}
+                      aria-pressed={isSelected}
+                      aria-label={`${decisionLabels[from]} to ${decisionLabels[to]}: ${count}`}
+                      className={`w-20 py-2 rounded-md font-bold transition-colors disabled:cursor-default ${
+                        isSelected
+                          ? 'bg-blue-600 text-white ring-2 ring-blue-300'
+                          : isChange && count > 0
+                            ? 'bg-orange-100 text-orange-800 hover:bg-orange-200'
+                            : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                    >
+                      {count}
+                    </button>
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+}
@@ -4,22 +4,63 @@ import { FilterPanel, type FilterFormData } from './components/FilterPanel';
 import { TransactionsTable } from './components/TransactionsTable';
 import { CustomerDetailsPanel } from './components/CustomerDetailsPanel';
 import type { KycResult } from '../../logic/kycRules.v1';
+import type { KycShadowResult } from '../../logic/useKycEngine';
+import type { KycVersionAssignment } from '../../logic/kycRollout';
+import type { KycRiskScoreResolution } from '../../logic/kycRiskScore';
+import type { KycScreeningHit, KycScreeningReviews, KycScreeningReviewStatus } from '../../logic/kycScreening';
+import type { KycTransactionSignals } from '../../logic/kycTransactionSignals';
 import type { TransactionFilters } from '../../api/transactionsApi';
 import type { Transaction } from '../../api/transactionsApi';
+import type { KycApproval, KycDocumentFile, KycDocumentRequest, KycHold } from '../../api/transactionsApi';
+import type { KycJustification } from '../../logic/kycJustification';
+import type {
+  KycDocumentRequestInput,
+  KycDocumentType,
+  KycRequestedDocumentStatus,
+} from '../../logic/kycDocumentRequests';
+import type { KycHoldRequestInput } from '../../logic/kycHolds';
+import type { KycActionHistoryEntry } from '../../state/kycActionHistory';
 
 interface DashboardLayoutV2Props {
   selectedCustomer: Customer | null;
   kycResult: KycResult | null;
-  kycVersion: 'v1' | 'v2';
+  kycVersion: string;
+  kycAssignment?: KycVersionAssignment | null;
+  kycRiskScore?: KycRiskScoreResolution | null;
+  kycAsOf?: string | null;
+  onKycAsOfChange?: (date: string | null) => void;
+  kycShadowResults: KycShadowResult[];
+  kycTransactionSignals: KycTransactionSignals | null;
+  kycScreeningHits?: KycScreeningHit[];
+  kycScreeningReviews?: KycScreeningReviews;
+  onReviewScreeningHit?: (entryId: string, status: KycScreeningReviewStatus) => void;
+  onReopenScreeningHit?: (entryId: string) => void;
+  kycApprovals?: KycApproval[];
+  kycApprovalRequired?: boolean;
+  reviewerId?: string;
+  onConfirmApproval?: () => void;
+  onRejectApproval?: () => void;
+  kycHistory?: KycActionHistoryEntry[];
+  kycDocumentRequests?: KycDocumentRequest[];
+  onUpdateDocumentStatus?: (
+    requestId: string,
+    documentType: KycDocumentType,
+    status: KycRequestedDocumentStatus
+  ) => void;
+  kycDocumentFiles?: KycDocumentFile[];
+  onUploadDocumentFile?: (requestId: string, documentType: KycDocumentType, file: File) => void;
+  kycHold?: KycHold | null;
+  onReleaseHold?: () => void;
   transactions: Transaction[];
   isLoadingTransactions: boolean;
   filters: TransactionFilters;
   isProcessingKycAction: boolean;
   onCustomerSelect: (customer: Customer) => void;
+  onCustomersCheck?: (customers: Customer[]) => void;
   onFilterSubmit: (filters: FilterFormData) => void;
-  onApproveKyc: () => void;
-  onRequestKycDocuments: () => void;
-  onHoldKyc: () => void;
+  onApproveKyc: (justification?: KycJustification) => void;
+  onRequestKycDocuments: (request: KycDocumentRequestInput, justification?: KycJustification) => void;
+  onHoldKyc: (request: KycHoldRequestInput, justification?: KycJustification) => void;
 }
 
 /**
@@ -31,11 +72,34 @@ export function DashboardLayoutV2({
   selectedCustomer,
   kycResult,
   kycVersion,
+  kycAssignment = null,
+  kycRiskScore = null,
+  kycAsOf = null,
+  onKycAsOfChange,
+  kycShadowResults,
+  kycTransactionSignals,
+  kycScreeningHits = [],
+  kycScreeningReviews = {},
+  onReviewScreeningHit,
+  onReopenScreeningHit,
+  kycApprovals,
+  kycApprovalRequired,
+  reviewerId,
+  onConfirmApproval,
+  onRejectApproval,
+  kycHistory,
+  kycDocumentRequests,
+  onUpdateDocumentStatus,
+  kycDocumentFiles,
+  onUploadDocumentFile,
+  kycHold,
+  onReleaseHold,
   transactions,
   isLoadingTransactions,
   filters,
   isProcessingKycAction,
   onCustomerSelect,
+  onCustomersCheck,
   onFilterSubmit,
   onApproveKyc,
   onRequestKycDocuments,
@@ -46,7 +110,7 @@ export function DashboardLayoutV2({
       {/* Top Section: Customer Search and Filters side-by-side */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
         <div>
-          <CustomerSearch onCustomerSelect={onCustomerSelect} />
+          <CustomerSearch onCustomerSelect={onCustomerSelect} onCustomersCheck={onCustomersCheck} />
         </div>
         <div>
           <FilterPanel
@@ -75,6 +139,28 @@ export function DashboardLayoutV2({
           customer={selectedCustomer}
           kycResult={kycResult}
           kycVersion={kycVersion}
+          kycAssignment={kycAssignment}
+          kycRiskScore={kycRiskScore}
+          kycAsOf={kycAsOf}
+          onKycAsOfChange={onKycAsOfChange}
+          kycShadowResults={kycShadowResults}
+          kycTransactionSignals={kycTransactionSignals}
+          kycScreeningHits={kycScreeningHits}
+          kycScreeningReviews={kycScreeningReviews}
+          onReviewScreeningHit={onReviewScreeningHit}
+          onReopenScreeningHit={onReopenScreeningHit}
+          kycApprovals={kycApprovals}
+          kycApprovalRequired={kycApprovalRequired}
+          reviewerId={reviewerId}
+          onConfirmApproval={onConfirmApproval}
+          onRejectApproval={onRejectApproval}
+          kycHistory={kycHistory}
+          kycDocumentRequests={kycDocumentRequests}
+          onUpdateDocumentStatus={onUpdateDocumentStatus}
+          kycDocumentFiles={kycDocumentFiles}
+          onUploadDocumentFile={onUploadDocumentFile}
+          kycHold={kycHold}
+          onReleaseHold={onReleaseHold}
           isProcessing={isProcessingKycAction}
           onApprove={onApproveKyc}
           onRequestDocs={onRequestKycDocuments}
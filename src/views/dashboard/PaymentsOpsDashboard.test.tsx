@@ -1,12 +1,25 @@
 import { describe, it, expect, beforeEach, afterEach, beforeAll, afterAll, vi } from 'vitest';
-import { screen, waitFor, server, happyPathHandlers } from '../../test/test-utils';
+import {
+  screen,
+  waitFor,
+  act,
+  server,
+  happyPathHandlers,
+  clearMockKycApprovals,
+  clearMockKycHolds,
+} from '../../test/test-utils';
 import userEvent from '@testing-library/user-event';
 import { BrowserRouter } from 'react-router-dom';
 import { render } from '../../test/test-utils';
 import { PaymentsOpsDashboard } from './PaymentsOpsDashboard';
 import { useFeatureFlags } from '../../state/featureFlags';
+import { useKycReviewer } from '../../state/kycReviewer';
+import { useKycApprovals } from '../../state/kycApprovals';
+import { useKycActionHistory } from '../../state/kycActionHistory';
+import { useKycDocumentRequests } from '../../state/kycDocumentRequests';
+import { useKycHolds } from '../../state/kycHolds';
 import { http, HttpResponse } from 'msw';
-import type { Transaction } from '../../api/transactionsApi';
+import type { Transaction, TransactionsResponse } from '../../api/transactionsApi';
 vi.mock('../../components/FeatureFlagsPanel', () => ({
   FeatureFlagsPanel: ({ isOpen }: { isOpen: boolean }) =>
     isOpen ? <div data-testid="feature-flags-panel">Feature Flags Panel</div> : null,
@@ -14,10 +27,14 @@ vi.mock('../../components/FeatureFlagsPanel', () => ({
 vi.mock('./DashboardLayoutV1', () => ({
   DashboardLayoutV1: ({ 
     selectedCustomer, 
+    kycResult,
     onCustomerSelect, 
     onApproveKyc, 
     onRequestKycDocuments, 
     onHoldKyc,
+    onReleaseHold,
+    onConfirmApproval,
+    onKycAsOfChange,
     onFilterSubmit,
   }: any) => (
     <div data-testid="dashboard-layout-v1">
@@ -29,13 +46,47 @@ vi.mock('./DashboardLayoutV1', () => ({
       <button onClick={() => onCustomerSelect?.({ id: 'C-001', name: 'Test Customer', riskScore: 62, country: 'CN', isPep: false, sanctionsList: false })}>
         Select Customer
       </button>
+      <button onClick={() => onCustomerSelect?.({ id: 'C-007', name: 'Sanctioned Customer', riskScore: 30, country: 'US', sanctionsList: true })}>
+        Select Sanctioned Customer
+      </button>
       {selectedCustomer && (
         <>
           <button onClick={onApproveKyc} data-testid="approve-kyc-btn">Approve KYC</button>
-          <button onClick={onRequestKycDocuments} data-testid="request-docs-btn">Request Docs</button>
-          <button onClick={onHoldKyc} data-testid="hold-kyc-btn">Hold KYC</button>
+          <button
+            onClick={() => onApproveKyc({ category: 'false_positive', note: 'Velocity spike was a one-off payroll run' })}
+            data-testid="approve-justified-btn"
+          >
+            Approve KYC With Justification
+          </button>
+          <button
+            onClick={() => onRequestKycDocuments({ documentTypes: ['passport'], dueDate: '2999-01-01' })}
+            data-testid="request-docs-btn"
+          >
+            Request Docs
+          </button>
+          <button
+            onClick={() => onHoldKyc({ reason: 'suspicious_activity', expiresOn: '2999-01-01' })}
+            data-testid="hold-kyc-btn"
+          >
+            Hold KYC
+          </button>
+          <button
+            onClick={() =>
+              onHoldKyc(
+                { reason: 'suspicious_activity', expiresOn: '2999-01-01' },
+                { category: 'additional_evidence', note: 'Payments route through a flagged corridor' }
+              )
+            }
+            data-testid="hold-justified-btn"
+          >
+            Hold KYC With Justification
+          </button>
+          <button onClick={onReleaseHold} data-testid="release-hold-btn">Release Hold</button>
+          <button onClick={onConfirmApproval} data-testid="confirm-approval-btn">Confirm Approval</button>
+          <button onClick={() => onKycAsOfChange?.('2023-06-01')} data-testid="rules-as-of-btn">Rules As Of</button>
         </>
       )}
+      {kycResult && <div data-testid="kyc-decision">{kycResult.decision}</div>}
       <button onClick={() => onFilterSubmit?.({ dateFrom: '2024-01-01', dateTo: '2024-01-31', type: 'payment', status: 'completed' })} data-testid="submit-filter-btn">
         Submit Filter
       </button>
@@ -63,8 +114,18 @@ vi.mock('./DashboardLayoutV2', () => ({
       {selectedCustomer && (
         <>
           <button onClick={onApproveKyc} data-testid="approve-kyc-btn">Approve KYC</button>
-          <button onClick={onRequestKycDocuments} data-testid="request-docs-btn">Request Docs</button>
-          <button onClick={onHoldKyc} data-testid="hold-kyc-btn">Hold KYC</button>
+          <button
+            onClick={() => onRequestKycDocuments({ documentTypes: ['passport'], dueDate: '2999-01-01' })}
+            data-testid="request-docs-btn"
+          >
+            Request Docs
+          </button>
+          <button
+            onClick={() => onHoldKyc({ reason: 'suspicious_activity', expiresOn: '2999-01-01' })}
+            data-testid="hold-kyc-btn"
+          >
+            Hold KYC
+          </button>
         </>
       )}
       <button onClick={() => onFilterSubmit?.({ dateFrom: '2024-01-01', dateTo: '2024-01-31', type: 'payment', status: 'completed' })} data-testid="submit-filter-btn">
@@ -99,11 +160,16 @@ describe('PaymentsOpsDashboard', () => {
     // Reset MSW handlers to happy path
     server.resetHandlers();
     server.use(...happyPathHandlers);
+
+    // A customer held by an earlier test could not be held again
+    clearMockKycHolds();
+    useKycHolds.setState({ holds: {} });
     
     // Reset feature flags to default state using setState
     localStorage.removeItem('feature-flags-storage');
     useFeatureFlags.setState({
       kycVersion: 'v1',
+      kycUndoSeconds: 0, // Actions are sent right away unless a test opens an undo window
       showComponentOutlines: false,
     });
   });
@@ -309,6 +375,7 @@ describe('PaymentsOpsDashboard', () => {
     });
 
     it('should handle request documents action successfully', async () => {
+      useKycDocumentRequests.setState({ requests: {} });
       const user = userEvent.setup();
       renderDashboard();
 
@@ -326,8 +393,10 @@ describe('PaymentsOpsDashboard', () => {
 
       // Wait for the API call to complete
       await waitFor(() => {
-        // The request action should complete successfully
-        expect(requestButton).toBeInTheDocument();
+        // The request is tracked per document
+        expect(useKycDocumentRequests.getState().requests['C-001']?.[0].documents).toEqual([
+          expect.objectContaining({ type: 'passport', status: 'requested' }),
+        ]);
       }, { timeout: 3000 });
     });
 
@@ -343,18 +412,109 @@ describe('PaymentsOpsDashboard', () => {
         expect(screen.getByText(/Selected: Test Customer/i)).toBeInTheDocument();
       });
 
+      const { reviewerId } = useKycReviewer.getState();
+
       // Click hold button
       const holdButton = screen.getByTestId('hold-kyc-btn');
       await user.click(holdButton);
 
-      // Wait for the API call to complete
+      // The hold is stored once the API places it
       await waitFor(() => {
-        // The hold action should complete successfully
-        expect(holdButton).toBeInTheDocument();
+        expect(useKycHolds.getState().holds['C-001']).toEqual([
+          expect.objectContaining({ reason: 'suspicious_activity', placedBy: reviewerId }),
+        ]);
+      }, { timeout: 3000 });
+
+      await user.click(screen.getByTestId('release-hold-btn'));
+
+      await waitFor(() => {
+        expect(useKycHolds.getState().holds['C-001']?.[0].releasedBy).toBe(reviewerId);
       }, { timeout: 3000 });
     });
   });
 
+  describe('KYC Actions - Four-eyes approval', () => {
+    beforeEach(() => {
+      clearMockKycApprovals();
+      useKycApprovals.setState({ approvals: {} });
+      useKycActionHistory.setState({ entries: {} });
+      useKycReviewer.setState({ reviewerId: 'R-ALEX' });
+    });
+
+    it('should submit an approval against a manual_review decision and approve once a second reviewer confirms', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      const user = userEvent.setup();
+      renderDashboard();
+
+      await user.click(screen.getByText('Select Customer'));
+      // Risk score 62 is a manual review under v1
+      await waitFor(() => {
+        expect(screen.getByTestId('kyc-decision')).toHaveTextContent('manual_review');
+      }, { timeout: 2000 });
+
+      // Approving against the decision is refused without a justification
+      await user.click(screen.getByTestId('approve-kyc-btn'));
+      expect(useKycApprovals.getState().approvals['C-001']).toBeUndefined();
+
+      await user.click(screen.getByTestId('approve-justified-btn'));
+      await waitFor(() => {
+        expect(useKycApprovals.getState().approvals['C-001']).toHaveLength(1);
+      }, { timeout: 3000 });
+      expect(useKycApprovals.getState().approvals['C-001'][0]).toMatchObject({
+        status: 'pending',
+        makerId: 'R-ALEX',
+        record: {
+          decision: 'manual_review',
+          kycVersion: 'v1',
+          justification: { category: 'false_positive', note: 'Velocity spike was a one-off payroll run' },
+        },
+      });
+
+      // The maker cannot confirm their own approval
+      await user.click(screen.getByTestId('confirm-approval-btn'));
+      expect(useKycApprovals.getState().approvals['C-001'][0].status).toBe('pending');
+
+      act(() => useKycReviewer.getState().setReviewer('R-SAM'));
+      await user.click(screen.getByTestId('confirm-approval-btn'));
+      await waitFor(() => {
+        expect(useKycApprovals.getState().approvals['C-001'][0]).toMatchObject({
+          status: 'confirmed',
+          makerId: 'R-ALEX',
+          checkerId: 'R-SAM',
+        });
+      }, { timeout: 3000 });
+      expect(useKycActionHistory.getState().entries['C-001']).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ action: 'submit_approval', reviewerId: 'R-ALEX' }),
+          expect.objectContaining({ action: 'confirm_approval', reviewerId: 'R-SAM' }),
+        ])
+      );
+    });
+
+    it('should not approve a customer the live rules deny while a past decision is shown', async () => {
+      useFeatureFlags.setState({ kycVersion: 'v3' });
+      const user = userEvent.setup();
+      renderDashboard();
+
+      await user.click(screen.getByText('Select Sanctioned Customer'));
+      await waitFor(() => {
+        expect(screen.getByTestId('kyc-decision')).toHaveTextContent('deny');
+      }, { timeout: 2000 });
+      // v1, live in 2023, had no sanctions rule
+      await user.click(screen.getByTestId('rules-as-of-btn'));
+      await waitFor(() => {
+        expect(screen.getByTestId('kyc-decision')).toHaveTextContent('approve');
+      });
+
+      await user.click(screen.getByTestId('approve-kyc-btn'));
+      await user.click(screen.getByTestId('approve-justified-btn'));
+      await new Promise((resolve) => setTimeout(resolve, 1500));
+
+      expect(useKycActionHistory.getState().entries['C-007']).toBeUndefined();
+      expect(useKycApprovals.getState().approvals['C-007']).toBeUndefined();
+    });
+  });
+
   describe('KYC Actions - Error handling', () => {
     it('should handle approve KYC error and rollback optimistic update', async () => {
       const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
@@ -527,6 +687,132 @@ describe('PaymentsOpsDashboard', () => {
     });
   });
 
+  describe('KYC Actions - Undo window', () => {
+    beforeEach(() => {
+      useFeatureFlags.setState({ kycUndoSeconds: 1 });
+      useKycActionHistory.setState({ entries: {} });
+      server.use(
+        // A pending transaction for the selected customer shows the optimistic update
+        http.get('*/api/transactions', ({ request }) => {
+          const customerId = new URL(request.url).searchParams.get('customerId') ?? 'C-001';
+          const held = useKycHolds.getState().holds[customerId]?.some((hold) => !hold.releasedAt);
+          return HttpResponse.json({
+            transactions: [
+              {
+                id: 'T-001',
+                customerId,
+                customerName: 'Test Customer',
+                amount: 1250.5,
+                currency: 'USD',
+                type: 'payment',
+                status: held ? 'on_hold' : 'pending',
+                date: new Date().toISOString(),
+              },
+            ],
+            total: 1,
+            page: 1,
+            pageSize: 10,
+          });
+        })
+      );
+    });
+
+    // Statuses of the selected customer's transactions in the query cache
+    const cachedStatuses = (queryClient: ReturnType<typeof renderDashboard>['queryClient']) =>
+      queryClient
+        .getQueriesData<TransactionsResponse>({ queryKey: ['transactions'] })
+        .flatMap(([, data]) => data?.transactions ?? [])
+        .filter((transaction) => transaction.customerId === 'C-001')
+        .map((transaction) => transaction.status);
+
+    const selectCustomerWithTransactions = async (queryClient: ReturnType<typeof renderDashboard>['queryClient']) => {
+      const user = userEvent.setup();
+      await user.click(screen.getByText('Select Customer'));
+      await waitFor(() => {
+        expect(cachedStatuses(queryClient)).toContain('pending');
+      }, { timeout: 2000 });
+      return user;
+    };
+
+    it('should revert a hold undone within the window without calling the API', async () => {
+      const { queryClient } = renderDashboard();
+      const user = await selectCustomerWithTransactions(queryClient);
+
+      await user.click(screen.getByTestId('hold-justified-btn'));
+
+      expect(screen.getByRole('status')).toHaveTextContent('Held Test Customer');
+      expect(cachedStatuses(queryClient)).not.toContain('pending');
+
+      await user.click(screen.getByRole('button', { name: 'Undo' }));
+
+      expect(screen.queryByRole('status')).not.toBeInTheDocument();
+      expect(cachedStatuses(queryClient)).not.toContain('on_hold');
+      // A hold the API placed would have been stored
+      await new Promise((resolve) => setTimeout(resolve, 2500));
+      expect(useKycHolds.getState().holds['C-001']).toBeUndefined();
+    });
+
+    it('should release a hold undone after it was sent', async () => {
+      const { queryClient } = renderDashboard();
+      const user = await selectCustomerWithTransactions(queryClient);
+
+      await user.click(screen.getByTestId('hold-justified-btn'));
+      await waitFor(() => {
+        expect(screen.getByRole('status')).toHaveTextContent('Sending…');
+      }, { timeout: 2000 });
+      await user.click(screen.getByRole('button', { name: 'Undo' }));
+
+      await waitFor(() => {
+        expect(useKycHolds.getState().holds['C-001']?.[0].releasedAt).toBeDefined();
+      }, { timeout: 4000 });
+      expect(useKycActionHistory.getState().entries['C-001']?.map(({ action }) => action)).toEqual([
+        'hold',
+        'undo_hold',
+      ]);
+      await waitFor(() => {
+        expect(cachedStatuses(queryClient)).toEqual(['pending']);
+      }, { timeout: 2000 });
+      expect(screen.queryByRole('status')).not.toBeInTheDocument();
+    }, 10000);
+
+    it('should release a hold undone after the API placed it', async () => {
+      const { queryClient } = renderDashboard();
+      const user = await selectCustomerWithTransactions(queryClient);
+
+      await user.click(screen.getByTestId('hold-justified-btn'));
+      await waitFor(() => {
+        expect(screen.getByRole('status')).toHaveTextContent('Sent');
+      }, { timeout: 4000 });
+      expect(useKycHolds.getState().holds['C-001']?.[0].releasedAt).toBeUndefined();
+      await user.click(screen.getByRole('button', { name: 'Undo' }));
+
+      await waitFor(() => {
+        expect(useKycHolds.getState().holds['C-001']?.[0].releasedAt).toBeDefined();
+      }, { timeout: 4000 });
+      expect(useKycActionHistory.getState().entries['C-001']?.map(({ action }) => action)).toEqual([
+        'hold',
+        'undo_hold',
+      ]);
+      await waitFor(() => {
+        expect(screen.queryByRole('status')).not.toBeInTheDocument();
+      }, { timeout: 2000 });
+    }, 10000);
+
+    it('should not send another action while one waits out the window', async () => {
+      const { queryClient } = renderDashboard();
+      const user = await selectCustomerWithTransactions(queryClient);
+
+      await user.click(screen.getByTestId('hold-justified-btn'));
+      await user.click(screen.getByTestId('approve-kyc-btn'));
+
+      expect(screen.getByRole('status')).toHaveTextContent('Held Test Customer');
+      expect(screen.getByRole('status')).toHaveTextContent('Sending in');
+      await user.click(screen.getByRole('button', { name: 'Undo' }));
+      await new Promise((resolve) => setTimeout(resolve, 2500));
+      expect(useKycActionHistory.getState().entries['C-001']).toBeUndefined();
+    });
+  });
+
   describe('Edge cases', () => {
     it('should not call KYC actions when no customer is selected', () => {
       renderDashboard();
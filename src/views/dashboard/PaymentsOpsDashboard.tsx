@@ -1,22 +1,18 @@
-import { useState, useMemo } from 'react';
+import { useState } from 'react';
 import { Link, useLocation } from 'react-router-dom';
-import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useQuery } from '@tanstack/react-query';
 import type { Customer } from '../../legacy/LegacyCustomerSearch';
 import type { FilterFormData } from './components/FilterPanel';
-import { useKycEngine } from '../../logic/useKycEngine';
+import { useCustomerKycReview } from '../../logic/useCustomerKycReview';
+import { useKycBulkActions } from '../../logic/useKycBulkActions';
 import { useFeatureFlags } from '../../state/featureFlags';
-import {
-  fetchTransactions,
-  approveKycDecision,
-  requestKycDocuments,
-  holdKycDecision,
-  type TransactionFilters,
-  type TransactionsResponse,
-  type Transaction,
-} from '../../api/transactionsApi';
+import { fetchTransactions, type TransactionFilters } from '../../api/transactionsApi';
 import { DashboardLayoutV1 } from './DashboardLayoutV1';
 import { DashboardLayoutV2 } from './DashboardLayoutV2';
 import { FeatureFlagsPanel } from '../../components/FeatureFlagsPanel';
+import { KycReviewerSelect } from '../../components/KycReviewerSelect';
+import { KycUndoToast } from '../../components/KycUndoToast';
+import { KycBulkActionBar } from './components/KycBulkActionBar';
 
 interface PaymentsOpsDashboardProps {
   view?: 'view1' | 'view2';
@@ -29,52 +25,27 @@ interface PaymentsOpsDashboardProps {
  */
 export function PaymentsOpsDashboard({ view: viewProp }: PaymentsOpsDashboardProps = {}) {
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
+  // Customers ticked in the search for bulk actions
+  const [checkedCustomers, setCheckedCustomers] = useState<Customer[]>([]);
   const [filters, setFilters] = useState<TransactionFilters>({
     dateFrom: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
     dateTo: new Date().toISOString().split('T')[0],
   });
-  const [isProcessingKycAction, setIsProcessingKycAction] = useState(false);
   const [showFeatureFlagsPanel, setShowFeatureFlagsPanel] = useState(false);
   const [isHoveringCorner, setIsHoveringCorner] = useState(false);
   
-  const { 
-    kycVersion,
-    showComponentOutlines,
-  } = useFeatureFlags();
+  const { showComponentOutlines } = useFeatureFlags();
   
   // Use view from prop (routing) - navigation concern, not a feature flag
   // Default to view1 if not provided (for testing or direct component usage)
   const view = viewProp || 'view1';
   const location = useLocation();
   const currentView = location.pathname === '/view2' ? 'view2' : 'view1';
-  const kycEngine = useKycEngine();
-  const queryClient = useQueryClient();
-
-  // Evaluate KYC decision when customer is selected
-  const kycResult = useMemo(() => {
-    if (!selectedCustomer) return null;
-
-    // Build KYC input from customer data
-    // In a real app, this might include transaction history, velocity, etc.
-    const kycInput = {
-      riskScore: selectedCustomer.riskScore,
-      country: selectedCustomer.country,
-      isPep: selectedCustomer.isPep,
-      sanctionsList: selectedCustomer.sanctionsList,
-      amount: 0, // Could be calculated from recent transactions
-      velocity: 0, // Could be calculated from recent transactions
-    };
-
-    return kycEngine.evaluate(kycInput);
-  }, [selectedCustomer, kycEngine]);
 
   // Fetch transactions using TanStack Query
-  const {
-    data: transactionsData,
-    isLoading: isLoadingTransactions,
-    refetch: refetchTransactions,
-  } = useQuery({
-    queryKey: ['transactions', filters, selectedCustomer?.id],
+  const transactionsQueryKey = ['transactions', filters, selectedCustomer?.id];
+  const { data: transactionsData, isLoading: isLoadingTransactions } = useQuery({
+    queryKey: transactionsQueryKey,
     queryFn: () =>
       fetchTransactions({
         ...filters,
@@ -82,6 +53,11 @@ export function PaymentsOpsDashboard({ view: viewProp }: PaymentsOpsDashboardPro
       }),
   });
 
+  // KYC decision for the selected customer and the reviewer actions on it
+  // (signals, screening, shadow evaluation and optimistic updates of the transactions table)
+  const kyc = useCustomerKycReview(selectedCustomer, { transactionsQueryKey });
+  const bulk = useKycBulkActions(checkedCustomers);
+
   const handleCustomerSelect = (customer: Customer) => {
     setSelectedCustomer(customer);
     // Transactions will automatically refetch due to query key including customerId
@@ -96,120 +72,6 @@ export function PaymentsOpsDashboard({ view: viewProp }: PaymentsOpsDashboardPro
     });
   };
 
-  const handleKycActionComplete = () => {
-    // Refetch transactions after KYC action to ensure consistency
-    refetchTransactions();
-  };
-
-  // Optimistically update transaction status for a customer
-  const updateTransactionsOptimistically = (
-    customerId: string,
-    updateFn: (transaction: Transaction) => Transaction
-  ) => {
-    const queryKey = ['transactions', filters, customerId];
-    queryClient.setQueryData<TransactionsResponse>(queryKey, (oldData) => {
-      if (!oldData) return oldData;
-      
-      return {
-        ...oldData,
-        transactions: oldData.transactions.map((transaction) =>
-          transaction.customerId === customerId
-            ? updateFn(transaction)
-            : transaction
-        ),
-      };
-    });
-  };
-
-  // Handle KYC actions - all business logic at page level
-  const handleApproveKyc = async () => {
-    if (!selectedCustomer) return;
-    setIsProcessingKycAction(true);
-    
-    // Store the previous data for rollback
-    const previousData = queryClient.getQueryData<TransactionsResponse>([
-      'transactions',
-      filters,
-      selectedCustomer.id,
-    ]);
-
-    try {
-      // Optimistically update: change pending transactions to completed
-      updateTransactionsOptimistically(selectedCustomer.id, (transaction) => {
-        if (transaction.status === 'pending') {
-          return { ...transaction, status: 'completed' as const };
-        }
-        return transaction;
-      });
-
-      await approveKycDecision(selectedCustomer.id);
-      // Refetch to ensure we have the latest server state
-      await refetchTransactions();
-    } catch (error) {
-      console.error('Failed to approve KYC decision:', error);
-      // Rollback on error
-      if (previousData) {
-        queryClient.setQueryData(
-          ['transactions', filters, selectedCustomer.id],
-          previousData
-        );
-      }
-    } finally {
-      setIsProcessingKycAction(false);
-    }
-  };
-
-  const handleRequestKycDocuments = async () => {
-    if (!selectedCustomer) return;
-    setIsProcessingKycAction(true);
-    try {
-      await requestKycDocuments(selectedCustomer.id);
-      handleKycActionComplete();
-    } catch (error) {
-      console.error('Failed to request documents:', error);
-    } finally {
-      setIsProcessingKycAction(false);
-    }
-  };
-
-  const handleHoldKyc = async () => {
-    if (!selectedCustomer) return;
-    setIsProcessingKycAction(true);
-    
-    // Store the previous data for rollback
-    const previousData = queryClient.getQueryData<TransactionsResponse>([
-      'transactions',
-      filters,
-      selectedCustomer.id,
-    ]);
-
-    try {
-      // Optimistically update: change pending transactions to failed (or keep as pending with visual indicator)
-      // For hold, we'll mark pending transactions as failed to indicate they're blocked
-      updateTransactionsOptimistically(selectedCustomer.id, (transaction) => {
-        if (transaction.status === 'pending') {
-          return { ...transaction, status: 'failed' as const };
-        }
-        return transaction;
-      });
-
-      await holdKycDecision(selectedCustomer.id);
-      // Refetch to ensure we have the latest server state
-      await refetchTransactions();
-    } catch (error) {
-      console.error('Failed to hold KYC decision:', error);
-      // Rollback on error
-      if (previousData) {
-        queryClient.setQueryData(
-          ['transactions', filters, selectedCustomer.id],
-          previousData
-        );
-      }
-    } finally {
-      setIsProcessingKycAction(false);
-    }
-  };
-
   return (
     <div 
       className={`min-h-screen bg-gray-50 p-6 ${showComponentOutlines ? 'show-component-outlines' : ''}`}
@@ -222,6 +84,7 @@ export function PaymentsOpsDashboard({ view: viewProp }: PaymentsOpsDashboardPro
                   Payments Operations Dashboard
                 </h1>
                 <div className="flex items-center gap-3">
+                  <KycReviewerSelect />
                   <span className="text-sm font-semibold text-gray-700">Dashboard View:</span>
                   <div className="flex gap-2">
                     <Link
@@ -245,6 +108,36 @@ export function PaymentsOpsDashboard({ view: viewProp }: PaymentsOpsDashboardPro
                       View 2
                     </Link>
                   </div>
+                  <Link
+                    to="/queue"
+                    className="px-4 py-2 rounded-md text-sm font-semibold text-gray-700 hover:bg-gray-200 transition-all"
+                  >
+                    Review Queue
+                  </Link>
+                  <Link
+                    to="/backtest"
+                    className="px-4 py-2 rounded-md text-sm font-semibold text-gray-700 hover:bg-gray-200 transition-all"
+                  >
+                    Backtest
+                  </Link>
+                  <Link
+                    to="/simulator"
+                    className="px-4 py-2 rounded-md text-sm font-semibold text-gray-700 hover:bg-gray-200 transition-all"
+                  >
+                    Simulator
+                  </Link>
+                  <Link
+                    to="/jurisdictions"
+                    className="px-4 py-2 rounded-md text-sm font-semibold text-gray-700 hover:bg-gray-200 transition-all"
+                  >
+                    Jurisdictions
+                  </Link>
+                  <Link
+                    to="/watchlists"
+                    className="px-4 py-2 rounded-md text-sm font-semibold text-gray-700 hover:bg-gray-200 transition-all"
+                  >
+                    Watchlists
+                  </Link>
                 </div>
               </div>
             </header>
@@ -305,39 +198,100 @@ export function PaymentsOpsDashboard({ view: viewProp }: PaymentsOpsDashboardPro
           </div>
         </div>
 
+        <KycBulkActionBar
+          customers={checkedCustomers}
+          decisions={bulk.decisions}
+          isEvaluating={bulk.isEvaluating}
+          run={bulk.run}
+          isRunning={bulk.isRunning}
+          justificationsNeeded={bulk.justificationsNeeded}
+          onApprove={bulk.approve}
+          onHold={bulk.hold}
+          onRequestDocs={bulk.requestDocuments}
+          onRetryFailed={bulk.retryFailed}
+        />
+
         {/* Dynamic Layout Based on View */}
         {view === 'view1' ? (
           <DashboardLayoutV1
             selectedCustomer={selectedCustomer}
-            kycResult={kycResult}
-            kycVersion={kycVersion}
+            kycResult={kyc.result}
+            kycVersion={kyc.version}
+            kycAssignment={kyc.evaluation?.assignment ?? null}
+            kycRiskScore={kyc.evaluation?.riskScore ?? null}
+            kycAsOf={kyc.asOf}
+            onKycAsOfChange={kyc.setAsOf}
+            kycShadowResults={kyc.evaluation?.shadows ?? []}
+            kycTransactionSignals={kyc.signals}
+            kycScreeningHits={kyc.screening.hits}
+            kycScreeningReviews={kyc.screening.reviews}
+            onReviewScreeningHit={kyc.screening.reviewHit}
+            onReopenScreeningHit={kyc.screening.reopenHit}
+            kycApprovals={kyc.approvals}
+            kycApprovalRequired={kyc.approvalRequired}
+            reviewerId={kyc.reviewerId}
+            onConfirmApproval={kyc.confirmApproval}
+            onRejectApproval={kyc.rejectApproval}
+            kycHistory={kyc.history}
+            kycDocumentRequests={kyc.documentRequests}
+            onUpdateDocumentStatus={kyc.updateDocumentStatus}
+            kycDocumentFiles={kyc.documentFiles}
+            onUploadDocumentFile={kyc.uploadDocumentFile}
+            kycHold={kyc.activeHold}
+            onReleaseHold={kyc.releaseHold}
             transactions={transactionsData?.transactions || []}
             isLoadingTransactions={isLoadingTransactions}
             filters={filters}
-            isProcessingKycAction={isProcessingKycAction}
+            isProcessingKycAction={kyc.isProcessing}
             onCustomerSelect={handleCustomerSelect}
+            onCustomersCheck={setCheckedCustomers}
             onFilterSubmit={handleFilterSubmit}
-            onApproveKyc={handleApproveKyc}
-            onRequestKycDocuments={handleRequestKycDocuments}
-            onHoldKyc={handleHoldKyc}
+            onApproveKyc={kyc.approve}
+            onRequestKycDocuments={kyc.requestDocuments}
+            onHoldKyc={kyc.hold}
           />
         ) : (
           <DashboardLayoutV2
             selectedCustomer={selectedCustomer}
-            kycResult={kycResult}
-            kycVersion={kycVersion}
+            kycResult={kyc.result}
+            kycVersion={kyc.version}
+            kycAssignment={kyc.evaluation?.assignment ?? null}
+            kycRiskScore={kyc.evaluation?.riskScore ?? null}
+            kycAsOf={kyc.asOf}
+            onKycAsOfChange={kyc.setAsOf}
+            kycShadowResults={kyc.evaluation?.shadows ?? []}
+            kycTransactionSignals={kyc.signals}
+            kycScreeningHits={kyc.screening.hits}
+            kycScreeningReviews={kyc.screening.reviews}
+            onReviewScreeningHit={kyc.screening.reviewHit}
+            onReopenScreeningHit={kyc.screening.reopenHit}
+            kycApprovals={kyc.approvals}
+            kycApprovalRequired={kyc.approvalRequired}
+            reviewerId={kyc.reviewerId}
+            onConfirmApproval={kyc.confirmApproval}
+            onRejectApproval={kyc.rejectApproval}
+            kycHistory={kyc.history}
+            kycDocumentRequests={kyc.documentRequests}
+            onUpdateDocumentStatus={kyc.updateDocumentStatus}
+            kycDocumentFiles={kyc.documentFiles}
+            onUploadDocumentFile={kyc.uploadDocumentFile}
+            kycHold={kyc.activeHold}
+            onReleaseHold={kyc.releaseHold}
             transactions={transactionsData?.transactions || []}
             isLoadingTransactions={isLoadingTransactions}
             filters={filters}
-            isProcessingKycAction={isProcessingKycAction}
+            isProcessingKycAction={kyc.isProcessing}
             onCustomerSelect={handleCustomerSelect}
+            onCustomersCheck={setCheckedCustomers}
             onFilterSubmit={handleFilterSubmit}
-            onApproveKyc={handleApproveKyc}
-            onRequestKycDocuments={handleRequestKycDocuments}
-            onHoldKyc={handleHoldKyc}
+            onApproveKyc={kyc.approve}
+            onRequestKycDocuments={kyc.requestDocuments}
+            onHoldKyc={kyc.hold}
           />
         )}
       </div>
+
+      <KycUndoToast action={kyc.stagedAction} onUndo={kyc.undo} />
     </div>
   );
 }
@@ -1,17 +1,112 @@
+import { useState } from 'react';
 import { KycDecisionBadge } from './KycDecisionBadge';
+import { KycDecisionTrace } from './KycDecisionTrace';
+import { KycTransactionSignalsSummary } from './KycTransactionSignalsSummary';
+import { KycRiskScoreSummary } from './KycRiskScoreSummary';
+import { KycScreeningHits } from './KycScreeningHits';
+import { KycApprovals } from './KycApprovals';
+import { KycJustificationDialog } from './KycJustificationDialog';
+import { KycDocumentRequestDialog } from './KycDocumentRequestDialog';
+import { KycDocumentRequests } from './KycDocumentRequests';
+import { KycActionHistory } from './KycActionHistory';
+import { KycHoldDialog } from './KycHoldDialog';
+import { KycHoldStatus } from './KycHoldStatus';
 import type { KycResult } from '../../../logic/kycRules.v1';
+import {
+  formatKycReason,
+  groupKycReasonsBySeverity,
+  type KycReasonSeverity,
+} from '../../../logic/kycReasons';
 import type { Customer } from '../../../legacy/LegacyCustomerSearch';
+import type { KycShadowResult } from '../../../logic/useKycEngine';
+import type { KycTransactionSignals } from '../../../logic/kycTransactionSignals';
+import type {
+  KycScreeningHit,
+  KycScreeningReviews,
+  KycScreeningReviewStatus,
+} from '../../../logic/kycScreening';
+import type { KycRolloutRule, KycVersionAssignment } from '../../../logic/kycRollout';
+import type { KycApproval, KycDocumentFile, KycDocumentRequest, KycHold } from '../../../api/transactionsApi';
+import { pendingKycApproval } from '../../../logic/kycFourEyes';
+import {
+  requiresKycJustification,
+  type KycJustification,
+  type KycReviewerAction,
+} from '../../../logic/kycJustification';
+import type {
+  KycDocumentRequestInput,
+  KycDocumentType,
+  KycRequestedDocumentStatus,
+} from '../../../logic/kycDocumentRequests';
+import type { KycHoldRequestInput } from '../../../logic/kycHolds';
+import type { KycActionHistoryEntry } from '../../../state/kycActionHistory';
+import { kycVersionRegistry } from '../../../logic/kycVersions';
+import { toKycEffectiveDate } from '../../../logic/kycVersionRegistry';
+import { kycDocumentStatusLabels } from '../../../logic/kycDocumentStatus';
+import {
+  kycOccupationLabels,
+  kycProductTypeLabels,
+  type KycRiskScoreResolution,
+} from '../../../logic/kycRiskScore';
+import { KycVersionBadge } from '../../../components/KycVersionBadge';
+import { getKycVersionStyles } from '../../../components/kycVersionStyles';
 
 interface CustomerDetailsPanelProps {
   customer: Customer | null;
   kycResult: KycResult | null;
-  kycVersion: 'v1' | 'v2';
+  kycVersion: string; // Version actually used for this customer
+  kycAssignment?: KycVersionAssignment | null;
+  kycRiskScore?: KycRiskScoreResolution | null; // Score the decision was made with
+  kycAsOf?: string | null; // Date (YYYY-MM-DD) the decision is re-evaluated as of; null for today
+  onKycAsOfChange?: (date: string | null) => void;
+  kycShadowResults?: KycShadowResult[];
+  kycTransactionSignals?: KycTransactionSignals | null;
+  kycScreeningHits?: KycScreeningHit[];
+  kycScreeningReviews?: KycScreeningReviews;
+  onReviewScreeningHit?: (entryId: string, status: KycScreeningReviewStatus) => void;
+  onReopenScreeningHit?: (entryId: string) => void;
+  kycApprovals?: KycApproval[]; // Four-eyes approvals, oldest first
+  kycApprovalRequired?: boolean; // Approving goes against the decision and needs a second reviewer
+  reviewerId?: string;
+  onConfirmApproval?: () => void;
+  onRejectApproval?: () => void;
+  kycHistory?: KycActionHistoryEntry[]; // Actions taken on the customer, oldest first
+  kycDocumentRequests?: KycDocumentRequest[]; // Oldest first
+  onUpdateDocumentStatus?: (
+    requestId: string,
+    documentType: KycDocumentType,
+    status: KycRequestedDocumentStatus
+  ) => void;
+  kycDocumentFiles?: KycDocumentFile[]; // Evidence uploaded for the requests, oldest first
+  onUploadDocumentFile?: (requestId: string, documentType: KycDocumentType, file: File) => void;
+  kycHold?: KycHold | null; // Active hold, if any
+  onReleaseHold?: () => void;
   isProcessing?: boolean;
-  onApprove?: () => void;
-  onRequestDocs?: () => void;
-  onHold?: () => void;
+  // Called with a justification when the action goes against the decision
+  onApprove?: (justification?: KycJustification) => void;
+  onRequestDocs?: (request: KycDocumentRequestInput, justification?: KycJustification) => void;
+  onHold?: (request: KycHoldRequestInput, justification?: KycJustification) => void;
 }
 
+const severityStyles: Record<KycReasonSeverity, { label: string; className: string }> = {
+  critical: { label: 'Critical', className: 'bg-red-50 border-red-300 text-red-800' },
+  warning: { label: 'Warning', className: 'bg-yellow-50 border-yellow-300 text-yellow-800' },
+  info: { label: 'Info', className: 'bg-green-50 border-green-300 text-green-800' },
+};
+
+const rolloutRuleLabels: Record<KycRolloutRule, string> = {
+  disabled: 'Rollout disabled',
+  default: 'Not in rollout',
+  customer_allow: 'Customer allow list',
+  customer_deny: 'Customer excluded from rollout',
+  country_allow: 'Country allow list',
+  country_deny: 'Country excluded from rollout',
+  split: 'Rollout split',
+};
+
+// No version can be picked before the first one went live
+const earliestEffectiveDate = kycVersionRegistry.versions.flatMap((version) => version.effectiveFrom ?? []).sort()[0];
+
 /**
  * UI Component: Displays customer details and KYC decision with action buttons
  * Pure presentation component - all business logic handled at page level
@@ -20,11 +115,41 @@ export function CustomerDetailsPanel({
   customer,
   kycResult,
   kycVersion,
+  kycAssignment = null,
+  kycRiskScore = null,
+  kycAsOf = null,
+  onKycAsOfChange,
+  kycShadowResults = [],
+  kycTransactionSignals = null,
+  kycScreeningHits = [],
+  kycScreeningReviews = {},
+  onReviewScreeningHit,
+  onReopenScreeningHit,
+  kycApprovals = [],
+  kycApprovalRequired = false,
+  reviewerId = '',
+  onConfirmApproval,
+  onRejectApproval,
+  kycHistory = [],
+  kycDocumentRequests = [],
+  onUpdateDocumentStatus,
+  kycDocumentFiles = [],
+  onUploadDocumentFile,
+  kycHold = null,
+  onReleaseHold,
   isProcessing = false,
   onApprove,
   onRequestDocs,
   onHold,
 }: CustomerDetailsPanelProps) {
+  // Action waiting for a justification before it runs
+  const [justifying, setJustifying] = useState<{
+    action: KycReviewerAction;
+    run: (justification: KycJustification) => void;
+  } | null>(null);
+  const [isRequestingDocuments, setIsRequestingDocuments] = useState(false);
+  const [isPlacingHold, setIsPlacingHold] = useState(false);
+
   if (!customer) {
     return (
       <section className="p-6 bg-white rounded-lg border border-gray-200" aria-labelledby="kyc-decision-heading">
@@ -35,9 +160,36 @@ export function CustomerDetailsPanel({
   }
 
   // Visual styling based on KYC version
-  const versionStyles = kycVersion === 'v1' 
-    ? 'bg-blue-50 border-blue-300' 
-    : 'bg-purple-50 border-purple-300';
+  const versionStyles = getKycVersionStyles(kycVersion).panel;
+  const hasPendingApproval = pendingKycApproval(kycApprovals) !== null;
+  // A past decision is only shown; actions follow the live one
+  const asOfTitle = kycAsOf ? 'Return to the live rules to act on this customer' : undefined;
+
+  // Actions against the decision ask for a justification first
+  const handleAction = (action: KycReviewerAction, run: (justification?: KycJustification) => void) => {
+    if (requiresKycJustification(action, kycResult?.decision)) {
+      setJustifying({ action, run });
+    } else {
+      run();
+    }
+  };
+
+  const handleJustified = (justification: KycJustification) => {
+    justifying?.run(justification);
+    setJustifying(null);
+  };
+
+  // Documents are picked before any justification is asked for
+  const handleDocumentRequest = (request: KycDocumentRequestInput) => {
+    setIsRequestingDocuments(false);
+    handleAction('request_documents', (justification) => onRequestDocs?.(request, justification));
+  };
+
+  // Likewise the reason and expiry of a hold
+  const handleHold = (request: KycHoldRequestInput) => {
+    setIsPlacingHold(false);
+    handleAction('hold', (justification) => onHold?.(request, justification));
+  };
 
   return (
     <section 
@@ -46,14 +198,40 @@ export function CustomerDetailsPanel({
     >
       <div className="flex items-center justify-between mb-4">
         <h2 id="kyc-decision-heading" className="text-lg font-semibold">KYC Decision</h2>
-        <div className={`px-3 py-1 rounded-full text-xs font-bold ${
-          kycVersion === 'v1' 
-            ? 'bg-blue-600 text-white' 
-            : 'bg-purple-600 text-white'
-        }`}>
-          {kycVersion.toUpperCase()}
-        </div>
+        <KycVersionBadge version={kycVersion} />
       </div>
+      {kycAssignment && kycAssignment.rule !== 'disabled' && (
+        <p className="-mt-2 mb-4 text-xs text-gray-600 text-right" data-testid="kyc-rollout-assignment">
+          {rolloutRuleLabels[kycAssignment.rule]}
+          {kycAssignment.bucket !== null && ` · bucket ${kycAssignment.bucket}`}
+        </p>
+      )}
+      <div className="flex items-center justify-end gap-2 mb-4 text-xs text-gray-600">
+        <label htmlFor="kyc-as-of">Rules as of</label>
+        <input
+          id="kyc-as-of"
+          type="date"
+          value={kycAsOf ?? ''}
+          min={earliestEffectiveDate}
+          max={toKycEffectiveDate(Date.now())}
+          onChange={(e) => onKycAsOfChange?.(e.target.value || null)}
+          className="px-2 py-1 border border-gray-300 rounded-md bg-white"
+        />
+        {kycAsOf && (
+          <button
+            type="button"
+            onClick={() => onKycAsOfChange?.(null)}
+            className="px-2 py-1 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors"
+          >
+            Today
+          </button>
+        )}
+      </div>
+      {kycAsOf && !kycVersionRegistry.resolveAsOf(kycAsOf) && (
+        <p className="mb-4 p-2 rounded-md border border-yellow-300 bg-yellow-50 text-sm text-yellow-800" role="alert">
+          No KYC version was in effect on {kycAsOf}
+        </p>
+      )}
       
       <div className="space-y-4">
         <div>
@@ -63,41 +241,114 @@ export function CustomerDetailsPanel({
           </div>
           <div className="text-sm text-gray-600 space-y-1">
             <div>ID {customer.id}</div>
-            <div>Risk Score {customer.riskScore}</div>
+            <div data-testid="kyc-risk-score">
+              Risk Score {kycRiskScore?.value ?? customer.riskScore}
+              {kycRiskScore && <span className="text-xs text-gray-500"> ({kycRiskScore.source})</span>}
+            </div>
             <div>Country {customer.country}</div>
+            {customer.nationality && <div>Nationality {customer.nationality}</div>}
+            {customer.documentStatus && <div>Document {kycDocumentStatusLabels[customer.documentStatus]}</div>}
+            {customer.accountOpenedAt && <div>Account opened {customer.accountOpenedAt}</div>}
+            {customer.adverseMediaHits !== undefined && <div>Adverse media hits {customer.adverseMediaHits}</div>}
+            {customer.occupation && <div>Occupation {kycOccupationLabels[customer.occupation]}</div>}
+            {customer.productType && <div>Product {kycProductTypeLabels[customer.productType]}</div>}
           </div>
         </div>
 
+        {kycShadowResults
+          .filter((shadow) => shadow.diverges)
+          .map((shadow) => (
+            <div
+              key={shadow.version}
+              className="px-3 py-2 rounded-md border border-dashed border-gray-400 bg-white text-sm text-gray-700"
+              role="note"
+            >
+              <span className="font-semibold">{kycVersionRegistry.get(shadow.version)?.label ?? shadow.version}</span> would have said:{' '}
+              <span className="font-semibold">{shadow.result.decision.replace('_', ' ')}</span>
+            </div>
+          ))}
+
         {kycResult && kycResult.reasons.length > 0 && (
           <div>
             <h3 className="font-semibold text-sm text-gray-700 mb-2">Reasons</h3>
-            <ul className="list-disc list-inside text-sm text-gray-600 space-y-1">
-              {kycResult.reasons.map((reason, index) => (
-                <li key={index}>{reason}</li>
+            <div className="space-y-2">
+              {groupKycReasonsBySeverity(kycResult.reasons).map(({ severity, reasons }) => (
+                <div
+                  key={severity}
+                  className={`p-2 rounded-md border text-sm ${severityStyles[severity].className}`}
+                >
+                  <div className="text-xs font-bold uppercase mb-1">{severityStyles[severity].label}</div>
+                  <ul className="list-disc list-inside space-y-1">
+                    {reasons.map((reason) => (
+                      <li key={reason.code} data-reason-code={reason.code}>
+                        {formatKycReason(reason)}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
               ))}
-            </ul>
+            </div>
           </div>
         )}
 
+        <KycScreeningHits
+          hits={kycScreeningHits}
+          reviews={kycScreeningReviews}
+          disabled={isProcessing}
+          onReview={onReviewScreeningHit}
+          onReopen={onReopenScreeningHit}
+        />
+
+        {kycRiskScore?.breakdown && <KycRiskScoreSummary breakdown={kycRiskScore.breakdown} />}
+
+        {kycTransactionSignals && <KycTransactionSignalsSummary signals={kycTransactionSignals} />}
+
+        {kycResult?.trace && <KycDecisionTrace trace={kycResult.trace} />}
+
+        <KycHoldStatus hold={kycHold} disabled={isProcessing} onRelease={onReleaseHold} />
+
+        <KycApprovals
+          approvals={kycApprovals}
+          reviewerId={reviewerId}
+          disabled={isProcessing}
+          onConfirm={onConfirmApproval}
+          onReject={onRejectApproval}
+        />
+
+        <KycDocumentRequests
+          requests={kycDocumentRequests}
+          files={kycDocumentFiles}
+          disabled={isProcessing}
+          onUpdateStatus={onUpdateDocumentStatus}
+          onUpload={onUploadDocumentFile}
+        />
+
+        <KycActionHistory entries={kycHistory} />
+
         <div className="pt-4 border-t border-gray-200">
           <div className="grid grid-cols-2 gap-2">
             <button
-              onClick={onApprove}
-              disabled={isProcessing}
+              onClick={() => handleAction('approve', (justification) => onApprove?.(justification))}
+              disabled={isProcessing || !kycResult || hasPendingApproval || kycAsOf !== null}
+              title={
+                asOfTitle ?? (kycApprovalRequired ? 'Approving against the decision needs a second reviewer' : undefined)
+              }
               className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm"
             >
-              Approve
+              {kycApprovalRequired ? 'Submit Approval' : 'Approve'}
             </button>
             <button
-              onClick={onRequestDocs}
-              disabled={isProcessing}
+              onClick={() => setIsRequestingDocuments(true)}
+              disabled={isProcessing || kycAsOf !== null}
+              title={asOfTitle}
               className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm"
             >
               Request Docs
             </button>
             <button
-              onClick={onHold}
-              disabled={isProcessing}
+              onClick={() => setIsPlacingHold(true)}
+              disabled={isProcessing || kycHold !== null || kycAsOf !== null}
+              title={asOfTitle ?? (kycHold ? 'The customer is already on hold' : undefined)}
               className="col-span-2 px-4 py-2 bg-orange-600 text-white rounded-md hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm"
             >
               Hold
@@ -105,6 +356,21 @@ export function CustomerDetailsPanel({
           </div>
         </div>
       </div>
+
+      {isRequestingDocuments && (
+        <KycDocumentRequestDialog onSubmit={handleDocumentRequest} onCancel={() => setIsRequestingDocuments(false)} />
+      )}
+
+      {isPlacingHold && <KycHoldDialog onSubmit={handleHold} onCancel={() => setIsPlacingHold(false)} />}
+
+      {justifying && kycResult && (
+        <KycJustificationDialog
+          action={justifying.action}
+          decision={kycResult.decision}
+          onSubmit={handleJustified}
+          onCancel={() => setJustifying(null)}
+        />
+      )}
     </section>
   );
 }
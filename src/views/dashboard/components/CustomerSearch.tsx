@@ -3,6 +3,7 @@ import { LegacyCustomerSearch, type Customer } from '../../../legacy/LegacyCusto
 
 interface CustomerSearchProps {
   onCustomerSelect: (customer: Customer) => void;
+  onCustomersCheck?: (customers: Customer[]) => void; // Customers ticked for bulk actions
 }
 
 /**
@@ -30,7 +31,7 @@ interface CustomerSearchProps {
  * 3. Practical organization: sometimes reusable utilities with minimal logic
  *    belong in components for discoverability and ease of use
  */
-export function CustomerSearch({ onCustomerSelect }: CustomerSearchProps) {
+export function CustomerSearch({ onCustomerSelect, onCustomersCheck }: CustomerSearchProps) {
   const containerRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -46,13 +47,19 @@ export function CustomerSearch({ onCustomerSelect }: CustomerSearchProps) {
       }
     };
 
+    const handleCustomersCheck = (event: Event) => {
+      onCustomersCheck?.((event as CustomEvent<Customer[]>).detail);
+    };
+
     container.addEventListener('customer:select', handleCustomerSelect);
+    container.addEventListener('customers:check', handleCustomersCheck);
 
     // Cleanup
     return () => {
       container.removeEventListener('customer:select', handleCustomerSelect);
+      container.removeEventListener('customers:check', handleCustomersCheck);
     };
-  }, [onCustomerSelect]);
+  }, [onCustomerSelect, onCustomersCheck]);
 
   return (
     <div ref={containerRef} data-business-logic="CustomerSearch">
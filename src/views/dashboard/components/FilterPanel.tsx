@@ -6,7 +6,7 @@ const filterSchema = z.object({
   dateFrom: z.string().optional(),
   dateTo: z.string().optional(),
   type: z.enum(['payment', 'refund', 'chargeback', 'all']).optional(),
-  status: z.enum(['completed', 'pending', 'failed', 'all']).optional(),
+  status: z.enum(['completed', 'pending', 'on_hold', 'failed', 'all']).optional(),
 });
 
 export type FilterFormData = z.infer<typeof filterSchema>;
@@ -131,6 +131,7 @@ export function FilterPanel({ onSubmit, defaultValues }: FilterPanelProps) {
               <option value="all">All Statuses</option>
               <option value="completed">Completed</option>
               <option value="pending">Pending</option>
+              <option value="on_hold">On hold</option>
               <option value="failed">Failed</option>
             </select>
           </div>
@@ -0,0 +1,56 @@
+import type { KycActionHistoryEntry, KycHistoryAction } from '../../../state/kycActionHistory';
+import { kycJustificationCategoryLabels } from '../../../logic/kycJustification';
+import { kycReviewerName } from '../../../logic/kycReviewers';
+
+interface KycActionHistoryProps {
+  entries: KycActionHistoryEntry[]; // Oldest first
+}
+
+const actionLabels: Record<KycHistoryAction, string> = {
+  approve: 'Approved',
+  undo_approve: 'Undid approval',
+  submit_approval: 'Submitted approval',
+  confirm_approval: 'Confirmed approval',
+  reject_approval: 'Rejected approval',
+  request_documents: 'Requested documents',
+  hold: 'Held',
+  release_hold: 'Released hold',
+  undo_hold: 'Undid hold',
+};
+
+/**
+ * UI Component: KYC actions taken on a customer, newest first, with the justification given
+ * Pure presentation component - history is recorded at page level
+ */
+export function KycActionHistory({ entries }: KycActionHistoryProps) {
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="p-3 rounded-md border border-gray-200 bg-white text-sm" aria-label="KYC action history">
+      <h3 className="font-semibold text-gray-700 mb-2">History</h3>
+      <ul className="space-y-2">
+        {[...entries].reverse().map((entry) => (
+          <li key={entry.id} data-history-action={entry.action}>
+            <div className="font-semibold text-gray-800">
+              {actionLabels[entry.action]}
+              {entry.record && (
+                <span className="font-normal text-gray-600"> · engine said {entry.record.decision.replace('_', ' ')}</span>
+              )}
+            </div>
+            <div className="text-xs text-gray-600">
+              {kycReviewerName(entry.reviewerId)} · {new Date(entry.recordedAt).toLocaleString()}
+            </div>
+            {entry.record?.justification && (
+              <blockquote className="mt-1 pl-2 border-l-2 border-gray-300 text-xs text-gray-700">
+                <span className="font-semibold">
+                  {kycJustificationCategoryLabels[entry.record.justification.category]}:
+                </span>{' '}
+                {entry.record.justification.note}
+              </blockquote>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import type { KycApproval, KycApprovalStatus } from '../../../api/transactionsApi';
+import { canCheckKycApproval } from '../../../logic/kycFourEyes';
+import { kycReviewerName } from '../../../logic/kycReviewers';
+
+interface KycApprovalsProps {
+  approvals: KycApproval[]; // Oldest first
+  reviewerId: string; // Current reviewer
+  disabled?: boolean;
+  onConfirm?: () => void;
+  onReject?: () => void;
+}
+
+const statusStyles: Record<KycApprovalStatus, { label: string; className: string }> = {
+  pending: { label: 'Awaiting second reviewer', className: 'text-yellow-800' },
+  confirmed: { label: 'Confirmed', className: 'text-green-800' },
+  rejected: { label: 'Rejected', className: 'text-red-800' },
+};
+
+const formatTime = (timestamp: string) => new Date(timestamp).toLocaleString();
+
+/**
+ * UI Component: Four-eyes approvals of a customer, with confirm/reject for the second reviewer
+ * Pure presentation component - approvals are submitted and decided at page level
+ */
+export function KycApprovals({ approvals, reviewerId, disabled = false, onConfirm, onReject }: KycApprovalsProps) {
+  if (approvals.length === 0) return null;
+
+  return (
+    <div className="p-3 rounded-md border border-gray-200 bg-white text-sm" aria-label="Four-eyes approvals">
+      <h3 className="font-semibold text-gray-700 mb-2">Four-Eyes Approvals</h3>
+      <ul className="space-y-2">
+        {[...approvals].reverse().map((approval) => (
+          <li key={approval.id} data-approval-id={approval.id}>
+            <div className={`font-semibold ${statusStyles[approval.status].className}`}>
+              {statusStyles[approval.status].label}
+              {approval.record && (
+                <span className="font-normal text-gray-600"> · engine said {approval.record.decision.replace('_', ' ')}</span>
+              )}
+            </div>
+            <div className="text-xs text-gray-600">
+              Submitted by {kycReviewerName(approval.makerId)} · {formatTime(approval.submittedAt)}
+            </div>
+            {approval.checkerId && approval.decidedAt && (
+              <div className="text-xs text-gray-600">
+                {statusStyles[approval.status].label} by {kycReviewerName(approval.checkerId)} · {formatTime(approval.decidedAt)}
+              </div>
+            )}
+            {approval.status === 'pending' &&
+              (canCheckKycApproval(approval, reviewerId) ? (
+                <div className="mt-2 flex gap-2">
+                  <button
+                    type="button"
+                    onClick={onConfirm}
+                    disabled={disabled}
+                    className="px-3 py-1 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-xs"
+                  >
+                    Confirm Approval
+                  </button>
+                  <button
+                    type="button"
+                    onClick={onReject}
+                    disabled={disabled}
+                    className="px-3 py-1 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-xs"
+                  >
+                    Reject
+                  </button>
+                </div>
+              ) : (
+                <p className="mt-1 text-xs text-gray-500">A different reviewer must confirm or reject it</p>
+              ))}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+import { useState } from 'react';
+import type { Customer } from '../../../legacy/LegacyCustomerSearch';
+import type { KycDecision } from '../../../logic/kycRules.v1';
+import {
+  kycReviewerActionLabels,
+  type KycJustification,
+  type KycReviewerAction,
+} from '../../../logic/kycJustification';
+import type { KycDocumentRequestInput } from '../../../logic/kycDocumentRequests';
+import type { KycHoldRequestInput } from '../../../logic/kycHolds';
+import {
+  countKycBulkItems,
+  kycBulkRefusal,
+  type KycBulkItemStatus,
+  type KycBulkRun,
+} from '../../../logic/kycBulkActions';
+import { KycDecisionBadge } from './KycDecisionBadge';
+import { KycJustificationDialog } from './KycJustificationDialog';
+import { KycDocumentRequestDialog } from './KycDocumentRequestDialog';
+import { KycHoldDialog } from './KycHoldDialog';
+
+interface KycBulkActionBarProps {
+  customers: Customer[]; // Checked customers
+  decisions: Record<string, KycDecision>;
+  isEvaluating: boolean;
+  run: KycBulkRun | null;
+  isRunning: boolean;
+  justificationsNeeded: (action: KycReviewerAction, overrideDeny?: boolean) => number;
+  // Called with a justification when the action goes against the decision of some customers
+  onApprove: (options: { overrideDeny: boolean }, justification?: KycJustification) => void;
+  onHold: (request: KycHoldRequestInput, justification?: KycJustification) => void;
+  onRequestDocs: (request: KycDocumentRequestInput, justification?: KycJustification) => void;
+  onRetryFailed: () => void;
+}
+
+const statusStyles: Record<KycBulkItemStatus, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'text-gray-500' },
+  running: { label: 'Sending…', className: 'text-blue-700' },
+  succeeded: { label: 'Done', className: 'text-green-700' },
+  failed: { label: 'Failed', className: 'text-red-700 font-semibold' },
+  refused: { label: 'Refused', className: 'text-yellow-800' },
+};
+
+/**
+ * UI Component: Approve, Hold or Request Docs for every checked customer, with per-customer progress
+ * Pure presentation component - bulk actions are run at page level
+ */
+export function KycBulkActionBar({
+  customers,
+  decisions,
+  isEvaluating,
+  run,
+  isRunning,
+  justificationsNeeded,
+  onApprove,
+  onHold,
+  onRequestDocs,
+  onRetryFailed,
+}: KycBulkActionBarProps) {
+  const [overrideDeny, setOverrideDeny] = useState(false);
+  const [isRequestingDocuments, setIsRequestingDocuments] = useState(false);
+  const [isPlacingHold, setIsPlacingHold] = useState(false);
+  // Action waiting for a justification before it runs
+  const [justifying, setJustifying] = useState<{
+    action: KycReviewerAction;
+    customerCount: number;
+    run: (justification: KycJustification) => void;
+  } | null>(null);
+
+  if (customers.length === 0 && !run) return null;
+
+  const deniedCount = customers.filter((customer) => kycBulkRefusal('approve', decisions[customer.id], false)).length;
+  const counts = run ? countKycBulkItems(run.items) : null;
+  const disabled = isEvaluating || isRunning || customers.length === 0;
+
+  // Actions against the decision of any checked customer ask for one justification first
+  const handleAction = (action: KycReviewerAction, execute: (justification?: KycJustification) => void) => {
+    const customerCount = justificationsNeeded(action, overrideDeny);
+    if (customerCount > 0) {
+      setJustifying({ action, customerCount, run: execute });
+      return;
+    }
+    execute();
+  };
+
+  const handleJustified = (justification: KycJustification) => {
+    justifying?.run(justification);
+    setJustifying(null);
+  };
+
+  const handleDocumentRequest = (request: KycDocumentRequestInput) => {
+    setIsRequestingDocuments(false);
+    handleAction('request_documents', (justification) => onRequestDocs(request, justification));
+  };
+
+  const handleHold = (request: KycHoldRequestInput) => {
+    setIsPlacingHold(false);
+    handleAction('hold', (justification) => onHold(request, justification));
+  };
+
+  return (
+    <section className="mb-6 p-4 bg-white rounded-lg border border-gray-200" aria-labelledby="kyc-bulk-heading">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 id="kyc-bulk-heading" className="text-lg font-semibold">
+          {customers.length} {customers.length === 1 ? 'customer' : 'customers'} checked
+          {isEvaluating && <span className="ml-2 text-sm font-normal text-gray-500">Evaluating decisions…</span>}
+        </h2>
+        <div className="flex flex-wrap items-center gap-2">
+          {deniedCount > 0 && (
+            <label className="flex items-center gap-1 text-sm text-red-800">
+              <input
+                type="checkbox"
+                checked={overrideDeny}
+                onChange={(e) => setOverrideDeny(e.target.checked)}
+              />
+              Override {deniedCount} deny {deniedCount === 1 ? 'decision' : 'decisions'}
+            </label>
+          )}
+          <button
+            onClick={() => handleAction('approve', (justification) => onApprove({ overrideDeny }, justification))}
+            disabled={disabled}
+            className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm"
+          >
+            Approve All
+          </button>
+          <button
+            onClick={() => setIsRequestingDocuments(true)}
+            disabled={disabled}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm"
+          >
+            Request Docs for All
+          </button>
+          <button
+            onClick={() => setIsPlacingHold(true)}
+            disabled={disabled}
+            className="px-4 py-2 bg-orange-600 text-white rounded-md hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm"
+          >
+            Hold All
+          </button>
+        </div>
+      </div>
+
+      {run && counts && (
+        <div className="mt-4">
+          <div className="flex items-center justify-between mb-2 text-sm text-gray-700">
+            <span role="status">
+              {kycReviewerActionLabels[run.action]}: {counts.succeeded + counts.failed + counts.refused} of{' '}
+              {run.items.length} done · {counts.succeeded} succeeded · {counts.failed} failed · {counts.refused} refused
+            </span>
+            {counts.failed > 0 && (
+              <button
+                onClick={onRetryFailed}
+                disabled={isRunning}
+                className="px-3 py-1 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-xs"
+              >
+                Retry {counts.failed} failed
+              </button>
+            )}
+          </div>
+          <ul className="divide-y divide-gray-100 text-sm" aria-label="Bulk progress">
+            {run.items.map((item) => (
+              <li key={item.customerId} className="flex items-center justify-between gap-2 py-1">
+                <span className="flex items-center gap-2">
+                  {item.customerName}
+                  {decisions[item.customerId] && <KycDecisionBadge decision={decisions[item.customerId]} />}
+                </span>
+                <span className={statusStyles[item.status].className}>
+                  {statusStyles[item.status].label}
+                  {item.error && ` · ${item.error}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {isRequestingDocuments && (
+        <KycDocumentRequestDialog onSubmit={handleDocumentRequest} onCancel={() => setIsRequestingDocuments(false)} />
+      )}
+
+      {isPlacingHold && <KycHoldDialog onSubmit={handleHold} onCancel={() => setIsPlacingHold(false)} />}
+
+      {justifying && (
+        <KycJustificationDialog
+          action={justifying.action}
+          customerCount={justifying.customerCount}
+          onSubmit={handleJustified}
+          onCancel={() => setJustifying(null)}
+        />
+      )}
+    </section>
+  );
+}
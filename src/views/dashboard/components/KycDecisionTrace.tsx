@@ -0,0 +1,76 @@
+import type { KycConditionTrace, KycRuleTrace, KycTrace } from '../../../logic/kycRuleEngine';
+
+interface KycDecisionTraceProps {
+  trace: KycTrace;
+}
+
+const operatorLabels: Record<KycConditionTrace['op'], string> = {
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+  eq: '=',
+  in: 'in',
+};
+
+const statusStyles: Record<KycRuleTrace['status'], { label: string; className: string }> = {
+  fired: { label: 'Fired', className: 'bg-red-100 text-red-800' },
+  not_matched: { label: 'Passed', className: 'bg-green-100 text-green-800' },
+  suppressed: { label: 'Suppressed', className: 'bg-gray-100 text-gray-700' },
+  not_evaluated: { label: 'Not reached', className: 'bg-gray-100 text-gray-500' },
+};
+
+const formatValue = (value: KycConditionTrace['actual'] | KycConditionTrace['expected']) => {
+  if (value === undefined) return '—';
+  if (Array.isArray(value)) return `[${value.join(', ')}]`;
+  if (typeof value === 'number') return value.toLocaleString();
+  return String(value);
+};
+
+/**
+ * UI Component: Expandable "How was this decided?" breakdown of a KYC evaluation
+ * Pure presentation component - renders the trace produced by the rule engine
+ */
+export function KycDecisionTrace({ trace }: KycDecisionTraceProps) {
+  return (
+    <details className="rounded-md border border-gray-200 bg-white text-sm">
+      <summary className="cursor-pointer px-3 py-2 font-semibold text-gray-700">
+        How was this decided?
+      </summary>
+      <div className="px-3 pb-3 space-y-2">
+        <p className="text-xs text-gray-600">
+          Ruleset {trace.rulesetVersion.toUpperCase()}
+          {trace.shortCircuitedBy
+            ? ` - evaluation stopped early at rule "${trace.shortCircuitedBy}"`
+            : ' - every rule was checked'}
+          {trace.fallbackApplied && ' - no rule fired, default reason applied'}
+        </p>
+        <ol className="space-y-2">
+          {trace.rules.map((rule) => (
+            <li key={rule.ruleId} className="border-t border-gray-100 pt-2">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-mono text-xs text-gray-800">{rule.ruleId}</span>
+                <span className={`px-2 py-0.5 rounded text-xs font-medium ${statusStyles[rule.status].className}`}>
+                  {statusStyles[rule.status].label}
+                  {rule.ruleId === trace.shortCircuitedBy && ' (short-circuit)'}
+                </span>
+              </div>
+              <ul className="mt-1 space-y-0.5 text-xs text-gray-600">
+                {rule.conditions.map((condition, index) => (
+                  <li key={index} className={condition.matched ? 'font-medium text-gray-900' : ''}>
+                    {condition.field} {operatorLabels[condition.op]} {formatValue(condition.expected)}
+                    {' '}(actual: {formatValue(condition.actual)}){condition.matched ? ' ✓' : ' ✗'}
+                    {condition.source && <span className="text-gray-400"> from {condition.source}</span>}
+                  </li>
+                ))}
+              </ul>
+              <div className="text-xs text-gray-500">
+                Outcome if fired: {rule.outcome} ({rule.code})
+              </div>
+            </li>
+          ))}
+        </ol>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,40 @@
+import type { KycDocumentFile } from '../../../api/transactionsApi';
+import { isKycDocumentImage } from '../../../logic/kycDocumentFiles';
+import { useKycDocumentFileContent } from '../../../logic/useKycDocumentFileContent';
+
+interface KycDocumentFileThumbnailProps {
+  file: KycDocumentFile;
+  onOpen: () => void;
+}
+
+/**
+ * UI Component: Small preview of an uploaded file that opens the viewer
+ * Flags files whose content no longer matches the checksum taken at upload
+ */
+export function KycDocumentFileThumbnail({ file, onOpen }: KycDocumentFileThumbnailProps) {
+  const { url, checksumMatches, isError } = useKycDocumentFileContent(file);
+  const isTampered = checksumMatches === false;
+
+  return (
+    <button
+      type="button"
+      onClick={onOpen}
+      title={file.fileName}
+      aria-label={`View ${file.fileName}`}
+      className={`relative w-16 h-16 rounded-md border overflow-hidden bg-gray-50 flex items-center justify-center text-xs ${
+        isTampered ? 'border-red-500' : 'border-gray-300 hover:border-blue-500'
+      }`}
+    >
+      {url && isKycDocumentImage(file.mimeType) ? (
+        <img src={url} alt="" className="w-full h-full object-cover" />
+      ) : (
+        <span className="font-semibold text-gray-600">
+          {isError ? 'Unavailable' : file.mimeType === 'application/pdf' ? `PDF · ${file.pageCount}p` : '…'}
+        </span>
+      )}
+      {isTampered && (
+        <span className="absolute bottom-0 inset-x-0 bg-red-600 text-white text-[10px] font-semibold">Altered</span>
+      )}
+    </button>
+  );
+}
@@ -0,0 +1,88 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  defaultKycDocumentDueDate,
+  kycDocumentRequestSchema,
+  kycDocumentTypeLabels,
+  kycDocumentTypeSchema,
+  type KycDocumentRequestInput,
+} from '../../../logic/kycDocumentRequests';
+import { toKycEffectiveDate } from '../../../logic/kycVersionRegistry';
+
+interface KycDocumentRequestDialogProps {
+  onSubmit: (request: KycDocumentRequestInput) => void;
+  onCancel: () => void;
+}
+
+/**
+ * UI Component: Picks the documents to ask a customer for and when they are due
+ * Uses React Hook Form with Zod validation
+ */
+export function KycDocumentRequestDialog({ onSubmit, onCancel }: KycDocumentRequestDialogProps) {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<KycDocumentRequestInput>({
+    resolver: zodResolver(kycDocumentRequestSchema),
+    defaultValues: { documentTypes: [], dueDate: defaultKycDocumentDueDate() },
+  });
+
+  return (
+    <div className="fixed inset-0 z-10 flex items-center justify-center bg-black/40">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="kyc-document-request-heading"
+        className="w-full max-w-md p-6 bg-white rounded-lg shadow-lg"
+      >
+        <h2 id="kyc-document-request-heading" className="text-lg font-semibold mb-4">Request Documents</h2>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700 mb-1">Documents</legend>
+            <div className="grid grid-cols-2 gap-2">
+              {kycDocumentTypeSchema.options.map((type) => (
+                <label key={type} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input type="checkbox" value={type} {...register('documentTypes')} />
+                  {kycDocumentTypeLabels[type]}
+                </label>
+              ))}
+            </div>
+            {errors.documentTypes && (
+              <p className="mt-1 text-sm text-red-600" role="alert">{errors.documentTypes.message}</p>
+            )}
+          </fieldset>
+          <div>
+            <label htmlFor="kyc-document-due-date" className="block text-sm font-medium text-gray-700 mb-1">
+              Due date
+            </label>
+            <input
+              id="kyc-document-due-date"
+              type="date"
+              min={toKycEffectiveDate(Date.now())}
+              {...register('dueDate')}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-invalid={errors.dueDate ? 'true' : 'false'}
+            />
+            {errors.dueDate && <p className="mt-1 text-sm text-red-600" role="alert">{errors.dueDate.message}</p>}
+          </div>
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors text-sm"
+            >
+              Send Request
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import type { KycDocumentFile, KycDocumentRequest } from '../../../api/transactionsApi';
+import {
+  isKycDocumentOverdue,
+  kycDocumentTypeLabels,
+  kycRequestedDocumentStatusLabels,
+  nextKycDocumentStatuses,
+  type KycDocumentType,
+  type KycRequestedDocumentStatus,
+} from '../../../logic/kycDocumentRequests';
+import { kycReviewerName } from '../../../logic/kycReviewers';
+import { KycDocumentUpload } from './KycDocumentUpload';
+import { KycDocumentFileThumbnail } from './KycDocumentFileThumbnail';
+import { KycDocumentViewer } from './KycDocumentViewer';
+
+interface KycDocumentRequestsProps {
+  requests: KycDocumentRequest[]; // Oldest first
+  files?: KycDocumentFile[]; // Uploaded evidence, oldest first
+  disabled?: boolean;
+  onUpdateStatus?: (requestId: string, documentType: KycDocumentType, status: KycRequestedDocumentStatus) => void;
+  onUpload?: (requestId: string, documentType: KycDocumentType, file: File) => void;
+}
+
+// Files can be added until a document has been verified or rejected
+const uploadStatuses: KycRequestedDocumentStatus[] = ['requested', 'received'];
+
+const statusStyles: Record<KycRequestedDocumentStatus, string> = {
+  requested: 'bg-gray-100 text-gray-700',
+  received: 'bg-blue-100 text-blue-800',
+  verified: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+};
+
+// Button shown for each status a document can be moved to
+const statusActions: Record<KycRequestedDocumentStatus, { label: string; className: string }> = {
+  requested: { label: 'Request', className: 'bg-gray-600 hover:bg-gray-700' },
+  received: { label: 'Mark Received', className: 'bg-blue-600 hover:bg-blue-700' },
+  verified: { label: 'Verify', className: 'bg-green-600 hover:bg-green-700' },
+  rejected: { label: 'Reject', className: 'bg-red-600 hover:bg-red-700' },
+};
+
+/**
+ * UI Component: Documents requested from a customer, newest request first, with per-document status actions,
+ * uploaded files and an upload area
+ * Requests are made, updated and uploaded to at page level
+ */
+export function KycDocumentRequests({
+  requests,
+  files = [],
+  disabled = false,
+  onUpdateStatus,
+  onUpload,
+}: KycDocumentRequestsProps) {
+  const [viewingFile, setViewingFile] = useState<KycDocumentFile | null>(null);
+
+  if (requests.length === 0) return null;
+
+  return (
+    <div className="p-3 rounded-md border border-gray-200 bg-white text-sm" aria-label="Requested documents">
+      <h3 className="font-semibold text-gray-700 mb-2">Documents</h3>
+      <ul className="space-y-3">
+        {[...requests].reverse().map((request) => (
+          <li key={request.id} data-document-request-id={request.id}>
+            <div className="text-xs text-gray-600 mb-1">
+              Requested by {kycReviewerName(request.requestedBy)} · {new Date(request.requestedAt).toLocaleString()}
+              {' · '}due {request.dueDate}
+            </div>
+            <ul className="space-y-2">
+              {request.documents.map((document) => {
+                const documentFiles = files.filter(
+                  (file) => file.requestId === request.id && file.documentType === document.type
+                );
+                return (
+                  <li key={document.type} className="space-y-1" data-document-type={document.type}>
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-gray-800">
+                        {kycDocumentTypeLabels[document.type]}{' '}
+                        <span className={`px-1.5 py-0.5 rounded text-xs font-semibold ${statusStyles[document.status]}`}>
+                          {kycRequestedDocumentStatusLabels[document.status]}
+                        </span>
+                        {isKycDocumentOverdue(document.status, request.dueDate) && (
+                          <span className="ml-1 text-xs font-semibold text-red-700">Overdue</span>
+                        )}
+                      </span>
+                      <span className="flex gap-1">
+                        {nextKycDocumentStatuses(document.status).map((status) => (
+                          <button
+                            key={status}
+                            type="button"
+                            onClick={() => onUpdateStatus?.(request.id, document.type, status)}
+                            disabled={disabled}
+                            aria-label={`${statusActions[status].label} ${kycDocumentTypeLabels[document.type]}`}
+                            className={`px-2 py-0.5 text-white rounded-md disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-xs ${statusActions[status].className}`}
+                          >
+                            {statusActions[status].label}
+                          </button>
+                        ))}
+                      </span>
+                    </div>
+                    {documentFiles.length > 0 && (
+                      <div className="flex flex-wrap gap-1">
+                        {documentFiles.map((file) => (
+                          <KycDocumentFileThumbnail key={file.id} file={file} onOpen={() => setViewingFile(file)} />
+                        ))}
+                      </div>
+                    )}
+                    {onUpload && uploadStatuses.includes(document.status) && (
+                      <KycDocumentUpload
+                        label={kycDocumentTypeLabels[document.type]}
+                        disabled={disabled}
+                        onUpload={(file) => onUpload(request.id, document.type, file)}
+                      />
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </li>
+        ))}
+      </ul>
+      {viewingFile && <KycDocumentViewer file={viewingFile} onClose={() => setViewingFile(null)} />}
+    </div>
+  );
+}
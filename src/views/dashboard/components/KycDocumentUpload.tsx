@@ -0,0 +1,63 @@
+import { useId, useState, type DragEvent } from 'react';
+import { KYC_DOCUMENT_FILE_TYPES, kycDocumentFileError } from '../../../logic/kycDocumentFiles';
+
+interface KycDocumentUploadProps {
+  label: string; // What the file is for, e.g. the document type
+  disabled?: boolean;
+  onUpload: (file: File) => void;
+}
+
+/**
+ * UI Component: Drop area and file picker for evidence files
+ * Refuses files that are not images or PDFs, or too large, before anything is uploaded
+ */
+export function KycDocumentUpload({ label, disabled = false, onUpload }: KycDocumentUploadProps) {
+  const inputId = useId();
+  const [error, setError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const handleFile = (file: File | undefined) => {
+    if (!file || disabled) return;
+    const fileError = kycDocumentFileError(file);
+    setError(fileError);
+    if (!fileError) onUpload(file);
+  };
+
+  const handleDrop = (e: DragEvent<HTMLLabelElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFile(e.dataTransfer.files[0]);
+  };
+
+  return (
+    <div>
+      <label
+        htmlFor={inputId}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`block px-2 py-1 rounded-md border border-dashed text-xs text-center cursor-pointer transition-colors ${
+          isDragging ? 'border-blue-500 bg-blue-50 text-blue-800' : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+        } ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+      >
+        Drop or choose a file
+        <input
+          id={inputId}
+          type="file"
+          accept={KYC_DOCUMENT_FILE_TYPES.join(',')}
+          disabled={disabled}
+          aria-label={`Upload ${label}`}
+          onChange={(e) => {
+            handleFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+          className="sr-only"
+        />
+      </label>
+      {error && <p className="mt-1 text-xs text-red-600" role="alert">{error}</p>}
+    </div>
+  );
+}
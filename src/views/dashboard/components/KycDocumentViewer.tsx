@@ -0,0 +1,157 @@
+import { useEffect, useState } from 'react';
+import type { KycDocumentFile } from '../../../api/transactionsApi';
+import { isKycDocumentImage } from '../../../logic/kycDocumentFiles';
+import { kycDocumentTypeLabels } from '../../../logic/kycDocumentRequests';
+import { kycReviewerName } from '../../../logic/kycReviewers';
+import { useKycDocumentFileContent } from '../../../logic/useKycDocumentFileContent';
+
+interface KycDocumentViewerProps {
+  file: KycDocumentFile;
+  onClose: () => void;
+}
+
+const MIN_ZOOM = 0.25;
+const MAX_ZOOM = 4;
+const ZOOM_STEP = 0.25;
+
+const toolbarButtonClassName =
+  'px-2 py-1 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-xs';
+
+/**
+ * UI Component: In-app viewer for an uploaded file with zoom, rotate and page navigation
+ * PDF pages are shown by the browser's PDF viewer; zoom and rotation apply to the page as a whole
+ */
+export function KycDocumentViewer({ file, onClose }: KycDocumentViewerProps) {
+  const { url, checksumMatches, isLoading, isError } = useKycDocumentFileContent(file);
+  const [zoom, setZoom] = useState(1);
+  const [rotation, setRotation] = useState(0);
+  const [page, setPage] = useState(1);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const changeZoom = (delta: number) => setZoom((current) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, current + delta)));
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-black/60">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="kyc-document-viewer-heading"
+        className="w-full max-w-4xl h-[90vh] flex flex-col bg-white rounded-lg shadow-lg"
+      >
+        <div className="flex items-start justify-between gap-4 p-4 border-b border-gray-200">
+          <div>
+            <h2 id="kyc-document-viewer-heading" className="text-lg font-semibold">{file.fileName}</h2>
+            <p className="text-xs text-gray-600">
+              {kycDocumentTypeLabels[file.documentType]} · uploaded by {kycReviewerName(file.uploadedBy)} ·{' '}
+              {new Date(file.uploadedAt).toLocaleString()}
+            </p>
+            <p className="text-xs text-gray-500 font-mono break-all">SHA-256 {file.checksum}</p>
+          </div>
+          <button type="button" onClick={onClose} className={toolbarButtonClassName}>
+            Close
+          </button>
+        </div>
+
+        {checksumMatches === false && (
+          <p className="mx-4 mt-3 p-2 rounded-md border border-red-300 bg-red-50 text-sm text-red-800" role="alert">
+            This file no longer matches the checksum taken at upload and may have been altered
+          </p>
+        )}
+        {checksumMatches && <p className="mx-4 mt-3 text-xs text-green-700">Checksum verified</p>}
+
+        <div className="flex items-center justify-center gap-2 p-3" role="toolbar" aria-label="Viewer controls">
+          <button
+            type="button"
+            onClick={() => changeZoom(-ZOOM_STEP)}
+            disabled={zoom <= MIN_ZOOM}
+            className={toolbarButtonClassName}
+          >
+            Zoom Out
+          </button>
+          <span className="w-12 text-center text-xs text-gray-700" aria-live="polite">{Math.round(zoom * 100)}%</span>
+          <button
+            type="button"
+            onClick={() => changeZoom(ZOOM_STEP)}
+            disabled={zoom >= MAX_ZOOM}
+            className={toolbarButtonClassName}
+          >
+            Zoom In
+          </button>
+          <button
+            type="button"
+            onClick={() => setRotation((current) => (current + 90) % 360)}
+            className={toolbarButtonClassName}
+          >
+            Rotate
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setZoom(1);
+              setRotation(0);
+            }}
+            className={toolbarButtonClassName}
+          >
+            Reset
+          </button>
+          {file.pageCount > 1 && (
+            <>
+              <button
+                type="button"
+                onClick={() => setPage((current) => current - 1)}
+                disabled={page <= 1}
+                className={toolbarButtonClassName}
+              >
+                Previous Page
+              </button>
+              <span className="text-xs text-gray-700" aria-live="polite">
+                Page {page} of {file.pageCount}
+              </span>
+              <button
+                type="button"
+                onClick={() => setPage((current) => current + 1)}
+                disabled={page >= file.pageCount}
+                className={toolbarButtonClassName}
+              >
+                Next Page
+              </button>
+            </>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-auto bg-gray-100 flex items-center justify-center">
+          {isLoading && <p className="text-sm text-gray-600">Loading document…</p>}
+          {isError && (
+            <p className="text-sm text-red-700" role="alert">The document could not be loaded</p>
+          )}
+          {url && (
+            <div
+              style={{ transform: `scale(${zoom}) rotate(${rotation}deg)` }}
+              className="origin-center transition-transform"
+              data-testid="kyc-document-viewer-content"
+            >
+              {isKycDocumentImage(file.mimeType) ? (
+                <img src={url} alt={file.fileName} className="max-w-full max-h-[60vh]" />
+              ) : (
+                // The fragment selects the page in the browser's PDF viewer; the key reloads it on page change
+                <iframe
+                  key={page}
+                  src={`${url}#page=${page}`}
+                  title={`${file.fileName}, page ${page}`}
+                  className="w-[600px] h-[60vh] bg-white"
+                />
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
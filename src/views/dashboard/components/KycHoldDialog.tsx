@@ -0,0 +1,105 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  defaultKycHoldExpiry,
+  kycHoldReasonLabels,
+  kycHoldReasonSchema,
+  kycHoldRequestSchema,
+  type KycHoldRequestInput,
+} from '../../../logic/kycHolds';
+import { toKycEffectiveDate } from '../../../logic/kycVersionRegistry';
+
+interface KycHoldDialogProps {
+  onSubmit: (request: KycHoldRequestInput) => void;
+  onCancel: () => void;
+}
+
+/**
+ * UI Component: Asks why a customer is held and until when
+ * Uses React Hook Form with Zod validation
+ */
+export function KycHoldDialog({ onSubmit, onCancel }: KycHoldDialogProps) {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<KycHoldRequestInput>({
+    resolver: zodResolver(kycHoldRequestSchema),
+    defaultValues: { reason: 'suspicious_activity', note: '', expiresOn: defaultKycHoldExpiry() },
+  });
+
+  return (
+    <div className="fixed inset-0 z-10 flex items-center justify-center bg-black/40">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="kyc-hold-heading"
+        className="w-full max-w-md p-6 bg-white rounded-lg shadow-lg"
+      >
+        <h2 id="kyc-hold-heading" className="text-lg font-semibold mb-4">Hold Customer</h2>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div>
+            <label htmlFor="kyc-hold-reason" className="block text-sm font-medium text-gray-700 mb-1">
+              Reason
+            </label>
+            <select
+              id="kyc-hold-reason"
+              {...register('reason')}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {kycHoldReasonSchema.options.map((reason) => (
+                <option key={reason} value={reason}>
+                  {kycHoldReasonLabels[reason]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="kyc-hold-note" className="block text-sm font-medium text-gray-700 mb-1">
+              Note (optional)
+            </label>
+            <textarea
+              id="kyc-hold-note"
+              rows={3}
+              {...register('note')}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-invalid={errors.note ? 'true' : 'false'}
+            />
+            {errors.note && <p className="mt-1 text-sm text-red-600" role="alert">{errors.note.message}</p>}
+          </div>
+          <div>
+            <label htmlFor="kyc-hold-expires-on" className="block text-sm font-medium text-gray-700 mb-1">
+              Held until
+            </label>
+            <input
+              id="kyc-hold-expires-on"
+              type="date"
+              min={toKycEffectiveDate(Date.now())}
+              {...register('expiresOn')}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-invalid={errors.expiresOn ? 'true' : 'false'}
+            />
+            {errors.expiresOn && (
+              <p className="mt-1 text-sm text-red-600" role="alert">{errors.expiresOn.message}</p>
+            )}
+          </div>
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-orange-600 text-white rounded-md hover:bg-orange-700 transition-colors text-sm"
+            >
+              Place Hold
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
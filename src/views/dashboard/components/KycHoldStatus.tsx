@@ -0,0 +1,44 @@
+import type { KycHold } from '../../../api/transactionsApi';
+import { kycHoldReasonLabels } from '../../../logic/kycHolds';
+import { kycReviewerName } from '../../../logic/kycReviewers';
+
+interface KycHoldStatusProps {
+  hold: KycHold | null; // Active hold, if any
+  disabled?: boolean;
+  onRelease?: () => void;
+}
+
+/**
+ * UI Component: Shows that a customer is on hold, why and until when, with a Release action
+ * Pure presentation component - holds are placed and released at page level
+ */
+export function KycHoldStatus({ hold, disabled = false, onRelease }: KycHoldStatusProps) {
+  if (!hold) return null;
+
+  return (
+    <div
+      className="p-3 rounded-md border border-orange-300 bg-orange-50 text-sm text-orange-900"
+      aria-label="Hold"
+      data-hold-id={hold.id}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <h3 className="font-semibold">On hold · {kycHoldReasonLabels[hold.reason]}</h3>
+          <div className="text-xs">
+            Placed by {kycReviewerName(hold.placedBy)} · {new Date(hold.placedAt).toLocaleString()}
+          </div>
+          <div className="text-xs">Lifts automatically {new Date(hold.expiresAt).toLocaleString()}</div>
+        </div>
+        <button
+          type="button"
+          onClick={onRelease}
+          disabled={disabled}
+          className="px-3 py-1 bg-orange-600 text-white rounded-md hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-xs"
+        >
+          Release
+        </button>
+      </div>
+      {hold.note && <p className="mt-1 text-xs text-orange-800">{hold.note}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import type { z } from 'zod';
+import type { KycDecision } from '../../../logic/kycRules.v1';
+import {
+  kycJustificationCategoryLabels,
+  kycJustificationCategorySchema,
+  kycJustificationSchema,
+  kycReviewerActionLabels,
+  KYC_JUSTIFICATION_MIN_LENGTH,
+  type KycJustification,
+  type KycReviewerAction,
+} from '../../../logic/kycJustification';
+
+type KycJustificationInput = z.input<typeof kycJustificationSchema>;
+
+interface KycJustificationDialogProps {
+  action: KycReviewerAction;
+  decision?: KycDecision; // Engine decision the action goes against
+  customerCount?: number; // Bulk actions: customers the action goes against the decision of
+  onSubmit: (justification: KycJustification) => void;
+  onCancel: () => void;
+}
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * UI Component: Asks for the reason a reviewer acts against the engine's decision
+ * Uses React Hook Form with Zod validation; the action only runs once the form is valid
+ */
+export function KycJustificationDialog({
+  action,
+  decision,
+  customerCount,
+  onSubmit,
+  onCancel,
+}: KycJustificationDialogProps) {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<KycJustificationInput, unknown, KycJustification>({
+    resolver: zodResolver(kycJustificationSchema),
+    defaultValues: { category: 'false_positive', note: '' },
+  });
+
+  return (
+    <div className="fixed inset-0 z-10 flex items-center justify-center bg-black/40">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="kyc-justification-heading"
+        className="w-full max-w-md p-6 bg-white rounded-lg shadow-lg"
+      >
+        <h2 id="kyc-justification-heading" className="text-lg font-semibold mb-1">
+          {kycReviewerActionLabels[action]} against the decision
+        </h2>
+        <p className="text-sm text-gray-600 mb-4">
+          {customerCount !== undefined ? (
+            <>
+              The engine decided otherwise for <span className="font-semibold">{customerCount}</span> of the checked
+              customers. Give a reason for the audit trail.
+            </>
+          ) : (
+            <>
+              The engine said <span className="font-semibold">{decision?.replace('_', ' ')}</span>. Give a reason for
+              the audit trail.
+            </>
+          )}
+        </p>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div>
+            <label htmlFor="kyc-justification-category" className="block text-sm font-medium text-gray-700 mb-1">
+              Reason
+            </label>
+            <select id="kyc-justification-category" {...register('category')} className={inputClassName}>
+              {kycJustificationCategorySchema.options.map((category) => (
+                <option key={category} value={category}>{kycJustificationCategoryLabels[category]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="kyc-justification-note" className="block text-sm font-medium text-gray-700 mb-1">
+              Note
+            </label>
+            <textarea
+              id="kyc-justification-note"
+              rows={4}
+              placeholder={`At least ${KYC_JUSTIFICATION_MIN_LENGTH} characters`}
+              {...register('note')}
+              className={inputClassName}
+              aria-invalid={errors.note ? 'true' : 'false'}
+            />
+            {errors.note && <p className="mt-1 text-sm text-red-600" role="alert">{errors.note.message}</p>}
+          </div>
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors text-sm"
+            >
+              Confirm {kycReviewerActionLabels[action]}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
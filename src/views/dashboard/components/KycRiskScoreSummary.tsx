@@ -0,0 +1,47 @@
+import type { KycRiskScoreBreakdown } from '../../../logic/kycRiskScore';
+
+interface KycRiskScoreSummaryProps {
+  breakdown: KycRiskScoreBreakdown;
+}
+
+const formatPoints = (points: number) => points.toLocaleString('en-US', { maximumFractionDigits: 1 });
+
+/**
+ * UI Component: Per-factor contributions to a computed risk score
+ * Pure presentation component
+ */
+export function KycRiskScoreSummary({ breakdown }: KycRiskScoreSummaryProps) {
+  return (
+    <div className="p-3 rounded-md border border-gray-200 bg-white text-sm" aria-label="Risk score breakdown">
+      <h3 className="font-semibold text-gray-700 mb-2">Risk Score Breakdown</h3>
+      <table className="w-full text-gray-600">
+        <thead className="sr-only">
+          <tr>
+            <th scope="col">Factor</th>
+            <th scope="col">Points</th>
+          </tr>
+        </thead>
+        <tbody>
+          {breakdown.contributions.map((contribution) => (
+            <tr key={contribution.factor} data-factor={contribution.factor}>
+              <td className="py-0.5">
+                <div>{contribution.label}</div>
+                <div className="text-xs text-gray-500">{contribution.detail}</div>
+              </td>
+              <td className="py-0.5 text-right font-mono text-gray-900 align-top">
+                {formatPoints(contribution.points)}
+                <span className="text-gray-400"> / {contribution.weight}</span>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr className="border-t border-gray-100">
+            <th scope="row" className="pt-1 text-left font-semibold text-gray-700">Score</th>
+            <td className="pt-1 text-right font-mono font-semibold text-gray-900">{breakdown.score}</td>
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+}
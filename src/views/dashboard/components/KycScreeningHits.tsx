@@ -0,0 +1,97 @@
+import {
+  kycWatchlistTypeLabels,
+  type KycWatchlistType,
+} from '../../../logic/kycWatchlist';
+import type {
+  KycScreeningHit,
+  KycScreeningReviews,
+  KycScreeningReviewStatus,
+} from '../../../logic/kycScreening';
+
+interface KycScreeningHitsProps {
+  hits: KycScreeningHit[];
+  reviews: KycScreeningReviews;
+  disabled?: boolean;
+  onReview?: (entryId: string, status: KycScreeningReviewStatus) => void;
+  onReopen?: (entryId: string) => void;
+}
+
+const listStyles: Record<KycWatchlistType, string> = {
+  sanctions: 'bg-red-100 text-red-800',
+  pep: 'bg-purple-100 text-purple-800',
+};
+
+const statusLabels: Record<KycScreeningReviewStatus, string> = {
+  confirmed: 'Confirmed',
+  dismissed: 'Dismissed',
+};
+
+/**
+ * UI Component: Watchlist hits for a customer with confirm/dismiss actions
+ * Pure presentation component - confirmed hits are applied to the KYC input at page level
+ */
+export function KycScreeningHits({ hits, reviews, disabled = false, onReview, onReopen }: KycScreeningHitsProps) {
+  return (
+    <div className="p-3 rounded-md border border-gray-200 bg-white text-sm" aria-label="Watchlist screening">
+      <h3 className="font-semibold text-gray-700 mb-2">Watchlist Screening</h3>
+      {hits.length === 0 ? (
+        <p className="text-gray-600">No watchlist matches</p>
+      ) : (
+        <ul className="space-y-2">
+          {hits.map((hit) => {
+            const review = reviews[hit.entryId];
+            return (
+              <li key={hit.entryId} className="flex items-center gap-2" data-entry-id={hit.entryId}>
+                <span className={`px-1.5 py-0.5 rounded text-xs font-semibold ${listStyles[hit.list]}`}>
+                  {kycWatchlistTypeLabels[hit.list]}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <div className="text-gray-900 truncate">{hit.matchedName}</div>
+                  <div className="text-xs text-gray-500">
+                    {hit.entryId}
+                    {hit.matchedName !== hit.entryName && ` · alias of ${hit.entryName}`} · {Math.round(hit.score * 100)}%
+                    match
+                  </div>
+                </div>
+                {review ? (
+                  <>
+                    <span className="text-xs font-semibold text-gray-700">{statusLabels[review.status]}</span>
+                    <button
+                      type="button"
+                      onClick={() => onReopen?.(hit.entryId)}
+                      disabled={disabled}
+                      className="px-2 py-1 bg-gray-200 text-gray-700 rounded-md text-xs hover:bg-gray-300 disabled:opacity-50 transition-colors"
+                    >
+                      Reopen
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => onReview?.(hit.entryId, 'confirmed')}
+                      disabled={disabled}
+                      aria-label={`Confirm ${hit.entryId} match`}
+                      className="px-2 py-1 bg-red-600 text-white rounded-md text-xs hover:bg-red-700 disabled:opacity-50 transition-colors"
+                    >
+                      Confirm
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onReview?.(hit.entryId, 'dismissed')}
+                      disabled={disabled}
+                      aria-label={`Dismiss ${hit.entryId} match`}
+                      className="px-2 py-1 bg-gray-200 text-gray-700 rounded-md text-xs hover:bg-gray-300 disabled:opacity-50 transition-colors"
+                    >
+                      Dismiss
+                    </button>
+                  </>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
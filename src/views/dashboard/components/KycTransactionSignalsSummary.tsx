@@ -0,0 +1,45 @@
+import type { KycTransactionSignals } from '../../../logic/kycTransactionSignals';
+
+interface KycTransactionSignalsSummaryProps {
+  signals: KycTransactionSignals;
+}
+
+const formatAmount = (amount: number) => amount.toLocaleString('en-US', { maximumFractionDigits: 2 });
+
+/**
+ * UI Component: Transaction-derived KYC inputs and the transactions behind them
+ * Pure presentation component
+ */
+export function KycTransactionSignalsSummary({ signals }: KycTransactionSignalsSummaryProps) {
+  return (
+    <div className="p-3 rounded-md border border-gray-200 bg-white text-sm" aria-label="Transaction signals">
+      <h3 className="font-semibold text-gray-700 mb-2">Transaction Signals</h3>
+      <dl className="grid grid-cols-2 gap-x-3 gap-y-1 text-gray-600">
+        <dt>Velocity (24h)</dt>
+        <dd className="font-mono text-gray-900">{signals.velocity}</dd>
+        <dt>Largest pending</dt>
+        <dd className="font-mono text-gray-900">{formatAmount(signals.largestPendingAmount)}</dd>
+        {Object.entries(signals.totalsByType).map(([type, total]) => (
+          <div key={type} className="contents">
+            <dt className="capitalize">{type}s ({signals.windowDays}d)</dt>
+            <dd className="font-mono text-gray-900">{formatAmount(total)}</dd>
+          </div>
+        ))}
+      </dl>
+      {(signals.drivers.amount || signals.drivers.velocity.length > 0) && (
+        <div className="mt-2 pt-2 border-t border-gray-100 text-xs text-gray-500 space-y-0.5">
+          {signals.drivers.amount && (
+            <div>
+              Amount from <span className="font-mono">{signals.drivers.amount}</span>
+            </div>
+          )}
+          {signals.drivers.velocity.length > 0 && (
+            <div>
+              Velocity from <span className="font-mono">{signals.drivers.velocity.join(', ')}</span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -28,6 +28,8 @@ const getStatusBadgeColor = (status: Transaction['status']) => {
       return 'bg-yellow-100 text-yellow-800';
     case 'failed':
       return 'bg-red-100 text-red-800';
+    case 'on_hold':
+      return 'bg-orange-100 text-orange-800';
     default:
       return 'bg-gray-100 text-gray-800';
   }
@@ -105,7 +107,7 @@ export function TransactionsTable({ transactions, isLoading }: TransactionsTable
                       transaction.status
                     )}`}
                   >
-                    {transaction.status}
+                    {transaction.status.replace('_', ' ')}
                   </span>
                 </td>
                 <td className="py-3 text-sm text-gray-600">{formatDate(transaction.date)}</td>
@@ -0,0 +1,69 @@
+import { useMemo } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { kycVersionRegistry } from '../../logic/kycVersions';
+import { getEffectiveJurisdictionPolicy, jurisdictionPolicy } from '../../logic/jurisdictionPolicy';
+import { countryName, isKnownCountryCode, isoCountryCodes, placeholderCountryCodes } from '../../logic/isoCountries';
+import { EffectivePolicyPanel } from './components/EffectivePolicyPanel';
+import { PolicyOverview } from './components/PolicyOverview';
+
+const DEFAULT_COUNTRY = 'US';
+
+const countryOptions = [...isoCountryCodes, ...placeholderCountryCodes]
+  .map((code) => ({ code, name: countryName(code) }))
+  .sort((a, b) => a.name.localeCompare(b.name));
+
+/**
+ * Jurisdiction Policy Admin Page
+ * Shows the effective KYC policy (lists and thresholds) for any country.
+ * The selected country is kept in the URL.
+ */
+export function JurisdictionPolicyView() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const requested = searchParams.get('country')?.toUpperCase() ?? DEFAULT_COUNTRY;
+  const country = isKnownCountryCode(requested) ? requested : DEFAULT_COUNTRY;
+
+  const effectivePolicy = useMemo(
+    () => getEffectiveJurisdictionPolicy(jurisdictionPolicy, country),
+    [country]
+  );
+
+  const handleCountrySelect = (code: string) => setSearchParams({ country: code });
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <header className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold text-gray-900">Jurisdiction Policy</h1>
+          <Link
+            to="/"
+            className="px-6 py-2 rounded-md text-sm font-bold bg-gray-200 text-gray-700 hover:bg-gray-300 transition-all"
+          >
+            Back to Dashboard
+          </Link>
+        </header>
+
+        <section className="p-4 bg-white rounded-lg border border-gray-200">
+          <label className="text-sm font-medium text-gray-700">
+            Country{' '}
+            <select
+              value={country}
+              onChange={(e) => handleCountrySelect(e.target.value)}
+              className="ml-1 px-3 py-2 border border-gray-300 rounded-md"
+            >
+              {countryOptions.map(({ code, name }) => (
+                <option key={code} value={code}>{name} ({code})</option>
+              ))}
+            </select>
+          </label>
+        </section>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2">
+            <EffectivePolicyPanel policy={effectivePolicy} versions={kycVersionRegistry.versions} />
+          </div>
+          <PolicyOverview policy={jurisdictionPolicy} onCountrySelect={handleCountrySelect} />
+        </div>
+      </div>
+    </div>
+  );
+}
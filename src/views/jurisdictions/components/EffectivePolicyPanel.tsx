@@ -0,0 +1,91 @@
+import {
+  kycThresholdParamSchema,
+  type EffectiveJurisdictionPolicy,
+  type KycThresholdParam,
+} from '../../../logic/jurisdictionPolicy';
+import { getKycThresholdDefaults } from '../../../logic/kycRuleEngine';
+import type { KycVersionDefinition } from '../../../logic/kycVersionRegistry';
+import { countryName } from '../../../logic/isoCountries';
+
+interface EffectivePolicyPanelProps {
+  policy: EffectiveJurisdictionPolicy;
+  versions: KycVersionDefinition[];
+}
+
+const thresholdLabels: Record<KycThresholdParam, string> = {
+  riskScoreHigh: 'High risk score',
+  riskScoreMedium: 'Medium risk score',
+  amountHigh: 'High amount',
+  velocityHigh: 'High velocity (24h)',
+};
+
+/**
+ * UI Component: Effective KYC policy for one country, per ruleset version
+ * Pure presentation component
+ */
+export function EffectivePolicyPanel({ policy, versions }: EffectivePolicyPanelProps) {
+  // Only ruleset-backed versions have named thresholds
+  const rulesetVersions = versions.filter((version) => version.ruleset);
+  const defaults = Object.fromEntries(
+    rulesetVersions.map((version) => [version.id, version.ruleset ? getKycThresholdDefaults(version.ruleset) : {}])
+  );
+
+  return (
+    <section className="p-4 bg-white rounded-lg border border-gray-200 space-y-4" aria-labelledby="effective-policy-heading">
+      <div className="flex items-center justify-between">
+        <h2 id="effective-policy-heading" className="text-lg font-semibold">
+          {countryName(policy.country)} <span className="font-mono text-gray-500">({policy.country})</span>
+        </h2>
+        <div className="flex gap-2">
+          {policy.restricted && (
+            <span className="px-2 py-1 rounded text-xs font-bold bg-red-100 text-red-800">Restricted</span>
+          )}
+          {policy.enhancedDueDiligence && (
+            <span className="px-2 py-1 rounded text-xs font-bold bg-yellow-100 text-yellow-800">Enhanced due diligence</span>
+          )}
+          {!policy.restricted && !policy.enhancedDueDiligence && (
+            <span className="px-2 py-1 rounded text-xs font-bold bg-green-100 text-green-800">Standard</span>
+          )}
+        </div>
+      </div>
+
+      <div className="text-sm text-gray-600">
+        Regions:{' '}
+        {policy.regions.length > 0 ? policy.regions.map((region) => region.label).join(', ') : 'none'}
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-gray-200 text-left text-gray-600">
+            <th className="py-2 pr-4">Threshold</th>
+            {rulesetVersions.map((version) => (
+              <th key={version.id} className="py-2 pr-4">{version.label.toUpperCase()}</th>
+            ))}
+            <th className="py-2">Source</th>
+          </tr>
+        </thead>
+        <tbody>
+          {kycThresholdParamSchema.options.map((param) => {
+            const override = policy.thresholds[param];
+            return (
+              <tr key={param} className="border-b border-gray-100">
+                <td className="py-2 pr-4">{thresholdLabels[param]}</td>
+                {rulesetVersions.map(({ id }) => {
+                  const defaultValue = defaults[id][param];
+                  // Overrides only apply to versions that use the threshold
+                  const value = defaultValue === undefined ? undefined : (override?.value ?? defaultValue);
+                  return (
+                    <td key={id} className={`py-2 pr-4 font-mono ${override && value !== undefined ? 'font-bold' : ''}`}>
+                      {value === undefined ? '—' : value.toLocaleString()}
+                    </td>
+                  );
+                })}
+                <td className="py-2 text-xs text-gray-500">{override?.source ?? 'ruleset default'}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </section>
+  );
+}
@@ -0,0 +1,56 @@
+import type { JurisdictionPolicy } from '../../../logic/jurisdictionPolicy';
+
+interface PolicyOverviewProps {
+  policy: JurisdictionPolicy;
+  onCountrySelect: (country: string) => void;
+}
+
+/**
+ * UI Component: Country lists and regional overrides of the jurisdiction policy
+ * Pure presentation component
+ */
+export function PolicyOverview({ policy, onCountrySelect }: PolicyOverviewProps) {
+  const countryButtons = (countries: string[]) => (
+    <div className="flex flex-wrap gap-1">
+      {countries.map((country) => (
+        <button
+          key={country}
+          type="button"
+          onClick={() => onCountrySelect(country)}
+          className="px-2 py-0.5 rounded bg-gray-100 hover:bg-gray-200 font-mono text-xs"
+        >
+          {country}
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <section className="p-4 bg-white rounded-lg border border-gray-200 space-y-4 text-sm" aria-labelledby="policy-overview-heading">
+      <div>
+        <h2 id="policy-overview-heading" className="text-lg font-semibold">Policy {policy.version}</h2>
+        {policy.description && <p className="text-xs text-gray-500">{policy.description}</p>}
+      </div>
+      <div>
+        <h3 className="font-semibold text-gray-700 mb-1">Restricted countries</h3>
+        {countryButtons(policy.restrictedCountries)}
+      </div>
+      <div>
+        <h3 className="font-semibold text-gray-700 mb-1">Enhanced due diligence</h3>
+        {countryButtons(policy.enhancedDueDiligenceCountries)}
+      </div>
+      {policy.regions.map((region) => (
+        <div key={region.id}>
+          <h3 className="font-semibold text-gray-700 mb-1">{region.label}</h3>
+          {countryButtons(region.countries)}
+        </div>
+      ))}
+      {policy.countries.length > 0 && (
+        <div>
+          <h3 className="font-semibold text-gray-700 mb-1">Country overrides</h3>
+          {countryButtons(policy.countries.map((entry) => entry.country))}
+        </div>
+      )}
+    </section>
+  );
+}
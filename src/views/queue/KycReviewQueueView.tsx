@@ -0,0 +1,136 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import type { Customer } from '../../legacy/LegacyCustomerSearch';
+import { useKycReviewQueue } from '../../logic/useKycReviewQueue';
+import { kycEvaluationsTransactionsQueryKey } from '../../logic/useKycCustomerEvaluations';
+import { useCustomerKycReview } from '../../logic/useCustomerKycReview';
+import {
+  filterKycReviewQueue,
+  kycReviewQueueReasonCodes,
+  type KycReviewQueueFilter,
+} from '../../logic/kycReviewQueue';
+import { canCheckKycApproval, pendingKycApproval } from '../../logic/kycFourEyes';
+import { useKycReviewer } from '../../state/kycReviewer';
+import { useKycReviewQueueEntries } from '../../state/kycReviewQueue';
+import { KycReviewerSelect } from '../../components/KycReviewerSelect';
+import { KycUndoToast } from '../../components/KycUndoToast';
+import { CustomerDetailsPanel } from '../dashboard/components/CustomerDetailsPanel';
+import { ReviewQueueFilters } from './components/ReviewQueueFilters';
+import { ReviewQueueTable } from './components/ReviewQueueTable';
+
+/**
+ * Manual Review Queue Page
+ * Lists every customer whose current decision is manual_review or deny, riskiest
+ * and longest waiting first. Reviewers claim a customer before acting on it in
+ * the same details panel as the dashboard.
+ */
+export function KycReviewQueueView() {
+  const [filter, setFilter] = useState<KycReviewQueueFilter>({ reasonCodes: [], ownership: 'all' });
+  // Kept after an action takes the customer out of the queue so the outcome stays visible
+  const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
+  const reviewerId = useKycReviewer((state) => state.reviewerId);
+  const { claim, release } = useKycReviewQueueEntries();
+  const { items, isLoading, isError } = useKycReviewQueue();
+
+  const reasonCodes = useMemo(() => kycReviewQueueReasonCodes(items), [items]);
+  const visibleItems = useMemo(() => filterKycReviewQueue(items, filter, reviewerId), [items, filter, reviewerId]);
+
+  // Actions update the queue's transactions; an approved or held customer leaves the queue once the action is sent
+  const kyc = useCustomerKycReview(selectedCustomer, { transactionsQueryKey: kycEvaluationsTransactionsQueryKey });
+
+  const selectedClaim = items.find((item) => item.customer.id === selectedCustomer?.id)?.claim ?? null;
+  const isQueued = items.some((item) => item.customer.id === selectedCustomer?.id);
+  const pendingApproval = pendingKycApproval(kyc.approvals);
+  // Queued customers can only be acted on by the reviewer who claimed them,
+  // or by a second reviewer checking the approval the owner submitted
+  const canAct =
+    !isQueued ||
+    selectedClaim?.reviewerId === reviewerId ||
+    (pendingApproval !== null && canCheckKycApproval(pendingApproval, reviewerId));
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <header className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold text-gray-900">Review Queue</h1>
+          <div className="flex items-center gap-3">
+            <KycReviewerSelect />
+            <Link
+              to="/"
+              className="px-6 py-2 rounded-md text-sm font-bold bg-gray-200 text-gray-700 hover:bg-gray-300 transition-all"
+            >
+              Back to Dashboard
+            </Link>
+          </div>
+        </header>
+
+        {isError && (
+          <p className="p-3 rounded-md border border-yellow-300 bg-yellow-50 text-sm text-yellow-800" role="alert">
+            Transactions could not be loaded; decisions are shown without amount and velocity signals
+          </p>
+        )}
+
+        <ReviewQueueFilters filter={filter} reasonCodes={reasonCodes} onChange={setFilter} />
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <section className="lg:col-span-2 p-4 bg-white rounded-lg border border-gray-200" aria-labelledby="queue-heading">
+            <h2 id="queue-heading" className="text-lg font-semibold mb-4">
+              {isLoading ? 'Loading queue…' : `${visibleItems.length} of ${items.length} customers`}
+            </h2>
+            {!isLoading && (
+              <ReviewQueueTable
+                items={visibleItems}
+                reviewerId={reviewerId}
+                selectedCustomerId={selectedCustomer?.id ?? null}
+                onSelect={(item) => setSelectedCustomer(item.customer)}
+                onClaim={(customerId) => claim(customerId, reviewerId)}
+                onRelease={(customerId) => release(customerId, reviewerId)}
+              />
+            )}
+          </section>
+
+          <div className="space-y-2">
+            {selectedCustomer && !canAct && (
+              <p className="p-2 rounded-md border border-gray-300 bg-white text-sm text-gray-700" role="note">
+                Claim this customer to act on it
+              </p>
+            )}
+            <CustomerDetailsPanel
+              customer={selectedCustomer}
+              kycResult={kyc.result}
+              kycVersion={kyc.version}
+              kycAssignment={kyc.evaluation?.assignment ?? null}
+              kycRiskScore={kyc.evaluation?.riskScore ?? null}
+              kycAsOf={kyc.asOf}
+              onKycAsOfChange={kyc.setAsOf}
+              kycShadowResults={kyc.evaluation?.shadows ?? []}
+              kycTransactionSignals={kyc.signals}
+              kycScreeningHits={kyc.screening.hits}
+              kycScreeningReviews={kyc.screening.reviews}
+              onReviewScreeningHit={kyc.screening.reviewHit}
+              onReopenScreeningHit={kyc.screening.reopenHit}
+              kycApprovals={kyc.approvals}
+              kycApprovalRequired={kyc.approvalRequired}
+              reviewerId={kyc.reviewerId}
+              onConfirmApproval={kyc.confirmApproval}
+              onRejectApproval={kyc.rejectApproval}
+              kycHistory={kyc.history}
+              kycDocumentRequests={kyc.documentRequests}
+              onUpdateDocumentStatus={kyc.updateDocumentStatus}
+              kycDocumentFiles={kyc.documentFiles}
+              onUploadDocumentFile={kyc.uploadDocumentFile}
+              kycHold={kyc.activeHold}
+              onReleaseHold={kyc.releaseHold}
+              isProcessing={kyc.isProcessing || !canAct}
+              onApprove={kyc.approve}
+              onRequestDocs={kyc.requestDocuments}
+              onHold={kyc.hold}
+            />
+          </div>
+        </div>
+      </div>
+
+      <KycUndoToast action={kyc.stagedAction} onUndo={kyc.undo} />
+    </div>
+  );
+}
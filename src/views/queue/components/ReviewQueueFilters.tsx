@@ -0,0 +1,75 @@
+import type { KycReasonCode } from '../../../logic/kycReasons';
+import type { KycReviewQueueFilter, KycReviewQueueOwnership } from '../../../logic/kycReviewQueue';
+
+interface ReviewQueueFiltersProps {
+  filter: KycReviewQueueFilter;
+  reasonCodes: KycReasonCode[]; // Codes present in the queue
+  onChange: (filter: KycReviewQueueFilter) => void;
+}
+
+const ownershipLabels: Record<KycReviewQueueOwnership, string> = {
+  all: 'All',
+  mine: 'Claimed by me',
+  unclaimed: 'Unclaimed',
+};
+
+/**
+ * UI Component: Reason code and ownership filters for the review queue
+ * Pure presentation component
+ */
+export function ReviewQueueFilters({ filter, reasonCodes, onChange }: ReviewQueueFiltersProps) {
+  const toggleReasonCode = (code: KycReasonCode) =>
+    onChange({
+      ...filter,
+      reasonCodes: filter.reasonCodes.includes(code)
+        ? filter.reasonCodes.filter((selected) => selected !== code)
+        : [...filter.reasonCodes, code],
+    });
+
+  return (
+    <section className="p-4 bg-white rounded-lg border border-gray-200 space-y-3" aria-label="Queue filters">
+      <div className="flex items-center gap-2 text-sm" role="group" aria-label="Ownership">
+        {(Object.keys(ownershipLabels) as KycReviewQueueOwnership[]).map((ownership) => (
+          <button
+            key={ownership}
+            type="button"
+            onClick={() => onChange({ ...filter, ownership })}
+            aria-pressed={filter.ownership === ownership}
+            className={`px-3 py-1 rounded-md transition-colors ${
+              filter.ownership === ownership ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+            }`}
+          >
+            {ownershipLabels[ownership]}
+          </button>
+        ))}
+      </div>
+      {reasonCodes.length > 0 && (
+        <fieldset className="flex flex-wrap items-center gap-2 text-xs">
+          <legend className="mb-1 text-sm font-medium text-gray-700">Reason codes</legend>
+          {reasonCodes.map((code) => (
+            <label
+              key={code}
+              className="flex items-center gap-1 px-2 py-1 rounded-md border border-gray-300 bg-gray-50 font-mono cursor-pointer"
+            >
+              <input
+                type="checkbox"
+                checked={filter.reasonCodes.includes(code)}
+                onChange={() => toggleReasonCode(code)}
+              />
+              {code}
+            </label>
+          ))}
+          {filter.reasonCodes.length > 0 && (
+            <button
+              type="button"
+              onClick={() => onChange({ ...filter, reasonCodes: [] })}
+              className="px-2 py-1 text-gray-600 hover:text-gray-900"
+            >
+              Clear
+            </button>
+          )}
+        </fieldset>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,105 @@
+import { formatKycSlaRemaining, type KycReviewQueueItem, type KycReviewSlaStatus } from '../../../logic/kycReviewQueue';
+import { kycReviewerName } from '../../../logic/kycReviewers';
+import { KycDecisionBadge } from '../../dashboard/components/KycDecisionBadge';
+
+interface ReviewQueueTableProps {
+  items: KycReviewQueueItem[];
+  reviewerId: string; // Current reviewer
+  selectedCustomerId: string | null;
+  onSelect: (item: KycReviewQueueItem) => void;
+  onClaim: (customerId: string) => void;
+  onRelease: (customerId: string) => void;
+}
+
+const slaStyles: Record<KycReviewSlaStatus, string> = {
+  on_track: 'text-gray-700',
+  due_soon: 'text-yellow-800 font-semibold',
+  breached: 'text-red-700 font-semibold',
+};
+
+/**
+ * UI Component: Queued customers with their SLA countdown and claim buttons
+ * Pure presentation component - the queue is built by the queue view
+ */
+export function ReviewQueueTable({
+  items,
+  reviewerId,
+  selectedCustomerId,
+  onSelect,
+  onClaim,
+  onRelease,
+}: ReviewQueueTableProps) {
+  if (items.length === 0) {
+    return <p className="text-gray-600 text-center py-8">No customers waiting for review</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-left" aria-label="Review queue">
+        <thead>
+          <tr className="border-b border-gray-200">
+            <th className="pb-2 text-sm font-semibold text-gray-700">Customer</th>
+            <th className="pb-2 text-sm font-semibold text-gray-700">Decision</th>
+            <th className="pb-2 text-sm font-semibold text-gray-700">Risk</th>
+            <th className="pb-2 text-sm font-semibold text-gray-700">SLA</th>
+            <th className="pb-2 text-sm font-semibold text-gray-700">Owner</th>
+          </tr>
+        </thead>
+        <tbody>
+          {items.map((item) => {
+            const { customer, decision, result, claim, sla } = item;
+            return (
+              <tr
+                key={customer.id}
+                className={`border-b border-gray-100 cursor-pointer hover:bg-gray-50 ${
+                  selectedCustomerId === customer.id ? 'bg-blue-50' : ''
+                }`}
+                onClick={() => onSelect(item)}
+                aria-selected={selectedCustomerId === customer.id}
+              >
+                <td className="py-2 text-sm text-gray-900">
+                  <span className="font-medium">{customer.name}</span>{' '}
+                  <span className="text-gray-500">{customer.id}</span>
+                </td>
+                <td className="py-2">
+                  <KycDecisionBadge decision={decision} />
+                </td>
+                <td className="py-2 text-sm text-gray-600">{result.riskScore.value}</td>
+                <td className={`py-2 text-sm ${slaStyles[sla.status]}`} title={`Due ${new Date(sla.dueAt).toLocaleString()}`}>
+                  {formatKycSlaRemaining(sla.remainingMs)}
+                </td>
+                <td className="py-2 text-sm text-gray-700">
+                  {!claim ? (
+                    <button
+                      type="button"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onClaim(customer.id);
+                      }}
+                      className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+                    >
+                      Claim
+                    </button>
+                  ) : claim.reviewerId === reviewerId ? (
+                    <button
+                      type="button"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onRelease(customer.id);
+                      }}
+                      className="px-3 py-1 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors"
+                    >
+                      Release
+                    </button>
+                  ) : (
+                    kycReviewerName(claim.reviewerId)
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
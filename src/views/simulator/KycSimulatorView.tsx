@@ -0,0 +1,83 @@
+import { useCallback, useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { kycVersionRegistry } from '../../logic/kycVersions';
+import {
+  scenarioFromSearchParams,
+  scenarioToSearchParams,
+  type KycScenario,
+} from '../../logic/kycScenario';
+import { ScenarioForm } from './components/ScenarioForm';
+import { VersionResultCard } from './components/VersionResultCard';
+
+/**
+ * What-if KYC Simulator Page
+ * Evaluates a hand-built scenario under every KYC version side by side.
+ * The scenario is mirrored into the URL so it can be shared as a link.
+ */
+export function KycSimulatorView() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Read the URL once; afterwards the form is the source of truth
+  const [initialScenario] = useState(() => scenarioFromSearchParams(searchParams));
+  const [scenario, setScenario] = useState<KycScenario>(initialScenario);
+  const [copied, setCopied] = useState(false);
+
+  const handleScenarioChange = useCallback(
+    (next: KycScenario) => {
+      setScenario(next);
+      setCopied(false);
+      setSearchParams(scenarioToSearchParams(next), { replace: true });
+    },
+    [setSearchParams]
+  );
+
+  const results = useMemo(
+    () =>
+      kycVersionRegistry.versions.map((version) => ({
+        version: version.id,
+        description: version.description,
+        result: version.evaluate(scenario),
+      })),
+    [scenario]
+  );
+
+  const handleCopyLink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    setCopied(true);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <header className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold text-gray-900">KYC What-if Simulator</h1>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={handleCopyLink}
+              className="px-4 py-2 rounded-md text-sm font-bold bg-blue-600 text-white hover:bg-blue-700 transition-all"
+            >
+              {copied ? 'Link copied' : 'Copy shareable link'}
+            </button>
+            <Link
+              to="/"
+              className="px-6 py-2 rounded-md text-sm font-bold bg-gray-200 text-gray-700 hover:bg-gray-300 transition-all"
+            >
+              Back to Dashboard
+            </Link>
+          </div>
+        </header>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-1">
+            <ScenarioForm defaultValues={initialScenario} onChange={handleScenarioChange} />
+          </div>
+          <div className="lg:col-span-2 grid grid-cols-1 md:grid-cols-2 gap-4 content-start">
+            {results.map(({ version, description, result }) => (
+              <VersionResultCard key={version} version={version} description={description} result={result} />
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
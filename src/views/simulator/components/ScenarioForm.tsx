@@ -0,0 +1,105 @@
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { kycScenarioSchema, type KycScenario } from '../../../logic/kycScenario';
+
+interface ScenarioFormProps {
+  defaultValues: KycScenario;
+  onChange: (scenario: KycScenario) => void;
+}
+
+const sliderFields = [
+  { name: 'riskScore', label: 'Risk Score', min: 0, max: 100, step: 1 },
+  { name: 'amount', label: 'Amount', min: 0, max: 250000, step: 1000 },
+  { name: 'velocity', label: 'Velocity (transactions in 24h)', min: 0, max: 30, step: 1 },
+] as const;
+
+/**
+ * UI Component: What-if scenario form for the KYC simulator
+ * Uses React Hook Form with Zod validation; every valid change is reported immediately
+ */
+export function ScenarioForm({ defaultValues, onChange }: ScenarioFormProps) {
+  const {
+    register,
+    watch,
+    reset,
+    trigger,
+    formState: { errors },
+  } = useForm<KycScenario>({
+    resolver: zodResolver(kycScenarioSchema),
+    defaultValues,
+    mode: 'onChange',
+  });
+
+  useEffect(() => {
+    const subscription = watch((values) => {
+      const parsed = kycScenarioSchema.safeParse(values);
+      if (parsed.success) {
+        onChange(parsed.data);
+      } else {
+        trigger();
+      }
+    });
+    return () => subscription.unsubscribe();
+  }, [watch, trigger, onChange]);
+
+  const values = watch();
+
+  return (
+    <section className="p-4 bg-white rounded-lg border border-gray-200" aria-labelledby="scenario-heading">
+      <h2 id="scenario-heading" className="text-lg font-semibold mb-4">Scenario</h2>
+      <form onSubmit={(e) => e.preventDefault()} className="space-y-4">
+        {sliderFields.map(({ name, label, min, max, step }) => (
+          <div key={name}>
+            <label htmlFor={`scenario-${name}`} className="flex justify-between text-sm font-medium text-gray-700 mb-1">
+              <span>{label}</span>
+              <span className="font-mono">{Number(values[name]).toLocaleString()}</span>
+            </label>
+            <input
+              id={`scenario-${name}`}
+              type="range"
+              min={min}
+              max={max}
+              step={step}
+              {...register(name, { valueAsNumber: true })}
+              className="w-full"
+            />
+          </div>
+        ))}
+        <div>
+          <label htmlFor="scenario-country" className="block text-sm font-medium text-gray-700 mb-1">
+            Country (ISO alpha-2)
+          </label>
+          <input
+            id="scenario-country"
+            type="text"
+            maxLength={2}
+            {...register('country', { setValueAs: (value: string) => value.toUpperCase() })}
+            className="w-24 px-3 py-2 border border-gray-300 rounded-md font-mono uppercase focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-invalid={errors.country ? 'true' : 'false'}
+          />
+          {errors.country && (
+            <p className="mt-1 text-xs text-red-700" role="alert">{errors.country.message}</p>
+          )}
+        </div>
+        <div className="flex gap-6">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" {...register('isPep')} />
+            PEP (Politically Exposed Person)
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" {...register('sanctionsList')} />
+            On sanctions list
+          </label>
+        </div>
+        <button
+          type="button"
+          onClick={() => reset(defaultValues)}
+          className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400 transition-colors"
+        >
+          Reset
+        </button>
+      </form>
+    </section>
+  );
+}
@@ -0,0 +1,31 @@
+import type { KycResult } from '../../../logic/kycRules.v1';
+import { formatKycReason } from '../../../logic/kycReasons';
+import { KycDecisionBadge } from '../../dashboard/components/KycDecisionBadge';
+import { KycVersionBadge } from '../../../components/KycVersionBadge';
+
+interface VersionResultCardProps {
+  version: string;
+  description?: string;
+  result: KycResult;
+}
+
+/**
+ * UI Component: Decision and reasons of one KYC version for the simulated scenario
+ * Pure presentation component
+ */
+export function VersionResultCard({ version, description, result }: VersionResultCardProps) {
+  return (
+    <section className="p-4 bg-white rounded-lg border-2 border-gray-200" aria-label={`KYC ${version} result`}>
+      <div className="flex items-center justify-between mb-2">
+        <KycVersionBadge version={version} />
+        <KycDecisionBadge decision={result.decision} />
+      </div>
+      {description && <p className="text-xs text-gray-500 mb-3">{description}</p>}
+      <ul className="list-disc list-inside text-sm text-gray-700 space-y-1">
+        {result.reasons.map((reason) => (
+          <li key={reason.code}>{formatKycReason(reason)}</li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { kycWatchlist } from '../../logic/kycWatchlist';
+import type { KycWatchlistBuild } from '../../logic/kycWatchlistImport';
+import { useKycImportedWatchlist } from '../../state/kycImportedWatchlist';
+import { WatchlistImportForm } from './components/WatchlistImportForm';
+import { WatchlistImportIssues } from './components/WatchlistImportIssues';
+import { WatchlistEntriesTable } from './components/WatchlistEntriesTable';
+
+/**
+ * Watchlist Import Page
+ * Imports sanctions and PEP lists (OFAC SDN CSV/XML or a mapped CSV), shows the
+ * problems found per row and lets the imported list replace the bundled one for screening.
+ */
+export function WatchlistImportView() {
+  const [build, setBuild] = useState<KycWatchlistBuild | null>(null);
+  const { watchlist: importedWatchlist, importedAt, activate, reset } = useKycImportedWatchlist();
+  const activeWatchlist = importedWatchlist ?? kycWatchlist;
+  const errorCount = build?.issues.filter((issue) => issue.severity === 'error').length ?? 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <header className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold text-gray-900">Watchlists</h1>
+          <Link
+            to="/"
+            className="px-6 py-2 rounded-md text-sm font-bold bg-gray-200 text-gray-700 hover:bg-gray-300 transition-all"
+          >
+            Back to Dashboard
+          </Link>
+        </header>
+
+        <section
+          className="p-4 bg-white rounded-lg border border-gray-200 flex items-center justify-between"
+          aria-label="Active watchlist"
+        >
+          <div className="text-sm text-gray-700">
+            Screening against <span className="font-semibold">{activeWatchlist.version}</span>
+            {' · '}
+            {activeWatchlist.entries.length} entries
+            {importedAt ? ` · imported ${new Date(importedAt).toLocaleString()}` : ' · bundled list'}
+          </div>
+          {importedWatchlist && (
+            <button
+              type="button"
+              onClick={reset}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors text-sm"
+            >
+              Use Bundled List
+            </button>
+          )}
+        </section>
+
+        <WatchlistImportForm onImport={setBuild} />
+
+        {build && (
+          <section
+            className="p-4 bg-white rounded-lg border border-gray-200 space-y-4"
+            aria-labelledby="import-result-heading"
+          >
+            <div className="flex items-center justify-between">
+              <h2 id="import-result-heading" className="text-lg font-semibold">
+                {build.watchlist.version}: {build.watchlist.entries.length} entries
+                {errorCount > 0 && <span className="text-red-700"> · {errorCount} row(s) skipped</span>}
+              </h2>
+              <button
+                type="button"
+                onClick={() => activate(build.watchlist)}
+                disabled={build.watchlist.entries.length === 0 || importedWatchlist === build.watchlist}
+                className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm"
+              >
+                {importedWatchlist === build.watchlist ? 'In Use for Screening' : 'Use for Screening'}
+              </button>
+            </div>
+            <WatchlistImportIssues issues={build.issues} />
+            <WatchlistEntriesTable entries={build.watchlist.entries} />
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { kycWatchlistTypeLabels, type KycWatchlistEntry } from '../../../logic/kycWatchlist';
+
+interface WatchlistEntriesTableProps {
+  entries: KycWatchlistEntry[];
+}
+
+/**
+ * UI Component: Entries of a watchlist with their aliases and identifiers
+ * Pure presentation component
+ */
+export function WatchlistEntriesTable({ entries }: WatchlistEntriesTableProps) {
+  if (entries.length === 0) {
+    return <p className="text-gray-600 text-center py-8">No entries</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto max-h-[32rem]">
+      <table className="w-full text-left" aria-label="Watchlist entries">
+        <thead>
+          <tr className="border-b border-gray-200">
+            <th className="pb-2 text-sm font-semibold text-gray-700">Id</th>
+            <th className="pb-2 text-sm font-semibold text-gray-700">Name</th>
+            <th className="pb-2 text-sm font-semibold text-gray-700">List</th>
+            <th className="pb-2 text-sm font-semibold text-gray-700">Date of birth</th>
+            <th className="pb-2 text-sm font-semibold text-gray-700">Countries</th>
+            <th className="pb-2 text-sm font-semibold text-gray-700">Program / position</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map((entry) => (
+            <tr key={entry.id} className="border-b border-gray-100 align-top">
+              <td className="py-2 text-sm text-gray-500 font-mono">{entry.id}</td>
+              <td className="py-2 text-sm text-gray-900">
+                <div className="font-medium">{entry.name}</div>
+                {entry.aliases.length > 0 && (
+                  <div className="text-xs text-gray-500">a.k.a. {entry.aliases.join('; ')}</div>
+                )}
+              </td>
+              <td className="py-2 text-sm text-gray-600">{kycWatchlistTypeLabels[entry.list]}</td>
+              <td className="py-2 text-sm text-gray-600">{entry.dateOfBirth ?? '–'}</td>
+              <td className="py-2 text-sm text-gray-600">{entry.countries.join(', ') || '–'}</td>
+              <td className="py-2 text-sm text-gray-600">{entry.program ?? entry.position ?? '–'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import {
+  buildKycWatchlist,
+  importKycWatchlistCsv,
+  importOfacSdnCsv,
+  importOfacSdnXml,
+  kycWatchlistCsvMappingSchema,
+  kycWatchlistImportFormatLabels,
+  kycWatchlistImportFormatSchema,
+  type KycWatchlistBuild,
+  type KycWatchlistFile,
+  type KycWatchlistImportFormat,
+} from '../../../logic/kycWatchlistImport';
+import { kycWatchlistTypeLabels, kycWatchlistTypeSchema } from '../../../logic/kycWatchlist';
+
+const importFormSchema = z.object({
+  format: kycWatchlistImportFormatSchema,
+  version: z.string().trim().min(1, 'Version is required'),
+  mapping: kycWatchlistCsvMappingSchema, // Only used for generic CSV
+});
+
+type ImportFormInput = z.input<typeof importFormSchema>;
+type ImportFormValues = z.output<typeof importFormSchema>;
+
+type FileKey = 'sdn' | 'alt' | 'add' | 'xml' | 'csv';
+
+interface FormatFile {
+  key: FileKey;
+  label: string;
+  accept: string;
+  required: boolean;
+}
+
+const formatFiles: Record<KycWatchlistImportFormat, FormatFile[]> = {
+  ofac_csv: [
+    { key: 'sdn', label: 'SDN records (sdn.csv)', accept: '.csv', required: true },
+    { key: 'alt', label: 'Aliases (alt.csv)', accept: '.csv', required: false },
+    { key: 'add', label: 'Addresses (add.csv)', accept: '.csv', required: false },
+  ],
+  ofac_xml: [{ key: 'xml', label: 'SDN list (sdn.xml)', accept: '.xml', required: true }],
+  csv: [{ key: 'csv', label: 'List with a header row', accept: '.csv', required: true }],
+};
+
+const mappingFields = [
+  { name: 'name', label: 'Name' },
+  { name: 'id', label: 'Id' },
+  { name: 'aliases', label: 'Aliases' },
+  { name: 'dateOfBirth', label: 'Date of birth' },
+  { name: 'countries', label: 'Countries' },
+  { name: 'program', label: 'Program' },
+  { name: 'position', label: 'Position' },
+  { name: 'list', label: 'List' },
+] as const;
+
+const defaultValues: ImportFormInput = {
+  format: 'ofac_csv',
+  version: '',
+  mapping: { name: 'name', separator: ';', defaultList: 'sanctions', idPrefix: 'CSV' },
+};
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+interface WatchlistImportFormProps {
+  onImport: (build: KycWatchlistBuild) => void;
+}
+
+/**
+ * UI Component: Upload form for sanctions and PEP list files
+ * Uses React Hook Form with Zod validation; files are read in the browser and nothing is uploaded
+ */
+export function WatchlistImportForm({ onImport }: WatchlistImportFormProps) {
+  const [files, setFiles] = useState<Partial<Record<FileKey, File>>>({});
+  const [fileError, setFileError] = useState<string | null>(null);
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<ImportFormInput, unknown, ImportFormValues>({
+    resolver: zodResolver(importFormSchema),
+    defaultValues,
+  });
+  const format = watch('format');
+
+  const onSubmit = async ({ format, version, mapping }: ImportFormValues) => {
+    const missing = formatFiles[format].find(({ key, required }) => required && !files[key]);
+    if (missing) {
+      setFileError(`Choose a file for ${missing.label}`);
+      return;
+    }
+    setFileError(null);
+
+    const read = async (file: File): Promise<KycWatchlistFile> => ({ name: file.name, text: await file.text() });
+    const { sdn, alt, add, xml, csv } = files;
+    const result =
+      format === 'ofac_csv' && sdn
+        ? importOfacSdnCsv({ sdn: await read(sdn), alt: alt && (await read(alt)), add: add && (await read(add)) })
+        : format === 'ofac_xml' && xml
+          ? importOfacSdnXml(await read(xml))
+          : format === 'csv' && csv
+            ? importKycWatchlistCsv(await read(csv), mapping)
+            : null;
+    if (result) {
+      onImport(buildKycWatchlist([result], { version, description: `Imported from ${result.file}` }));
+    }
+  };
+
+  return (
+    <section className="p-4 bg-white rounded-lg border border-gray-200" aria-labelledby="watchlist-import-heading">
+      <h2 id="watchlist-import-heading" className="text-lg font-semibold mb-4">Import List</h2>
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="watchlist-format" className="block text-sm font-medium text-gray-700 mb-1">Format</label>
+            <select id="watchlist-format" {...register('format')} className={inputClassName}>
+              {kycWatchlistImportFormatSchema.options.map((option) => (
+                <option key={option} value={option}>{kycWatchlistImportFormatLabels[option]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="watchlist-version" className="block text-sm font-medium text-gray-700 mb-1">Version</label>
+            <input
+              id="watchlist-version"
+              type="text"
+              placeholder="e.g. 2025-11-03"
+              {...register('version')}
+              className={inputClassName}
+              aria-invalid={errors.version ? 'true' : 'false'}
+            />
+            {errors.version && <p className="mt-1 text-sm text-red-600" role="alert">{errors.version.message}</p>}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {formatFiles[format].map(({ key, label, accept, required }) => (
+            <div key={key}>
+              <label htmlFor={`watchlist-file-${key}`} className="block text-sm font-medium text-gray-700 mb-1">
+                {label}
+                {!required && <span className="text-gray-500 font-normal"> (optional)</span>}
+              </label>
+              <input
+                id={`watchlist-file-${key}`}
+                type="file"
+                accept={accept}
+                onChange={(e) => setFiles((current) => ({ ...current, [key]: e.target.files?.[0] }))}
+                className="text-sm"
+              />
+            </div>
+          ))}
+          {fileError && <p className="text-sm text-red-600" role="alert">{fileError}</p>}
+        </div>
+
+        {format === 'csv' && (
+          <fieldset className="p-3 border border-gray-200 rounded-md">
+            <legend className="px-1 text-sm font-medium text-gray-700">Column mapping (header names)</legend>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {mappingFields.map(({ name, label }) => (
+                <div key={name}>
+                  <label htmlFor={`watchlist-mapping-${name}`} className="block text-xs text-gray-600 mb-1">
+                    {label}
+                  </label>
+                  <input
+                    id={`watchlist-mapping-${name}`}
+                    type="text"
+                    {...register(`mapping.${name}`)}
+                    className={inputClassName}
+                    aria-invalid={errors.mapping?.[name] ? 'true' : 'false'}
+                  />
+                </div>
+              ))}
+              <div>
+                <label htmlFor="watchlist-mapping-separator" className="block text-xs text-gray-600 mb-1">
+                  Value separator
+                </label>
+                <input
+                  id="watchlist-mapping-separator"
+                  type="text"
+                  {...register('mapping.separator')}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="watchlist-mapping-default-list" className="block text-xs text-gray-600 mb-1">
+                  Default list
+                </label>
+                <select
+                  id="watchlist-mapping-default-list"
+                  {...register('mapping.defaultList')}
+                  className={inputClassName}
+                >
+                  {kycWatchlistTypeSchema.options.map((list) => (
+                    <option key={list} value={list}>{kycWatchlistTypeLabels[list]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="watchlist-mapping-id-prefix" className="block text-xs text-gray-600 mb-1">Id prefix</label>
+                <input
+                  id="watchlist-mapping-id-prefix"
+                  type="text"
+                  {...register('mapping.idPrefix')}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+            {errors.mapping?.name && (
+              <p className="mt-2 text-sm text-red-600" role="alert">{errors.mapping.name.message}</p>
+            )}
+          </fieldset>
+        )}
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm"
+        >
+          {isSubmitting ? 'Importing…' : 'Import'}
+        </button>
+      </form>
+    </section>
+  );
+}
@@ -0,0 +1,49 @@
+import type { KycWatchlistImportIssue } from '../../../logic/kycWatchlistImport';
+
+interface WatchlistImportIssuesProps {
+  issues: KycWatchlistImportIssue[];
+}
+
+const severityStyles: Record<KycWatchlistImportIssue['severity'], string> = {
+  error: 'bg-red-100 text-red-800',
+  warning: 'bg-yellow-100 text-yellow-800',
+};
+
+/**
+ * UI Component: Problems found while importing a list, by file and row
+ * Pure presentation component
+ */
+export function WatchlistImportIssues({ issues }: WatchlistImportIssuesProps) {
+  if (issues.length === 0) {
+    return <p className="text-sm text-green-700">Every row was imported</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto max-h-80">
+      <table className="w-full text-left" aria-label="Import issues">
+        <thead>
+          <tr className="border-b border-gray-200">
+            <th className="pb-2 text-sm font-semibold text-gray-700">File</th>
+            <th className="pb-2 text-sm font-semibold text-gray-700">Row</th>
+            <th className="pb-2 text-sm font-semibold text-gray-700">Severity</th>
+            <th className="pb-2 text-sm font-semibold text-gray-700">Problem</th>
+          </tr>
+        </thead>
+        <tbody>
+          {issues.map((issue, index) => (
+            <tr key={index} className="border-b border-gray-100">
+              <td className="py-2 text-sm text-gray-600 font-mono">{issue.file}</td>
+              <td className="py-2 text-sm text-gray-600">{issue.row ?? '–'}</td>
+              <td className="py-2">
+                <span className={`px-2 py-0.5 rounded text-xs font-semibold ${severityStyles[issue.severity]}`}>
+                  {issue.severity}
+                </span>
+              </td>
+              <td className="py-2 text-sm text-gray-900">{issue.message}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}